@@ -0,0 +1,137 @@
+// Service worker for the installed app. Keeps the app shell on the device so the dashboard opens
+// without waiting on the network, and wakes open tabs to send queued changes when the connection
+// comes back. Data requests to Supabase are never cached here.
+
+const SHELL_CACHE = 'ward-weaver-shell-v1';
+const SHELL_URLS = [
+  '/',
+  '/manifest.webmanifest',
+  '/favicon.ico',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png'
+];
+
+// Must match BACKGROUND_SYNC_TAG in src/lib/serviceWorker.ts
+const OUTBOX_SYNC_TAG = 'outbox-sync';
+// How long a tab gets to send its queued changes before the browser is asked to retry later
+const SYNC_REPLY_TIMEOUT_MS = 60000;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheResponse = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(SHELL_CACHE).then(cache => cache.put(request, copy));
+  }
+  return response;
+};
+
+const ASSET_PATH = /\/assets\/[^"'`()\s]+/g;
+
+// Each release renames its assets, so once the page is refreshed the ones it no longer refers to,
+// directly or from its scripts and stylesheets, are dropped. Until every asset the page names is
+// cached there is no telling what those refer to, so pruning waits for a later visit.
+const pruneAssets = async html => {
+  const cache = await caches.open(SHELL_CACHE);
+  const named = [...new Set(html.match(ASSET_PATH) || [])];
+  const files = await Promise.all(named.map(path => cache.match(path)));
+  if (files.some(file => !file)) return;
+
+  const nested = await Promise.all(files.map(async file => (await file.text()).match(ASSET_PATH) || []));
+  const used = new Set([...named, ...nested.flat()]);
+
+  const requests = await cache.keys();
+  await Promise.all(requests
+    .filter(request => {
+      const { pathname } = new URL(request.url);
+      return pathname.startsWith('/assets/') && !used.has(pathname);
+    })
+    .map(request => cache.delete(request)));
+};
+
+// Opens from the cached page straight away and refreshes it for the next visit
+const handleNavigation = async event => {
+  const cached = await caches.match('/');
+  const network = fetch(event.request).then(response => {
+    if (response.ok) {
+      event.waitUntil(response.clone().text().then(pruneAssets).catch(() => undefined));
+    }
+    return cacheResponse('/', response);
+  });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+};
+
+// Built assets have a content hash in their name, so a cached copy never goes stale
+const handleAsset = async request => {
+  const cached = await caches.match(request);
+  return cached || fetch(request).then(response => cacheResponse(request, response));
+};
+
+// Other files in public/ may change between releases, so the network wins when it answers
+const handleStatic = request =>
+  fetch(request)
+    .then(response => cacheResponse(request, response))
+    .catch(() => caches.match(request).then(cached => cached || Response.error()));
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(request));
+  } else {
+    event.respondWith(handleStatic(request));
+  }
+});
+
+// Asks the open tabs to send their queued changes and waits for the first one signed in to answer.
+// The queue and the agent's session live in the page, so with no tab open the changes go out on
+// the next visit instead.
+const syncOutbox = async () => {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length === 0) return;
+
+  const sent = await new Promise(resolve => {
+    const timer = setTimeout(() => resolve(false), SYNC_REPLY_TIMEOUT_MS);
+    windows.forEach(client => {
+      const channel = new MessageChannel();
+      channel.port1.onmessage = message => {
+        clearTimeout(timer);
+        resolve(Boolean(message.data && message.data.sent));
+      };
+      client.postMessage({ type: OUTBOX_SYNC_TAG }, [channel.port2]);
+    });
+  });
+
+  // Throwing makes the browser retry the sync later
+  if (!sent) throw new Error('Queued changes are still waiting');
+};
+
+self.addEventListener('sync', event => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(syncOutbox());
+  }
+});
@@ -7,6 +7,8 @@ import Index from "./pages/Index";
 import TeamAdmin from "./pages/TeamAdmin";
 import SuperAdmin from "./pages/SuperAdmin";
 import NotFound from "./pages/NotFound";
+import { RequirePermission } from "./components/RequirePermission";
+import { ROUTE_PERMISSIONS } from "./lib/permissions";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -24,7 +26,12 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
-          <Route path="/admin" element={<TeamAdmin />} />
+          <Route path="/admin" element={
+            <RequirePermission permission={ROUTE_PERMISSIONS['/admin']}>
+              {currentUser => <TeamAdmin currentUser={currentUser} />}
+            </RequirePermission>
+          } />
+          {/* Super admins sign in on the page itself against super_admin_sessions */}
           <Route path="/super-admin" element={<SuperAdmin />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, Check, Pencil, Plus, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  ActivityCategory,
+  DailyReportResult,
+  createActivityCategory,
+  getActivityCategories,
+  renameActivityCategory,
+  setActivityCategoryArchived,
+  swapActivityCategories
+} from "@/lib/dailyReportService";
+
+interface ActivityCategoryManagerProps {
+  panchayathId: string;
+}
+
+// The activity types agents of a panchayath count in their daily reports
+export const ActivityCategoryManager = ({ panchayathId }: ActivityCategoryManagerProps) => {
+  const [categories, setCategories] = useState<ActivityCategory[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const fetchCategories = useCallback(async () => {
+    setLoading(true);
+    setCategories(await getActivityCategories(panchayathId, true));
+    setLoading(false);
+  }, [panchayathId]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const active = categories.filter(category => !category.archived_at);
+  const archived = categories.filter(category => category.archived_at);
+
+  const handleResult = async (result: DailyReportResult) => {
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive"
+      });
+      return false;
+    }
+    await fetchCategories();
+    return true;
+  };
+
+  const addCategory = async () => {
+    const sortOrder = categories.reduce((max, category) => Math.max(max, category.sort_order), 0) + 1;
+    if (await handleResult(await createActivityCategory(panchayathId, newName, sortOrder))) {
+      setNewName("");
+    }
+  };
+
+  const saveName = async () => {
+    if (!editingId) return;
+    if (await handleResult(await renameActivityCategory(editingId, editingName))) {
+      setEditingId(null);
+    }
+  };
+
+  const move = async (index: number, offset: number) => {
+    const other = active[index + offset];
+    if (!other) return;
+    await handleResult(await swapActivityCategories(active[index], other));
+  };
+
+  if (loading && categories.length === 0) {
+    return <div className="text-center py-4 text-sm text-muted-foreground">Loading activity types...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {active.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No activity types yet - agents can only write a remark
+          </p>
+        )}
+        {active.map((category, index) => (
+          <div key={category.id} className="flex items-center gap-2 rounded-md border p-2">
+            {editingId === category.id ? (
+              <>
+                <Input
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && saveName()}
+                  className="h-8"
+                  autoFocus
+                />
+                <Button size="sm" variant="ghost" onClick={saveName} className="h-8 px-2" title="Save">
+                  <Check className="h-3 w-3" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} className="h-8 px-2" title="Cancel">
+                  <X className="h-3 w-3" />
+                </Button>
+              </>
+            ) : (
+              <>
+                <span className="flex-1 text-sm font-medium">{category.name}</span>
+                <Button size="sm" variant="ghost" onClick={() => move(index, -1)} disabled={index === 0} className="h-8 px-2" title="Move up">
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => move(index, 1)} disabled={index === active.length - 1} className="h-8 px-2" title="Move down">
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    setEditingId(category.id);
+                    setEditingName(category.name);
+                  }}
+                  className="h-8 px-2"
+                  title="Rename"
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={async () => handleResult(await setActivityCategoryArchived(category.id, true))}
+                  className="h-8 px-2"
+                  title="Archive"
+                >
+                  <Archive className="h-3 w-3" />
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addCategory()}
+          placeholder="New activity type, e.g. Houses surveyed"
+        />
+        <Button onClick={addCategory} disabled={!newName.trim()}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {archived.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Archived - kept in past reports</p>
+          <div className="flex flex-wrap gap-2">
+            {archived.map(category => (
+              <Badge key={category.id} variant="outline" className="flex items-center gap-1">
+                {category.name}
+                <button
+                  type="button"
+                  onClick={async () => handleResult(await setActivityCategoryArchived(category.id, false))}
+                  title="Restore"
+                >
+                  <ArchiveRestore className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
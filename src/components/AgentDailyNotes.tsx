@@ -7,8 +7,17 @@ import { Calendar } from "@/components/ui/calendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { CalendarIcon, FileText, User, Phone, ChevronLeft, ChevronRight } from "lucide-react";
 import { format, startOfMonth, endOfMonth, startOfYear, endOfYear } from "date-fns";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
+import {
+  ApprovedLeave,
+  INACTIVE_AFTER_MISSING_DAYS,
+  getApprovedLeaves,
+  getReportDayStatus,
+  hasDailyReport,
+  isOnApprovedLeave,
+  summarizeReportDays
+} from "@/lib/leaveService";
 
 interface AgentDailyNotesProps {
   agentName: string;
@@ -23,8 +32,16 @@ interface DailyNote {
   date: string;
   activity: string | null;
   is_leave: boolean;
+  ward: number | null;
+  late_submitted_at: string | null;
+  late_approved_by: string | null;
   created_at: string;
   updated_at: string;
+  entries: {
+    category_id: string;
+    quantity: number;
+    category: { name: string } | null;
+  }[];
 }
 
 export const AgentDailyNotes = ({ 
@@ -35,6 +52,7 @@ export const AgentDailyNotes = ({
   onOpenChange 
 }: AgentDailyNotesProps) => {
   const [notes, setNotes] = useState<DailyNote[]>([]);
+  const [leaves, setLeaves] = useState<ApprovedLeave[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [selectedNote, setSelectedNote] = useState<DailyNote | null>(null);
@@ -53,16 +71,23 @@ export const AgentDailyNotes = ({
       const startDate = startOfMonth(selectedMonth);
       const endDate = endOfMonth(selectedMonth);
       
-      const { data, error } = await supabase
-        .from('daily_notes')
-        .select('*')
-        .eq('mobile_number', agentMobile)
-        .gte('date', format(startDate, 'yyyy-MM-dd'))
-        .lte('date', format(endDate, 'yyyy-MM-dd'))
-        .order('date', { ascending: false });
+      const from = format(startDate, 'yyyy-MM-dd');
+      const to = format(endDate, 'yyyy-MM-dd');
+      
+      const [{ data, error }, approvedLeaves] = await Promise.all([
+        supabase
+          .from('daily_notes')
+          .select('*, entries:daily_note_entries(category_id, quantity, category:activity_categories(name))')
+          .eq('mobile_number', agentMobile)
+          .gte('date', from)
+          .lte('date', to)
+          .order('date', { ascending: false }),
+        getApprovedLeaves({ mobileNumber: agentMobile }, from, to)
+      ]);
 
       if (error) throw error;
-      setNotes(data || []);
+      setNotes((data || []) as DailyNote[]);
+      setLeaves(approvedLeaves);
     } catch (error) {
       console.error('Error fetching agent notes:', error);
       toast({
@@ -78,26 +103,24 @@ export const AgentDailyNotes = ({
   // Helper functions for calendar
   const hasActivity = (date: Date) => {
     const dateString = format(date, 'yyyy-MM-dd');
-    return notes.some(note => note.date === dateString && note.activity && !note.is_leave);
+    return notes.some(note => note.date === dateString && hasDailyReport(note));
   };
 
   const isOnLeave = (date: Date) => {
     const dateString = format(date, 'yyyy-MM-dd');
-    const today = format(new Date(), 'yyyy-MM-dd');
-    
-    // Don't mark future dates as leave
-    if (dateString > today) return false;
-    
-    const note = notes.find(note => note.date === dateString);
-    // Mark as leave if: 1) explicitly marked as leave, OR 2) no note exists for this past date
-    return !note || note.is_leave;
+    return !hasActivity(date) && isOnApprovedLeave(leaves, dateString);
   };
 
-  const hasNoActivity = (date: Date) => {
+  const isReportedLate = (date: Date) => !!getNoteForDate(date)?.late_submitted_at;
+
+  const isMissingReport = (date: Date) => {
     const dateString = format(date, 'yyyy-MM-dd');
-    const note = notes.find(note => note.date === dateString);
-    // Only show as "no activity" if note exists, not on leave, but no activity recorded
-    return note && !note.is_leave && (!note.activity || note.activity.trim() === '');
+    const today = format(new Date(), 'yyyy-MM-dd');
+    
+    // Today can still be reported, and future dates are not due yet
+    if (dateString >= today) return false;
+    
+    return getReportDayStatus(dateString, getNoteForDate(date), leaves) === 'missing';
   };
 
   const getNoteForDate = (date: Date) => {
@@ -117,7 +140,6 @@ export const AgentDailyNotes = ({
     const startDate = startOfMonth(selectedMonth);
     const endDate = endOfMonth(selectedMonth);
     const today = new Date();
-    const todayString = format(today, 'yyyy-MM-dd');
     
     // Generate all dates in the selected month up to today only
     const allPastDatesInMonth = [];
@@ -127,45 +149,18 @@ export const AgentDailyNotes = ({
       currentDate.setDate(currentDate.getDate() + 1);
     }
     
-    const totalDays = allPastDatesInMonth.length;
-    const activeDays = notes.filter(note => note.date <= todayString && !note.is_leave && note.activity && note.activity.trim() !== '').length;
-    const noActivityDays = notes.filter(note => note.date <= todayString && !note.is_leave && (!note.activity || note.activity.trim() === '')).length;
-    
-    // Calculate leave days: explicitly marked as leave + past days without any notes
-    const daysWithNotes = notes.map(note => note.date);
-    const pastDaysWithoutNotes = allPastDatesInMonth.filter(date => !daysWithNotes.includes(date));
-    const explicitLeaveDays = notes.filter(note => note.date <= todayString && note.is_leave).length;
-    const leaveDays = explicitLeaveDays + pastDaysWithoutNotes.length;
+    const summary = summarizeReportDays(allPastDatesInMonth, notes, leaves);
+    const lateDays = notes.filter(note => note.late_submitted_at && hasDailyReport(note)).length;
     
-    // Calculate inactive days (3+ consecutive leave/no activity days)
-    const inactiveDays = calculateInactiveDays(allPastDatesInMonth);
-    
-    return { totalDays, activeDays, leaveDays, noActivityDays, inactiveDays };
-  };
-
-  const calculateInactiveDays = (allPastDatesInMonth: string[]) => {
-    if (allPastDatesInMonth.length === 0) return 0;
-    
-    let inactiveDays = 0;
-    let consecutiveInactiveDays = 0;
-    
-    for (const dateStr of allPastDatesInMonth) {
-      const note = notes.find(n => n.date === dateStr);
-      const isInactiveDay = !note || note.is_leave || !note.activity || note.activity.trim() === '';
-      
-      if (isInactiveDay) {
-        consecutiveInactiveDays++;
-        // Only count as inactive if we have 3+ consecutive days
-        if (consecutiveInactiveDays >= 3) {
-          inactiveDays++;
-        }
-      } else {
-        // Reset counter on active day
-        consecutiveInactiveDays = 0;
-      }
-    }
-    
-    return inactiveDays;
+    return {
+      totalDays: allPastDatesInMonth.length,
+      activeDays: summary.reported_days,
+      lateDays,
+      leaveDays: summary.leave_days,
+      missingDays: summary.missing_days,
+      consecutiveMissingDays: summary.consecutive_missing_days,
+      isInactive: summary.consecutive_missing_days >= INACTIVE_AFTER_MISSING_DAYS
+    };
   };
 
   const stats = getActivityStats();
@@ -285,22 +280,28 @@ export const AgentDailyNotes = ({
                 <div className="text-center">
                   <div className="text-2xl font-bold text-green-600">{stats.activeDays}</div>
                   <div className="text-sm text-muted-foreground">Active Days</div>
+                  {stats.lateDays > 0 && (
+                    <div className="text-xs text-amber-600">{stats.lateDays} reported late</div>
+                  )}
                 </div>
               </CardContent>
             </Card>
             <Card>
               <CardContent className="pt-4">
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-red-600">{stats.leaveDays}</div>
-                  <div className="text-sm text-muted-foreground">Leave/No Entry</div>
+                  <div className="text-2xl font-bold text-blue-600">{stats.leaveDays}</div>
+                  <div className="text-sm text-muted-foreground">Approved Leave</div>
                 </div>
               </CardContent>
             </Card>
             <Card>
               <CardContent className="pt-4">
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-orange-600">{stats.noActivityDays}</div>
-                  <div className="text-sm text-muted-foreground">No Activity</div>
+                  <div className="text-2xl font-bold text-red-600">{stats.missingDays}</div>
+                  <div className="text-sm text-muted-foreground">Missing Reports</div>
+                  {stats.isInactive && (
+                    <div className="text-xs text-red-600">Inactive: {stats.consecutiveMissingDays} missed in a row</div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -315,18 +316,22 @@ export const AgentDailyNotes = ({
                   <CalendarIcon className="h-4 w-4" />
                   Daily Notes Calendar - {format(selectedMonth, 'MMMM yyyy')}
                 </CardTitle>
-                 <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                 <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
                    <div className="flex items-center gap-1">
                      <div className="w-3 h-3 bg-green-500 rounded-full"></div>
                      <span>Active</span>
                    </div>
+                   <div className="flex items-center gap-1">
+                     <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+                     <span>Approved Leave</span>
+                   </div>
                    <div className="flex items-center gap-1">
                      <div className="w-3 h-3 bg-red-500 rounded-full"></div>
-                     <span>Leave/No Entry</span>
+                     <span>Missing Report</span>
                    </div>
                    <div className="flex items-center gap-1">
-                     <div className="w-3 h-3 bg-orange-500 rounded-full"></div>
-                     <span>No Activity</span>
+                     <div className="w-3 h-3 rounded-full ring-2 ring-amber-500"></div>
+                     <span>Reported Late</span>
                    </div>
                  </div>
               </CardHeader>
@@ -344,12 +349,14 @@ export const AgentDailyNotes = ({
                     modifiers={{
                       hasActivity: (date) => hasActivity(date),
                       onLeave: (date) => isOnLeave(date),
-                      noActivity: (date) => hasNoActivity(date),
+                      missingReport: (date) => isMissingReport(date),
+                      reportedLate: (date) => isReportedLate(date),
                     }}
                     modifiersClassNames={{
                       hasActivity: "bg-green-500 text-white hover:bg-green-600",
-                      onLeave: "bg-red-500 text-white hover:bg-red-600",
-                      noActivity: "bg-orange-500 text-white hover:bg-orange-600",
+                      onLeave: "bg-blue-500 text-white hover:bg-blue-600",
+                      missingReport: "bg-red-500 text-white hover:bg-red-600",
+                      reportedLate: "ring-2 ring-amber-500",
                     }}
                   />
                 )}
@@ -373,20 +380,50 @@ export const AgentDailyNotes = ({
                      <div className="flex items-center gap-2">
                        <Badge 
                          variant={
-                           selectedNote.is_leave ? "destructive" : 
-                           !selectedNote.activity || selectedNote.activity.trim() === '' ? "secondary" : 
-                           "default"
+                           hasDailyReport(selectedNote) ? "default" : 
+                           isOnApprovedLeave(leaves, selectedNote.date) ? "secondary" : 
+                           "destructive"
                          }
                        >
-                         {selectedNote.is_leave ? "On Leave" : 
-                          !selectedNote.activity || selectedNote.activity.trim() === '' ? "No Activity" : 
-                          "Active"}
+                         {hasDailyReport(selectedNote) ? "Active" : 
+                          isOnApprovedLeave(leaves, selectedNote.date) ? "On Leave" : 
+                          "Nothing Reported"}
                        </Badge>
+                       {selectedNote.late_submitted_at && (
+                         <Badge variant="outline" className="border-amber-500 text-amber-700">Late</Badge>
+                       )}
+                       {selectedNote.ward && (
+                         <Badge variant="outline">Ward {selectedNote.ward}</Badge>
+                       )}
                        <span className="text-sm text-muted-foreground">
                          Updated: {format(new Date(selectedNote.updated_at), 'HH:mm')}
                        </span>
                      </div>
+
+                    {selectedNote.late_submitted_at && (
+                      <div className="text-xs text-muted-foreground space-y-1">
+                        <p>First submitted {format(new Date(selectedNote.created_at), 'dd MMM yyyy, hh:mm a')}</p>
+                        <p>
+                          Late report submitted {format(new Date(selectedNote.late_submitted_at), 'dd MMM yyyy, hh:mm a')}
+                          {selectedNote.late_approved_by && `, approved by ${selectedNote.late_approved_by}`}
+                        </p>
+                      </div>
+                    )}
                     
+                    {selectedNote.entries.length > 0 && (
+                      <div className="space-y-2">
+                        <h4 className="font-medium text-sm">Reported:</h4>
+                        <div className="grid grid-cols-2 gap-2">
+                          {selectedNote.entries.map(entry => (
+                            <div key={entry.category_id} className="flex items-center justify-between rounded-md bg-muted px-3 py-2 text-sm">
+                              <span>{entry.category?.name}</span>
+                              <span className="font-semibold">{entry.quantity}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {selectedNote.activity ? (
                       <div className="space-y-2">
                         <h4 className="font-medium text-sm">Daily Activity:</h4>
@@ -397,13 +434,14 @@ export const AgentDailyNotes = ({
                     ) : (
                       <div className="text-sm text-muted-foreground italic">
                         No activity recorded for this date
-                        {selectedNote.is_leave && " (marked as leave)"}
                       </div>
                     )}
                   </div>
                 ) : (
                   <div className="text-center py-8 text-muted-foreground">
-                    No data available for {format(selectedDate, 'MMMM do, yyyy')}
+                    {isOnApprovedLeave(leaves, format(selectedDate, 'yyyy-MM-dd'))
+                      ? `On approved leave on ${format(selectedDate, 'MMMM do, yyyy')}`
+                      : `No data available for ${format(selectedDate, 'MMMM do, yyyy')}`}
                   </div>
                 )}
               </CardContent>
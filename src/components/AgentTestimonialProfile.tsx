@@ -6,7 +6,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { TestimonialFormSimple } from "@/components/TestimonialFormSimple";
 import { MessageSquare, Star, TrendingUp, History } from "lucide-react";
 import { User } from "@/lib/authService";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 
@@ -0,0 +1,168 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, MessageSquare } from "lucide-react";
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { TaskUrgencyBadges } from "@/components/admin/TaskUrgencyBadges";
+import { TaskHistoryDialog } from "@/components/admin/TaskHistoryDialog";
+import { TaskCommentsDialog } from "@/components/admin/TaskCommentsDialog";
+import { TaskListItem, describeTaskScope, searchTasks } from "@/lib/taskService";
+
+interface AreaTasksProps {
+  panchayathId: string | null;
+}
+
+const holderName = (task: TaskListItem) =>
+  task.assignee_name || task.reassigned_coordinator?.name || task.reassigned_supervisor?.name || task.assigned_member?.name || null;
+
+// Tasks scoped to a panchayath, narrowed to a ward; those covering every ward show under each ward
+export const AreaTasks = ({ panchayathId }: AreaTasksProps) => {
+  const [tasks, setTasks] = useState<TaskListItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<'open' | 'finished'>('open');
+  const [ward, setWard] = useState<string>('all');
+  const [numberOfWards, setNumberOfWards] = useState(0);
+  const [historyTask, setHistoryTask] = useState<TaskListItem | null>(null);
+  const [commentsTask, setCommentsTask] = useState<TaskListItem | null>(null);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    if (!panchayathId) return;
+
+    const fetchNumberOfWards = async () => {
+      const { data } = await supabase
+        .from('panchayaths')
+        .select('number_of_wards')
+        .eq('id', panchayathId)
+        .single();
+
+      if (data) {
+        setNumberOfWards(data.number_of_wards);
+      }
+    };
+
+    fetchNumberOfWards();
+  }, [panchayathId]);
+
+  const fetchTasks = useCallback(async (offset = 0) => {
+    if (!panchayathId) return;
+
+    const request = ++latestRequest.current;
+    setLoading(true);
+    const page = await searchTasks({
+      panchayathId,
+      ward: ward === 'all' ? undefined : Number(ward),
+      status,
+      topLevelOnly: true,
+      sort: 'urgency'
+    }, offset);
+
+    if (request !== latestRequest.current) return;
+
+    setTasks(prev => offset === 0 ? page.tasks : [...prev, ...page.tasks]);
+    setTotal(page.total);
+    setLoading(false);
+  }, [panchayathId, status, ward]);
+
+  useEffect(() => {
+    fetchTasks(0);
+  }, [fetchTasks]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <label className="text-sm font-medium whitespace-nowrap">Ward:</label>
+        <Select value={ward} onValueChange={setWard}>
+          <SelectTrigger className="w-full sm:max-w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All wards</SelectItem>
+            {Array.from({ length: numberOfWards }, (_, i) => i + 1).map(w => (
+              <SelectItem key={w} value={String(w)}>Ward {w}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="text-sm font-medium whitespace-nowrap">Status:</label>
+        <Select value={status} onValueChange={(value: 'open' | 'finished') => setStatus(value)}>
+          <SelectTrigger className="w-full sm:max-w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="finished">Finished</SelectItem>
+          </SelectContent>
+        </Select>
+        <Badge variant="outline">{total} tasks</Badge>
+      </div>
+
+      {loading && tasks.length === 0 ? (
+        <div className="text-center py-8">Loading tasks...</div>
+      ) : tasks.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          No {status} tasks for this area
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Task</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Urgency</TableHead>
+                <TableHead>With</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tasks.map(task => (
+                <TableRow key={task.id}>
+                  <TableCell>
+                    <div className="font-medium">{task.text}</div>
+                    <div className="text-xs text-muted-foreground">{describeTaskScope(task)}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={task.status === 'finished' ? 'secondary' : task.status === 'requested' ? 'destructive' : 'outline'}>
+                      {task.status === 'requested' ? 'Requested' : task.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <TaskUrgencyBadges task={task} />
+                  </TableCell>
+                  <TableCell>
+                    {holderName(task) || <span className="text-muted-foreground">Unassigned</span>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => setCommentsTask(task)} className="h-8 px-2" title="Comments">
+                        <MessageSquare className="h-3 w-3" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setHistoryTask(task)} className="h-8 px-2" title="Task history">
+                        <History className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {tasks.length < total && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => fetchTasks(tasks.length)} disabled={loading}>
+            {loading ? 'Loading...' : `Load more (${tasks.length} of ${total})`}
+          </Button>
+        </div>
+      )}
+
+      <TaskHistoryDialog task={historyTask} onOpenChange={(open) => !open && setHistoryTask(null)} />
+
+      <TaskCommentsDialog task={commentsTask} onOpenChange={(open) => !open && setCommentsTask(null)} />
+    </div>
+  );
+};
@@ -4,9 +4,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
-import { checkMobileDuplicate, getTableDisplayName } from "@/lib/mobileValidation";
+import { getMobileConflict, getMobileConflictMessage } from "@/lib/mobileValidation";
 import { AgentConfirmationDialog } from "./AgentConfirmationDialog";
 
 export interface CoordinatorFormProps {
@@ -117,18 +117,6 @@ export const CoordinatorForm = ({ selectedPanchayath: preSelectedPanchayath, edi
 
     setLoading(true);
     try {
-      // Check for duplicate mobile number
-      const duplicateCheck = await checkMobileDuplicate(mobile, editingCoordinator?.id, 'coordinators');
-      if (duplicateCheck.isDuplicate) {
-        toast({
-          title: "Error",
-          description: `This mobile number is already registered in ${getTableDisplayName(duplicateCheck.table!)}`,
-          variant: "destructive",
-        });
-        setLoading(false);
-        return;
-      }
-
       if (isEditing) {
         console.log("Updating coordinator with ID:", editingCoordinator.id);
         console.log("Coordinator data:", editingCoordinator);
@@ -193,7 +181,10 @@ export const CoordinatorForm = ({ selectedPanchayath: preSelectedPanchayath, edi
     } catch (error: any) {
       console.error(`Error ${isEditing ? 'updating' : 'adding'} coordinator:`, error);
       let errorMessage = `Failed to ${isEditing ? 'update' : 'add'} coordinator`;
-      if (error.code === '23505') {
+      const conflict = getMobileConflict(error);
+      if (conflict) {
+        errorMessage = getMobileConflictMessage(conflict);
+      } else if (error.code === '23505') {
         if (error.message.includes('mobile_number')) {
           errorMessage = "This mobile number is already registered";
         } else if (error.message.includes('panchayath_id, ward')) {
@@ -1,17 +1,29 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { Tables } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { readCache, writeCache } from "@/lib/offlineCache";
 
 interface CoordinatorHierarchyViewProps {
   panchayathId: string | null;
 }
 
+interface CachedHierarchy {
+  panchayathName: string;
+  rows: Tables<'hierarchy_view'>[];
+}
+
+const hierarchyCacheKey = (panchayathId: string) => `hierarchy:${panchayathId}`;
+
 export const CoordinatorHierarchyView = ({ panchayathId }: CoordinatorHierarchyViewProps) => {
   const [hierarchyData, setHierarchyData] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [panchayathName, setPanchayathName] = useState("");
+  // When the hierarchy shown is the copy saved on this device because the server could not be reached
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -23,15 +35,22 @@ export const CoordinatorHierarchyView = ({ panchayathId }: CoordinatorHierarchyV
   const fetchHierarchyData = async () => {
     if (!panchayathId) return;
 
-    setLoading(true);
+    // Show the last-known hierarchy straight away and refresh it in the background
+    const cached = readCache<CachedHierarchy>(hierarchyCacheKey(panchayathId));
+    setPanchayathName(cached?.value.panchayathName || "");
+    setHierarchyData(cached?.value.rows || []);
+    setCachedAt(null);
+    setLoading(!cached);
     try {
       // First get panchayath name
-      const { data: panchayath } = await supabase
+      const { data: panchayath, error: panchayathError } = await supabase
         .from('panchayaths')
         .select('name')
         .eq('id', panchayathId)
         .single();
 
+      if (panchayathError) throw panchayathError;
+
       if (panchayath) {
         setPanchayathName(panchayath.name);
         
@@ -45,14 +64,19 @@ export const CoordinatorHierarchyView = ({ panchayathId }: CoordinatorHierarchyV
 
         if (error) throw error;
         setHierarchyData(data || []);
+        writeCache<CachedHierarchy>(hierarchyCacheKey(panchayathId), { panchayathName: panchayath.name, rows: data || [] });
       }
     } catch (error) {
       console.error("Error fetching hierarchy data:", error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch hierarchy data",
-        variant: "destructive",
-      });
+      if (cached) {
+        setCachedAt(cached.savedAt);
+      } else {
+        toast({
+          title: "Error",
+          description: "Failed to fetch hierarchy data",
+          variant: "destructive",
+        });
+      }
     } finally {
       setLoading(false);
     }
@@ -79,6 +103,11 @@ export const CoordinatorHierarchyView = ({ panchayathId }: CoordinatorHierarchyV
     <div className="space-y-6">
       <div className="text-center mb-6">
         <h3 className="text-lg font-semibold">{panchayathName} - Organizational Hierarchy</h3>
+        {cachedAt && (
+          <p className="text-xs text-muted-foreground mt-1">
+            Offline - showing the hierarchy saved on {format(new Date(cachedAt), 'dd MMM, hh:mm a')}
+          </p>
+        )}
       </div>
       
       <div className="space-y-6">
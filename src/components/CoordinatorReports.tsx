@@ -6,9 +6,26 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { CoordinatorHierarchyView } from "@/components/CoordinatorHierarchyView";
 import { CoordinatorHierarchyChart } from "@/components/CoordinatorHierarchyChart";
-import { supabase } from "@/integrations/supabase/client";
+import { AreaTasks } from "@/components/AreaTasks";
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { format } from "date-fns";
 import { User } from "@/lib/authService";
-import { BarChart3, Network, TrendingDown, ChevronDown } from "lucide-react";
+import {
+  ActivityTotal,
+  CategoryTotal,
+  agentActivityTotals,
+  getActivityCategories,
+  getActivityTotals,
+  summarizeActivityTotals
+} from "@/lib/dailyReportService";
+import {
+  ApprovedLeave,
+  INACTIVE_AFTER_MISSING_DAYS,
+  getApprovedLeaves,
+  listDates,
+  summarizeReportDays
+} from "@/lib/leaveService";
+import { BarChart3, Network, TrendingDown, ChevronDown, ListTodo } from "lucide-react";
 
 interface CoordinatorReportsProps {
   currentUser: User;
@@ -19,10 +36,13 @@ interface AgentPerformance {
   agent_name: string;
   agent_type: string;
   mobile_number: string;
-  consecutive_leave_days: number;
+  consecutive_missing_days: number;
   is_inactive: boolean;
   last_activity_date: string | null;
-  total_notes: number;
+  reported_days: number;
+  leave_days: number;
+  missing_days: number;
+  activity_totals: Record<string, number>;
 }
 
 interface PerformanceStats {
@@ -31,6 +51,16 @@ interface PerformanceStats {
   inactive_percentage: number;
 }
 
+// The last 30 days, up to today
+const reportRange = () => {
+  const thirtyDaysAgo = new Date();
+  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+  return {
+    from: format(thirtyDaysAgo, 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  };
+};
+
 export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) => {
   const [agentPerformance, setAgentPerformance] = useState<AgentPerformance[]>([]);
   const [performanceStats, setPerformanceStats] = useState<PerformanceStats>({
@@ -38,6 +68,7 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
     inactive_agents: 0,
     inactive_percentage: 0
   });
+  const [categoryTotals, setCategoryTotals] = useState<CategoryTotal[]>([]);
   const [loading, setLoading] = useState(false);
   const [panchayathName, setPanchayathName] = useState<string>("");
 
@@ -69,6 +100,14 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
     const performances: AgentPerformance[] = [];
 
     try {
+      const { from, to } = reportRange();
+      const [categories, totals, leaves] = await Promise.all([
+        getActivityCategories(currentUser.panchayath_id, true),
+        getActivityTotals(currentUser.panchayath_id, from, to),
+        getApprovedLeaves({ panchayathId: currentUser.panchayath_id }, from, to)
+      ]);
+      setCategoryTotals(summarizeActivityTotals(categories, totals));
+
       // Fetch coordinators for this panchayath
       const { data: coordinators } = await supabase
         .from('coordinators')
@@ -80,7 +119,9 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
           const performance = await analyzeAgentPerformance(
             coordinator.mobile_number, 
             coordinator.name, 
-            'coordinator'
+            'coordinator',
+            totals,
+            leaves
           );
           if (performance) {
             performances.push({
@@ -102,7 +143,9 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
           const performance = await analyzeAgentPerformance(
             supervisor.mobile_number, 
             supervisor.name, 
-            'supervisor'
+            'supervisor',
+            totals,
+            leaves
           );
           if (performance) {
             performances.push({
@@ -124,7 +167,9 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
           const performance = await analyzeAgentPerformance(
             groupLeader.mobile_number, 
             groupLeader.name, 
-            'group_leader'
+            'group_leader',
+            totals,
+            leaves
           );
           if (performance) {
             performances.push({
@@ -146,7 +191,9 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
           const performance = await analyzeAgentPerformance(
             pro.mobile_number, 
             pro.name, 
-            'pro'
+            'pro',
+            totals,
+            leaves
           );
           if (performance) {
             performances.push({
@@ -180,17 +227,18 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
   const analyzeAgentPerformance = async (
     mobileNumber: string, 
     agentName: string, 
-    agentType: string
+    agentType: string,
+    totals: ActivityTotal[],
+    leaves: ApprovedLeave[]
   ): Promise<Omit<AgentPerformance, 'agent_id'> | null> => {
     try {
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+      const { from, to } = reportRange();
 
       const { data: notes, error } = await supabase
         .from('daily_notes')
-        .select('date, is_leave, activity')
+        .select('date, is_leave, activity, entries:daily_note_entries(quantity)')
         .eq('mobile_number', mobileNumber)
-        .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
+        .gte('date', from)
         .order('date', { ascending: false });
 
       if (error) {
@@ -198,40 +246,19 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
         return null;
       }
 
-      let consecutiveLeaveDays = 0;
-      let lastActivityDate: string | null = null;
-      const totalNotes = notes?.length || 0;
-
-      if (notes && notes.length > 0) {
-        // Sort notes by date (most recent first)
-        const sortedNotes = notes.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-        
-        // Count consecutive leave days from the most recent date
-        for (const note of sortedNotes) {
-          if (note.is_leave) {
-            consecutiveLeaveDays++;
-          } else {
-            break; // Stop counting when we find a non-leave day
-          }
-        }
-
-        // Find the most recent activity (non-leave day)
-        const lastActiveNote = sortedNotes.find(note => !note.is_leave);
-        if (lastActiveNote) {
-          lastActivityDate = lastActiveNote.date;
-        }
-      }
-
-      const isInactive = consecutiveLeaveDays >= 3;
+      const summary = summarizeReportDays(listDates(from, to), notes || [], leaves, mobileNumber);
 
       return {
         agent_name: agentName,
         agent_type: agentType,
         mobile_number: mobileNumber,
-        consecutive_leave_days: consecutiveLeaveDays,
-        is_inactive: isInactive,
-        last_activity_date: lastActivityDate,
-        total_notes: totalNotes
+        consecutive_missing_days: summary.consecutive_missing_days,
+        is_inactive: summary.consecutive_missing_days >= INACTIVE_AFTER_MISSING_DAYS,
+        last_activity_date: summary.last_report_date,
+        reported_days: summary.reported_days,
+        leave_days: summary.leave_days,
+        missing_days: summary.missing_days,
+        activity_totals: agentActivityTotals(totals, mobileNumber)
       };
 
     } catch (error) {
@@ -256,12 +283,12 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
             Reports - {panchayathName}
           </CardTitle>
           <CardDescription>
-            Performance reports and hierarchy for your panchayath
+            Performance reports, hierarchy and tasks for your panchayath
           </CardDescription>
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="performance" className="w-full">
-            <TabsList className="grid w-full grid-cols-3 mb-6">
+            <TabsList className="grid w-full grid-cols-4 mb-6">
               <TabsTrigger value="performance" className="flex items-center gap-2">
                 <TrendingDown className="h-4 w-4" />
                 Performance
@@ -274,6 +301,10 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
                 <Network className="h-4 w-4" />
                 Hierarchy Count
               </TabsTrigger>
+              <TabsTrigger value="tasks" className="flex items-center gap-2">
+                <ListTodo className="h-4 w-4" />
+                Tasks
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="performance" className="space-y-6">
@@ -313,6 +344,28 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
                 </Card>
               </div>
 
+              {/* Reported activity over the same 30 days */}
+              {categoryTotals.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-lg font-semibold">Reported Activity (last 30 days)</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {categoryTotals.map(({ category, quantity, agents }) => (
+                      <Card key={category.id}>
+                        <CardHeader className="pb-3">
+                          <CardTitle className="text-sm">{category.name}</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-3xl font-bold text-primary">{quantity}</div>
+                          <p className="text-xs text-muted-foreground">
+                            {agents} {agents === 1 ? 'agent' : 'agents'}
+                          </p>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Performance by Role */}
               <div className="space-y-4">
                 <div className="flex items-center gap-2">
@@ -363,9 +416,14 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
                                         <TableHead>Name</TableHead>
                                         <TableHead>Mobile</TableHead>
                                         <TableHead>Status</TableHead>
-                                        <TableHead>Leave Days</TableHead>
-                                        <TableHead>Last Activity</TableHead>
-                                        <TableHead>Total Notes</TableHead>
+                                        <TableHead>Missing in a Row</TableHead>
+                                        <TableHead>Last Report</TableHead>
+                                        <TableHead>Reported Days</TableHead>
+                                        <TableHead>Missing Reports</TableHead>
+                                        <TableHead>Approved Leave</TableHead>
+                                        {categoryTotals.map(({ category }) => (
+                                          <TableHead key={category.id} className="text-right">{category.name}</TableHead>
+                                        ))}
                                       </TableRow>
                                     </TableHeader>
                                     <TableBody>
@@ -375,18 +433,25 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
                                           <TableCell>{agent.mobile_number}</TableCell>
                                           <TableCell>{getStatusBadge(agent)}</TableCell>
                                           <TableCell>
-                                            <span className={agent.consecutive_leave_days >= 3 ? "text-destructive font-medium" : ""}>
-                                              {agent.consecutive_leave_days}
+                                            <span className={agent.is_inactive ? "text-destructive font-medium" : ""}>
+                                              {agent.consecutive_missing_days}
                                             </span>
                                           </TableCell>
                                           <TableCell>
                                             {agent.last_activity_date ? (
                                               new Date(agent.last_activity_date).toLocaleDateString()
                                             ) : (
-                                              <span className="text-muted-foreground">No activity</span>
+                                              <span className="text-muted-foreground">No report</span>
                                             )}
                                           </TableCell>
-                                          <TableCell>{agent.total_notes}</TableCell>
+                                          <TableCell>{agent.reported_days}</TableCell>
+                                          <TableCell>{agent.missing_days}</TableCell>
+                                          <TableCell>{agent.leave_days}</TableCell>
+                                          {categoryTotals.map(({ category }) => (
+                                            <TableCell key={category.id} className="text-right">
+                                              {agent.activity_totals[category.id] || 0}
+                                            </TableCell>
+                                          ))}
                                         </TableRow>
                                       ))}
                                     </TableBody>
@@ -410,6 +475,10 @@ export const CoordinatorReports = ({ currentUser }: CoordinatorReportsProps) =>
             <TabsContent value="hierarchy-count">
               <CoordinatorHierarchyChart panchayathId={currentUser.panchayath_id} />
             </TabsContent>
+
+            <TabsContent value="tasks">
+              <AreaTasks panchayathId={currentUser.panchayath_id} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -1,21 +1,29 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FileText, History, Save } from "lucide-react";
-import { format } from "date-fns";
-import { supabase } from "@/integrations/supabase/client";
+import { format, subYears } from "date-fns";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { toast } from "@/hooks/use-toast";
 import { User } from "@/lib/authService";
-interface DailyNoteData {
-  id?: string;
-  date: string;
-  activity: string | null;
-  is_leave: boolean;
-  mobile_number?: string;
-}
+import {
+  ActivityCategory,
+  DAILY_NOTE_SELECT,
+  DailyNote as DailyNoteData,
+  LateDailyReport,
+  cancelLateDailyReport,
+  getActivityCategories,
+  getLateDailyReports,
+  isWithinLateReportWindow
+} from "@/lib/dailyReportService";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { ApprovedLeave, getApprovedLeaves, getReportDayStatus } from "@/lib/leaveService";
 interface DailyNoteProps {
   currentUser: User;
 }
@@ -24,36 +32,45 @@ export const DailyNote = ({
 }: DailyNoteProps) => {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [activity, setActivity] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [ward, setWard] = useState<number | null>(currentUser.ward ?? null);
+  const [categories, setCategories] = useState<ActivityCategory[]>([]);
+  const [numberOfWards, setNumberOfWards] = useState(0);
+  const [lateReportDays, setLateReportDays] = useState(0);
+  const [lateReports, setLateReports] = useState<LateDailyReport[]>([]);
   const [notes, setNotes] = useState<DailyNoteData[]>([]);
+  const [leaves, setLeaves] = useState<ApprovedLeave[]>([]);
   const [currentNote, setCurrentNote] = useState<DailyNoteData | null>(null);
   const [activeTab, setActiveTab] = useState("today");
   const today = new Date();
   const todayStr = format(today, 'yyyy-MM-dd');
   const selectedDateStr = format(selectedDate, 'yyyy-MM-dd');
   const isToday = selectedDateStr === todayStr;
-  useEffect(() => {
-    if (currentUser) {
-      fetchNotes();
-    }
-  }, [currentUser]);
-  useEffect(() => {
-    if (selectedDate && notes.length > 0) {
-      const note = notes.find(n => n.date === selectedDateStr);
-      setCurrentNote(note || null);
-      setActivity(note?.activity || "");
-    }
-  }, [selectedDate, notes, selectedDateStr]);
-  const fetchNotes = async () => {
-    if (!currentUser?.mobile_number) return;
+  // Newest late report for the selected day, if any
+  const selectedLateReport = lateReports.find(report => report.date === selectedDateStr);
+  const isLatePending = selectedLateReport?.status === 'pending';
+  const canReportLate = !isToday && !isLatePending && isWithinLateReportWindow(selectedDateStr, lateReportDays);
+  const isEditable = isToday || canReportLate;
+  const {
+    items: outbox,
+    syncedAt,
+    submit
+  } = useOfflineQueue(currentUser.id);
+  // A note saved on this device that has not reached the server yet
+  const queuedReport = outbox.find(item => item.kind === 'daily_report' && item.date === selectedDateStr);
+  const fetchNotes = useCallback(async () => {
+    if (!currentUser.mobile_number) return;
     try {
       const {
         data,
         error
-      } = await supabase.from('daily_notes').select('*').eq('mobile_number', currentUser.mobile_number).order('date', {
+      } = await supabase.from('daily_notes').select(DAILY_NOTE_SELECT).eq('mobile_number', currentUser.mobile_number).eq('user_id', currentUser.id).order('date', {
         ascending: false
       });
       if (error) throw error;
-      setNotes(data || []);
+      setNotes((data || []) as DailyNoteData[]);
+      setLateReports(await getLateDailyReports(currentUser.id));
+      setLeaves(await getApprovedLeaves({ mobileNumber: currentUser.mobile_number }, format(subYears(new Date(), 1), 'yyyy-MM-dd'), todayStr));
     } catch (error) {
       console.error('Error fetching notes:', error);
       toast({
@@ -62,12 +79,50 @@ export const DailyNote = ({
         variant: "destructive"
       });
     }
-  };
+  }, [currentUser.id, currentUser.mobile_number, todayStr]);
+  useEffect(() => {
+    fetchNotes();
+  }, [fetchNotes]);
+  const fetchCategories = useCallback(async () => {
+    const [activeCategories, {
+      data
+    }] = await Promise.all([getActivityCategories(currentUser.panchayath_id), supabase.from('panchayaths').select('number_of_wards, late_report_days').eq('id', currentUser.panchayath_id).single()]);
+    setCategories(activeCategories);
+    setNumberOfWards(data?.number_of_wards || 0);
+    setLateReportDays(data?.late_report_days || 0);
+  }, [currentUser.panchayath_id]);
+  useEffect(() => {
+    if (currentUser.panchayath_id) {
+      fetchCategories();
+    }
+  }, [currentUser.panchayath_id, fetchCategories]);
+  useEffect(() => {
+    if (selectedDate && (notes.length > 0 || queuedReport)) {
+      const note = notes.find(n => n.date === selectedDateStr);
+      setCurrentNote(note || null);
+      // Show what the agent last sent: a note waiting to sync, then a late report waiting for approval
+      if (queuedReport?.kind === 'daily_report') {
+        setActivity(queuedReport.input.activity);
+        setQuantities(queuedReport.input.quantities);
+        setWard(queuedReport.input.ward);
+        return;
+      }
+      const shown = isLatePending ? selectedLateReport : note;
+      setActivity(shown?.activity || "");
+      setQuantities(Object.fromEntries((shown?.entries || []).map(entry => [entry.category_id, entry.quantity])));
+      setWard(shown ? shown.ward : currentUser.ward ?? null);
+    }
+  }, [selectedDate, notes, selectedDateStr, queuedReport, isLatePending, selectedLateReport, currentUser.ward]);
+  useEffect(() => {
+    if (syncedAt) {
+      fetchNotes();
+    }
+  }, [syncedAt, fetchNotes]);
   const saveNote = async () => {
-    if (!isToday) {
+    if (!isEditable) {
       toast({
         title: "Cannot Edit Past Dates",
-        description: "You can only edit today's activity",
+        description: lateReportDays > 0 ? `You can only report on the last ${lateReportDays} days` : "You can only edit today's activity",
         variant: "destructive"
       });
       return;
@@ -80,51 +135,68 @@ export const DailyNote = ({
       });
       return;
     }
-    try {
-      const noteData = {
-        mobile_number: currentUser.mobile_number,
-        user_id: currentUser.id,
-        date: selectedDateStr,
-        activity: activity.trim() || null,
-        is_leave: !activity.trim()
-      };
-      if (currentNote) {
-        const {
-          error
-        } = await supabase.from('daily_notes').update(noteData).eq('id', currentNote.id);
-        if (error) throw error;
-      } else {
-        const {
-          error
-        } = await supabase.from('daily_notes').insert([noteData]);
-        if (error) throw error;
-      }
-      await fetchNotes();
+    const input = {
+      activity,
+      ward,
+      quantities
+    };
+    const result = await submit({
+      kind: 'daily_report',
+      userId: currentUser.id,
+      date: selectedDateStr,
+      input,
+      baseUpdatedAt: currentNote?.updated_at ?? null
+    });
+    if (!result.success) {
       toast({
-        title: "Success",
-        description: "Daily note saved successfully"
+        title: "Error",
+        description: result.error,
+        variant: "destructive"
       });
-    } catch (error) {
-      console.error('Error saving note:', error);
+      return;
+    }
+    if (result.queued) {
+      toast({
+        title: "Saved on this device",
+        description: "No connection right now - your note will be sent when you are back online"
+      });
+      return;
+    }
+    await fetchNotes();
+    toast({
+      title: "Success",
+      description: isToday ? "Daily note saved successfully" : "Late report sent to your supervisor for approval"
+    });
+  };
+  const withdrawLateReport = async () => {
+    if (!selectedLateReport) return;
+    const result = await cancelLateDailyReport(selectedLateReport.id);
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Failed to save daily note",
+        description: result.error,
         variant: "destructive"
       });
+      return;
     }
+    await fetchNotes();
   };
-  const hasActivity = (date: Date) => {
-    const dateStr = format(date, 'yyyy-MM-dd');
-    const note = notes.find(n => n.date === dateStr);
-    return !!(note && !note.is_leave && note.activity);
+  const setQuantity = (categoryId: string, value: string) => {
+    const quantity = Math.max(0, Math.floor(Number(value) || 0));
+    setQuantities(prev => ({
+      ...prev,
+      [categoryId]: quantity
+    }));
   };
-  const isOnLeave = (date: Date) => {
+  const getDayStatus = (date: Date) => {
     const dateStr = format(date, 'yyyy-MM-dd');
-    const note = notes.find(n => n.date === dateStr);
-    // Only show as leave for past dates with no activity
-    const isPastDate = date < new Date(new Date().setHours(0, 0, 0, 0));
-    return isPastDate && (!note || note.is_leave || !note.activity);
+    return getReportDayStatus(dateStr, notes.find(n => n.date === dateStr), leaves);
   };
+  const hasActivity = (date: Date) => getDayStatus(date) === 'reported';
+  const isOnLeave = (date: Date) => format(date, 'yyyy-MM-dd') <= todayStr && getDayStatus(date) === 'leave';
+  const isAwaitingApproval = (date: Date) => lateReports.some(report => report.date === format(date, 'yyyy-MM-dd') && report.status === 'pending');
+  // Only past days count as missing, today can still be reported
+  const isMissingReport = (date: Date) => format(date, 'yyyy-MM-dd') < todayStr && getDayStatus(date) === 'missing';
 
   const isFutureDate = (date: Date) => {
     const today = new Date();
@@ -165,19 +237,65 @@ export const DailyNote = ({
                   <h3 className="font-medium text-foreground/90">
                     {format(selectedDate, 'EEEE, MMMM do, yyyy')}
                   </h3>
-                  {currentNote && !currentNote.is_leave && currentNote.activity && <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />}
-                  {currentNote && (currentNote.is_leave || !currentNote.activity) && <div className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />}
+                  {currentNote && !currentNote.is_leave && <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />}
+                  {currentNote && currentNote.is_leave && <div className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />}
                 </div>
+
+                {categories.length > 0 && <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {categories.map(category => <div key={category.id} className="space-y-1">
+                        <Label htmlFor={`activity-${category.id}`} className="text-sm">{category.name}</Label>
+                        <Input id={`activity-${category.id}`} type="number" inputMode="numeric" min={0} value={quantities[category.id] || ""} onChange={e => setQuantity(category.id, e.target.value)} placeholder="0" disabled={!isEditable} className="bg-gray-50" />
+                      </div>)}
+                  </div>}
+
+                {numberOfWards > 0 && <div className="space-y-1">
+                    <Label className="text-sm">Ward</Label>
+                    <Select value={ward ? String(ward) : "none"} onValueChange={value => setWard(value === "none" ? null : Number(value))} disabled={!isEditable}>
+                      <SelectTrigger className="bg-gray-50">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No particular ward</SelectItem>
+                        {Array.from({
+                      length: numberOfWards
+                    }, (_, i) => i + 1).map(w => <SelectItem key={w} value={String(w)}>Ward {w}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>}
                 
-                <Textarea value={activity} onChange={e => setActivity(e.target.value)} placeholder={isToday ? "What did you accomplish today?" : "View only - cannot edit past dates"} disabled={!isToday} className="min-h-[120px] border-white/10 backdrop-blur-sm resize-none bg-gray-50" />
+                <Textarea value={activity} onChange={e => setActivity(e.target.value)} placeholder={isToday ? "What did you accomplish today?" : isEditable ? "What did you do on this day?" : "View only - cannot edit past dates"} disabled={!isEditable} className="min-h-[120px] border-white/10 backdrop-blur-sm resize-none bg-gray-50" />
                 
-                {isToday && <Button onClick={saveNote} className="w-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 transition-all duration-300 hover-scale">
+                {isEditable && <Button onClick={saveNote} className="w-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 transition-all duration-300 hover-scale">
                     <Save className="h-4 w-4 mr-2" />
-                    Save Activity
+                    {isToday ? "Save Activity" : currentNote ? "Send Correction for Approval" : "Send Late Report for Approval"}
                   </Button>}
+
+                {queuedReport && <p className="text-xs text-amber-700 text-center">
+                    Saved on this device {format(new Date(queuedReport.queuedAt), 'hh:mm a')} - waiting to sync
+                    {queuedReport.status === 'conflict' && `: ${queuedReport.error}`}
+                  </p>}
+
+                {currentNote?.late_submitted_at && <p className="text-xs text-muted-foreground text-center">
+                    Reported late on {format(new Date(currentNote.late_submitted_at), 'dd MMM yyyy, hh:mm a')}
+                    {currentNote.late_approved_by && `, approved by ${currentNote.late_approved_by}`}
+                  </p>}
+
+                {isLatePending && selectedLateReport && <div className="flex items-center justify-between gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm">
+                    <span>
+                      Waiting for your supervisor's approval, sent {format(new Date(selectedLateReport.created_at), 'dd MMM yyyy, hh:mm a')}
+                    </span>
+                    <Button size="sm" variant="ghost" onClick={withdrawLateReport} className="h-7 text-destructive">
+                      Withdraw
+                    </Button>
+                  </div>}
+
+                {selectedLateReport?.status === 'rejected' && <p className="text-sm text-destructive text-center">
+                    Your late report was rejected{selectedLateReport.reviewed_by && ` by ${selectedLateReport.reviewed_by}`}
+                    {selectedLateReport.review_note && `: ${selectedLateReport.review_note}`}
+                  </p>}
                 
-                {!isToday && <p className="text-sm text-muted-foreground text-center py-2">
-                    You can only edit today's activity
+                {!isEditable && !isLatePending && <p className="text-sm text-muted-foreground text-center py-2">
+                    {lateReportDays > 0 ? `You can only report on the last ${lateReportDays} days` : "You can only edit today's activity"}
                   </p>}
               </div>
             </TabsContent>
@@ -188,14 +306,22 @@ export const DailyNote = ({
                   <p className="text-sm text-muted-foreground mb-3">
                     Select a date to view activities
                   </p>
-                  <div className="flex justify-center gap-4 text-xs">
+                  <div className="flex flex-wrap justify-center gap-4 text-xs">
                     <div className="flex items-center gap-2">
                       <div className="h-2 w-2 rounded-full bg-green-500" />
                       <span>Active</span>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 w-2 rounded-full bg-blue-500" />
+                      <span>Approved Leave</span>
+                    </div>
                     <div className="flex items-center gap-2">
                       <div className="h-2 w-2 rounded-full bg-red-500" />
-                      <span>Leave</span>
+                      <span>Missing Report</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 w-2 rounded-full bg-amber-500" />
+                      <span>Awaiting Approval</span>
                     </div>
                   </div>
                 </div>
@@ -213,11 +339,15 @@ export const DailyNote = ({
                   disabled={isFutureDate}
                   modifiers={{
                     hasActivity: hasActivity,
-                    onLeave: isOnLeave
+                    onLeave: isOnLeave,
+                    missingReport: isMissingReport,
+                    awaitingApproval: isAwaitingApproval
                   }} 
                   modifiersClassNames={{
                     hasActivity: "bg-green-500/20 text-green-800 hover:bg-green-500/30 border-green-500/50",
-                    onLeave: "bg-red-500/20 text-red-800 hover:bg-red-500/30 border-red-500/50"
+                    onLeave: "bg-blue-500/20 text-blue-800 hover:bg-blue-500/30 border-blue-500/50",
+                    missingReport: "bg-red-500/20 text-red-800 hover:bg-red-500/30 border-red-500/50",
+                    awaitingApproval: "ring-2 ring-amber-500"
                   }} 
                 />
               </div>
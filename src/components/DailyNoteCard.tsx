@@ -1,10 +1,12 @@
 import React, { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { DailyNote } from "@/components/DailyNote";
-import { FileText, ChevronDown, ChevronUp, Calendar, Clock } from "lucide-react";
+import { FileText, ChevronDown, ChevronUp, Calendar, Clock, CloudOff } from "lucide-react";
 import { User } from "@/lib/authService";
 import { format } from "date-fns";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
 
 interface DailyNoteCardProps {
   currentUser: User;
@@ -13,6 +15,8 @@ interface DailyNoteCardProps {
 export const DailyNoteCard = ({ currentUser }: DailyNoteCardProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const today = format(new Date(), 'EEEE, MMMM do');
+  const { items } = useOfflineQueue(currentUser.id);
+  const unsyncedNotes = items.filter(item => item.kind === 'daily_report').length;
 
   return (
     <Card className="relative overflow-hidden bg-gradient-to-br from-blue-500/10 via-purple-500/10 to-pink-500/10 backdrop-blur-sm border border-white/20 shadow-lg hover:shadow-xl transition-all duration-300">
@@ -37,6 +41,12 @@ export const DailyNoteCard = ({ currentUser }: DailyNoteCardProps) => {
                 <span>{today}</span>
                 <Clock className="h-3 w-3 ml-2" />
                 <span>{currentUser.name}</span>
+                {unsyncedNotes > 0 && (
+                  <Badge variant="outline" className="ml-2 border-amber-500 text-amber-700 text-xs">
+                    <CloudOff className="h-3 w-3 mr-1" />
+                    {unsyncedNotes} not synced
+                  </Badge>
+                )}
               </div>
             </div>
           </div>
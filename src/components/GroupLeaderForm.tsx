@@ -4,9 +4,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
-import { checkMobileDuplicate, getTableDisplayName } from "@/lib/mobileValidation";
+import { getMobileConflict, getMobileConflictMessage } from "@/lib/mobileValidation";
 import { AgentConfirmationDialog } from "./AgentConfirmationDialog";
 
 export interface GroupLeaderFormProps {
@@ -143,18 +143,6 @@ export const GroupLeaderForm = ({ selectedPanchayath: preSelectedPanchayath, edi
 
     setLoading(true);
     try {
-      // Check for duplicate mobile number
-      const duplicateCheck = await checkMobileDuplicate(mobile, editingGroupLeader?.id, 'group_leaders');
-      if (duplicateCheck.isDuplicate) {
-        toast({
-          title: "Error",
-          description: `This mobile number is already registered in ${getTableDisplayName(duplicateCheck.table!)}`,
-          variant: "destructive",
-        });
-        setLoading(false);
-        return;
-      }
-
       if (isEditing) {
         const { data: updated, error } = await supabase
           .from("group_leaders")
@@ -213,9 +201,10 @@ export const GroupLeaderForm = ({ selectedPanchayath: preSelectedPanchayath, edi
       }
     } catch (error: any) {
       console.error(`Error ${isEditing ? 'updating' : 'adding'} group leader:`, error);
+      const conflict = getMobileConflict(error);
       toast({
         title: "Error",
-        description: error.message || `Failed to ${isEditing ? 'update' : 'add'} group leader`,
+        description: conflict ? getMobileConflictMessage(conflict) : error.message || `Failed to ${isEditing ? 'update' : 'add'} group leader`,
         variant: "destructive",
       });
     } finally {
@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, History, X } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "@/hooks/use-toast";
+import { User, getRoleDisplayName } from "@/lib/authService";
+import {
+  ActivityCategory,
+  LateDailyReport,
+  describeDailyEntries,
+  getActivityCategoriesByIds,
+  getLateDailyReportsToReview,
+  reviewLateDailyReport
+} from "@/lib/dailyReportService";
+
+interface LateReportApprovalsProps {
+  currentUser: User;
+}
+
+// Late and corrected daily reports of the agents below the current user; hidden while there is nothing to review
+export const LateReportApprovals = ({ currentUser }: LateReportApprovalsProps) => {
+  const [reports, setReports] = useState<LateDailyReport[]>([]);
+  const [categories, setCategories] = useState<ActivityCategory[]>([]);
+  const [rejecting, setRejecting] = useState<LateDailyReport | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchReports = useCallback(async () => {
+    const pending = await getLateDailyReportsToReview([currentUser.id], currentUser.role === 'admin_member');
+    const categoryIds = [...new Set(pending.flatMap(report => report.entries.map(entry => entry.category_id)))];
+    setCategories(await getActivityCategoriesByIds(categoryIds));
+    setReports(pending);
+  }, [currentUser.id, currentUser.role]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const review = async (report: LateDailyReport, approve: boolean, note?: string) => {
+    setBusyId(report.id);
+    const result = await reviewLateDailyReport(report.id, approve, note);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: approve ? "Late report approved" : "Late report rejected",
+      description: `${report.agent_name}, ${format(new Date(`${report.date}T00:00:00`), 'dd MMM yyyy')}`
+    });
+    setRejecting(null);
+    setRejectReason("");
+    fetchReports();
+  };
+
+  if (reports.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5" />
+          Late Daily Reports
+          <Badge variant="secondary">{reports.length}</Badge>
+        </CardTitle>
+        <CardDescription>Reports for past days waiting for your approval</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {reports.map(report => {
+          const counts = describeDailyEntries(report.entries, categories);
+          return (
+            <div key={report.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border p-3">
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{report.agent_name}</span>
+                  <Badge variant="outline" className="text-xs">{getRoleDisplayName(report.agent_type)}</Badge>
+                  <Badge variant="secondary" className="text-xs">{report.is_correction ? 'Correction' : 'Missed day'}</Badge>
+                </div>
+                <p className="text-sm">
+                  {format(new Date(`${report.date}T00:00:00`), 'EEEE, dd MMM yyyy')}
+                  {report.ward && ` · Ward ${report.ward}`}
+                </p>
+                {counts && <p className="text-sm">{counts}</p>}
+                {report.activity && <p className="text-sm text-muted-foreground">{report.activity}</p>}
+                <p className="text-xs text-muted-foreground">
+                  Submitted {format(new Date(report.created_at), 'dd MMM yyyy, hh:mm a')}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => review(report, true)} disabled={busyId === report.id}>
+                  <Check className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setRejecting(report)} disabled={busyId === report.id}>
+                  <X className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject late report of {rejecting?.agent_name}</DialogTitle>
+          </DialogHeader>
+          <Textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="Why is the report rejected?"
+            className="min-h-[100px]"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && review(rejecting, false, rejectReason)}
+              disabled={!rejectReason.trim() || busyId === rejecting?.id}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
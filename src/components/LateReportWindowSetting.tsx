@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Save } from "lucide-react";
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { toast } from "@/hooks/use-toast";
+import { setLateReportWindow } from "@/lib/dailyReportService";
+
+interface LateReportWindowSettingProps {
+  panchayathId: string;
+}
+
+// How many days back agents of a panchayath may send late reports for approval
+export const LateReportWindowSetting = ({ panchayathId }: LateReportWindowSettingProps) => {
+  const [days, setDays] = useState("");
+  const [savedDays, setSavedDays] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchWindow = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('panchayaths')
+      .select('late_report_days')
+      .eq('id', panchayathId)
+      .single();
+
+    if (error) {
+      console.error('Error loading late report window:', error);
+      return;
+    }
+
+    setSavedDays(data.late_report_days);
+    setDays(String(data.late_report_days));
+  }, [panchayathId]);
+
+  useEffect(() => {
+    fetchWindow();
+  }, [fetchWindow]);
+
+  const saveWindow = async () => {
+    setSaving(true);
+    const result = await setLateReportWindow(panchayathId, Math.floor(Number(days)));
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Saved",
+      description: "Late report window updated"
+    });
+    fetchWindow();
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="late-report-days">Late reports</Label>
+      <p className="text-xs text-muted-foreground">
+        Days back agents can send a missed or corrected report for supervisor approval; 0 turns late reports off
+      </p>
+      <div className="flex gap-2">
+        <Input
+          id="late-report-days"
+          type="number"
+          inputMode="numeric"
+          min={0}
+          max={30}
+          value={days}
+          onChange={(e) => setDays(e.target.value)}
+          className="w-24"
+        />
+        <Button onClick={saveWindow} disabled={saving || days === "" || Number(days) === savedDays}>
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, ClipboardCheck, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { User, getRoleDisplayName } from "@/lib/authService";
+import { LeaveRequest, describeLeaveDates, getLeaveRequestsToReview, reviewLeaveRequest } from "@/lib/leaveService";
+
+interface LeaveApprovalsProps {
+  currentUser: User;
+}
+
+// Pending leave of the agents reporting to the current user; hidden while there is nothing to review
+export const LeaveApprovals = ({ currentUser }: LeaveApprovalsProps) => {
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [rejecting, setRejecting] = useState<LeaveRequest | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchRequests = useCallback(async () => {
+    setRequests(await getLeaveRequestsToReview([currentUser.id], currentUser.role === 'admin_member'));
+  }, [currentUser.id, currentUser.role]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const review = async (request: LeaveRequest, approve: boolean, note?: string) => {
+    setBusyId(request.id);
+    const result = await reviewLeaveRequest(request.id, approve, note);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: approve ? "Leave approved" : "Leave rejected",
+      description: `${request.agent_name}, ${describeLeaveDates(request)}`
+    });
+    setRejecting(null);
+    setRejectReason("");
+    fetchRequests();
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ClipboardCheck className="h-5 w-5" />
+          Leave Requests
+          <Badge variant="secondary">{requests.length}</Badge>
+        </CardTitle>
+        <CardDescription>Leave waiting for your approval</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {requests.map(request => (
+          <div key={request.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border p-3">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{request.agent_name}</span>
+                <Badge variant="outline" className="text-xs">{getRoleDisplayName(request.agent_type)}</Badge>
+              </div>
+              <p className="text-sm">{describeLeaveDates(request)}</p>
+              <p className="text-sm text-muted-foreground">{request.reason}</p>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => review(request, true)} disabled={busyId === request.id}>
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setRejecting(request)} disabled={busyId === request.id}>
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject leave for {rejecting?.agent_name}</DialogTitle>
+          </DialogHeader>
+          <Textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="Why is the leave rejected?"
+            className="min-h-[100px]"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && review(rejecting, false, rejectReason)}
+              disabled={!rejectReason.trim() || busyId === rejecting?.id}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CalendarOff, ChevronDown, Send } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "@/hooks/use-toast";
+import { User } from "@/lib/authService";
+import {
+  LEAVE_STATUS_LABELS,
+  LeaveRequest,
+  LeaveStatus,
+  canCancelLeaveRequest,
+  cancelLeaveRequest,
+  describeLeaveDates,
+  getLeaveRequests,
+  requestLeave
+} from "@/lib/leaveService";
+
+interface LeaveRequestCardProps {
+  currentUser: User;
+}
+
+const STATUS_VARIANTS: Record<LeaveStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+  cancelled: 'outline'
+};
+
+// An agent's own leave: ask for a date range and follow what their superior decided
+export const LeaveRequestCard = ({ currentUser }: LeaveRequestCardProps) => {
+  const todayStr = format(new Date(), 'yyyy-MM-dd');
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [fromDate, setFromDate] = useState(todayStr);
+  const [toDate, setToDate] = useState(todayStr);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchRequests = useCallback(async () => {
+    setRequests(await getLeaveRequests(currentUser.mobile_number));
+  }, [currentUser.mobile_number]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const submitRequest = async () => {
+    setSubmitting(true);
+    const result = await requestLeave(currentUser.id, fromDate, toDate, reason);
+    setSubmitting(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setReason("");
+    toast({
+      title: "Leave requested",
+      description: "Your request has been sent for approval"
+    });
+    fetchRequests();
+  };
+
+  const cancelRequest = async (request: LeaveRequest) => {
+    const result = await cancelLeaveRequest(request.id);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+    fetchRequests();
+  };
+
+  const pending = requests.filter(request => request.status === 'pending').length;
+
+  return (
+    <Collapsible>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <CalendarOff className="h-5 w-5" />
+                  Leave
+                  {pending > 0 && <Badge variant="secondary">{pending} pending</Badge>}
+                </CardTitle>
+                <CardDescription>
+                  Request leave in advance - days without a report or approved leave show as missing reports
+                </CardDescription>
+              </div>
+              <ChevronDown className="h-4 w-4" />
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="pt-0 space-y-6">
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="leave-from">From</Label>
+                  <Input
+                    id="leave-from"
+                    type="date"
+                    value={fromDate}
+                    onChange={(e) => {
+                      setFromDate(e.target.value);
+                      if (e.target.value > toDate) setToDate(e.target.value);
+                    }}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="leave-to">To</Label>
+                  <Input id="leave-to" type="date" value={toDate} min={fromDate} onChange={(e) => setToDate(e.target.value)} />
+                </div>
+              </div>
+              <Textarea value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason for the leave" className="min-h-[80px]" />
+              <Button onClick={submitRequest} disabled={submitting || !reason.trim() || !fromDate || !toDate} className="w-full">
+                <Send className="h-4 w-4 mr-2" />
+                {submitting ? 'Sending...' : 'Request Leave'}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Your requests</h4>
+              {requests.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No leave requested yet</p>
+              ) : (
+                requests.map(request => (
+                  <div key={request.id} className="rounded-md border p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">{describeLeaveDates(request)}</span>
+                      <Badge variant={STATUS_VARIANTS[request.status]}>{LEAVE_STATUS_LABELS[request.status]}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{request.reason}</p>
+                    {request.reviewed_by && (
+                      <p className="text-xs text-muted-foreground">
+                        Reviewed by {request.reviewed_by}
+                        {request.review_note && `: ${request.review_note}`}
+                      </p>
+                    )}
+                    {canCancelLeaveRequest(request) && (
+                      <div className="flex justify-end">
+                        <Button size="sm" variant="ghost" onClick={() => cancelRequest(request)} className="h-7 text-destructive">
+                          Cancel request
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+};
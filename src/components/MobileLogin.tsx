@@ -1,22 +1,69 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
-import { findUserByMobile, User, getRoleDisplayName } from "@/lib/authService";
-import { Loader2, Search, Phone } from "lucide-react";
+import { requestLoginOtp, User, getRoleDisplayName, getRoleLabel } from "@/lib/authService";
+import { startAgentSession } from "@/lib/sessionService";
+import { Loader2, Search, Phone, ShieldCheck, ChevronRight } from "lucide-react";
+
+const RESEND_COOLDOWN_SECONDS = 60;
+
 interface MobileLoginProps {
-  onLogin: (user: User) => void;
+  onLogin: (user: User, roles: User[]) => void;
 }
 export const MobileLogin = ({
   onLogin
 }: MobileLoginProps) => {
   const [mobile, setMobile] = useState("");
+  const [step, setStep] = useState<'mobile' | 'otp' | 'role'>('mobile');
+  const [otp, setOtp] = useState("");
+  const [roles, setRoles] = useState<User[]>([]);
+  const [resendIn, setResendIn] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const {
     toast
   } = useToast();
+
+  // Count down until another code may be requested
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const sendCode = async () => {
+    setIsLoading(true);
+    try {
+      const result = await requestLoginOtp(mobile);
+      if (result.success) {
+        setStep('otp');
+        setOtp("");
+        setResendIn(RESEND_COOLDOWN_SECONDS);
+        toast({
+          title: "Code sent",
+          description: `A 6-digit login code has been sent to ${mobile.trim()}`
+        });
+      } else {
+        toast({
+          title: "Could not send code",
+          description: result.error || "You are not registered. Please contact administrator.",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Login error:', error);
+      toast({
+        title: "Error",
+        description: "Something went wrong. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
   const handleFindMe = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!mobile.trim()) {
@@ -27,19 +74,28 @@ export const MobileLogin = ({
       });
       return;
     }
+    await sendCode();
+  };
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (otp.length !== 6) return;
     setIsLoading(true);
     try {
-      const result = await findUserByMobile(mobile);
+      const result = await startAgentSession(mobile, otp);
       if (result.success && result.user) {
-        toast({
-          title: "Welcome!",
-          description: `Logged in as ${result.user.name} (${getRoleDisplayName(result.user.role)})`
-        });
-        onLogin(result.user);
+        const userRoles = result.roles || [result.user];
+        // Numbers holding several roles pick one before entering
+        if (userRoles.length > 1) {
+          setRoles(userRoles);
+          setStep('role');
+          return;
+        }
+        selectRole(result.user, userRoles);
       } else {
+        setOtp("");
         toast({
-          title: "Not registered",
-          description: result.error || "You are not registered. Please contact administrator.",
+          title: "Verification failed",
+          description: result.error || "Invalid or expired code",
           variant: "destructive"
         });
       }
@@ -54,6 +110,17 @@ export const MobileLogin = ({
       setIsLoading(false);
     }
   };
+  const selectRole = (user: User, userRoles: User[] = roles) => {
+    toast({
+      title: "Welcome!",
+      description: `Logged in as ${user.name} (${getRoleDisplayName(user.role)})`
+    });
+    onLogin(user, userRoles);
+  };
+  const changeNumber = () => {
+    setStep('mobile');
+    setOtp("");
+  };
   return <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-background/95 p-4">
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
@@ -66,7 +133,18 @@ export const MobileLogin = ({
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleFindMe} className="space-y-4">
+          {step === 'role' ? <div className="space-y-3">
+            <p className="text-sm text-center text-muted-foreground">
+              This number has more than one role. Choose how you want to continue — you can switch later from your profile.
+            </p>
+            {roles.map(role => <Button key={role.id} type="button" variant="outline" className="w-full h-auto py-3 justify-between" onClick={() => selectRole(role)}>
+                <span className="flex flex-col items-start text-left">
+                  <span className="font-medium">{getRoleLabel(role)}</span>
+                  <span className="text-xs text-muted-foreground">{role.name}</span>
+                </span>
+                <ChevronRight className="w-4 h-4" />
+              </Button>)}
+          </div> : step === 'mobile' ? <form onSubmit={handleFindMe} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="mobile">Mobile Number</Label>
               <Input id="mobile" type="tel" placeholder="Enter your mobile number" value={mobile} onChange={e => setMobile(e.target.value)} className="text-center text-lg" maxLength={15} />
@@ -75,13 +153,43 @@ export const MobileLogin = ({
             <Button type="submit" className="w-full" disabled={isLoading}>
               {isLoading ? <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Searching...
+                  Sending code...
                 </> : <>
                   <Search className="w-4 h-4 mr-2" />
                   Find Me
                 </>}
             </Button>
-          </form>
+          </form> : <form onSubmit={handleVerify} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="otp" className="block text-center">Enter the code sent to {mobile.trim()}</Label>
+              <div className="flex justify-center">
+                <InputOTP id="otp" maxLength={6} value={otp} onChange={setOtp} inputMode="numeric" autoFocus>
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map(index => <InputOTPSlot key={index} index={index} />)}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isLoading || otp.length !== 6}>
+              {isLoading ? <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Verifying...
+                </> : <>
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Verify & Login
+                </>}
+            </Button>
+
+            <div className="flex items-center justify-between text-sm">
+              <Button type="button" variant="link" className="px-0" onClick={changeNumber} disabled={isLoading}>
+                Change number
+              </Button>
+              <Button type="button" variant="link" className="px-0" onClick={sendCode} disabled={isLoading || resendIn > 0}>
+                {resendIn > 0 ? `Resend code in ${resendIn}s` : "Resend code"}
+              </Button>
+            </div>
+          </form>}
           
           <div className="mt-6 p-4 bg-muted/30 rounded-lg">
             <p className="text-sm text-muted-foreground text-center">
@@ -3,9 +3,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { supabase } from "@/integrations/supabase/client";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { DeleteReasonDialog } from "@/components/DeleteReasonDialog";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
+import { softDeleteRecords } from "@/lib/deletionService";
 import { Trash2 } from "lucide-react";
 
 interface PanchayathFormProps {
@@ -20,8 +22,7 @@ export const PanchayathForm = ({ officerId, onPanchayathCreated, editingPanchaya
   const [name, setName] = useState(editingPanchayath?.name || "");
   const [wards, setWards] = useState(editingPanchayath?.number_of_wards?.toString() || "");
   const [loading, setLoading] = useState(false);
-  const [deleteCode, setDeleteCode] = useState("");
-  const [deleteLoading, setDeleteLoading] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [confirmationCode, setConfirmationCode] = useState("");
   const [showConfirmationDialog, setShowConfirmationDialog] = useState(false);
   const { toast } = useToast();
@@ -126,49 +127,31 @@ export const PanchayathForm = ({ officerId, onPanchayathCreated, editingPanchaya
     }
   };
 
-  const handleDelete = async () => {
-    if (deleteCode !== "8593919123") {
+  const handleDelete = async (reason: string) => {
+    if (!editingPanchayath) return;
+
+    const result = await softDeleteRecords("panchayaths", [editingPanchayath.id], reason);
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Invalid delete code",
+        description: result.error || "Failed to delete panchayath",
         variant: "destructive",
       });
       return;
     }
 
-    if (!editingPanchayath) return;
-
-    setDeleteLoading(true);
-    try {
-      const { error } = await supabase
-        .from("panchayaths")
-        .delete()
-        .eq('id', editingPanchayath.id);
-
-      if (error) throw error;
+    toast({
+      title: "Success",
+      description: "Panchayath deleted successfully",
+    });
+    setShowDeleteDialog(false);
 
-      toast({
-        title: "Success",
-        description: "Panchayath deleted successfully",
-      });
-
-      if (onPanchayathDeleted) {
-        onPanchayathDeleted(editingPanchayath.id);
-      }
-      
-      if (onEditComplete) {
-        onEditComplete();
-      }
-    } catch (error: any) {
-      console.error("Error deleting panchayath:", error);
-      toast({
-        title: "Error",
-        description: error.message || "Failed to delete panchayath",
-        variant: "destructive",
-      });
-    } finally {
-      setDeleteLoading(false);
-      setDeleteCode("");
+    if (onPanchayathDeleted) {
+      onPanchayathDeleted(editingPanchayath.id);
+    }
+    
+    if (onEditComplete) {
+      onEditComplete();
     }
   };
 
@@ -228,48 +211,25 @@ export const PanchayathForm = ({ officerId, onPanchayathCreated, editingPanchaya
                 </Button>
               )}
               {editingPanchayath && onPanchayathDeleted && (
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button type="button" variant="destructive" size="sm">
-                      <Trash2 className="h-4 w-4 mr-1" />
-                      Delete
-                    </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Delete Panchayath</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        This action cannot be undone. Please enter the delete code to confirm deletion of "{editingPanchayath?.name}".
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <div className="space-y-2">
-                      <Label htmlFor="delete-code">Delete Code</Label>
-                      <Input
-                        id="delete-code"
-                        type="text"
-                        value={deleteCode}
-                        onChange={(e) => setDeleteCode(e.target.value)}
-                        placeholder="Enter delete code"
-                      />
-                    </div>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel onClick={() => setDeleteCode("")}>Cancel</AlertDialogCancel>
-                      <AlertDialogAction
-                        onClick={handleDelete}
-                        disabled={deleteLoading || deleteCode !== "8593919123"}
-                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                      >
-                        {deleteLoading ? "Deleting..." : "Delete Panchayath"}
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                <Button type="button" variant="destructive" size="sm" onClick={() => setShowDeleteDialog(true)}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
               )}
             </div>
           </form>
         </CardContent>
       </Card>
 
+      <DeleteReasonDialog
+        open={showDeleteDialog}
+        onOpenChange={setShowDeleteDialog}
+        title="Delete Panchayath"
+        description={`Delete "${editingPanchayath?.name}" together with all of its coordinators, supervisors, group leaders and PROs?`}
+        confirmLabel="Delete Panchayath"
+        onConfirm={handleDelete}
+      />
+
       <AlertDialog open={showConfirmationDialog} onOpenChange={setShowConfirmationDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
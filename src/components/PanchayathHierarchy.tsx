@@ -4,14 +4,15 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Search, Users, MapPin, Building, BarChart3, Edit, Trash2, MessageSquare, ChevronDown, ChevronRight, Eye, EyeOff } from "lucide-react";
 import { PanchayathChart } from "@/components/PanchayathChart";
 import { PanchayathForm } from "@/components/PanchayathForm";
+import { DeleteReasonDialog } from "@/components/DeleteReasonDialog";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
+import { softDeleteRecords } from "@/lib/deletionService";
 
 interface PanchayathData {
   id: string;
@@ -23,13 +24,18 @@ interface PanchayathData {
   pro_count: number;
 }
 
-export const PanchayathHierarchy = () => {
+interface PanchayathHierarchyProps {
+  canDelete: boolean;
+}
+
+export const PanchayathHierarchy = ({ canDelete }: PanchayathHierarchyProps) => {
   const [panchayaths, setPanchayaths] = useState<PanchayathData[]>([]);
   const [filteredPanchayaths, setFilteredPanchayaths] = useState<PanchayathData[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(true);
   const [editingPanchayath, setEditingPanchayath] = useState<any>(null);
   const [showEditForm, setShowEditForm] = useState(false);
+  const [deletingPanchayath, setDeletingPanchayath] = useState<PanchayathData | null>(null);
   const [expandedCards, setExpandedCards] = useState<Record<string, boolean>>({});
   const [showAgentNames, setShowAgentNames] = useState<Record<string, boolean>>({
     coordinator: true,
@@ -107,30 +113,27 @@ export const PanchayathHierarchy = () => {
     setShowEditForm(true);
   };
 
-  const handleDelete = async (panchayathId: string, panchayathName: string) => {
-    try {
-      const { error } = await supabase
-        .from("panchayaths")
-        .delete()
-        .eq("id", panchayathId);
-
-      if (error) throw error;
+  const handleDelete = async (reason: string) => {
+    if (!deletingPanchayath) return;
 
-      toast({
-        title: "Success",
-        description: `${panchayathName} has been deleted successfully`,
-      });
-
-      // Refresh the list
-      fetchPanchayaths();
-    } catch (error: any) {
-      console.error("Error deleting panchayath:", error);
+    const result = await softDeleteRecords("panchayaths", [deletingPanchayath.id], reason);
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Failed to delete panchayath",
+        description: result.error || "Failed to delete panchayath",
         variant: "destructive",
       });
+      return;
     }
+
+    toast({
+      title: "Success",
+      description: `${deletingPanchayath.name} has been deleted successfully`,
+    });
+    setDeletingPanchayath(null);
+
+    // Refresh the list
+    fetchPanchayaths();
   };
 
   const handleEditComplete = () => {
@@ -184,7 +187,7 @@ export const PanchayathHierarchy = () => {
           editingPanchayath={editingPanchayath}
           onEditComplete={handleEditComplete}
           onPanchayathCreated={() => {}}
-          onPanchayathDeleted={() => {}}
+          onPanchayathDeleted={canDelete ? () => {} : undefined}
         />
         <Button
           variant="outline"
@@ -290,34 +293,16 @@ export const PanchayathHierarchy = () => {
                                 >
                                   <Edit className="h-4 w-4" />
                                 </Button>
-                                <AlertDialog>
-                                  <AlertDialogTrigger asChild>
-                                    <Button
-                                      variant="outline"
-                                      size="sm"
-                                      className="h-8 w-8 p-0 hover:bg-destructive hover:text-destructive-foreground"
-                                    >
-                                      <Trash2 className="h-4 w-4" />
-                                    </Button>
-                                  </AlertDialogTrigger>
-                                  <AlertDialogContent>
-                                    <AlertDialogHeader>
-                                      <AlertDialogTitle>Delete Panchayath</AlertDialogTitle>
-                                      <AlertDialogDescription>
-                                        Are you sure you want to delete "{panchayath.name}"? This action cannot be undone and will also delete all associated coordinators, supervisors, group leaders, and PROs.
-                                      </AlertDialogDescription>
-                                    </AlertDialogHeader>
-                                    <AlertDialogFooter>
-                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                      <AlertDialogAction
-                                        onClick={() => handleDelete(panchayath.id, panchayath.name)}
-                                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                      >
-                                        Delete
-                                      </AlertDialogAction>
-                                    </AlertDialogFooter>
-                                  </AlertDialogContent>
-                                </AlertDialog>
+                                {canDelete && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setDeletingPanchayath(panchayath)}
+                                    className="h-8 w-8 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
                               </div>
                             </div>
 
@@ -387,6 +372,14 @@ export const PanchayathHierarchy = () => {
           </Tabs>
         </CardContent>
       </Card>
+
+      <DeleteReasonDialog
+        open={!!deletingPanchayath}
+        onOpenChange={(open) => !open && setDeletingPanchayath(null)}
+        title="Delete Panchayath"
+        description={`Delete "${deletingPanchayath?.name}" together with all of its coordinators, supervisors, group leaders and PROs?`}
+        onConfirm={handleDelete}
+      />
     </div>
   );
 };
\ No newline at end of file
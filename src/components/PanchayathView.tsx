@@ -3,10 +3,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Input } from "@/components/ui/input";
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Trash2, Edit, FileText } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { CoordinatorForm } from "@/components/CoordinatorForm";
@@ -14,14 +12,19 @@ import { SupervisorForm } from "@/components/SupervisorForm";
 import { GroupLeaderForm } from "@/components/GroupLeaderForm";
 import { ProForm } from "@/components/ProForm";
 import { AgentDailyNotes } from "@/components/AgentDailyNotes";
+import { DeleteReasonDialog } from "@/components/DeleteReasonDialog";
+import { SoftDeleteTable, softDeleteRecords } from "@/lib/deletionService";
 
-export const PanchayathView = () => {
+interface PanchayathViewProps {
+  canDelete: boolean;
+}
+
+export const PanchayathView = ({ canDelete }: PanchayathViewProps) => {
   const [panchayaths, setPanchayaths] = useState<any[]>([]);
   const [selectedPanchayath, setSelectedPanchayath] = useState("");
   const [hierarchyData, setHierarchyData] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [deleteCode, setDeleteCode] = useState("");
   const [itemToDelete, setItemToDelete] = useState<{type: string, id?: string, name: string} | null>(null);
   const { toast } = useToast();
   const [showEditDialog, setShowEditDialog] = useState(false);
@@ -208,20 +211,11 @@ export const PanchayathView = () => {
     setShowDeleteDialog(true);
   };
 
-  const confirmDelete = async () => {
-    if (deleteCode !== "9497589094") {
-      toast({
-        title: "Error",
-        description: "Invalid delete code",
-        variant: "destructive",
-      });
-      return;
-    }
-
+  const confirmDelete = async (reason: string) => {
     if (!itemToDelete) return;
 
     try {
-      let tableName: string;
+      let tableName: SoftDeleteTable;
       switch (itemToDelete.type) {
         case "coordinator":
           tableName = "coordinators";
@@ -298,16 +292,8 @@ export const PanchayathView = () => {
         if (!targetId) throw new Error("Record not found");
       }
 
-      const { data: deleted, error } = await supabase
-        .from(tableName as any)
-        .delete()
-        .eq("id", targetId as string)
-        .select("id");
-
-      if (error) throw error;
-      if (!deleted || deleted.length === 0) {
-        throw new Error("Nothing was deleted. Please try again.");
-      }
+      const result = await softDeleteRecords(tableName, [targetId], reason);
+      if (!result.success) throw new Error(result.error);
 
       toast({
         title: "Success",
@@ -315,7 +301,6 @@ export const PanchayathView = () => {
       });
       
       setShowDeleteDialog(false);
-      setDeleteCode("");
       setItemToDelete(null);
       fetchHierarchyData();
     } catch (error: any) {
@@ -406,15 +391,17 @@ export const PanchayathView = () => {
                               <FileText className="h-3 w-3 md:h-4 md:w-4" />
                               <span className="hidden md:inline ml-2">Notes</span>
                             </Button>
-                              <Button 
-                                size="sm" 
-                                variant="outline"
-                                onClick={() => handleDelete("coordinator", coordinatorData?.coordinator_id, coordinatorData?.coordinator_name)}
-                                className="h-8 w-8 p-0 md:h-9 md:w-auto md:px-3"
-                              >
-                                <Trash2 className="h-3 w-3 md:h-4 md:w-4" />
-                                <span className="hidden md:inline ml-2">Delete</span>
-                              </Button>
+                              {canDelete && (
+                                <Button 
+                                  size="sm" 
+                                  variant="outline"
+                                  onClick={() => handleDelete("coordinator", coordinatorData?.coordinator_id, coordinatorData?.coordinator_name)}
+                                  className="h-8 w-8 p-0 md:h-9 md:w-auto md:px-3"
+                                >
+                                  <Trash2 className="h-3 w-3 md:h-4 md:w-4" />
+                                  <span className="hidden md:inline ml-2">Delete</span>
+                                </Button>
+                              )}
                           </div>
                         </div>
                       </CardHeader>
@@ -458,15 +445,17 @@ export const PanchayathView = () => {
                                     <FileText className="h-3 w-3" />
                                     <span className="hidden md:inline ml-1">Notes</span>
                                   </Button>
-                                   <Button 
-                                     size="sm" 
-                                     variant="outline"
-                                     onClick={() => handleDelete("supervisor", supervisorData?.supervisor_id, supervisorData?.supervisor_name)}
-                                     className="h-7 w-7 p-0 md:h-8 md:w-auto md:px-2"
-                                   >
-                                    <Trash2 className="h-3 w-3" />
-                                    <span className="hidden md:inline ml-1">Delete</span>
-                                  </Button>
+                                   {canDelete && (
+                                     <Button 
+                                       size="sm" 
+                                       variant="outline"
+                                       onClick={() => handleDelete("supervisor", supervisorData?.supervisor_id, supervisorData?.supervisor_name)}
+                                       className="h-7 w-7 p-0 md:h-8 md:w-auto md:px-2"
+                                     >
+                                      <Trash2 className="h-3 w-3" />
+                                      <span className="hidden md:inline ml-1">Delete</span>
+                                    </Button>
+                                   )}
                                 </div>
                               </div>
                               
@@ -509,15 +498,17 @@ export const PanchayathView = () => {
                                           <FileText className="h-3 w-3" />
                                           <span className="hidden md:inline ml-1">Notes</span>
                                         </Button>
-                                         <Button 
-                                           size="sm" 
-                                           variant="outline"
-                                           onClick={() => handleDelete("group_leader", groupLeaderData?.group_leader_id, groupLeaderData?.group_leader_name)}
-                                           className="h-6 w-6 p-0 md:h-7 md:w-auto md:px-2"
-                                         >
-                                          <Trash2 className="h-3 w-3" />
-                                          <span className="hidden md:inline ml-1">Delete</span>
-                                        </Button>
+                                         {canDelete && (
+                                           <Button 
+                                             size="sm" 
+                                             variant="outline"
+                                             onClick={() => handleDelete("group_leader", groupLeaderData?.group_leader_id, groupLeaderData?.group_leader_name)}
+                                             className="h-6 w-6 p-0 md:h-7 md:w-auto md:px-2"
+                                           >
+                                            <Trash2 className="h-3 w-3" />
+                                            <span className="hidden md:inline ml-1">Delete</span>
+                                          </Button>
+                                         )}
                                       </div>
                                     </div>
                                     
@@ -552,14 +543,16 @@ export const PanchayathView = () => {
                                               >
                                                 <FileText className="h-3 w-3" />
                                               </Button>
-                                                <Button 
-                                                  size="sm" 
-                                                  variant="outline" 
-                                                  className="h-6 w-6 p-0"
-                                                  onClick={() => handleDelete("pro", pro.id || pro.pro_id, pro.pro_name)}
-                                                >
-                                                <Trash2 className="h-3 w-3" />
-                                              </Button>
+                                                {canDelete && (
+                                                  <Button 
+                                                    size="sm" 
+                                                    variant="outline" 
+                                                    className="h-6 w-6 p-0"
+                                                    onClick={() => handleDelete("pro", pro.id || pro.pro_id, pro.pro_name)}
+                                                  >
+                                                  <Trash2 className="h-3 w-3" />
+                                                </Button>
+                                                )}
                                             </div>
                                          </div>
                                        </div>
@@ -581,29 +574,13 @@ export const PanchayathView = () => {
       </CardContent>
     </Card>
 
-    <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
-      <AlertDialogContent>
-        <AlertDialogHeader>
-          <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-          <AlertDialogDescription>
-            Are you sure you want to delete {itemToDelete?.name}? This action cannot be undone.
-            Please enter the delete code to confirm.
-          </AlertDialogDescription>
-        </AlertDialogHeader>
-        <div className="py-4">
-          <Input
-            type="text"
-            placeholder="Enter delete code"
-            value={deleteCode}
-            onChange={(e) => setDeleteCode(e.target.value)}
-          />
-        </div>
-        <AlertDialogFooter>
-          <AlertDialogCancel onClick={() => setDeleteCode("")}>Cancel</AlertDialogCancel>
-          <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
-        </AlertDialogFooter>
-      </AlertDialogContent>
-    </AlertDialog>
+    <DeleteReasonDialog
+      open={showDeleteDialog}
+      onOpenChange={setShowDeleteDialog}
+      title="Confirm Deletion"
+      description={`Delete ${itemToDelete?.name}? Agents below them in the hierarchy are deleted too.`}
+      onConfirm={confirmDelete}
+    />
 
     <Dialog open={showEditDialog} onOpenChange={(open) => {
       setShowEditDialog(open);
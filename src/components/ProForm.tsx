@@ -4,9 +4,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
-import { checkMobileDuplicate, getTableDisplayName } from "@/lib/mobileValidation";
+import { getMobileConflict, getMobileConflictMessage } from "@/lib/mobileValidation";
 import { AgentConfirmationDialog } from "./AgentConfirmationDialog";
 
 export interface ProFormProps {
@@ -140,18 +140,6 @@ export const ProForm = ({ selectedPanchayath: preSelectedPanchayath, editingPro,
 
     setLoading(true);
     try {
-      // Check for duplicate mobile number
-      const duplicateCheck = await checkMobileDuplicate(mobile, editingPro?.id, 'pros');
-      if (duplicateCheck.isDuplicate) {
-        toast({
-          title: "Error",
-          description: `This mobile number is already registered in ${getTableDisplayName(duplicateCheck.table!)}`,
-          variant: "destructive",
-        });
-        setLoading(false);
-        return;
-      }
-
       if (isEditing) {
         const { data: updated, error } = await supabase
           .from("pros")
@@ -220,9 +208,10 @@ export const ProForm = ({ selectedPanchayath: preSelectedPanchayath, editingPro,
       }
     } catch (error: any) {
       console.error(`Error ${isEditing ? 'updating' : 'adding'} PRO:`, error);
+      const conflict = getMobileConflict(error);
       toast({
         title: "Error",
-        description: error.message || `Failed to ${isEditing ? 'update' : 'add'} PRO`,
+        description: conflict ? getMobileConflictMessage(conflict) : error.message || `Failed to ${isEditing ? 'update' : 'add'} PRO`,
         variant: "destructive",
       });
     } finally {
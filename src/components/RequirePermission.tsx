@@ -0,0 +1,44 @@
+import { ReactNode, useEffect } from "react";
+import { Navigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { User } from "@/lib/authService";
+import { Permission, hasPermission } from "@/lib/permissions";
+import { useAgentSession } from "@/hooks/use-agent-session";
+import { useToast } from "@/hooks/use-toast";
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: (currentUser: User) => ReactNode;
+}
+
+/**
+ * Route guard for agent pages: waits for the session, then renders the page with the
+ * signed-in user or sends them back to the home page when their role lacks the permission
+ */
+export const RequirePermission = ({ permission, children }: RequirePermissionProps) => {
+  const { currentUser, loading } = useAgentSession();
+  const { toast } = useToast();
+  const allowed = hasPermission(currentUser?.role, permission);
+
+  useEffect(() => {
+    if (!loading && currentUser && !allowed) {
+      toast({
+        title: "Access denied",
+        description: "You do not have permission to open this page",
+        variant: "destructive"
+      });
+    }
+  }, [loading, currentUser, allowed, toast]);
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>;
+  }
+
+  if (!currentUser || !allowed) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children(currentUser)}</>;
+};
@@ -5,9 +5,9 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
-import { checkMobileDuplicate, getTableDisplayName } from "@/lib/mobileValidation";
+import { getMobileConflict, getMobileConflictMessage } from "@/lib/mobileValidation";
 import { AgentConfirmationDialog } from "./AgentConfirmationDialog";
 
 export interface SupervisorFormProps {
@@ -146,18 +146,6 @@ export const SupervisorForm = ({ selectedPanchayath: preSelectedPanchayath, edit
 
     setLoading(true);
     try {
-      // Check for duplicate mobile number
-      const duplicateCheck = await checkMobileDuplicate(mobile, editingSupervisor?.id, 'supervisors');
-      if (duplicateCheck.isDuplicate) {
-        toast({
-          title: "Error",
-          description: `This mobile number is already registered in ${getTableDisplayName(duplicateCheck.table!)}`,
-          variant: "destructive",
-        });
-        setLoading(false);
-        return;
-      }
-
       if (isEditing) {
         // Update supervisor
         const { data: updated, error: supervisorError } = await supabase
@@ -250,9 +238,10 @@ export const SupervisorForm = ({ selectedPanchayath: preSelectedPanchayath, edit
       }
     } catch (error: any) {
       console.error(`Error ${isEditing ? 'updating' : 'adding'} supervisor:`, error);
+      const conflict = getMobileConflict(error);
       toast({
         title: "Error",
-        description: error.message || `Failed to ${isEditing ? 'update' : 'add'} supervisor`,
+        description: conflict ? getMobileConflictMessage(conflict) : error.message || `Failed to ${isEditing ? 'update' : 'add'} supervisor`,
         variant: "destructive",
       });
     } finally {
@@ -0,0 +1,80 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertTriangle, CloudOff, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { describeOutboxItem } from "@/lib/offlineQueue";
+
+interface SyncStatusIndicatorProps {
+  ownerId: string;
+}
+
+// Changes saved on this device that have not reached the server yet; hidden while there are none and the device is online
+export const SyncStatusIndicator = ({ ownerId }: SyncStatusIndicatorProps) => {
+  const { items, online, sync, resolve } = useOfflineQueue(ownerId);
+  const conflicts = items.filter(item => item.status === 'conflict');
+
+  if (online && items.length === 0) return null;
+
+  const label = conflicts.length > 0
+    ? `${conflicts.length} need attention`
+    : items.length > 0 ? `${items.length} waiting to sync` : 'Offline';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={`w-full sm:w-auto flex items-center gap-2 ${conflicts.length > 0 ? 'border-destructive/40 text-destructive' : 'border-amber-500/40 text-amber-700'}`}
+        >
+          {conflicts.length > 0 ? <AlertTriangle className="h-4 w-4" /> : online ? <RefreshCw className="h-4 w-4" /> : <CloudOff className="h-4 w-4" />}
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="end">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">{online ? 'Online' : 'Offline'}</span>
+          <Button size="sm" variant="outline" onClick={() => sync()} disabled={!online || items.length === conflicts.length}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Sync now
+          </Button>
+        </div>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing waiting - changes you save while offline are kept on this device and sent when you are back online
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {items.map(item => (
+              <div key={item.id} className="rounded-md border p-2 space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm">{describeOutboxItem(item)}</span>
+                  <Badge variant={item.status === 'conflict' ? 'destructive' : 'secondary'} className="text-xs shrink-0">
+                    {item.status === 'conflict' ? 'Conflict' : 'Waiting'}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">Saved {format(new Date(item.queuedAt), 'dd MMM, hh:mm a')}</p>
+                {item.status === 'conflict' && (
+                  <>
+                    <p className="text-xs text-destructive">{item.error}</p>
+                    <div className="flex justify-end gap-2">
+                      {item.canOverwrite && (
+                        <Button size="sm" variant="outline" onClick={() => resolve(item.id, true)} className="h-7">
+                          Send mine
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => resolve(item.id, false)} className="h-7 text-destructive">
+                        Discard
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
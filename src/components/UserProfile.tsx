@@ -5,17 +5,21 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { User, getRoleDisplayName } from "@/lib/authService";
-import { supabase } from "@/integrations/supabase/client";
-import { checkMobileDuplicate, getTableDisplayName } from "@/lib/mobileValidation";
-import { Edit, User as UserIcon, Phone, Shield } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { User, getRoleDisplayName, getRoleLabel } from "@/lib/authService";
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { getMobileConflict, getMobileConflictMessage } from "@/lib/mobileValidation";
+import { Edit, User as UserIcon, Phone, Shield, LogOut } from "lucide-react";
 
 interface UserProfileProps {
   currentUser: User;
+  roles?: User[];
   onUserUpdate: (user: User) => void;
+  onSwitchRole?: (user: User) => void;
+  onLogoutEverywhere?: () => void;
 }
 
-export const UserProfile = ({ currentUser, onUserUpdate }: UserProfileProps) => {
+export const UserProfile = ({ currentUser, roles = [], onUserUpdate, onSwitchRole, onLogoutEverywhere }: UserProfileProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [name, setName] = useState(currentUser.name);
   const [mobile, setMobile] = useState(currentUser.mobile_number);
@@ -27,20 +31,6 @@ export const UserProfile = ({ currentUser, onUserUpdate }: UserProfileProps) =>
     setIsLoading(true);
 
     try {
-      // Check for duplicate mobile number if it's changed
-      if (mobile !== currentUser.mobile_number) {
-        const duplicateCheck = await checkMobileDuplicate(mobile, currentUser.id, currentUser.table);
-        if (duplicateCheck.isDuplicate) {
-          toast({
-            title: "Mobile number already exists",
-            description: `This mobile number is already registered with ${getTableDisplayName(duplicateCheck.table!)}`,
-            variant: "destructive",
-          });
-          setIsLoading(false);
-          return;
-        }
-      }
-
       // Update the user in their respective table
       let error: any = null;
       
@@ -94,9 +84,10 @@ export const UserProfile = ({ currentUser, onUserUpdate }: UserProfileProps) =>
       });
     } catch (error) {
       console.error('Error updating profile:', error);
+      const conflict = getMobileConflict(error);
       toast({
-        title: "Error",
-        description: "Failed to update profile. Please try again.",
+        title: conflict ? "Mobile number already exists" : "Error",
+        description: conflict ? getMobileConflictMessage(conflict) : "Failed to update profile. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -123,9 +114,30 @@ export const UserProfile = ({ currentUser, onUserUpdate }: UserProfileProps) =>
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-1 text-xs">
             {currentUser.hasAdminAccess && <Shield className="w-3 h-3 text-primary" />}
-            <span className="text-muted-foreground">
-              {getRoleDisplayName(currentUser.role)}
-            </span>
+            {roles.length > 1 && onSwitchRole ? (
+              <Select
+                value={currentUser.id}
+                onValueChange={(id) => {
+                  const role = roles.find(r => r.id === id);
+                  if (role) onSwitchRole(role);
+                }}
+              >
+                <SelectTrigger className="h-7 text-xs w-auto gap-1" aria-label="Switch role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map(role => (
+                    <SelectItem key={role.id} value={role.id} className="text-xs">
+                      {getRoleLabel(role)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <span className="text-muted-foreground">
+                {getRoleDisplayName(currentUser.role)}
+              </span>
+            )}
           </div>
           
           <Dialog open={isEditing} onOpenChange={setIsEditing}>
@@ -175,6 +187,20 @@ export const UserProfile = ({ currentUser, onUserUpdate }: UserProfileProps) =>
                   </Button>
                 </div>
               </form>
+              {onLogoutEverywhere && (
+                <div className="border-t pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={onLogoutEverywhere}
+                    disabled={isLoading}
+                    className="w-full border-destructive/20 hover:border-destructive text-destructive flex items-center gap-2"
+                  >
+                    <LogOut className="w-4 h-4" />
+                    Log out of all devices
+                  </Button>
+                </div>
+              )}
             </DialogContent>
           </Dialog>
         </div>
@@ -5,8 +5,8 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { checkMobileDuplicate } from "@/lib/mobileValidation";
-import { supabase } from "@/integrations/supabase/client";
+import { getMobileConflict, getMobileConflictMessage } from "@/lib/mobileValidation";
+import { supabase } from "@/integrations/supabase/sessionClient";
 
 interface AdminMember {
   id: string;
@@ -90,55 +90,7 @@ export const AdminMemberForm = ({ teamId, member, onSuccess, onCancel }: AdminMe
 
     setLoading(true);
     try {
-      // Check for duplicate mobile number using simplified validation
       const cleanMobile = mobile.replace(/\s/g, '');
-      
-      // Check existing coordinators, supervisors, group_leaders, pros, and admin_members tables
-      const checkTables = ['coordinators', 'supervisors', 'group_leaders', 'pros'];
-      let isDuplicate = false;
-      let duplicateTable = '';
-
-      for (const table of checkTables) {
-        const { data, error } = await supabase
-          .from(table as any)
-          .select('id')
-          .eq('mobile_number', cleanMobile)
-          .limit(1);
-
-        if (error) continue; // Skip if table doesn't exist or error
-        
-        if (data && data.length > 0) {
-          isDuplicate = true;
-          duplicateTable = table;
-          break;
-        }
-      }
-
-      // Also check admin_members table
-      if (!isDuplicate) {
-        const { data: adminMemberData, error: adminMemberError } = await supabase
-          .from('admin_members')
-          .select('id')
-          .eq('mobile', cleanMobile);
-
-        if (!adminMemberError && adminMemberData && adminMemberData.length > 0) {
-          // If editing, exclude current member from duplicate check
-          if (!isEditing || adminMemberData.some(m => m.id !== member?.id)) {
-            isDuplicate = true;
-            duplicateTable = 'admin_members';
-          }
-        }
-      }
-
-      if (isDuplicate) {
-        toast({
-          title: "Error",
-          description: `This mobile number is already registered in ${duplicateTable}`,
-          variant: "destructive",
-        });
-        setLoading(false);
-        return;
-      }
 
       if (isEditing && member) {
         // Update existing admin member
@@ -176,9 +128,10 @@ export const AdminMemberForm = ({ teamId, member, onSuccess, onCancel }: AdminMe
       onSuccess();
     } catch (error) {
       console.error(`Error ${isEditing ? "updating" : "adding"} admin member:`, error);
+      const conflict = getMobileConflict(error);
       toast({
         title: "Error",
-        description: `Failed to ${isEditing ? "update" : "add"} admin member`,
+        description: conflict ? getMobileConflictMessage(conflict) : `Failed to ${isEditing ? "update" : "add"} admin member`,
         variant: "destructive",
       });
     } finally {
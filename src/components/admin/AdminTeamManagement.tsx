@@ -6,7 +6,7 @@ import { Plus, Users, UserPlus, Trash2, Edit, Shield, FileText } from "lucide-re
 import { AdminTeamForm } from "./AdminTeamForm";
 import { AdminMemberForm } from "./AdminMemberForm";
 import { AgentDailyNotes } from "../AgentDailyNotes";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
 
 interface AdminTeam {
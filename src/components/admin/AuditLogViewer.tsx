@@ -0,0 +1,228 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, Loader2, Search, X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { AuditAction, AuditEntry, AUDITED_TABLES, getChangedFields, searchAuditLog } from "@/lib/auditService";
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted'
+};
+
+const ACTION_VARIANTS: Record<AuditAction, "default" | "secondary" | "destructive"> = {
+  INSERT: 'default',
+  UPDATE: 'secondary',
+  DELETE: 'destructive'
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const AuditLogViewer = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [tableName, setTableName] = useState("all");
+  const [action, setAction] = useState("all");
+  const [search, setSearch] = useState("");
+  const [appliedSearch, setAppliedSearch] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const fetchEntries = useCallback(async (offset: number) => {
+    setLoading(true);
+    const result = await searchAuditLog({
+      tableName: tableName === "all" ? undefined : tableName,
+      action: action === "all" ? undefined : action as AuditAction,
+      search: appliedSearch,
+      from: fromDate || undefined,
+      to: toDate || undefined,
+      limit: PAGE_SIZE,
+      offset
+    });
+    setLoading(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to load audit log",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setEntries(prev => offset === 0 ? result.entries : [...prev, ...result.entries]);
+    setHasMore(result.entries.length === PAGE_SIZE);
+  }, [tableName, action, appliedSearch, fromDate, toDate, toast]);
+
+  useEffect(() => {
+    fetchEntries(0);
+  }, [fetchEntries]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedSearch(search);
+  };
+
+  const renderDetails = (entry: AuditEntry) => {
+    const before = (entry.old_data || {}) as Record<string, unknown>;
+    const after = (entry.new_data || {}) as Record<string, unknown>;
+
+    if (entry.action === 'UPDATE') {
+      return (
+        <div className="space-y-1 text-sm">
+          {getChangedFields(entry).map(field => (
+            <div key={field} className="grid grid-cols-3 gap-2">
+              <span className="font-medium">{field}</span>
+              <span className="text-red-600 break-all line-through">{formatValue(before[field])}</span>
+              <span className="text-green-600 break-all">{formatValue(after[field])}</span>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    const snapshot = entry.action === 'DELETE' ? before : after;
+    return (
+      <div className="space-y-1 text-sm">
+        {Object.entries(snapshot).map(([field, value]) => (
+          <div key={field} className="grid grid-cols-3 gap-2">
+            <span className="font-medium">{field}</span>
+            <span className="col-span-2 break-all">{formatValue(value)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>Every change to the hierarchy, tasks and notes, with who made it</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <Select value={tableName} onValueChange={setTableName}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue placeholder="All records" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All records</SelectItem>
+              {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+                <SelectItem key={table} value={table}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger className="md:w-40">
+              <SelectValue placeholder="All actions" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by actor, record ID or value"
+            />
+            <Button type="submit" variant="outline" className="flex items-center gap-2">
+              <Search className="h-4 w-4" />
+              Search
+            </Button>
+          </form>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <label className="text-sm font-medium whitespace-nowrap">Changed between:</label>
+          <Input
+            type="date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="w-full sm:max-w-[180px]"
+          />
+          <span className="text-sm text-muted-foreground">and</span>
+          <Input
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            className="w-full sm:max-w-[180px]"
+          />
+          {(fromDate || toDate) && (
+            <Button variant="ghost" size="sm" onClick={() => { setFromDate(''); setToDate(''); }}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <div key={entry.id} className="p-3 rounded-lg border">
+              <div
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 cursor-pointer"
+                onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+              >
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge variant={ACTION_VARIANTS[entry.action as AuditAction]}>
+                    {ACTION_LABELS[entry.action as AuditAction]}
+                  </Badge>
+                  <span className="font-medium">{AUDITED_TABLES[entry.table_name] || entry.table_name}</span>
+                  <span className="text-xs text-muted-foreground break-all">{entry.record_id}</span>
+                </div>
+                <div className="text-sm text-muted-foreground sm:text-right">
+                  <p>{entry.actor_label}</p>
+                  <p className="text-xs">{format(new Date(entry.created_at), "MMM dd, yyyy 'at' HH:mm:ss")}</p>
+                </div>
+              </div>
+              {expandedId === entry.id && (
+                <div className="mt-3 pt-3 border-t">
+                  {renderDetails(entry)}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {loading && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          )}
+
+          {!loading && entries.length === 0 && (
+            <p className="text-center text-muted-foreground py-8">No audit entries found</p>
+          )}
+
+          {!loading && hasMore && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchEntries(entries.length)}>
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
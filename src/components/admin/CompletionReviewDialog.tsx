@@ -0,0 +1,112 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { TaskEvent, getLatestCompletionRequest, reviewTaskCompletion } from "@/lib/taskService";
+
+interface CompletionReviewDialogProps {
+  task: { id: string; text: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onReviewed: (taskId: string) => void;
+}
+
+// Shows the evidence given with a completion request and lets the reviewer approve or reject it
+export const CompletionReviewDialog = ({ task, onOpenChange, onReviewed }: CompletionReviewDialogProps) => {
+  const [request, setRequest] = useState<TaskEvent | null>(null);
+  const [loadingRequest, setLoadingRequest] = useState(false);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState<'approve' | 'reject' | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setReason("");
+    setRequest(null);
+    if (!task) return;
+
+    setLoadingRequest(true);
+    getLatestCompletionRequest(task.id).then(latest => {
+      setRequest(latest);
+      setLoadingRequest(false);
+    });
+  }, [task]);
+
+  const handleReview = async (approve: boolean) => {
+    if (!task) return;
+
+    setSubmitting(approve ? 'approve' : 'reject');
+    const result = await reviewTaskCompletion(task.id, approve, reason);
+    setSubmitting(null);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to review the request",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: approve ? "Request Approved" : "Request Rejected",
+      description: approve ? "The task has been marked as finished." : "The task is back in progress and the reason has been recorded.",
+    });
+    onOpenChange(false);
+    onReviewed(task.id);
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={(next) => !submitting && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Review Completion Request</DialogTitle>
+          <DialogDescription>{task?.text}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {loadingRequest ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : request ? (
+            <div className="rounded-lg border bg-muted/50 p-3 space-y-1">
+              <p className="text-sm whitespace-pre-wrap">{request.note}</p>
+              <p className="text-xs text-muted-foreground">
+                Requested by {request.actor_label} on {format(new Date(request.created_at), "MMM dd, yyyy 'at' HH:mm")}
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">This request was made before evidence was recorded.</p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="review-reason">Reason (required to reject)</Label>
+            <Textarea
+              id="review-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="What still needs to be done?"
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleReview(false)}
+            disabled={!!submitting || !reason.trim()}
+            className="flex items-center gap-2 text-destructive"
+          >
+            <XCircle className="h-4 w-4" />
+            {submitting === 'reject' ? "Rejecting..." : "Reject"}
+          </Button>
+          <Button onClick={() => handleReview(true)} disabled={!!submitting} className="flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" />
+            {submitting === 'approve' ? "Approving..." : "Approve"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
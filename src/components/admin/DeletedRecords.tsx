@@ -0,0 +1,99 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArchiveRestore, Loader2, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { RESTORE_WINDOW_DAYS, RestorableDeletion, SOFT_DELETE_TABLE_LABELS, SoftDeleteTable, listRestorableDeletions, restoreDeletion } from "@/lib/deletionService";
+
+export const DeletedRecords = () => {
+  const [deletions, setDeletions] = useState<RestorableDeletion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchDeletions();
+  }, []);
+
+  const fetchDeletions = async () => {
+    setLoading(true);
+    setDeletions(await listRestorableDeletions());
+    setLoading(false);
+  };
+
+  const handleRestore = async (deletion: RestorableDeletion) => {
+    setRestoringId(deletion.id);
+    const result = await restoreDeletion(deletion.id);
+    setRestoringId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to restore",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Restored",
+      description: `${deletion.record_labels.join(", ")} restored successfully`,
+    });
+    fetchDeletions();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="h-5 w-5" />
+          Deleted Records
+        </CardTitle>
+        <CardDescription>
+          Panchayaths, agents and tasks deleted in the last {RESTORE_WINDOW_DAYS} days. Restoring a panchayath or agent also restores the agents deleted with it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : deletions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No deleted records to restore</p>
+        ) : (
+          <div className="space-y-2">
+            {deletions.map(deletion => (
+              <div key={deletion.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border">
+                <div className="space-y-1">
+                  <p className="font-medium flex items-center gap-2 flex-wrap">
+                    <Badge variant="secondary">
+                      {SOFT_DELETE_TABLE_LABELS[deletion.table_name as SoftDeleteTable] || deletion.table_name}
+                    </Badge>
+                    {deletion.record_labels.join(", ")}
+                  </p>
+                  <p className="text-sm">Reason: {deletion.reason}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Deleted by {deletion.deleted_by} on {format(new Date(deletion.deleted_at), "MMM dd, yyyy 'at' HH:mm")}
+                    {" · "}restorable until {format(new Date(deletion.restorable_until), "MMM dd, yyyy")}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(deletion)}
+                  disabled={restoringId !== null}
+                  className="flex items-center gap-2"
+                >
+                  <ArchiveRestore className="h-4 w-4" />
+                  {restoringId === deletion.id ? "Restoring..." : "Restore"}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -7,15 +7,22 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogDescription } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { CheckCircle, Clock, MessageSquare, RefreshCcw, Bell } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { CheckCircle, Clock, CloudOff, MessageSquare, MessagesSquare, RefreshCcw, Bell, History, GitBranch, Sparkles, MapPin } from "lucide-react";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { useToast } from "@/hooks/use-toast";
+import { CompletionReviewDialog } from "@/components/admin/CompletionReviewDialog";
+import { TaskUrgencyBadges } from "@/components/admin/TaskUrgencyBadges";
+import { TaskHistoryDialog } from "@/components/admin/TaskHistoryDialog";
+import { TaskCommentsDialog } from "@/components/admin/TaskCommentsDialog";
+import { SubtaskProgress, TaskListItem, TaskStatus, cascadeTask, countTasks, describeTaskScope, getSubtaskProgress, getTaskListItem, isTaskOverdue, matchesTaskFilters, searchTasks } from "@/lib/taskService";
+import { agentTasksTopic } from "@/lib/taskRealtime";
+import { useTaskActivity } from "@/hooks/use-task-activity";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
 interface MyTasksProps {
   userId: string;
   userRole?: string;
   userTable?: string;
 }
-type TaskStatus = 'finished' | 'unfinished' | 'requested';
 interface Task {
   id: string;
   text: string;
@@ -23,9 +30,20 @@ interface Task {
   remarks: string | null;
   created_at: string;
   finished_at?: string | null;
+  due_date?: string | null;
+  priority: string;
+  escalated_at?: string | null;
+  escalated_to_coordinator?: string | null;
   assigned_to?: string | null;
   reassigned_to_coordinator?: string | null;
   reassigned_to_supervisor?: string | null;
+  created_by?: string | null;
+  parent_id?: string | null;
+  assignee_type?: string | null;
+  assignee_id?: string | null;
+  assignee_name?: string | null;
+  wards?: number[] | null;
+  panchayath?: { id: string; name: string } | null;
   reassigned_coordinator?: {
     id: string;
     name: string;
@@ -50,7 +68,14 @@ interface Assignee {
 }
 interface TaskItemProps {
   task: Task;
+  userId: string;
+  userRole?: string;
   userTable?: string;
+  isEscalatedToUser?: boolean;
+  isNew?: boolean;
+  // Remarks or a completion request saved on this device and not synced yet
+  isUnsynced?: boolean;
+  subtaskProgress?: SubtaskProgress;
   editingTaskId: string | null;
   newRemarks: string;
   onOpenRemarks: (task: Task) => void;
@@ -58,12 +83,21 @@ interface TaskItemProps {
   onChangeRemarks: (value: string) => void;
   onSaveRemarks: (taskId: string, remarks: string) => void;
   onStartReassign: (task: Task) => void;
-  onRequestFinish?: (taskId: string) => void;
-  onFinishTask?: (taskId: string) => void;
+  onShowHistory: (task: Task) => void;
+  onShowComments: (task: Task) => void;
+  onRequestFinish?: (task: Task) => void;
+  onReviewRequest?: (task: Task) => void;
+  onCascade?: (task: Task) => void;
 }
 function TaskItem({
   task,
+  userId,
+  userRole,
   userTable,
+  isEscalatedToUser,
+  isNew,
+  isUnsynced,
+  subtaskProgress,
   editingTaskId,
   newRemarks,
   onOpenRemarks,
@@ -71,16 +105,48 @@ function TaskItem({
   onChangeRemarks,
   onSaveRemarks,
   onStartReassign,
+  onShowHistory,
+  onShowComments,
   onRequestFinish,
-  onFinishTask
+  onReviewRequest,
+  onCascade
 }: TaskItemProps) {
-  const isRequested = task.status !== 'finished' && (task.remarks?.toLowerCase().includes('requested completion') ?? false);
-  return <div className={`flex items-start justify-between gap-3 p-3 rounded-lg border mb-2 ${isRequested ? 'bg-orange-50 border-orange-200' : 'bg-card'}`}>
+  const isRequested = task.status === 'requested';
+  const isOverdue = isTaskOverdue(task);
+  // Sub-tasks a supervisor or group leader sent down come back to them for review
+  const isSentByUser = !!task.parent_id && task.created_by === userId;
+  const canCascade = (userRole === 'supervisor' || userRole === 'group_leader') && task.assignee_id === userId && task.status === 'unfinished';
+  return <div className={`flex items-start justify-between gap-3 p-3 rounded-lg border mb-2 ${isRequested ? 'bg-orange-50 border-orange-200' : isOverdue ? 'bg-red-50 border-red-200' : 'bg-card'} ${isNew ? 'ring-2 ring-primary/40' : ''}`}>
       <div className="flex items-start gap-3 flex-1">
         {task.status === 'finished' ? <CheckCircle className="h-5 w-5 text-primary" /> : <Clock className="h-5 w-5 text-muted-foreground" />}
         <div className="flex-1">
           <p className="font-medium text-foreground">{task.text}</p>
           {task.remarks && <p className="text-sm text-muted-foreground mt-1">{task.remarks}</p>}
+          <div className="mt-2 flex flex-wrap gap-1">
+            {isNew && <Badge className="text-xs">
+                <Sparkles className="h-3 w-3 mr-1" />
+                New
+              </Badge>}
+            {isUnsynced && <Badge variant="outline" className="text-xs border-amber-500 text-amber-700">
+                <CloudOff className="h-3 w-3 mr-1" />
+                Waiting to sync
+              </Badge>}
+            <TaskUrgencyBadges task={task} />
+            {subtaskProgress && <Badge variant="outline" className="text-xs">
+                <GitBranch className="h-3 w-3 mr-1" />
+                {subtaskProgress.finished}/{subtaskProgress.total} sub-tasks finished
+              </Badge>}
+          </div>
+          {describeTaskScope(task) && <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+              <MapPin className="h-3 w-3" />
+              {describeTaskScope(task)}
+            </p>}
+          {isSentByUser && <p className="text-xs text-muted-foreground mt-1">
+              Sub-task with <span className="font-medium text-foreground">{task.assignee_name || 'your team'}</span>
+            </p>}
+          {isEscalatedToUser && <p className="text-xs text-destructive mt-1">
+              Overdue with your supervisor {task.reassigned_supervisor?.name}
+            </p>}
           {(task.reassigned_coordinator || task.reassigned_supervisor) && <div className="flex items-center gap-2 mt-2">
               <Badge variant="secondary" className="text-xs">
                 {userTable === 'admin_members' ? task.reassigned_coordinator ? <>Reassigned to <span className="text-primary font-medium">{task.reassigned_coordinator.name}</span> ({task.reassigned_coordinator.mobile_number})</> : <>Reassigned to <span className="text-primary font-medium">{task.reassigned_supervisor?.name}</span> ({task.reassigned_supervisor?.mobile_number})</> : <>Reassigned from <span className="text-secondary font-medium">{task.assigned_by?.name || 'Team Member'}</span> {task.assigned_by?.mobile_number && `(${task.assigned_by.mobile_number})`}</>}
@@ -123,17 +189,29 @@ function TaskItem({
             </div>
           </DialogContent>
         </Dialog>
+        <Button variant="outline" size="sm" onClick={() => onShowComments(task)} className="flex items-center gap-2">
+          <MessagesSquare className="h-4 w-4" />
+          Comments
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onShowHistory(task)} className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+        </Button>
         {userTable === 'admin_members' && <Button variant="outline" size="sm" onClick={() => onStartReassign(task)} className="flex items-center gap-2 bg-cyan-200 hover:bg-cyan-100 text-slate-600">
             <RefreshCcw className="h-4 w-4" />
             {task.reassigned_coordinator || task.reassigned_supervisor ? "Change Assignment" : "Reassign Task"}
           </Button>}
-        {userTable !== 'admin_members' && task.status === 'unfinished' && onRequestFinish && <Button variant="outline" size="sm" onClick={() => onRequestFinish(task.id)} className="flex items-center gap-2 text-accent hover:text-accent/80">
+        {canCascade && onCascade && <Button variant="outline" size="sm" onClick={() => onCascade(task)} className="flex items-center gap-2">
+            <GitBranch className="h-4 w-4" />
+            {userRole === 'supervisor' ? 'Send to Group Leaders' : 'Send to PROs'}
+          </Button>}
+        {userTable !== 'admin_members' && !isEscalatedToUser && !isSentByUser && task.status === 'unfinished' && onRequestFinish && <Button variant="outline" size="sm" onClick={() => onRequestFinish(task)} className="flex items-center gap-2 text-accent hover:text-accent/80">
             <Bell className="h-4 w-4" />
             Request to Finish
           </Button>}
-        {userTable === 'admin_members' && isRequested && onFinishTask && <Button variant="outline" size="sm" onClick={() => onFinishTask(task.id)} className="flex items-center gap-2 text-green-600 hover:text-green-700 border-green-200">
+        {(userTable === 'admin_members' || isSentByUser) && isRequested && onReviewRequest && <Button variant="outline" size="sm" onClick={() => onReviewRequest(task)} className="flex items-center gap-2 text-green-600 hover:text-green-700 border-green-200">
             <CheckCircle className="h-4 w-4" />
-            Finish Task
+            Review Request
           </Button>}
         <Badge variant={task.status === 'finished' ? 'secondary' : isRequested ? 'destructive' : 'outline'} className={isRequested ? 'bg-orange-500 hover:bg-orange-600' : ''}>
           {task.status === 'finished' ? 'Finished' : isRequested ? 'Requested' : 'Pending'}
@@ -155,88 +233,110 @@ export const MyTasks = ({
   const [reassigneeType, setReassigneeType] = useState<'coordinator' | 'supervisor'>('coordinator');
   const [assignees, setAssignees] = useState<Assignee[]>([]);
   const [assigneeSearchTerm, setAssigneeSearchTerm] = useState('');
+  const [requestingTask, setRequestingTask] = useState<Task | null>(null);
+  const [evidence, setEvidence] = useState('');
+  const [sendingRequest, setSendingRequest] = useState(false);
+  const [reviewingTask, setReviewingTask] = useState<Task | null>(null);
+  const [historyTask, setHistoryTask] = useState<Task | null>(null);
+  const [commentsTask, setCommentsTask] = useState<Task | null>(null);
+  const [subtaskProgress, setSubtaskProgress] = useState<Record<string, SubtaskProgress>>({});
+  const [taskTotals, setTaskTotals] = useState<Record<'open' | 'finished', number>>({ open: 0, finished: 0 });
+  const [loadingMore, setLoadingMore] = useState(false);
   const {
     toast
   } = useToast();
-  useEffect(() => {
-    const fetchTasks = async () => {
-      try {
-        setLoading(true);
-        let query = supabase.from('todos').select('*');
+  const toTask = useCallback((task: TaskListItem): Task => ({
+    id: task.id,
+    text: task.text,
+    status: task.status as TaskStatus,
+    remarks: task.remarks,
+    created_at: task.created_at,
+    finished_at: task.finished_at,
+    due_date: task.due_date,
+    priority: task.priority,
+    escalated_at: task.escalated_at,
+    escalated_to_coordinator: task.escalated_to_coordinator,
+    assigned_to: task.assigned_to,
+    reassigned_to_coordinator: task.reassigned_to_coordinator,
+    reassigned_to_supervisor: task.reassigned_to_supervisor,
+    created_by: task.created_by,
+    parent_id: task.parent_id,
+    assignee_type: task.assignee_type,
+    assignee_id: task.assignee_id,
+    assignee_name: task.assignee_name,
+    wards: task.wards,
+    panchayath: task.panchayath,
+    reassigned_coordinator: task.reassigned_coordinator,
+    reassigned_supervisor: task.reassigned_supervisor,
+    // Agents see the team member who handed the task on to them
+    assigned_by: userTable !== 'admin_members' && task.assigned_member ? {
+      id: task.assigned_member.id,
+      name: task.assigned_member.name,
+      mobile_number: task.assigned_member.mobile
+    } : null
+  }), [userTable]);
 
-        // For team members (admin_members table), show assigned tasks
-        if (userTable === 'admin_members') {
-          query = query.filter('assigned_to', 'eq', userId);
-        }
-        // For coordinators, show tasks reassigned to them
-        else if (userRole === 'coordinator') {
-          query = query.filter('reassigned_to_coordinator', 'eq', userId);
-        }
-        // For supervisors, show tasks reassigned to them
-        else if (userRole === 'supervisor') {
-          query = query.filter('reassigned_to_supervisor', 'eq', userId);
-        }
-        // Fallback: try to match by assigned_to
-        else {
-          query = query.filter('assigned_to', 'eq', userId);
-        }
-        const {
-          data,
-          error
-        } = await query.order('created_at', {
-          ascending: false
-        });
-        if (error) throw error;
-
-        // Get reassigned coordinators/supervisors separately
-        const tasksWithAssignees = await Promise.all((data || []).map(async task => {
-          let reassigned_coordinator = null;
-          let reassigned_supervisor = null;
-          let assigned_by = null;
-          const taskAny = task as any;
-          if (taskAny.reassigned_to_coordinator) {
-            const {
-              data: coordinatorData
-            } = await supabase.from('coordinators').select('id, name, mobile_number').eq('id', taskAny.reassigned_to_coordinator).single();
-            reassigned_coordinator = coordinatorData;
-          }
-          if (taskAny.reassigned_to_supervisor) {
-            const {
-              data: supervisorData
-            } = await supabase.from('supervisors').select('id, name, mobile_number').eq('id', taskAny.reassigned_to_supervisor).single();
-            reassigned_supervisor = supervisorData;
-          }
+  // Tasks in the user's hands, whatever their role, most urgent first
+  const loadTaskPage = useCallback(async (status: 'open' | 'finished', offset: number) => {
+    const page = await searchTasks({ holderId: userId, status, sort: 'urgency' }, offset);
+    if (page.error) {
+      console.error('Error fetching assigned tasks:', page.error);
+    }
+    return { loaded: page.tasks.map(toTask), total: page.total };
+  }, [toTask, userId]);
+  const loadSubtaskProgress = useCallback((loaded: Task[]) => getSubtaskProgress(loaded.filter(task => task.assignee_id === userId).map(task => task.id)), [userId]);
+  const fetchTasks = useCallback(async () => {
+    const [open, finished] = await Promise.all([loadTaskPage('open', 0), loadTaskPage('finished', 0)]);
+    const loaded = [...open.loaded, ...finished.loaded];
+    setTasks(loaded);
+    setTaskTotals({ open: open.total, finished: finished.total });
+    setSubtaskProgress(await loadSubtaskProgress(loaded));
+    setLoading(false);
+  }, [loadSubtaskProgress, loadTaskPage]);
+  // Reload a single task after it changed, here or elsewhere, without resetting the loaded pages
+  const refreshTask = async (taskId: string) => {
+    const [item, open, finished] = await Promise.all([
+      getTaskListItem(taskId),
+      countTasks({ holderId: userId, status: 'open' }),
+      countTasks({ holderId: userId, status: 'finished' })
+    ]);
+    setTaskTotals({ open, finished });
+    if (!item || item.deleted_at || !matchesTaskFilters(item, { holderId: userId })) {
+      setTasks(prev => prev.filter(task => task.id !== taskId));
+      return;
+    }
+    const updated = toTask(item);
+    setTasks(prev => prev.some(task => task.id === taskId) ? prev.map(task => task.id === taskId ? updated : task) : [updated, ...prev]);
 
-          // For agents, get the team member who assigned the task
-          if ((userRole === 'coordinator' || userRole === 'supervisor') && taskAny.assigned_to) {
-            const {
-              data: teamMemberData
-            } = await supabase.from('admin_members').select('id, name, mobile_number').eq('id', taskAny.assigned_to).single();
-            assigned_by = teamMemberData;
-          }
-          return {
-            id: task.id,
-            text: task.text,
-            status: task.status as TaskStatus,
-            remarks: task.remarks,
-            created_at: task.created_at,
-            finished_at: task.finished_at,
-            assigned_to: taskAny.assigned_to || null,
-            reassigned_to_coordinator: taskAny.reassigned_to_coordinator || null,
-            reassigned_to_supervisor: taskAny.reassigned_to_supervisor || null,
-            reassigned_coordinator,
-            reassigned_supervisor,
-            assigned_by
-          };
-        }));
-        setTasks(tasksWithAssignees);
-      } catch (err) {
-        console.error('Error fetching assigned tasks:', err);
-        setTasks([]);
-      } finally {
-        setLoading(false);
-      }
-    };
+    // A sub-task changing moves the progress of the task it was sent down from
+    const progressIds = [...(updated.assignee_id === userId ? [updated.id] : []), ...(item.parent_id ? [item.parent_id] : [])];
+    const progress = await getSubtaskProgress(progressIds);
+    setSubtaskProgress(prev => ({ ...prev, ...progress }));
+  };
+  const { newTaskIds, markSeen } = useTaskActivity(userId, [agentTasksTopic(userId)], change => refreshTask(change.task_id));
+  const {
+    items: outbox,
+    syncedAt,
+    submit: submitOffline
+  } = useOfflineQueue(userId);
+  const unsyncedTaskIds = new Set(outbox.flatMap(item => item.kind === 'daily_report' ? [] : [item.taskId]));
+  // Queued remarks and completion requests have reached the server, show where the tasks stand now
+  useEffect(() => {
+    if (syncedAt) {
+      fetchTasks();
+    }
+  }, [syncedAt, fetchTasks]);
+  const loadMoreTasks = async (status: 'open' | 'finished') => {
+    setLoadingMore(true);
+    const loadedSoFar = tasks.filter(task => status === 'finished' ? task.status === 'finished' : task.status !== 'finished').length;
+    const page = await loadTaskPage(status, loadedSoFar);
+    setTasks(prev => [...prev, ...page.loaded.filter(task => !prev.some(existing => existing.id === task.id))]);
+    setTaskTotals(prev => ({ ...prev, [status]: page.total }));
+    const progress = await loadSubtaskProgress(page.loaded);
+    setSubtaskProgress(prev => ({ ...prev, ...progress }));
+    setLoadingMore(false);
+  };
+  useEffect(() => {
     const loadAssignees = async () => {
       try {
         const allAssignees: Assignee[] = [];
@@ -277,35 +377,36 @@ export const MyTasks = ({
       fetchTasks();
       loadAssignees();
     }
-  }, [userId, userRole, userTable]);
+  }, [userId, fetchTasks]);
   const handleUpdateRemarks = async (taskId: string, remarks: string) => {
-    try {
-      const {
-        error
-      } = await supabase.from('todos').update({
-        remarks
-      }).eq('id', taskId);
-      if (error) throw error;
-
-      // Update local state
-      setTasks(prev => prev.map(task => task.id === taskId ? {
-        ...task,
-        remarks
-      } : task));
-      setEditingTask(null);
-      setNewRemarks("");
-      toast({
-        title: "Remarks updated",
-        description: "Your remarks have been saved successfully."
-      });
-    } catch (error) {
-      console.error('Error updating remarks:', error);
+    const task = tasks.find(t => t.id === taskId);
+    const result = await submitOffline({
+      kind: 'task_remarks',
+      taskId,
+      taskText: task?.text || '',
+      remarks,
+      baseRemarks: task?.remarks ?? null
+    });
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Failed to update remarks. Please try again.",
+        description: result.error || "Failed to update remarks. Please try again.",
         variant: "destructive"
       });
+      return;
     }
+
+    // Update local state
+    setTasks(prev => prev.map(task => task.id === taskId ? {
+      ...task,
+      remarks
+    } : task));
+    setEditingTask(null);
+    setNewRemarks("");
+    toast({
+      title: result.queued ? "Saved on this device" : "Remarks updated",
+      description: result.queued ? "No connection right now - your remarks will be sent when you are back online." : "Your remarks have been saved successfully."
+    });
   };
   const handleReassignTask = async (taskId: string, assigneeId: string | null, type: 'coordinator' | 'supervisor') => {
     try {
@@ -333,72 +434,7 @@ export const MyTasks = ({
         throw error;
       }
 
-      // Refresh tasks to get updated data
-      const fetchTasks = async () => {
-        try {
-          let query = supabase.from('todos').select('*');
-          if (userTable === 'admin_members') {
-            query = query.filter('assigned_to', 'eq', userId);
-          } else if (userRole === 'coordinator') {
-            query = query.filter('reassigned_to_coordinator', 'eq', userId);
-          } else if (userRole === 'supervisor') {
-            query = query.filter('reassigned_to_supervisor', 'eq', userId);
-          } else {
-            query = query.filter('assigned_to', 'eq', userId);
-          }
-          const {
-            data,
-            error
-          } = await query.order('created_at', {
-            ascending: false
-          });
-          if (error) throw error;
-          const tasksWithAssignees = await Promise.all((data || []).map(async task => {
-            let reassigned_coordinator = null;
-            let reassigned_supervisor = null;
-            let assigned_by = null;
-            const taskAny = task as any;
-            if (taskAny.reassigned_to_coordinator) {
-              const {
-                data: coordinatorData
-              } = await supabase.from('coordinators').select('id, name, mobile_number').eq('id', taskAny.reassigned_to_coordinator).single();
-              reassigned_coordinator = coordinatorData;
-            }
-            if (taskAny.reassigned_to_supervisor) {
-              const {
-                data: supervisorData
-              } = await supabase.from('supervisors').select('id, name, mobile_number').eq('id', taskAny.reassigned_to_supervisor).single();
-              reassigned_supervisor = supervisorData;
-            }
-
-            // For agents, get the team member who assigned the task
-            if ((userRole === 'coordinator' || userRole === 'supervisor') && taskAny.assigned_to) {
-              const {
-                data: teamMemberData
-              } = await supabase.from('admin_members').select('id, name, mobile_number').eq('id', taskAny.assigned_to).single();
-              assigned_by = teamMemberData;
-            }
-            return {
-              id: task.id,
-              text: task.text,
-              status: task.status as TaskStatus,
-              remarks: task.remarks,
-              created_at: task.created_at,
-              finished_at: task.finished_at,
-              assigned_to: taskAny.assigned_to || null,
-              reassigned_to_coordinator: taskAny.reassigned_to_coordinator || null,
-              reassigned_to_supervisor: taskAny.reassigned_to_supervisor || null,
-              reassigned_coordinator,
-              reassigned_supervisor,
-              assigned_by
-            };
-          }));
-          setTasks(tasksWithAssignees);
-        } catch (err) {
-          console.error('Error fetching tasks after reassignment:', err);
-        }
-      };
-      await fetchTasks();
+      await refreshTask(taskId);
       setReassigningTask(null);
       setSelectedReassignee('unassigned');
       setAssigneeSearchTerm('');
@@ -416,71 +452,72 @@ export const MyTasks = ({
     }
   };
   const openRemarksDialog = (task: Task) => {
+    markSeen(task.id);
     setEditingTask(task.id);
     setNewRemarks(task.remarks || "");
   };
-  const handleRequestFinish = async (taskId: string) => {
-    try {
-      // Only add a "requested completion" marker to remarks; keep status as 'unfinished'
-      const marker = `${userRole === 'coordinator' ? 'Coordinator' : 'Supervisor'} requested completion - Awaiting final approval`;
-      const current = tasks.find(t => t.id === taskId);
-      const alreadyRequested = current?.remarks?.toLowerCase().includes('requested completion');
-      const newRemarks = alreadyRequested ? current?.remarks || marker : current?.remarks ? `${current.remarks} | ${marker}` : marker;
-      const {
-        error
-      } = await supabase.from('todos').update({
-        remarks: newRemarks
-      }).eq('id', taskId);
-      if (error) throw error;
-      toast({
-        title: "Request Sent",
-        description: "Task marked as requested - awaiting team member approval."
-      });
-
-      // Refresh tasks by refetching
-      const {
-        data: updatedTasks
-      } = await supabase.from('todos').select('*').order('created_at', {
-        ascending: false
-      });
-      if (updatedTasks) setTasks(updatedTasks as Task[]);
-    } catch (error) {
-      console.error('Error sending completion request:', error);
+  const openHistory = (task: Task) => {
+    markSeen(task.id);
+    setHistoryTask(task);
+  };
+  const openComments = (task: Task) => {
+    markSeen(task.id);
+    setCommentsTask(task);
+  };
+  const openRequestDialog = (task: Task) => {
+    setRequestingTask(task);
+    setEvidence('');
+  };
+  const handleRequestFinish = async () => {
+    if (!requestingTask) return;
+    setSendingRequest(true);
+    const result = await submitOffline({
+      kind: 'task_completion',
+      taskId: requestingTask.id,
+      taskText: requestingTask.text,
+      evidence: evidence.trim()
+    });
+    setSendingRequest(false);
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Failed to send completion request. Please try again.",
+        description: result.error || "Failed to send completion request. Please try again.",
         variant: "destructive"
       });
+      return;
     }
-  };
-  const handleFinishTask = async (taskId: string) => {
-    try {
-      const {
-        error
-      } = await supabase.from('todos').update({
-        status: 'finished'
-      }).eq('id', taskId);
-      if (error) throw error;
+    const taskId = requestingTask.id;
+    setRequestingTask(null);
+    setEvidence('');
+    if (result.queued) {
       toast({
-        title: "Task Finished",
-        description: "Task has been marked as completed."
+        title: "Saved on this device",
+        description: "No connection right now - your request will be sent when you are back online."
       });
-
-      // Refresh tasks
-      const {
-        data: updatedTasks
-      } = await supabase.from('todos').select('*').order('created_at', {
-        ascending: false
-      });
-      if (updatedTasks) setTasks(updatedTasks as Task[]);
-    } catch (error) {
-      console.error('Error finishing task:', error);
+      return;
+    }
+    toast({
+      title: "Request Sent",
+      description: "Task marked as requested - awaiting approval."
+    });
+    await refreshTask(taskId);
+  };
+  const handleCascade = async (task: Task) => {
+    const result = await cascadeTask(task.id);
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Failed to finish task. Please try again.",
+        description: result.error || "Failed to send the task down. Please try again.",
         variant: "destructive"
       });
+      return;
     }
+    const recipients = userRole === 'supervisor' ? 'group leaders' : 'PROs';
+    toast({
+      title: result.created ? "Task Sent" : "Nothing to Send",
+      description: result.created ? `Sent to ${result.created} ${recipients}. You will be asked to finish it once they all have.` : `All of your ${recipients} already have this task.`
+    });
+    await refreshTask(task.id);
   };
   const startReassigning = (task: Task) => {
     setReassigningTask(task.id);
@@ -526,13 +563,20 @@ export const MyTasks = ({
         </CardContent>
       </Card>;
   }
-  const pendingTasks = tasks.filter(task => task.status === 'unfinished');
+  const pendingTasks = tasks.filter(task => task.status !== 'finished');
+  const isEscalatedToUser = (task: Task) => task.escalated_to_coordinator === userId && task.reassigned_to_coordinator !== userId;
   const finishedTasks = tasks.filter(task => task.status === 'finished');
   return <Card className="glass-card">
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Clock className="h-5 w-5 text-primary" />
-          {userTable === 'admin_members' ? 'Your Assigned Tasks' : 'Your Reassigned Tasks'} ({tasks.length})
+          {userTable === 'admin_members' ? 'Your Assigned Tasks' : 'Your Reassigned Tasks'} ({taskTotals.open + taskTotals.finished})
+          {newTaskIds.size > 0 && <div className="ml-auto flex items-center gap-2">
+              <Badge>{newTaskIds.size} new</Badge>
+              <Button variant="ghost" size="sm" onClick={() => markSeen()}>
+                Mark all as seen
+              </Button>
+            </div>}
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -548,11 +592,11 @@ export const MyTasks = ({
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="pending" className="flex items-center gap-2">
                 <Clock className="h-4 w-4" />
-                Pending ({pendingTasks.length})
+                Pending ({taskTotals.open})
               </TabsTrigger>
               <TabsTrigger value="finished" className="flex items-center gap-2">
                 <CheckCircle className="h-4 w-4" />
-                Finished ({finishedTasks.length})
+                Finished ({taskTotals.finished})
               </TabsTrigger>
             </TabsList>
             
@@ -561,7 +605,12 @@ export const MyTasks = ({
                   <Clock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                   <p className="text-muted-foreground">No pending tasks.</p>
                 </div> : <div>
-                  {pendingTasks.map(task => <TaskItem key={task.id} task={task} userTable={userTable} editingTaskId={editingTask} newRemarks={newRemarks} onOpenRemarks={openRemarksDialog} onCloseRemarks={() => setEditingTask(null)} onChangeRemarks={setNewRemarks} onSaveRemarks={handleUpdateRemarks} onStartReassign={startReassigning} onRequestFinish={handleRequestFinish} onFinishTask={handleFinishTask} />)}
+                  {pendingTasks.map(task => <TaskItem key={task.id} task={task} userId={userId} userRole={userRole} userTable={userTable} isEscalatedToUser={isEscalatedToUser(task)} isNew={newTaskIds.has(task.id)} isUnsynced={unsyncedTaskIds.has(task.id)} subtaskProgress={subtaskProgress[task.id]} editingTaskId={editingTask} newRemarks={newRemarks} onOpenRemarks={openRemarksDialog} onCloseRemarks={() => setEditingTask(null)} onChangeRemarks={setNewRemarks} onSaveRemarks={handleUpdateRemarks} onStartReassign={startReassigning} onShowHistory={openHistory} onShowComments={openComments} onRequestFinish={openRequestDialog} onReviewRequest={setReviewingTask} onCascade={handleCascade} />)}
+                  {pendingTasks.length < taskTotals.open && <div className="flex justify-center mt-2">
+                      <Button variant="outline" onClick={() => loadMoreTasks('open')} disabled={loadingMore}>
+                        {loadingMore ? 'Loading...' : 'Load more'}
+                      </Button>
+                    </div>}
                 </div>}
             </TabsContent>
             
@@ -570,7 +619,12 @@ export const MyTasks = ({
                   <CheckCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                   <p className="text-muted-foreground">No finished tasks.</p>
                 </div> : <div>
-                  {finishedTasks.map(task => <TaskItem key={task.id} task={task} userTable={userTable} editingTaskId={editingTask} newRemarks={newRemarks} onOpenRemarks={openRemarksDialog} onCloseRemarks={() => setEditingTask(null)} onChangeRemarks={setNewRemarks} onSaveRemarks={handleUpdateRemarks} onStartReassign={startReassigning} onRequestFinish={handleRequestFinish} onFinishTask={handleFinishTask} />)}
+                  {finishedTasks.map(task => <TaskItem key={task.id} task={task} userId={userId} userRole={userRole} userTable={userTable} isEscalatedToUser={isEscalatedToUser(task)} isNew={newTaskIds.has(task.id)} isUnsynced={unsyncedTaskIds.has(task.id)} subtaskProgress={subtaskProgress[task.id]} editingTaskId={editingTask} newRemarks={newRemarks} onOpenRemarks={openRemarksDialog} onCloseRemarks={() => setEditingTask(null)} onChangeRemarks={setNewRemarks} onSaveRemarks={handleUpdateRemarks} onStartReassign={startReassigning} onShowHistory={openHistory} onShowComments={openComments} onRequestFinish={openRequestDialog} onReviewRequest={setReviewingTask} onCascade={handleCascade} />)}
+                  {finishedTasks.length < taskTotals.finished && <div className="flex justify-center mt-2">
+                      <Button variant="outline" onClick={() => loadMoreTasks('finished')} disabled={loadingMore}>
+                        {loadingMore ? 'Loading...' : 'Load more'}
+                      </Button>
+                    </div>}
                 </div>}
             </TabsContent>
           </Tabs>}
@@ -634,5 +688,35 @@ export const MyTasks = ({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Request Completion Dialog */}
+      <Dialog open={!!requestingTask} onOpenChange={open => !open && !sendingRequest && setRequestingTask(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Request to Finish</DialogTitle>
+            <DialogDescription>
+              {requestingTask?.text}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">What was done? *</label>
+            <Textarea value={evidence} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setEvidence(e.target.value)} placeholder="Describe the work done so it can be approved..." rows={4} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRequestingTask(null)} disabled={sendingRequest}>
+              Cancel
+            </Button>
+            <Button onClick={handleRequestFinish} disabled={sendingRequest || !evidence.trim()}>
+              {sendingRequest ? 'Sending...' : 'Send Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TaskHistoryDialog task={historyTask} onOpenChange={open => !open && setHistoryTask(null)} />
+
+      <TaskCommentsDialog task={commentsTask} onOpenChange={open => !open && setCommentsTask(null)} />
+
+      <CompletionReviewDialog task={reviewingTask} onOpenChange={open => !open && setReviewingTask(null)} onReviewed={refreshTask} />
     </Card>;
 };
@@ -5,7 +5,11 @@ import { PanchayathForm } from "@/components/PanchayathForm";
 import { PanchayathSelector } from "@/components/PanchayathSelector";
 import { MapPin } from "lucide-react";
 
-export const PanchayathManagement = () => {
+interface PanchayathManagementProps {
+  canDelete: boolean;
+}
+
+export const PanchayathManagement = ({ canDelete }: PanchayathManagementProps) => {
   const [editingPanchayath, setEditingPanchayath] = useState<any>(null);
   const [activeTab, setActiveTab] = useState("create");
   const [refreshKey, setRefreshKey] = useState(0);
@@ -73,7 +77,7 @@ export const PanchayathManagement = () => {
                       onPanchayathCreated={handlePanchayathCreatedOrUpdated} 
                       editingPanchayath={editingPanchayath} 
                       onEditComplete={() => setEditingPanchayath(null)} 
-                      onPanchayathDeleted={handlePanchayathDeleted} 
+                      onPanchayathDeleted={canDelete ? handlePanchayathDeleted : undefined} 
                     />
                   </div>
                 )}
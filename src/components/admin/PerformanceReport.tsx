@@ -6,9 +6,30 @@ import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { supabase } from "@/integrations/supabase/client";
-import { Activity, AlertTriangle, Users, TrendingDown, ChevronDown, ChevronRight, Calendar, Eye } from "lucide-react";
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { Activity, AlertTriangle, Users, TrendingDown, ChevronDown, ChevronRight, Calendar, Eye, ListChecks } from "lucide-react";
+import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { ActivityCategoryManager } from "@/components/ActivityCategoryManager";
+import {
+  ActivityTotal,
+  CategoryTotal,
+  DailyNoteEntry,
+  agentActivityTotals,
+  describeDailyEntries,
+  getActivityCategories,
+  getActivityTotals,
+  summarizeActivityTotals
+} from "@/lib/dailyReportService";
+import {
+  ApprovedLeave,
+  INACTIVE_AFTER_MISSING_DAYS,
+  getApprovedLeaves,
+  getReportDayStatus,
+  hasDailyReport,
+  listDates,
+  summarizeReportDays
+} from "@/lib/leaveService";
 
 interface Panchayath {
   id: string;
@@ -20,10 +41,14 @@ interface AgentPerformance {
   agent_name: string;
   agent_type: string;
   mobile_number: string;
-  consecutive_leave_days: number;
+  consecutive_missing_days: number;
   is_inactive: boolean;
   last_activity_date: string | null;
-  total_notes: number;
+  reported_days: number;
+  late_days: number;
+  leave_days: number;
+  missing_days: number;
+  activity_totals: Record<string, number>;
 }
 
 interface PerformanceStats {
@@ -36,6 +61,10 @@ interface DailyNote {
   date: string;
   is_leave: boolean;
   activity: string;
+  created_at: string;
+  late_submitted_at: string | null;
+  late_approved_by: string | null;
+  entries: DailyNoteEntry[];
 }
 
 export const PerformanceReport = () => {
@@ -48,9 +77,12 @@ export const PerformanceReport = () => {
     inactive_agents: 0,
     inactive_percentage: 0
   });
+  const [categoryTotals, setCategoryTotals] = useState<CategoryTotal[]>([]);
+  const [categoriesDialogOpen, setCategoriesDialogOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [selectedAgent, setSelectedAgent] = useState<AgentPerformance | null>(null);
   const [agentDailyNotes, setAgentDailyNotes] = useState<DailyNote[]>([]);
+  const [agentLeaves, setAgentLeaves] = useState<ApprovedLeave[]>([]);
   const [notesDialogOpen, setNotesDialogOpen] = useState(false);
   const [dialogSelectedMonth, setDialogSelectedMonth] = useState<string>(new Date().toISOString().slice(0, 7));
   const { toast } = useToast();
@@ -92,6 +124,16 @@ export const PerformanceReport = () => {
     setLoading(true);
     try {
       const allAgents: AgentPerformance[] = [];
+      const startOfMonth = new Date(selectedMonth + '-01');
+      const endOfMonth = new Date(startOfMonth.getFullYear(), startOfMonth.getMonth() + 1, 0);
+      const from = startOfMonth.toISOString().split('T')[0];
+      const to = endOfMonth.toISOString().split('T')[0];
+      const [categories, totals, leaves] = await Promise.all([
+        getActivityCategories(selectedPanchayath, true),
+        getActivityTotals(selectedPanchayath, from, to),
+        getApprovedLeaves({ panchayathId: selectedPanchayath }, from, to)
+      ]);
+      setCategoryTotals(summarizeActivityTotals(categories, totals));
 
       // Get coordinators
       const { data: coordinators, error: coordError } = await supabase
@@ -103,7 +145,7 @@ export const PerformanceReport = () => {
 
       if (coordinators) {
         for (const agent of coordinators) {
-          const performance = await analyzeAgentPerformance(agent.mobile_number, agent.name, 'coordinator');
+          const performance = await analyzeAgentPerformance(agent.mobile_number, agent.name, 'coordinator', totals, leaves);
           allAgents.push({
             agent_id: agent.id,
             agent_name: agent.name,
@@ -124,7 +166,7 @@ export const PerformanceReport = () => {
 
       if (supervisors) {
         for (const agent of supervisors) {
-          const performance = await analyzeAgentPerformance(agent.mobile_number, agent.name, 'supervisor');
+          const performance = await analyzeAgentPerformance(agent.mobile_number, agent.name, 'supervisor', totals, leaves);
           allAgents.push({
             agent_id: agent.id,
             agent_name: agent.name,
@@ -145,7 +187,7 @@ export const PerformanceReport = () => {
 
       if (groupLeaders) {
         for (const agent of groupLeaders) {
-          const performance = await analyzeAgentPerformance(agent.mobile_number, agent.name, 'group_leader');
+          const performance = await analyzeAgentPerformance(agent.mobile_number, agent.name, 'group_leader', totals, leaves);
           allAgents.push({
             agent_id: agent.id,
             agent_name: agent.name,
@@ -166,7 +208,7 @@ export const PerformanceReport = () => {
 
       if (pros) {
         for (const agent of pros) {
-          const performance = await analyzeAgentPerformance(agent.mobile_number, agent.name, 'pro');
+          const performance = await analyzeAgentPerformance(agent.mobile_number, agent.name, 'pro', totals, leaves);
           allAgents.push({
             agent_id: agent.id,
             agent_name: agent.name,
@@ -202,96 +244,50 @@ export const PerformanceReport = () => {
     }
   };
 
-  const analyzeAgentPerformance = async (mobileNumber: string, agentName: string, agentType: string) => {
+  const analyzeAgentPerformance = async (mobileNumber: string, agentName: string, agentType: string, totals: ActivityTotal[], leaves: ApprovedLeave[]) => {
     try {
       // Get daily notes for the selected month
       const startOfMonth = new Date(selectedMonth + '-01');
       const endOfMonth = new Date(startOfMonth.getFullYear(), startOfMonth.getMonth() + 1, 0);
+      const from = startOfMonth.toISOString().split('T')[0];
+      const to = endOfMonth.toISOString().split('T')[0];
       
       const { data: notes, error } = await supabase
         .from('daily_notes')
-        .select('date, is_leave, activity')
+        .select('date, is_leave, activity, late_submitted_at, entries:daily_note_entries(quantity)')
         .eq('mobile_number', mobileNumber)
-        .gte('date', startOfMonth.toISOString().split('T')[0])
-        .lte('date', endOfMonth.toISOString().split('T')[0])
+        .gte('date', from)
+        .lte('date', to)
         .order('date', { ascending: true });
 
       if (error) throw error;
 
-      // Create a map of notes by date for easy lookup
-      const notesMap = new Map();
-      (notes || []).forEach(note => {
-        notesMap.set(note.date, note);
-      });
-
-      // Generate all dates in the month to check for gaps
-      const allDates = [];
-      const currentDate = new Date(startOfMonth);
-      const today = new Date();
-      
-      while (currentDate <= endOfMonth && currentDate <= today) {
-        allDates.push(currentDate.toISOString().split('T')[0]);
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-
-      // Sort dates in descending order to start from most recent
-      allDates.reverse();
-
-      let consecutiveLeaveDays = 0;
-      let lastActivityDate = null;
-      
-      // Count consecutive leave days from most recent date
-      for (const dateStr of allDates) {
-        const note = notesMap.get(dateStr);
-        
-        // If no note exists for this date, or note is marked as leave, or no activity
-        const isLeaveDay = !note || note.is_leave || !note.activity || note.activity.trim() === '';
-        
-        if (isLeaveDay) {
-          consecutiveLeaveDays++;
-        } else {
-          // Found an active day, stop counting consecutive leave days
-          if (!lastActivityDate) {
-            lastActivityDate = dateStr;
-          }
-          break;
-        }
-        
-        // Track last activity date regardless of consecutive streak
-        if (note && !note.is_leave && note.activity && note.activity.trim() !== '' && !lastActivityDate) {
-          lastActivityDate = dateStr;
-        }
-      }
-
-      // If we didn't find last activity in consecutive check, search all notes
-      if (!lastActivityDate) {
-        // Sort all dates in descending order to find most recent activity
-        const sortedDates = allDates.sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
-        for (const dateStr of sortedDates) {
-          const note = notesMap.get(dateStr);
-          if (note && !note.is_leave && note.activity && note.activity.trim() !== '') {
-            lastActivityDate = dateStr;
-            break;
-          }
-        }
-      }
-
-      const isInactive = consecutiveLeaveDays >= 3;
+      // Only the days of the month so far count; approved leave is neither reported nor missing
+      const today = new Date().toISOString().split('T')[0];
+      const summary = summarizeReportDays(listDates(from, to < today ? to : today), notes || [], leaves, mobileNumber);
 
       return {
-        consecutive_leave_days: consecutiveLeaveDays,
-        is_inactive: isInactive,
-        last_activity_date: lastActivityDate,
-        total_notes: notes?.length || 0
+        consecutive_missing_days: summary.consecutive_missing_days,
+        is_inactive: summary.consecutive_missing_days >= INACTIVE_AFTER_MISSING_DAYS,
+        last_activity_date: summary.last_report_date,
+        reported_days: summary.reported_days,
+        late_days: (notes || []).filter(note => note.late_submitted_at && hasDailyReport(note)).length,
+        leave_days: summary.leave_days,
+        missing_days: summary.missing_days,
+        activity_totals: agentActivityTotals(totals, mobileNumber)
       };
 
     } catch (error) {
       console.error(`Error analyzing performance for ${agentName}:`, error);
       return {
-        consecutive_leave_days: 0,
+        consecutive_missing_days: 0,
         is_inactive: false,
         last_activity_date: null,
-        total_notes: 0
+        reported_days: 0,
+        late_days: 0,
+        leave_days: 0,
+        missing_days: 0,
+        activity_totals: {}
       };
     }
   };
@@ -302,17 +298,24 @@ export const PerformanceReport = () => {
       const startOfMonth = new Date(monthToUse + '-01');
       const endOfMonth = new Date(startOfMonth.getFullYear(), startOfMonth.getMonth() + 1, 0);
       
-      const { data: notes, error } = await supabase
-        .from('daily_notes')
-        .select('date, is_leave, activity')
-        .eq('mobile_number', agent.mobile_number)
-        .gte('date', startOfMonth.toISOString().split('T')[0])
-        .lte('date', endOfMonth.toISOString().split('T')[0])
-        .order('date', { ascending: true });
+      const from = startOfMonth.toISOString().split('T')[0];
+      const to = endOfMonth.toISOString().split('T')[0];
+      
+      const [{ data: notes, error }, leaves] = await Promise.all([
+        supabase
+          .from('daily_notes')
+          .select('date, is_leave, activity, created_at, late_submitted_at, late_approved_by, entries:daily_note_entries(category_id, quantity)')
+          .eq('mobile_number', agent.mobile_number)
+          .gte('date', from)
+          .lte('date', to)
+          .order('date', { ascending: true }),
+        getApprovedLeaves({ mobileNumber: agent.mobile_number }, from, to)
+      ]);
 
       if (error) throw error;
 
       setAgentDailyNotes(notes || []);
+      setAgentLeaves(leaves);
       setSelectedAgent(agent);
       setNotesDialogOpen(true);
     } catch (error) {
@@ -379,7 +382,7 @@ export const PerformanceReport = () => {
           Panchayath Performance Report
         </CardTitle>
         <CardDescription>
-          Monitor agent activity and identify inactive agents based on daily notes
+          Monitor agent activity and identify agents who stopped sending daily reports
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -443,7 +446,7 @@ export const PerformanceReport = () => {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-destructive">{performanceStats.inactive_agents}</div>
-                <p className="text-xs text-muted-foreground">3+ consecutive leave days</p>
+                <p className="text-xs text-muted-foreground">{INACTIVE_AFTER_MISSING_DAYS}+ missing reports in a row, not counting approved leave</p>
               </CardContent>
             </Card>
             
@@ -462,6 +465,38 @@ export const PerformanceReport = () => {
           </div>
         )}
 
+        {/* Activity Totals */}
+        {selectedPanchayath && selectedMonth && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">Reported Activity</h3>
+              <Button variant="outline" size="sm" onClick={() => setCategoriesDialogOpen(true)} className="flex items-center gap-1">
+                <ListChecks className="h-4 w-4" />
+                Activity Types
+              </Button>
+            </div>
+            {categoryTotals.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No activity types are set up for this panchayath</p>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {categoryTotals.map(({ category, quantity, agents }) => (
+                  <Card key={category.id}>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium">{category.name}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-2xl font-bold">{quantity}</div>
+                      <p className="text-xs text-muted-foreground">
+                        {agents} {agents === 1 ? 'agent' : 'agents'} this month{category.archived_at ? ' • archived' : ''}
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Agent Performance by Role */}
         {selectedPanchayath && selectedMonth && (
           <div className="space-y-4">
@@ -512,9 +547,15 @@ export const PerformanceReport = () => {
                                     <TableHead>Agent Name</TableHead>
                                     <TableHead>Mobile</TableHead>
                                     <TableHead>Status</TableHead>
-                                    <TableHead>Consecutive Leave Days</TableHead>
-                                    <TableHead>Last Activity</TableHead>
-                                    <TableHead>Total Notes</TableHead>
+                                    <TableHead>Missing Reports in a Row</TableHead>
+                                    <TableHead>Last Report</TableHead>
+                                    <TableHead>Reported Days</TableHead>
+                                    <TableHead>Reported Late</TableHead>
+                                    <TableHead>Missing Reports</TableHead>
+                                    <TableHead>Approved Leave</TableHead>
+                                    {categoryTotals.map(({ category }) => (
+                                      <TableHead key={category.id} className="text-right">{category.name}</TableHead>
+                                    ))}
                                   </TableRow>
                                 </TableHeader>
                                 <TableBody>
@@ -524,8 +565,8 @@ export const PerformanceReport = () => {
                                       <TableCell>{agent.mobile_number}</TableCell>
                                       <TableCell>{getStatusBadge(agent)}</TableCell>
                                       <TableCell>
-                                        <span className={agent.consecutive_leave_days >= 3 ? "text-destructive font-semibold" : ""}>
-                                          {agent.consecutive_leave_days}
+                                        <span className={agent.is_inactive ? "text-destructive font-semibold" : ""}>
+                                          {agent.consecutive_missing_days}
                                         </span>
                                       </TableCell>
                                        <TableCell>
@@ -535,7 +576,7 @@ export const PerformanceReport = () => {
                                                {new Date(agent.last_activity_date).toLocaleDateString()}
                                              </span>
                                            ) : (
-                                             <span className="text-muted-foreground text-sm">No activity</span>
+                                             <span className="text-muted-foreground text-sm">No report</span>
                                            )}
                                            <Button
                                              variant="outline"
@@ -551,7 +592,17 @@ export const PerformanceReport = () => {
                                            </Button>
                                          </div>
                                        </TableCell>
-                                      <TableCell>{agent.total_notes}</TableCell>
+                                      <TableCell>{agent.reported_days}</TableCell>
+                                      <TableCell>
+                                        <span className={agent.late_days > 0 ? "text-amber-600" : ""}>{agent.late_days}</span>
+                                      </TableCell>
+                                      <TableCell>{agent.missing_days}</TableCell>
+                                      <TableCell>{agent.leave_days}</TableCell>
+                                      {categoryTotals.map(({ category }) => (
+                                        <TableCell key={category.id} className="text-right">
+                                          {agent.activity_totals[category.id] || 0}
+                                        </TableCell>
+                                      ))}
                                     </TableRow>
                                   ))}
                                 </TableBody>
@@ -625,6 +676,8 @@ export const PerformanceReport = () => {
                   const dayOfWeek = date.getDay();
                   const dayOfMonth = date.getDate();
                   const isToday = dateStr === new Date().toISOString().split('T')[0];
+                  const isPast = dateStr < new Date().toISOString().split('T')[0];
+                  const status = getReportDayStatus(dateStr, note, agentLeaves);
                   
                   // Add empty cells for proper calendar alignment
                   const emptyCells = [];
@@ -640,25 +693,39 @@ export const PerformanceReport = () => {
                       <div className={`
                         p-2 border rounded-lg text-center text-sm min-h-[80px] flex flex-col justify-between
                         ${isToday ? 'border-primary bg-primary/5' : 'border-border'}
-                        ${note?.is_leave ? 'bg-destructive/10 border-destructive/20' : ''}
-                        ${note && !note.is_leave && note.activity ? 'bg-green-50 border-green-200' : ''}
+                        ${status === 'missing' && isPast ? 'bg-destructive/10 border-destructive/20' : ''}
+                        ${status === 'leave' ? 'bg-blue-50 border-blue-200' : ''}
+                        ${status === 'reported' ? 'bg-green-50 border-green-200' : ''}
+                        ${status === 'reported' && note.late_submitted_at ? 'ring-2 ring-amber-400' : ''}
                       `}>
                         <div className="font-medium">{dayOfMonth}</div>
-                        {note ? (
+                        {status === 'reported' ? (
                           <div className="space-y-1">
-                            {note.is_leave ? (
-                              <Badge variant="destructive" className="text-xs">Leave</Badge>
-                            ) : note.activity && note.activity.trim() ? (
-                              <Badge variant="default" className="text-xs">Active</Badge>
-                            ) : (
-                              <Badge variant="secondary" className="text-xs">No Activity</Badge>
+                            <Badge variant="default" className="text-xs">Active</Badge>
+                            {note.late_submitted_at && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs border-amber-500 text-amber-700"
+                                title={`First submitted ${format(new Date(note.created_at), 'dd MMM, hh:mm a')}; late report submitted ${format(new Date(note.late_submitted_at), 'dd MMM, hh:mm a')}${note.late_approved_by ? `, approved by ${note.late_approved_by}` : ''}`}
+                              >
+                                Late
+                              </Badge>
                             )}
-                            {note.activity && note.activity.trim() && !note.is_leave && (
+                            {note.entries.length > 0 && (
+                              <div className="text-xs font-medium truncate" title={describeDailyEntries(note.entries, categoryTotals.map(total => total.category))}>
+                                {note.entries.reduce((sum, entry) => sum + entry.quantity, 0)} reported
+                              </div>
+                            )}
+                            {note.activity && note.activity.trim() && (
                               <div className="text-xs text-muted-foreground truncate" title={note.activity}>
                                 {note.activity.slice(0, 20)}{note.activity.length > 20 ? '...' : ''}
                               </div>
                             )}
                           </div>
+                        ) : status === 'leave' ? (
+                          <Badge variant="secondary" className="text-xs">Leave</Badge>
+                        ) : isPast ? (
+                          <Badge variant="destructive" className="text-xs">Missing</Badge>
                         ) : (
                           <Badge variant="outline" className="text-xs">No Data</Badge>
                         )}
@@ -674,13 +741,17 @@ export const PerformanceReport = () => {
                   <div className="w-4 h-4 bg-green-50 border border-green-200 rounded"></div>
                   <span className="text-sm">Active Day</span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 bg-blue-50 border border-blue-200 rounded"></div>
+                  <span className="text-sm">Approved Leave</span>
+                </div>
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 bg-destructive/10 border border-destructive/20 rounded"></div>
-                  <span className="text-sm">Leave Day</span>
+                  <span className="text-sm">Missing Report</span>
                 </div>
                 <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 bg-background border border-border rounded"></div>
-                  <span className="text-sm">No Activity</span>
+                  <div className="w-4 h-4 bg-green-50 border border-green-200 rounded ring-2 ring-amber-400"></div>
+                  <span className="text-sm">Reported Late</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 bg-primary/5 border border-primary rounded"></div>
@@ -691,6 +762,25 @@ export const PerformanceReport = () => {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Activity Types Dialog */}
+      <Dialog
+        open={categoriesDialogOpen}
+        onOpenChange={(open) => {
+          setCategoriesDialogOpen(open);
+          if (!open) fetchPerformanceData();
+        }}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Activity Types - {panchayaths.find(p => p.id === selectedPanchayath)?.name}
+            </DialogTitle>
+          </DialogHeader>
+          {selectedPanchayath && <ActivityCategoryManager panchayathId={selectedPanchayath} />}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
\ No newline at end of file
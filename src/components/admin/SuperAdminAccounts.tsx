@@ -0,0 +1,184 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { KeyRound, Plus, Shield } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { SuperAdminListItem, listSuperAdmins, createSuperAdmin, resetSuperAdminPassword } from "@/lib/superAdminAuthService";
+
+interface SuperAdminAccountsProps {
+  currentAdminId: string;
+}
+
+export const SuperAdminAccounts = ({ currentAdminId }: SuperAdminAccountsProps) => {
+  const [admins, setAdmins] = useState<SuperAdminListItem[]>([]);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [resettingAdmin, setResettingAdmin] = useState<SuperAdminListItem | null>(null);
+  const [username, setUsername] = useState("");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchAdmins();
+  }, []);
+
+  const fetchAdmins = async () => {
+    setAdmins(await listSuperAdmins());
+  };
+
+  const resetForm = () => {
+    setUsername("");
+    setName("");
+    setPassword("");
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const result = await createSuperAdmin(username, name, password);
+    setLoading(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to create super admin",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: `Super admin ${username} created successfully`,
+    });
+    setShowCreateForm(false);
+    resetForm();
+    fetchAdmins();
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resettingAdmin) return;
+    setLoading(true);
+
+    const result = await resetSuperAdminPassword(resettingAdmin.id, password);
+    setLoading(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to reset password",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Password Reset",
+      description: `${resettingAdmin.name} has been signed out and must use the new password`,
+    });
+    setResettingAdmin(null);
+    resetForm();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="h-5 w-5" />
+            Super Admin Accounts
+          </CardTitle>
+          <CardDescription>Manage who can access the super admin panel</CardDescription>
+        </div>
+        <Button onClick={() => { resetForm(); setShowCreateForm(true); }} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Add Super Admin
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {admins.map(admin => (
+            <div key={admin.id} className="flex items-center justify-between p-3 rounded-lg border">
+              <div>
+                <p className="font-medium flex items-center gap-2">
+                  {admin.name}
+                  {admin.id === currentAdminId && <Badge variant="secondary">You</Badge>}
+                </p>
+                <p className="text-sm text-muted-foreground">@{admin.username}</p>
+              </div>
+              {admin.id !== currentAdminId && (
+                <Button variant="outline" size="sm" onClick={() => { resetForm(); setResettingAdmin(admin); }} className="flex items-center gap-2">
+                  <KeyRound className="h-4 w-4" />
+                  Reset Password
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={showCreateForm} onOpenChange={setShowCreateForm}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Add Super Admin</DialogTitle>
+            <DialogDescription>The new admin can log in immediately with these credentials.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="super-admin-name">Name *</Label>
+              <Input id="super-admin-name" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="super-admin-username">Username *</Label>
+              <Input id="super-admin-username" value={username} onChange={(e) => setUsername(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="super-admin-password">Password *</Label>
+              <Input id="super-admin-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} minLength={8} required />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowCreateForm(false)} disabled={loading}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Saving..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resettingAdmin} onOpenChange={(open) => !open && setResettingAdmin(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a new password for {resettingAdmin?.name}. They will be logged out of all devices.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReset} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reset-password">New Password *</Label>
+              <Input id="reset-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} minLength={8} required />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setResettingAdmin(null)} disabled={loading}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Saving..." : "Reset Password"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { GitBranch, History, MessageSquare, Sparkles } from "lucide-react";
+import { TaskUrgencyBadges } from "@/components/admin/TaskUrgencyBadges";
+import { SubtaskProgress, TASK_BOARD_COLUMNS, TASK_BOARD_COLUMN_LABELS, TaskBoardColumn, TaskUrgency, getTaskBoardColumn } from "@/lib/taskService";
+
+export type TaskBoardSwimlanes = 'none' | 'assignee' | 'panchayath';
+
+interface Named {
+  id: string;
+  name: string;
+}
+
+export interface TaskBoardTask extends TaskUrgency {
+  id: string;
+  text: string;
+  escalated_at?: string | null;
+  assigned_to?: string | null;
+  reassigned_to_coordinator?: string | null;
+  reassigned_to_supervisor?: string | null;
+  panchayath?: Named | null;
+  assigned_member?: Named | null;
+  reassigned_coordinator?: (Named & { panchayath?: Named | null }) | null;
+  reassigned_supervisor?: (Named & { panchayath?: Named | null }) | null;
+}
+
+interface TaskBoardProps<T extends TaskBoardTask> {
+  tasks: T[];
+  swimlanes: TaskBoardSwimlanes;
+  // Every team member gets a lane, so tasks can be dropped on members who have none yet
+  members: Named[];
+  newTaskIds: Set<string>;
+  subtaskProgress: Record<string, SubtaskProgress>;
+  // memberId is the team member lane the card was dropped in, undefined without assignee lanes
+  onMove: (task: T, column: TaskBoardColumn, memberId?: string | null) => void;
+  onShowComments: (task: T) => void;
+  onShowHistory: (task: T) => void;
+}
+
+interface Lane {
+  id: string | null;
+  name: string;
+}
+
+const fieldHolder = (task: TaskBoardTask) => task.reassigned_coordinator || task.reassigned_supervisor;
+
+// The panchayath a task is scoped to, else that of the coordinator or supervisor holding it
+const panchayathOf = (task: TaskBoardTask) => task.panchayath || fieldHolder(task)?.panchayath;
+
+const laneOf = (task: TaskBoardTask, swimlanes: TaskBoardSwimlanes): string | null => {
+  if (swimlanes === 'assignee') return task.assigned_to || null;
+  if (swimlanes === 'panchayath') return panchayathOf(task)?.id || null;
+  return null;
+};
+
+const buildLanes = (tasks: TaskBoardTask[], swimlanes: TaskBoardSwimlanes, members: Named[]): Lane[] => {
+  if (swimlanes === 'none') return [{ id: null, name: '' }];
+
+  const named = new Map<string, string>();
+  if (swimlanes === 'assignee') members.forEach(member => named.set(member.id, member.name));
+  tasks.forEach(task => {
+    const owner = swimlanes === 'assignee' ? task.assigned_member : panchayathOf(task);
+    if (owner && !named.has(owner.id)) named.set(owner.id, owner.name);
+  });
+
+  const lanes = Array.from(named, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  return [...lanes, { id: null, name: swimlanes === 'assignee' ? 'Unassigned' : 'No panchayath' }];
+};
+
+// Columns from unassigned to finished; dragging a card to another column or lane asks onMove to
+// make the matching change
+export const TaskBoard = <T extends TaskBoardTask>({
+  tasks,
+  swimlanes,
+  members,
+  newTaskIds,
+  subtaskProgress,
+  onMove,
+  onShowComments,
+  onShowHistory
+}: TaskBoardProps<T>) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const lanes = buildLanes(tasks, swimlanes, members);
+  const cellKey = (column: TaskBoardColumn, laneId: string | null) => `${column}:${laneId ?? ''}`;
+
+  const handleDrop = (column: TaskBoardColumn, laneId: string | null) => {
+    const task = tasks.find(t => t.id === draggingId);
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!task) return;
+    if (getTaskBoardColumn(task) === column && laneOf(task, swimlanes) === laneId) return;
+    onMove(task, column, swimlanes === 'assignee' ? laneId : undefined);
+  };
+
+  const renderCard = (task: T) => {
+    const holder = fieldHolder(task);
+    const progress = subtaskProgress[task.id];
+
+    return (
+      <div
+        key={task.id}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData('text/plain', task.id);
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggingId(task.id);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDropTarget(null);
+        }}
+        className={`rounded-md border bg-card p-2 text-sm shadow-sm cursor-grab active:cursor-grabbing ${draggingId === task.id ? 'opacity-50' : ''} ${newTaskIds.has(task.id) ? 'ring-2 ring-primary/40' : ''}`}
+      >
+        <p className={task.status === 'finished' ? 'line-through text-muted-foreground' : 'font-medium'}>{task.text}</p>
+        <div className="mt-1 flex flex-wrap gap-1">
+          {newTaskIds.has(task.id) && (
+            <Badge className="text-xs">
+              <Sparkles className="h-3 w-3 mr-1" />
+              New
+            </Badge>
+          )}
+          <TaskUrgencyBadges task={task} />
+          {progress && (
+            <Badge variant="outline" className="text-xs whitespace-nowrap">
+              <GitBranch className="h-3 w-3 mr-1" />
+              {progress.finished}/{progress.total} sub-tasks
+            </Badge>
+          )}
+        </div>
+        {(task.assigned_member || holder) && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            {task.assigned_member?.name}
+            {task.assigned_member && holder && ' → '}
+            {holder?.name}
+          </p>
+        )}
+        <div className="mt-1 flex justify-end gap-1">
+          <Button size="sm" variant="ghost" onClick={() => onShowComments(task)} className="h-6 px-1" title="Comments">
+            <MessageSquare className="h-3 w-3" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => onShowHistory(task)} className="h-6 px-1" title="Task history">
+            <History className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[900px] space-y-2">
+        <div className="grid grid-cols-5 gap-2">
+          {TASK_BOARD_COLUMNS.map(column => (
+            <div key={column} className="px-2 text-sm font-medium">
+              {TASK_BOARD_COLUMN_LABELS[column]} ({tasks.filter(task => getTaskBoardColumn(task) === column).length})
+            </div>
+          ))}
+        </div>
+        {lanes.map(lane => {
+          const laneTasks = tasks.filter(task => laneOf(task, swimlanes) === lane.id);
+
+          return (
+            <div key={lane.id ?? 'none'} className="space-y-1">
+              {swimlanes !== 'none' && (
+                <div className="px-2 pt-2 text-xs font-semibold uppercase text-muted-foreground">
+                  {lane.name} ({laneTasks.length})
+                </div>
+              )}
+              <div className="grid grid-cols-5 gap-2">
+                {TASK_BOARD_COLUMNS.map(column => {
+                  const key = cellKey(column, lane.id);
+
+                  return (
+                    <div
+                      key={key}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setDropTarget(key);
+                      }}
+                      onDragLeave={() => setDropTarget(prev => prev === key ? null : prev)}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(column, lane.id);
+                      }}
+                      className={`min-h-[80px] space-y-2 rounded-lg p-2 ${dropTarget === key ? 'bg-primary/10 ring-2 ring-primary/30' : 'bg-muted/40'}`}
+                    >
+                      {laneTasks.filter(task => getTaskBoardColumn(task) === column).map(renderCard)}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
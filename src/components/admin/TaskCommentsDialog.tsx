@@ -0,0 +1,197 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileText, Loader2, Paperclip, Reply, Send, X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { ATTACHMENT_ACCEPT, TaskComment, TaskCommentAttachment, addTaskComment, getAttachmentUrl, getTaskComments } from "@/lib/commentService";
+
+interface TaskCommentsDialogProps {
+  task: { id: string; text: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AttachmentPreview = ({ attachment }: { attachment: TaskCommentAttachment }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const isImage = attachment.content_type?.startsWith('image/');
+
+  useEffect(() => {
+    getAttachmentUrl(attachment).then(setUrl);
+  }, [attachment]);
+
+  if (isImage && url) {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer">
+        <img src={url} alt={attachment.file_name} className="h-24 w-24 rounded-md border object-cover" />
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={url || undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-1 rounded-md border px-2 py-1 text-xs text-primary hover:underline"
+    >
+      <FileText className="h-3 w-3" />
+      {attachment.file_name}
+    </a>
+  );
+};
+
+const CommentBody = ({ comment }: { comment: TaskComment }) => (
+  <div className="space-y-1">
+    <p className="text-xs text-muted-foreground">
+      <span className="font-medium text-foreground">{comment.author_label}</span>
+      {" · "}{format(new Date(comment.created_at), "MMM dd, yyyy 'at' HH:mm")}
+    </p>
+    {comment.body && <p className="text-sm whitespace-pre-wrap">{comment.body}</p>}
+    {comment.attachments.length > 0 && (
+      <div className="flex flex-wrap gap-2 pt-1">
+        {comment.attachments.map(attachment => (
+          <AttachmentPreview key={attachment.id} attachment={attachment} />
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+// Comment threads of a task with photo and document attachments
+export const TaskCommentsDialog = ({ task, onOpenChange }: TaskCommentsDialogProps) => {
+  const [threads, setThreads] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null);
+  const [sending, setSending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const loadComments = async (taskId: string) => {
+    setLoading(true);
+    setThreads(await getTaskComments(taskId));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    setThreads([]);
+    setBody('');
+    setFiles([]);
+    setReplyTo(null);
+    if (task) loadComments(task.id);
+  }, [task]);
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    setFiles(prev => [...prev, ...selected]);
+    e.target.value = '';
+  };
+
+  const handleSend = async () => {
+    if (!task) return;
+
+    setSending(true);
+    const result = await addTaskComment(task.id, body, files, replyTo?.id);
+    setSending(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to add comment",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBody('');
+    setFiles([]);
+    setReplyTo(null);
+    loadComments(task.id);
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={(next) => !sending && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Comments</DialogTitle>
+          <DialogDescription>{task?.text}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : threads.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">No comments yet. Start the conversation below.</p>
+        ) : (
+          <div className="space-y-3">
+            {threads.map(thread => (
+              <div key={thread.id} className="rounded-lg border p-3 space-y-3">
+                <CommentBody comment={thread} />
+                {thread.replies.map(reply => (
+                  <div key={reply.id} className="ml-4 border-l pl-3">
+                    <CommentBody comment={reply} />
+                  </div>
+                ))}
+                <Button variant="ghost" size="sm" onClick={() => setReplyTo(thread)} className="h-7 px-2 text-xs">
+                  <Reply className="h-3 w-3 mr-1" />
+                  Reply
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          {replyTo && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Replying to {replyTo.author_label}</span>
+              <Button variant="ghost" size="sm" onClick={() => setReplyTo(null)} className="h-6 px-1">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Write a comment..."
+            rows={3}
+          />
+          {files.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {files.map((file, index) => (
+                <Badge key={`${file.name}-${index}`} variant="secondary" className="flex items-center gap-1">
+                  {file.name}
+                  <button type="button" onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-between gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={sending}>
+              <Paperclip className="h-4 w-4 mr-1" />
+              Attach
+            </Button>
+            <Button size="sm" onClick={handleSend} disabled={sending || (!body.trim() && files.length === 0)}>
+              <Send className="h-4 w-4 mr-1" />
+              {sending ? 'Sending...' : replyTo ? 'Reply' : 'Comment'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
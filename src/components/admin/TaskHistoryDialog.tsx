@@ -0,0 +1,103 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, CheckCircle, GitBranch, Loader2, MessageSquare, Plus, RefreshCcw, RotateCcw, Send, UserCheck, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { TASK_EVENT_LABELS, TaskEvent, TaskEventType, getTaskEvents } from "@/lib/taskService";
+
+interface TaskHistoryDialogProps {
+  task: { id: string; text: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EVENT_ICONS: Record<TaskEventType, typeof Plus> = {
+  created: Plus,
+  assigned: UserCheck,
+  reassigned: RefreshCcw,
+  cascaded: GitBranch,
+  remarks_changed: MessageSquare,
+  escalated: AlertTriangle,
+  completion_requested: Send,
+  approved: CheckCircle,
+  rejected: XCircle,
+  finished: CheckCircle,
+  reopened: RotateCcw
+};
+
+const describeEvent = (event: TaskEvent): string | null => {
+  const from = event.details?.from;
+  const to = event.details?.to;
+
+  switch (event.event_type) {
+    case 'assigned':
+    case 'reassigned':
+      if (to && from) return `${from} → ${to}`;
+      if (to) return `To ${to}`;
+      return from ? `Removed from ${from}` : null;
+    case 'escalated':
+    case 'cascaded':
+      return to ? `To ${to}` : null;
+    case 'remarks_changed':
+      return to ? `"${to}"` : 'Remarks cleared';
+    default:
+      return event.note;
+  }
+};
+
+// Timeline of everything that happened to a task, from creation to its latest change
+export const TaskHistoryDialog = ({ task, onOpenChange }: TaskHistoryDialogProps) => {
+  const [events, setEvents] = useState<TaskEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setEvents([]);
+    if (!task) return;
+
+    setLoading(true);
+    getTaskEvents(task.id).then(history => {
+      setEvents(history);
+      setLoading(false);
+    });
+  }, [task]);
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Task History</DialogTitle>
+          <DialogDescription>{task?.text}</DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No history recorded for this task</p>
+        ) : (
+          <ol className="relative border-l ml-3">
+            {events.map(event => {
+              const Icon = EVENT_ICONS[event.event_type] || Plus;
+              const description = describeEvent(event);
+              return (
+                <li key={event.id} className="relative mb-4 ml-6">
+                  <span className="absolute -left-9 top-0 flex h-6 w-6 items-center justify-center rounded-full border bg-background">
+                    <Icon className="h-3 w-3 text-primary" />
+                  </span>
+                  <p className="text-sm font-medium">{TASK_EVENT_LABELS[event.event_type] || event.event_type}</p>
+                  {description && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{description}</p>
+                  )}
+                  {event.event_type === 'remarks_changed' && event.details?.from && (
+                    <p className="text-xs text-muted-foreground line-through">{event.details.from}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {event.actor_label} · {format(new Date(event.created_at), "MMM dd, yyyy 'at' HH:mm")}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
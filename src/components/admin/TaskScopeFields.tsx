@@ -0,0 +1,54 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+export interface TaskPanchayath {
+  id: string;
+  name: string;
+  number_of_wards: number;
+}
+
+interface TaskScopeFieldsProps {
+  panchayaths: TaskPanchayath[];
+  panchayathId: string | null;
+  wards: number[];
+  onChange: (panchayathId: string | null, wards: number[]) => void;
+}
+
+// Panchayath and wards a task is for; no wards selected means the whole panchayath
+export const TaskScopeFields = ({ panchayaths, panchayathId, wards, onChange }: TaskScopeFieldsProps) => {
+  const panchayath = panchayaths.find(p => p.id === panchayathId);
+
+  return (
+    <div className="space-y-2">
+      <Select value={panchayathId || 'none'} onValueChange={(value) => onChange(value === 'none' ? null : value, [])}>
+        <SelectTrigger>
+          <SelectValue placeholder="Panchayath" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No panchayath</SelectItem>
+          {panchayaths.map(p => (
+            <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {panchayath && panchayath.number_of_wards > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            {wards.length === 0 ? 'All wards - pick wards to narrow it down' : `${wards.length} of ${panchayath.number_of_wards} wards`}
+          </p>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            value={wards.map(String)}
+            onValueChange={values => onChange(panchayath.id, values.map(Number).sort((a, b) => a - b))}
+            className="justify-start flex-wrap"
+          >
+            {Array.from({ length: panchayath.number_of_wards }, (_, i) => i + 1).map(ward => (
+              <ToggleGroupItem key={ward} value={String(ward)} size="sm" className="h-8 w-8 p-0">{ward}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+    </div>
+  );
+};
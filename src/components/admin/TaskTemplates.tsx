@@ -0,0 +1,465 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Edit, Loader2, Pause, Play, Plus, Square } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { useToast } from "@/hooks/use-toast";
+import { TASK_PRIORITIES, TASK_PRIORITY_LABELS, TaskAssigneeType, TaskPriority } from "@/lib/taskService";
+import {
+  TASK_RECURRENCE_LABELS,
+  TaskRecurrence,
+  TaskTemplate,
+  TaskTemplateInput,
+  UpcomingTemplateTask,
+  WEEKDAY_LABELS,
+  createTaskTemplate,
+  describeRecurrence,
+  endTaskTemplate,
+  getTaskTemplateAssignee,
+  getTaskTemplateState,
+  getTaskTemplates,
+  getUpcomingTemplateTasks,
+  setTaskTemplatePaused,
+  updateTaskTemplate
+} from "@/lib/taskTemplateService";
+
+interface TaskTemplatesProps {
+  currentUserId: string;
+}
+
+interface Person {
+  id: string;
+  name: string;
+}
+
+const UPCOMING_DAYS = 14;
+
+const emptyTemplate = (): TaskTemplateInput => ({
+  text: '',
+  priority: 'normal',
+  due_in_days: null,
+  recurrence: 'weekly',
+  weekdays: [new Date().getDay()],
+  month_day: new Date().getDate(),
+  starts_on: format(new Date(), 'yyyy-MM-dd'),
+  ends_on: null,
+  assigned_to: null,
+  reassigned_to_coordinator: null,
+  reassigned_to_supervisor: null,
+  assignee_type: null,
+  assignee_id: null
+});
+
+const STATE_BADGES = {
+  active: { label: 'Active', variant: 'default' as const },
+  paused: { label: 'Paused', variant: 'secondary' as const },
+  ended: { label: 'Ended', variant: 'outline' as const }
+};
+
+// Recurring task series, the tasks they will create next, and the editor for both
+export const TaskTemplates = ({ currentUserId }: TaskTemplatesProps) => {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [upcoming, setUpcoming] = useState<UpcomingTemplateTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [teamMembers, setTeamMembers] = useState<Person[]>([]);
+  const [coordinators, setCoordinators] = useState<Person[]>([]);
+  const [supervisors, setSupervisors] = useState<Person[]>([]);
+  const [groupLeaders, setGroupLeaders] = useState<Person[]>([]);
+  const [pros, setPros] = useState<Person[]>([]);
+  const [editingTemplate, setEditingTemplate] = useState<TaskTemplate | 'new' | null>(null);
+  const [form, setForm] = useState<TaskTemplateInput>(emptyTemplate);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadTemplates = async () => {
+    const [series, next] = await Promise.all([getTaskTemplates(), getUpcomingTemplateTasks(UPCOMING_DAYS)]);
+    setTemplates(series);
+    setUpcoming(next);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    const loadPeople = async () => {
+      const [
+        { data: memberData },
+        { data: coordinatorData },
+        { data: supervisorData },
+        { data: groupLeaderData },
+        { data: proData }
+      ] = await Promise.all([
+        supabase.from('admin_members').select('id, name').order('name'),
+        supabase.from('coordinators').select('id, name').order('name'),
+        supabase.from('supervisors').select('id, name').order('name'),
+        supabase.from('group_leaders').select('id, name').order('name'),
+        supabase.from('pros').select('id, name').order('name')
+      ]);
+      setTeamMembers(memberData || []);
+      setCoordinators(coordinatorData || []);
+      setSupervisors(supervisorData || []);
+      setGroupLeaders(groupLeaderData || []);
+      setPros(proData || []);
+    };
+
+    loadTemplates();
+    loadPeople();
+  }, []);
+
+  const openEditor = (template: TaskTemplate | 'new') => {
+    setEditingTemplate(template);
+    setForm(template === 'new' ? emptyTemplate() : {
+      text: template.text,
+      priority: template.priority as TaskPriority,
+      due_in_days: template.due_in_days,
+      recurrence: template.recurrence as TaskRecurrence,
+      weekdays: template.weekdays,
+      month_day: template.month_day,
+      starts_on: template.starts_on,
+      ends_on: template.ends_on,
+      assigned_to: template.assigned_to,
+      reassigned_to_coordinator: template.reassigned_to_coordinator,
+      reassigned_to_supervisor: template.reassigned_to_supervisor,
+      assignee_type: template.assignee_type as TaskAssigneeType | null,
+      assignee_id: template.assignee_id
+    });
+  };
+
+  const updateForm = (changes: Partial<TaskTemplateInput>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSave = async () => {
+    if (!editingTemplate) return;
+
+    setSaving(true);
+    const result = editingTemplate === 'new'
+      ? await createTaskTemplate(form, currentUserId)
+      : await updateTaskTemplate(editingTemplate.id, form);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: editingTemplate === 'new' ? "Recurring task created" : "Recurring task updated; tasks already created are unchanged"
+    });
+    setEditingTemplate(null);
+    loadTemplates();
+  };
+
+  const runAction = async (action: Promise<{ success: boolean; error?: string }>, message: string) => {
+    const result = await action;
+    if (!result.success) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Success", description: message });
+    loadTemplates();
+  };
+
+  const nameOf = (people: Person[], id: string | null) => people.find(person => person.id === id)?.name;
+
+  const fieldHolderOf = (template: Pick<TaskTemplate, 'assignee_type' | 'assignee_id'>) =>
+    template.assignee_type === 'group_leader' ? nameOf(groupLeaders, template.assignee_id)
+      : template.assignee_type === 'pro' ? nameOf(pros, template.assignee_id) : undefined;
+
+  const describeAssignees = (template: Pick<TaskTemplate, 'assigned_to' | 'reassigned_to_coordinator' | 'reassigned_to_supervisor' | 'assignee_type' | 'assignee_id'>) => {
+    const member = nameOf(teamMembers, template.assigned_to);
+    const holder = nameOf(coordinators, template.reassigned_to_coordinator)
+      || nameOf(supervisors, template.reassigned_to_supervisor)
+      || fieldHolderOf(template);
+    if (member && holder) return `${member} → ${holder}`;
+    return member || holder || 'Unassigned';
+  };
+
+  const formAssignee = getTaskTemplateAssignee(form);
+  const handOnValue = formAssignee.assignee_type && formAssignee.assignee_type !== 'admin_member'
+    ? `${formAssignee.assignee_type}:${formAssignee.assignee_id}`
+    : 'none';
+
+  // Coordinators and supervisors are handed on through the team columns; group leaders and PROs
+  // only exist as the holder
+  const setHandOn = (value: string) => {
+    const [type, id] = value.split(':');
+    const fieldHolder = type === 'group_leader' || type === 'pro';
+    updateForm({
+      reassigned_to_coordinator: type === 'coordinator' ? id : null,
+      reassigned_to_supervisor: type === 'supervisor' ? id : null,
+      assignee_type: fieldHolder ? type as TaskAssigneeType : null,
+      assignee_id: fieldHolder ? id : null
+    });
+  };
+
+  const templatesById = new Map(templates.map(template => [template.id, template]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Recurring Tasks
+            </CardTitle>
+            <CardDescription>
+              Tasks that repeat are created automatically on each day of their series
+            </CardDescription>
+          </div>
+          <Button onClick={() => openEditor('new')}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Series
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">No recurring tasks yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Task</TableHead>
+                <TableHead>Repeats</TableHead>
+                <TableHead>Assigned To</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map(template => {
+                const state = getTaskTemplateState(template);
+                return (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">{template.text}</TableCell>
+                    <TableCell className="text-sm">
+                      {describeRecurrence(template)}
+                      <p className="text-xs text-muted-foreground">
+                        From {format(new Date(`${template.starts_on}T00:00:00`), 'MMM dd, yyyy')}
+                        {template.ends_on && ` to ${format(new Date(`${template.ends_on}T00:00:00`), 'MMM dd, yyyy')}`}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-sm">{describeAssignees(template)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATE_BADGES[state].variant}>{STATE_BADGES[state].label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => openEditor(template)} title="Edit series">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        {state !== 'ended' && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => runAction(
+                                setTaskTemplatePaused(template.id, state === 'active'),
+                                state === 'active' ? "Series paused" : "Series resumed"
+                              )}
+                              title={state === 'active' ? "Pause series" : "Resume series"}
+                            >
+                              {state === 'active' ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => runAction(endTaskTemplate(template.id), "Series ended; no tasks will be created after today")}
+                              className="text-destructive hover:text-destructive"
+                              title="End series"
+                            >
+                              <Square className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Coming up in the next {UPCOMING_DAYS} days</h3>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No recurring tasks are due to be created.</p>
+          ) : (
+            <div className="space-y-1">
+              {upcoming.map(task => {
+                const template = templatesById.get(task.template_id);
+                return (
+                  <div key={`${task.template_id}-${task.occurs_on}`} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+                    <span className="w-28 shrink-0 text-muted-foreground">{format(new Date(`${task.occurs_on}T00:00:00`), 'EEE, MMM dd')}</span>
+                    <span className="flex-1">{template?.text}</span>
+                    {template && <span className="text-xs text-muted-foreground">{describeAssignees(template)}</span>}
+                    {task.due_date && <Badge variant="outline" className="text-xs">Due {format(new Date(`${task.due_date}T00:00:00`), 'MMM dd')}</Badge>}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editingTemplate} onOpenChange={open => !open && !saving && setEditingTemplate(null)}>
+        <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate === 'new' ? 'New Recurring Task' : 'Edit Recurring Task'}</DialogTitle>
+            <DialogDescription>
+              {editingTemplate === 'new' ? 'Set what the task is and when it repeats.' : 'Changes apply to tasks created from now on.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Task *</Label>
+              <Textarea value={form.text} onChange={e => updateForm({ text: e.target.value })} placeholder="What needs to be done each time..." rows={3} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Repeats</Label>
+              <Select value={form.recurrence} onValueChange={(value: TaskRecurrence) => updateForm({ recurrence: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TASK_RECURRENCE_LABELS) as TaskRecurrence[]).map(recurrence => (
+                    <SelectItem key={recurrence} value={recurrence}>{TASK_RECURRENCE_LABELS[recurrence]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.recurrence === 'weekly' && (
+              <div className="space-y-2">
+                <Label>On</Label>
+                <ToggleGroup
+                  type="multiple"
+                  variant="outline"
+                  value={form.weekdays.map(String)}
+                  onValueChange={values => updateForm({ weekdays: values.map(Number) })}
+                  className="justify-start flex-wrap"
+                >
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <ToggleGroupItem key={label} value={String(day)} size="sm">{label}</ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+            )}
+
+            {form.recurrence === 'monthly' && (
+              <div className="space-y-2">
+                <Label>Day of the month</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={form.month_day ?? ''}
+                  onChange={e => updateForm({ month_day: e.target.value ? Math.min(31, Math.max(1, Number(e.target.value))) : null })}
+                />
+                <p className="text-xs text-muted-foreground">Shorter months use their last day.</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Starts</Label>
+                <Input type="date" value={form.starts_on} onChange={e => updateForm({ starts_on: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Ends (optional)</Label>
+                <Input type="date" value={form.ends_on || ''} onChange={e => updateForm({ ends_on: e.target.value || null })} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={form.priority} onValueChange={(value: TaskPriority) => updateForm({ priority: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_PRIORITIES.map(priority => (
+                      <SelectItem key={priority} value={priority}>{TASK_PRIORITY_LABELS[priority]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Due after (days)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.due_in_days ?? ''}
+                  onChange={e => updateForm({ due_in_days: e.target.value ? Math.max(0, Number(e.target.value)) : null })}
+                  placeholder="No due date"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Assign To</Label>
+              <Select value={form.assigned_to || 'unassigned'} onValueChange={value => updateForm({ assigned_to: value === 'unassigned' ? null : value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select team member" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                  {teamMembers.map(member => (
+                    <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Hand On To (optional)</Label>
+              <Select value={handOnValue} onValueChange={setHandOn}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an agent" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Nobody</SelectItem>
+                  {coordinators.map(coordinator => (
+                    <SelectItem key={coordinator.id} value={`coordinator:${coordinator.id}`}>{coordinator.name} (Coordinator)</SelectItem>
+                  ))}
+                  {supervisors.map(supervisor => (
+                    <SelectItem key={supervisor.id} value={`supervisor:${supervisor.id}`}>{supervisor.name} (Supervisor)</SelectItem>
+                  ))}
+                  {groupLeaders.map(groupLeader => (
+                    <SelectItem key={groupLeader.id} value={`group_leader:${groupLeader.id}`}>{groupLeader.name} (Group Leader)</SelectItem>
+                  ))}
+                  {pros.map(pro => (
+                    <SelectItem key={pro.id} value={`pro:${pro.id}`}>{pro.name} (PRO)</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingTemplate(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form.text.trim()}>
+              {saving ? 'Saving...' : editingTemplate === 'new' ? 'Create Series' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
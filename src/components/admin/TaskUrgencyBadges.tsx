@@ -0,0 +1,44 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CalendarClock, Flag } from "lucide-react";
+import { format } from "date-fns";
+import { TASK_PRIORITY_LABELS, TaskPriority, TaskUrgency, isTaskOverdue } from "@/lib/taskService";
+
+interface TaskUrgencyBadgesProps {
+  task: TaskUrgency & { escalated_at?: string | null };
+}
+
+const PRIORITY_CLASSES: Record<TaskPriority, string> = {
+  urgent: 'bg-red-600 hover:bg-red-700 text-white',
+  high: 'bg-orange-500 hover:bg-orange-600 text-white',
+  normal: '',
+  low: 'text-muted-foreground'
+};
+
+// Priority, due date and escalation of a task; normal priority and missing due dates show nothing
+export const TaskUrgencyBadges = ({ task }: TaskUrgencyBadgesProps) => {
+  const priority = (task.priority || 'normal') as TaskPriority;
+  const overdue = isTaskOverdue(task);
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap">
+      {priority !== 'normal' && (
+        <Badge variant={priority === 'low' ? 'outline' : 'default'} className={`text-xs ${PRIORITY_CLASSES[priority]}`}>
+          <Flag className="h-3 w-3 mr-1" />
+          {TASK_PRIORITY_LABELS[priority]}
+        </Badge>
+      )}
+      {task.due_date && (
+        <Badge variant={overdue ? 'destructive' : 'outline'} className="text-xs">
+          <CalendarClock className="h-3 w-3 mr-1" />
+          {overdue ? 'Overdue' : 'Due'} {format(new Date(`${task.due_date}T00:00:00`), "MMM dd")}
+        </Badge>
+      )}
+      {task.escalated_at && task.status !== 'finished' && (
+        <Badge variant="destructive" className="text-xs">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          Escalated
+        </Badge>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -10,21 +10,39 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar } from "@/components/ui/calendar";
-import { CheckCircle, XCircle, Plus, Edit, Save, X, Calendar as CalendarIcon, Clock, Trash2, Search, Users, UserCheck, Square, CheckSquare, RefreshCcw } from "lucide-react";
+import { CheckCircle, XCircle, Plus, Edit, Save, X, Calendar as CalendarIcon, Clock, Trash2, Search, Users, UserCheck, Square, CheckSquare, RefreshCcw, History, MessageSquare, GitBranch, Sparkles, SquareKanban, MapPin } from "lucide-react";
 import { format } from "date-fns";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { TablesUpdate } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
+import { DeleteReasonDialog } from "@/components/DeleteReasonDialog";
+import { softDeleteRecords } from "@/lib/deletionService";
+import { SubtaskProgress, TASK_PRIORITIES, TASK_PRIORITY_LABELS, TaskBoardColumn, TaskListItem, TaskPriority, TaskSearchFilters, TaskSortOrder, TaskStatus, TaskStatusFilter, countTasks, describeTaskScope, getSubtaskProgress, getTaskListItem, isInTaskScope, isTaskOverdue, matchesTaskFilters, searchTasks } from "@/lib/taskService";
+import { TEAM_TASKS_TOPIC, TaskChange } from "@/lib/taskRealtime";
+import { useTaskActivity } from "@/hooks/use-task-activity";
+import { CompletionReviewDialog } from "@/components/admin/CompletionReviewDialog";
+import { TaskUrgencyBadges } from "@/components/admin/TaskUrgencyBadges";
+import { TaskHistoryDialog } from "@/components/admin/TaskHistoryDialog";
+import { TaskCommentsDialog } from "@/components/admin/TaskCommentsDialog";
+import { TaskBoard, TaskBoardSwimlanes } from "@/components/admin/TaskBoard";
+import { TaskPanchayath, TaskScopeFields } from "@/components/admin/TaskScopeFields";
 
 interface Task {
   id: string;
   text: string;
-  status: 'finished' | 'unfinished' | 'requested';
+  status: TaskStatus;
   remarks: string | null;
   created_at: string;
   finished_at?: string | null;
+  due_date?: string | null;
+  priority: TaskPriority;
+  escalated_at?: string | null;
   assigned_to?: string | null;
   reassigned_to_coordinator?: string | null;
   reassigned_to_supervisor?: string | null;
+  panchayath_id?: string | null;
+  wards?: number[] | null;
+  panchayath?: { id: string; name: string } | null;
   assigned_member?: {
     id: string;
     name: string;
@@ -34,11 +52,13 @@ interface Task {
     id: string;
     name: string;
     mobile_number: string;
+    panchayath?: { id: string; name: string } | null;
   } | null;
   reassigned_supervisor?: {
     id: string;
     name: string;
     mobile_number: string;
+    panchayath?: { id: string; name: string } | null;
   } | null;
 }
 
@@ -57,9 +77,40 @@ interface Assignee {
   mobile: string;
   type: 'admin_member' | 'coordinator' | 'supervisor';
   role?: string;
+  panchayath_id?: string;
+  wards?: number[];
 }
 
-export const TodoList = () => {
+// The board shows this many of the most recently created finished tasks
+const BOARD_FINISHED_LIMIT = 20;
+
+const toTask = (task: TaskListItem): Task => ({
+  id: task.id,
+  text: task.text,
+  status: task.status as TaskStatus,
+  remarks: task.remarks,
+  created_at: task.created_at,
+  finished_at: task.finished_at,
+  due_date: task.due_date,
+  priority: task.priority as TaskPriority,
+  escalated_at: task.escalated_at,
+  assigned_to: task.assigned_to,
+  reassigned_to_coordinator: task.reassigned_to_coordinator,
+  reassigned_to_supervisor: task.reassigned_to_supervisor,
+  panchayath_id: task.panchayath_id,
+  wards: task.wards,
+  panchayath: task.panchayath,
+  assigned_member: task.assigned_member,
+  reassigned_coordinator: task.reassigned_coordinator,
+  reassigned_supervisor: task.reassigned_supervisor
+});
+
+interface TodoListProps {
+  currentUserId: string;
+  canDelete: boolean;
+}
+
+export const TodoList = ({ currentUserId, canDelete }: TodoListProps) => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [taskType, setTaskType] = useState<'single' | 'multi'>('single');
@@ -75,7 +126,6 @@ export const TodoList = () => {
   const [showCalendar, setShowCalendar] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [deletingTask, setDeletingTask] = useState<string | null>(null);
-  const [deletePasskey, setDeletePasskey] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [adminMembers, setAdminMembers] = useState<AdminMember[]>([]);
   const [assigningTask, setAssigningTask] = useState<string | null>(null);
@@ -85,102 +135,203 @@ export const TodoList = () => {
   const [selectedTasks, setSelectedTasks] = useState<string[]>([]);
   const [bulkAction, setBulkAction] = useState<'delete' | 'finish' | 'reassign' | null>(null);
   const [bulkRemarks, setBulkRemarks] = useState('');
-  const [bulkDeletePasskey, setBulkDeletePasskey] = useState('');
   const [assignees, setAssignees] = useState<Assignee[]>([]);
   const [assigneeSearchTerm, setAssigneeSearchTerm] = useState('');
   const [bulkSelectedAssignee, setBulkSelectedAssignee] = useState<string>('unassigned');
   const [reassigningTask, setReassigningTask] = useState<string | null>(null);
   const [selectedReassignee, setSelectedReassignee] = useState<string>('unassigned');
   const [reassigneeType, setReassigneeType] = useState<'coordinator' | 'supervisor'>('coordinator');
+  const [reviewingTask, setReviewingTask] = useState<Task | null>(null);
+  const [historyTask, setHistoryTask] = useState<Task | null>(null);
+  const [commentsTask, setCommentsTask] = useState<Task | null>(null);
+  const [newTaskDueDate, setNewTaskDueDate] = useState('');
+  const [newTaskPriority, setNewTaskPriority] = useState<TaskPriority>('normal');
+  const [filterByUrgency, setFilterByUrgency] = useState<'all' | 'overdue' | TaskPriority>('all');
+  const [sortOrder, setSortOrder] = useState<TaskSortOrder>('urgency');
+  const [schedulingTask, setSchedulingTask] = useState<Task | null>(null);
+  const [scheduleDueDate, setScheduleDueDate] = useState('');
+  const [schedulePriority, setSchedulePriority] = useState<TaskPriority>('normal');
+  const [subtaskProgress, setSubtaskProgress] = useState<Record<string, SubtaskProgress>>({});
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [filterFromDate, setFilterFromDate] = useState('');
+  const [filterToDate, setFilterToDate] = useState('');
+  const [taskCounts, setTaskCounts] = useState<Record<'open' | 'finished', number>>({ open: 0, finished: 0 });
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [calendarTasks, setCalendarTasks] = useState<Task[]>([]);
+  const [calendarTotal, setCalendarTotal] = useState(0);
+  const [panchayaths, setPanchayaths] = useState<TaskPanchayath[]>([]);
+  const [newTaskPanchayath, setNewTaskPanchayath] = useState<string | null>(null);
+  const [newTaskWards, setNewTaskWards] = useState<number[]>([]);
+  const [schedulePanchayath, setSchedulePanchayath] = useState<string | null>(null);
+  const [scheduleWards, setScheduleWards] = useState<number[]>([]);
+  const [filterPanchayath, setFilterPanchayath] = useState<string>('all');
+  const [filterWard, setFilterWard] = useState<string>('all');
+  const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
+  const [boardSwimlanes, setBoardSwimlanes] = useState<TaskBoardSwimlanes>('none');
+  const latestTaskRequest = useRef(0);
+  const countRefresh = useRef<ReturnType<typeof setTimeout>>();
+  // The rest of a board move, saved together with the dialog the move opened
+  const boardMove = useRef<TablesUpdate<'todos'>>({});
   const { toast } = useToast();
 
-  const isRequested = (task: Task) => task.status !== 'finished' && (task.remarks?.toLowerCase().includes('requested completion') ?? false);
+  const isRequested = (task: Task) => task.status === 'requested';
+  const activeStatus: 'open' | 'finished' = activeTab === 'finished' ? 'finished' : 'open';
 
   // Load tasks from database
   useEffect(() => {
-    loadTasks();
     loadAdminMembers();
     loadAssignees();
+    loadPanchayaths();
   }, []);
 
-  const loadTasks = async () => {
-    try {
-      console.log('Loading tasks...');
-      const { data, error } = await supabase
-        .from('todos')
-        .select('*')
-        .order('created_at', { ascending: false });
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const taskFilters = useCallback((status?: TaskStatusFilter): TaskSearchFilters => ({
+    status,
+    assignedTo: filterByAssignedTo === 'all' ? undefined : filterByAssignedTo,
+    priority: filterByUrgency === 'all' || filterByUrgency === 'overdue' ? undefined : filterByUrgency,
+    overdueOnly: filterByUrgency === 'overdue',
+    from: filterFromDate || undefined,
+    to: filterToDate || undefined,
+    search: debouncedSearch,
+    topLevelOnly: true,
+    panchayathId: filterPanchayath === 'all' ? undefined : filterPanchayath,
+    ward: filterPanchayath === 'all' || filterWard === 'all' ? undefined : Number(filterWard),
+    sort: sortOrder
+  }), [debouncedSearch, filterByAssignedTo, filterByUrgency, filterFromDate, filterPanchayath, filterToDate, filterWard, sortOrder]);
+
+  // The board pages through open tasks and shows the latest finished ones beside them
+  const loadBoardTasks = useCallback(async (openOffset = 0) => {
+    const request = ++latestTaskRequest.current;
+    if (openOffset > 0) setLoadingMore(true);
+
+    const [open, finished] = await Promise.all([
+      searchTasks(taskFilters('open'), openOffset),
+      openOffset === 0 ? searchTasks({ ...taskFilters('finished'), sort: 'newest' }, 0, BOARD_FINISHED_LIMIT) : Promise.resolve(null)
+    ]);
+
+    if (request !== latestTaskRequest.current) return;
+
+    setLoading(false);
+    setLoadingMore(false);
+
+    if (open.error || finished?.error) {
+      toast({
+        title: "Error",
+        description: "Failed to load tasks",
+        variant: "destructive",
+      });
+      return;
+    }
 
-      console.log('Tasks loaded:', { data, error });
+    const loaded = [...open.tasks, ...(finished?.tasks || [])].map(toTask);
+    setTasks(prev => openOffset === 0 ? loaded : [...prev, ...loaded]);
+    setTaskCounts(prev => ({ open: open.total, finished: finished ? finished.total : prev.finished }));
 
-      if (error) throw error;
-      
-      // Get assigned members and reassigned coordinators/supervisors separately
-      const tasksWithMembers = await Promise.all(
-        (data || []).map(async (task) => {
-          let assigned_member = null;
-          let reassigned_coordinator = null;
-          let reassigned_supervisor = null;
-          const taskAny = task as any;
-          
-          if (taskAny.assigned_to) {
-            const { data: memberData } = await supabase
-              .from('admin_members')
-              .select('id, name, mobile')
-              .eq('id', taskAny.assigned_to)
-              .single();
-            assigned_member = memberData;
-          }
-
-          if (taskAny.reassigned_to_coordinator) {
-            const { data: coordinatorData } = await supabase
-              .from('coordinators')
-              .select('id, name, mobile_number')
-              .eq('id', taskAny.reassigned_to_coordinator)
-              .single();
-            reassigned_coordinator = coordinatorData;
-          }
-
-          if (taskAny.reassigned_to_supervisor) {
-            const { data: supervisorData } = await supabase
-              .from('supervisors')
-              .select('id, name, mobile_number')
-              .eq('id', taskAny.reassigned_to_supervisor)
-              .single();
-            reassigned_supervisor = supervisorData;
-          }
-          
-            return {
-              id: task.id,
-              text: task.text,
-              status: task.status as 'finished' | 'unfinished' | 'requested',
-              remarks: task.remarks,
-              created_at: task.created_at,
-              finished_at: task.finished_at,
-              assigned_to: taskAny.assigned_to || null,
-              reassigned_to_coordinator: taskAny.reassigned_to_coordinator || null,
-              reassigned_to_supervisor: taskAny.reassigned_to_supervisor || null,
-              assigned_member,
-              reassigned_coordinator,
-              reassigned_supervisor
-            };
-        })
-      );
-      
-      console.log('Typed tasks:', tasksWithMembers);
-      setTasks(tasksWithMembers);
-    } catch (error) {
-      console.error('Error loading tasks:', error);
+    const progress = await getSubtaskProgress(loaded.map(task => task.id));
+    setSubtaskProgress(prev => openOffset === 0 ? progress : { ...prev, ...progress });
+  }, [taskFilters, toast]);
+
+  // Loads a page of the active tab; offset 0 starts over and refreshes both tab counts
+  const loadTasks = useCallback(async (offset = 0) => {
+    if (viewMode === 'board') return loadBoardTasks(offset);
+
+    const request = ++latestTaskRequest.current;
+    const otherStatus = activeStatus === 'open' ? 'finished' : 'open';
+    if (offset > 0) setLoadingMore(true);
+
+    const [page, otherCount] = await Promise.all([
+      searchTasks(taskFilters(activeStatus), offset),
+      offset === 0 ? countTasks(taskFilters(otherStatus)) : Promise.resolve(null)
+    ]);
+
+    // A newer filter change has already started another load
+    if (request !== latestTaskRequest.current) return;
+
+    setLoading(false);
+    setLoadingMore(false);
+
+    if (page.error) {
       toast({
         title: "Error",
         description: "Failed to load tasks",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
+      return;
+    }
+
+    const loaded = page.tasks.map(toTask);
+    setTasks(prev => offset === 0 ? loaded : [...prev, ...loaded]);
+    setTaskCounts(prev => ({
+      ...prev,
+      [activeStatus]: page.total,
+      ...(otherCount !== null ? { [otherStatus]: otherCount } : {})
+    }));
+
+    const progress = await getSubtaskProgress(loaded.map(task => task.id));
+    setSubtaskProgress(prev => offset === 0 ? progress : { ...prev, ...progress });
+  }, [activeStatus, loadBoardTasks, taskFilters, toast, viewMode]);
+
+  // Bulk changes arrive as a burst of signals; count once they settle
+  const scheduleCountRefresh = () => {
+    clearTimeout(countRefresh.current);
+    countRefresh.current = setTimeout(async () => {
+      const [open, finished] = await Promise.all([countTasks(taskFilters('open')), countTasks(taskFilters('finished'))]);
+      setTaskCounts({ open, finished });
+    }, 1000);
+  };
+
+  // Someone changed a task: reload just that task and put it in or take it out of the list
+  const applyTaskChange = async (change: TaskChange) => {
+    const item = await getTaskListItem(change.task_id);
+    scheduleCountRefresh();
+
+    if (item?.parent_id) {
+      const progress = await getSubtaskProgress([item.parent_id]);
+      setSubtaskProgress(prev => prev[item.parent_id!] ? { ...prev, ...progress } : prev);
+      return;
     }
+
+    if (!item || item.deleted_at || !matchesTaskFilters(item, taskFilters(viewMode === 'board' ? undefined : activeStatus))) {
+      setTasks(prev => prev.filter(task => task.id !== change.task_id));
+      return;
+    }
+
+    const updated = toTask(item);
+    setTasks(prev => prev.some(task => task.id === updated.id) ? prev.map(task => task.id === updated.id ? updated : task) : [updated, ...prev]);
   };
 
+  const { newTaskIds, markSeen } = useTaskActivity(currentUserId, [TEAM_TASKS_TOPIC], applyTaskChange);
+
+  const openHistory = (task: Task) => {
+    markSeen(task.id);
+    setHistoryTask(task);
+  };
+
+  const openComments = (task: Task) => {
+    markSeen(task.id);
+    setCommentsTask(task);
+  };
+
+  const loadCalendarTasks = useCallback(async (date: Date) => {
+    const day = format(date, 'yyyy-MM-dd');
+    const page = await searchTasks({ from: day, to: day, topLevelOnly: true, sort: 'newest' });
+    setCalendarTasks(page.tasks.map(toTask));
+    setCalendarTotal(page.total);
+  }, []);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  useEffect(() => {
+    if (showCalendar && selectedDate) loadCalendarTasks(selectedDate);
+  }, [showCalendar, selectedDate, loadCalendarTasks]);
+
   const loadAdminMembers = async () => {
     try {
       const { data, error } = await supabase
@@ -201,6 +352,19 @@ export const TodoList = () => {
     }
   };
 
+  const loadPanchayaths = async () => {
+    const { data, error } = await supabase
+      .from('panchayaths')
+      .select('id, name, number_of_wards')
+      .order('name');
+
+    if (error) {
+      console.error('Error loading panchayaths:', error);
+      return;
+    }
+    setPanchayaths(data || []);
+  };
+
   const loadAssignees = async () => {
     try {
       const allAssignees: Assignee[] = [];
@@ -224,7 +388,7 @@ export const TodoList = () => {
       // Load coordinators
       const { data: coordinatorData, error: coordinatorError } = await supabase
         .from('coordinators')
-        .select('id, name, mobile_number')
+        .select('id, name, mobile_number, panchayath_id, ward')
         .order('name');
 
       if (!coordinatorError && coordinatorData) {
@@ -233,14 +397,16 @@ export const TodoList = () => {
           name: coordinator.name,
           mobile: coordinator.mobile_number,
           type: 'coordinator' as const,
-          role: 'Coordinator'
+          role: 'Coordinator',
+          panchayath_id: coordinator.panchayath_id,
+          wards: [coordinator.ward]
         })));
       }
 
       // Load supervisors
       const { data: supervisorData, error: supervisorError } = await supabase
         .from('supervisors')
-        .select('id, name, mobile_number')
+        .select('id, name, mobile_number, panchayath_id, supervisor_wards(ward)')
         .order('name');
 
       if (!supervisorError && supervisorData) {
@@ -249,7 +415,9 @@ export const TodoList = () => {
           name: supervisor.name,
           mobile: supervisor.mobile_number,
           type: 'supervisor' as const,
-          role: 'Supervisor'
+          role: 'Supervisor',
+          panchayath_id: supervisor.panchayath_id,
+          wards: (supervisor.supervisor_wards || []).map((w: { ward: number }) => w.ward)
         })));
       }
 
@@ -264,13 +432,25 @@ export const TodoList = () => {
     }
   };
 
+  // Team members from the task's panchayath come first, and the first of them is picked unless
+  // someone was chosen already
+  const newTaskScopePanchayath = panchayaths.find(p => p.id === newTaskPanchayath);
+  const suggestedMemberIds = new Set(adminMembers.filter(member => newTaskScopePanchayath && member.panchayath === newTaskScopePanchayath.name).map(member => member.id));
+  const memberOptions = [...adminMembers.filter(member => suggestedMemberIds.has(member.id)), ...adminMembers.filter(member => !suggestedMemberIds.has(member.id))];
+
+  const changeNewTaskScope = (panchayathId: string | null, wards: number[]) => {
+    setNewTaskPanchayath(panchayathId);
+    setNewTaskWards(wards);
+
+    const panchayath = panchayaths.find(p => p.id === panchayathId);
+    const suggested = panchayath && adminMembers.find(member => member.panchayath === panchayath.name);
+    if (suggested && newTaskAssignee === 'unassigned') setNewTaskAssignee(suggested.id);
+  };
+
   const addSingleTask = async () => {
     if (!singleTaskText.trim()) return;
 
     try {
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser();
-      
       const assignedTo = newTaskAssignee === 'unassigned' ? null : newTaskAssignee;
       
       const { error } = await supabase
@@ -279,14 +459,22 @@ export const TodoList = () => {
           text: singleTaskText,
           status: 'unfinished',
           remarks: null,
-          created_by: user?.id || null,
-          assigned_to: assignedTo
+          created_by: currentUserId,
+          assigned_to: assignedTo,
+          due_date: newTaskDueDate || null,
+          priority: newTaskPriority,
+          panchayath_id: newTaskPanchayath,
+          wards: newTaskWards.length ? newTaskWards : null
         }]);
 
       if (error) throw error;
       
       setSingleTaskText('');
       setNewTaskAssignee('unassigned');
+      setNewTaskDueDate('');
+      setNewTaskPriority('normal');
+      setNewTaskPanchayath(null);
+      setNewTaskWards([]);
       await loadTasks();
       toast({
         title: "Success",
@@ -308,16 +496,18 @@ export const TodoList = () => {
     const taskTexts = multiTaskText.split(',').map(text => text.trim()).filter(text => text.length > 0);
     
     try {
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser();
       const assignedTo = newTaskAssignee === 'unassigned' ? null : newTaskAssignee;
       
       const newTasks = taskTexts.map(text => ({
         text,
         status: 'unfinished' as const,
         remarks: null,
-        created_by: user?.id || null,
-        assigned_to: assignedTo
+        created_by: currentUserId,
+        assigned_to: assignedTo,
+        due_date: newTaskDueDate || null,
+        priority: newTaskPriority,
+        panchayath_id: newTaskPanchayath,
+        wards: newTaskWards.length ? newTaskWards : null
       }));
 
       const { error } = await supabase
@@ -328,6 +518,10 @@ export const TodoList = () => {
       
       setMultiTaskText('');
       setNewTaskAssignee('unassigned');
+      setNewTaskDueDate('');
+      setNewTaskPriority('normal');
+      setNewTaskPanchayath(null);
+      setNewTaskWards([]);
       await loadTasks();
       toast({
         title: "Success",
@@ -347,7 +541,10 @@ export const TodoList = () => {
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
 
-    if (task.status === 'unfinished') {
+    if (isRequested(task)) {
+      // Completion requests are approved or rejected, never finished directly
+      setReviewingTask(task);
+    } else if (task.status === 'unfinished') {
       // Show popup for remarks when finishing
       setFinishingTask(taskId);
       setFinishRemarks(task.remarks || '');
@@ -357,9 +554,10 @@ export const TodoList = () => {
     }
   };
 
-  const updateTaskStatus = async (taskId: string, status: 'finished' | 'unfinished' | 'requested', remarks: string) => {
+  const updateTaskStatus = async (taskId: string, status: 'finished' | 'unfinished', remarks: string, moveChanges: TablesUpdate<'todos'> = {}) => {
     try {
       const updateData: any = { 
+        ...moveChanges,
         status, 
         remarks: remarks || null,
         finished_at: status === 'finished' ? new Date().toISOString() : null
@@ -390,7 +588,7 @@ export const TodoList = () => {
   const confirmFinishTask = () => {
     if (!finishingTask) return;
     
-    updateTaskStatus(finishingTask, 'finished', finishRemarks);
+    updateTaskStatus(finishingTask, 'finished', finishRemarks, takeBoardMove());
     setFinishingTask(null);
     setFinishRemarks('');
   };
@@ -447,12 +645,53 @@ export const TodoList = () => {
     }
   };
 
+  const startScheduling = (task: Task) => {
+    setSchedulingTask(task);
+    setScheduleDueDate(task.due_date || '');
+    setSchedulePriority(task.priority);
+    setSchedulePanchayath(task.panchayath_id || null);
+    setScheduleWards(task.wards || []);
+  };
+
+  const updateTaskSchedule = async () => {
+    if (!schedulingTask) return;
+
+    try {
+      const { error } = await supabase
+        .from('todos')
+        .update({
+          due_date: scheduleDueDate || null,
+          priority: schedulePriority,
+          panchayath_id: schedulePanchayath,
+          wards: scheduleWards.length ? scheduleWards : null
+        })
+        .eq('id', schedulingTask.id);
+
+      if (error) throw error;
+
+      await loadTasks();
+      setSchedulingTask(null);
+      toast({
+        title: "Success",
+        description: "Due date, priority and area updated successfully",
+      });
+    } catch (error) {
+      console.error('Error updating task schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update due date, priority and area",
+        variant: "destructive",
+      });
+    }
+  };
+
   const startEditingRemarks = (task: Task) => {
     setEditingTask(task.id);
     setEditRemarks(task.remarks || '');
   };
 
   const startEditingTaskText = (task: Task) => {
+    markSeen(task.id);
     setEditingTaskText(task.id);
     setEditTaskText(task.text);
   };
@@ -467,58 +706,41 @@ export const TodoList = () => {
   const cancelFinishing = () => {
     setFinishingTask(null);
     setFinishRemarks('');
+    boardMove.current = {};
   };
 
   const startDeleting = (taskId: string) => {
     setDeletingTask(taskId);
-    setDeletePasskey('');
   };
 
   const cancelDeleting = () => {
     setDeletingTask(null);
-    setDeletePasskey('');
   };
 
-  const confirmDeleteTask = async () => {
-    if (deletePasskey !== 's7025715877') {
-      toast({
-        title: "Error",
-        description: "Invalid passkey",
-        variant: "destructive",
-      });
-      return;
-    }
-
+  const confirmDeleteTask = async (reason: string) => {
     if (!deletingTask) return;
 
-    try {
-      const { error } = await supabase
-        .from('todos')
-        .delete()
-        .eq('id', deletingTask);
-
-      if (error) throw error;
-      
-      await loadTasks();
-      setDeletingTask(null);
-      setDeletePasskey('');
-      toast({
-        title: "Success",
-        description: "Task deleted successfully",
-      });
-    } catch (error) {
-      console.error('Error deleting task:', error);
+    const result = await softDeleteRecords('todos', [deletingTask], reason);
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Failed to delete task",
+        description: result.error || "Failed to delete task",
         variant: "destructive",
       });
+      return;
     }
+
+    await loadTasks();
+    setDeletingTask(null);
+    toast({
+      title: "Success",
+      description: "Task deleted successfully",
+    });
   };
 
-  const reassignTaskToCoordinatorOrSupervisor = async (taskId: string, assigneeId: string | null, type: 'coordinator' | 'supervisor') => {
+  const reassignTaskToCoordinatorOrSupervisor = async (taskId: string, assigneeId: string | null, type: 'coordinator' | 'supervisor', moveChanges: TablesUpdate<'todos'> = {}) => {
     try {
-      const updateData: any = {};
+      const updateData: any = { ...moveChanges };
       
       if (type === 'coordinator') {
         updateData.reassigned_to_coordinator = assigneeId;
@@ -566,10 +788,10 @@ export const TodoList = () => {
     }
   };
 
-  const assignTaskToMember = async (taskId: string, memberId: string | null) => {
+  const assignTaskToMember = async (taskId: string, memberId: string | null, moveChanges: TablesUpdate<'todos'> = {}) => {
     try {
       // Try to update the assignment - this will work once the database column is added
-      const updateData: any = { assigned_to: memberId };
+      const updateData: any = { ...moveChanges, assigned_to: memberId };
       
       const { error } = await supabase
         .from('todos')
@@ -611,6 +833,87 @@ export const TodoList = () => {
     }
   };
 
+  // Saves a board move that needs no dialog in a single update
+  const updateBoardTask = async (taskId: string, changes: TablesUpdate<'todos'>) => {
+    const { error } = await supabase
+      .from('todos')
+      .update(changes)
+      .eq('id', taskId);
+
+    if (error) {
+      console.error('Error moving task:', error);
+      toast({
+        title: "Error",
+        description: "Failed to move task",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await loadTasks();
+    toast({
+      title: "Success",
+      description: "Task moved",
+    });
+  };
+
+  const takeBoardMove = () => {
+    const changes = boardMove.current;
+    boardMove.current = {};
+    return changes;
+  };
+
+  // Dropping a card on the board makes the same change as the matching dialog or button. The whole
+  // move is worked out first and saved at once, by the dialog when the move needs one.
+  const moveTaskOnBoard = async (task: Task, column: TaskBoardColumn, memberId?: string | null) => {
+    if (isRequested(task)) {
+      // Completion requests are approved or rejected, never moved directly
+      setReviewingTask(task);
+      return;
+    }
+
+    if (column === 'requested') {
+      toast({
+        title: "Not Allowed",
+        description: "Only whoever holds a task can ask for it to be finished.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The Unassigned column unassigns the task whichever lane it is dropped in
+    const assignedTo = column === 'unassigned' ? null : memberId || task.assigned_to || null;
+    const inField = !!(task.reassigned_to_coordinator || task.reassigned_to_supervisor);
+    const changes: TablesUpdate<'todos'> = {};
+
+    if (assignedTo !== (task.assigned_to || null)) {
+      changes.assigned_to = assignedTo;
+    }
+    if (column !== 'finished' && task.status === 'finished') {
+      changes.status = 'unfinished';
+      changes.finished_at = null;
+    }
+    if ((column === 'unassigned' || column === 'assigned') && inField) {
+      changes.reassigned_to_coordinator = null;
+      changes.reassigned_to_supervisor = null;
+    }
+
+    // Finishing asks for remarks, the field column for whom to reassign to and an unlaned
+    // assignment for the member
+    if (column === 'finished' && task.status !== 'finished') {
+      boardMove.current = changes;
+      toggleTaskStatus(task.id);
+    } else if (column === 'field' && !inField) {
+      boardMove.current = changes;
+      startReassigning(task.id);
+    } else if (column === 'assigned' && !assignedTo) {
+      boardMove.current = changes;
+      startAssigning(task.id);
+    } else if (Object.keys(changes).length > 0) {
+      await updateBoardTask(task.id, changes);
+    }
+  };
+
   const startAssigning = (taskId: string, currentAssignment?: string) => {
     setAssigningTask(taskId);
     setSelectedMember(currentAssignment || 'unassigned');
@@ -619,14 +922,18 @@ export const TodoList = () => {
   const cancelAssigning = () => {
     setAssigningTask(null);
     setSelectedMember('unassigned');
+    boardMove.current = {};
   };
 
   const confirmAssignTask = () => {
     if (!assigningTask) return;
     const memberToAssign = selectedMember === "unassigned" ? null : selectedMember || null;
-    assignTaskToMember(assigningTask, memberToAssign);
+    assignTaskToMember(assigningTask, memberToAssign, takeBoardMove());
   };
 
+  const coversTaskArea = (task: Task, assignee: Assignee) =>
+    !!assignee.wards && isInTaskScope(task, { panchayath_id: assignee.panchayath_id, wards: assignee.wards });
+
   const startReassigning = (taskId: string) => {
     const task = tasks.find(t => t.id === taskId);
     setReassigningTask(taskId);
@@ -639,20 +946,23 @@ export const TodoList = () => {
       setSelectedReassignee(task.reassigned_to_supervisor);
       setReassigneeType('supervisor');
     } else {
-      setSelectedReassignee('unassigned');
-      setReassigneeType('coordinator');
+      // Suggest whoever covers the task's area, coordinators before supervisors
+      const suggested = task && assignees.find(assignee => assignee.type !== 'admin_member' && coversTaskArea(task, assignee));
+      setSelectedReassignee(suggested ? suggested.id : 'unassigned');
+      setReassigneeType(suggested?.type === 'supervisor' ? 'supervisor' : 'coordinator');
     }
   };
 
   const cancelReassigning = () => {
     setReassigningTask(null);
     setSelectedReassignee('unassigned');
+    boardMove.current = {};
   };
 
   const confirmReassignTask = () => {
     if (!reassigningTask) return;
     const assigneeToReassign = selectedReassignee === "unassigned" ? null : selectedReassignee || null;
-    reassignTaskToCoordinatorOrSupervisor(reassigningTask, assigneeToReassign, reassigneeType);
+    reassignTaskToCoordinatorOrSupervisor(reassigningTask, assigneeToReassign, reassigneeType, takeBoardMove());
   };
 
   // Bulk action functions
@@ -690,55 +1000,41 @@ export const TodoList = () => {
     }
     setBulkAction(action);
     setBulkRemarks('');
-    setBulkDeletePasskey('');
     setBulkSelectedAssignee('unassigned');
   };
 
   const cancelBulkAction = () => {
     setBulkAction(null);
     setBulkRemarks('');
-    setBulkDeletePasskey('');
     setBulkSelectedAssignee('unassigned');
     setAssigneeSearchTerm('');
   };
 
-  const confirmBulkDelete = async () => {
-    if (bulkDeletePasskey !== 's7025715877') {
+  const confirmBulkDelete = async (reason: string) => {
+    const result = await softDeleteRecords('todos', selectedTasks, reason);
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Invalid passkey",
+        description: result.error || "Failed to delete tasks",
         variant: "destructive",
       });
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('todos')
-        .delete()
-        .in('id', selectedTasks);
-
-      if (error) throw error;
-      
-      await loadTasks();
-      clearSelection();
-      setBulkAction(null);
-      setBulkDeletePasskey('');
-      toast({
-        title: "Success",
-        description: `${selectedTasks.length} tasks deleted successfully`,
-      });
-    } catch (error) {
-      console.error('Error deleting tasks:', error);
-      toast({
-        title: "Error",
-        description: "Failed to delete tasks",
-        variant: "destructive",
-      });
-    }
+    await loadTasks();
+    clearSelection();
+    setBulkAction(null);
+    toast({
+      title: "Success",
+      description: `${selectedTasks.length} tasks deleted successfully`,
+    });
   };
 
   const confirmBulkFinish = async () => {
+    // Requested tasks wait for their reviewer instead of being finished in bulk
+    const finishableTasks = tasks.filter(task => selectedTasks.includes(task.id) && task.status === 'unfinished').map(task => task.id);
+    const skippedCount = selectedTasks.length - finishableTasks.length;
+
     try {
       const { error } = await supabase
         .from('todos')
@@ -747,7 +1043,7 @@ export const TodoList = () => {
           remarks: bulkRemarks || null,
           finished_at: new Date().toISOString()
         })
-        .in('id', selectedTasks);
+        .in('id', finishableTasks);
 
       if (error) throw error;
       
@@ -757,7 +1053,7 @@ export const TodoList = () => {
       setBulkRemarks('');
       toast({
         title: "Success",
-        description: `${selectedTasks.length} tasks marked as finished`,
+        description: `${finishableTasks.length} tasks marked as finished${skippedCount > 0 ? `, ${skippedCount} skipped` : ''}`,
       });
     } catch (error) {
       console.error('Error finishing tasks:', error);
@@ -853,39 +1149,17 @@ export const TodoList = () => {
     assignee.mobile.includes(assigneeSearchTerm)
   );
 
-  const getTasksForDate = (date: Date) => {
-    return tasks.filter(task => {
-      const taskDate = new Date(task.created_at);
-      return taskDate.toDateString() === date.toDateString();
-    });
-  };
+  // Coordinators and supervisors covering the area of the task being reassigned come first
+  const reassigningTaskDetails = tasks.find(task => task.id === reassigningTask);
+  const reassignOptions = filteredAssignees
+    .filter(assignee => assignee.type === reassigneeType)
+    .map(assignee => ({ ...assignee, inArea: !!reassigningTaskDetails && coversTaskArea(reassigningTaskDetails, assignee) }))
+    .sort((a, b) => Number(b.inArea) - Number(a.inArea));
 
-  // Filter tasks based on search term and assigned to
-  const filterTasks = (taskList: Task[]) => {
-    let filteredTasks = taskList;
-
-    // Filter by search term
-    if (searchTerm.trim()) {
-      const searchLower = searchTerm.toLowerCase();
-      filteredTasks = filteredTasks.filter(task => 
-        task.text.toLowerCase().includes(searchLower)
-      );
-    }
-
-    // Filter by assigned to
-    if (filterByAssignedTo !== 'all') {
-      if (filterByAssignedTo === 'unassigned') {
-        filteredTasks = filteredTasks.filter(task => !task.assigned_to);
-      } else {
-        filteredTasks = filteredTasks.filter(task => task.assigned_to === filterByAssignedTo);
-      }
-    }
-
-    return filteredTasks;
-  };
-
-  const unfinishedTasks = filterTasks(tasks.filter(task => task.status === 'unfinished'));
-  const finishedTasks = filterTasks(tasks.filter(task => task.status === 'finished'));
+  const unfinishedTasks = activeStatus === 'open' ? tasks : [];
+  const finishedTasks = activeStatus === 'finished' ? tasks : [];
+  const hasMoreTasks = tasks.length < taskCounts[activeStatus];
+  const boardOpenTasks = tasks.filter(task => task.status !== 'finished');
 
   // Clear selection when changing tabs
   useEffect(() => {
@@ -955,9 +1229,10 @@ export const TodoList = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="unassigned">Unassigned</SelectItem>
-                    {adminMembers.map(member => (
+                    {memberOptions.map(member => (
                       <SelectItem key={member.id} value={member.id}>
                         {member.name} - {member.mobile}
+                        {suggestedMemberIds.has(member.id) && <Badge variant="secondary" className="ml-2 text-xs">In area</Badge>}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -987,9 +1262,10 @@ export const TodoList = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="unassigned">Unassigned</SelectItem>
-                      {adminMembers.map(member => (
+                      {memberOptions.map(member => (
                         <SelectItem key={member.id} value={member.id}>
                           {member.name} - {member.mobile}
+                          {suggestedMemberIds.has(member.id) && <Badge variant="secondary" className="ml-2 text-xs">In area</Badge>}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -1002,6 +1278,44 @@ export const TodoList = () => {
               </div>
             </div>
           )}
+
+          {/* Due Date and Priority - Optional */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-muted-foreground">Due Date (Optional)</label>
+              <Input
+                type="date"
+                value={newTaskDueDate}
+                onChange={(e) => setNewTaskDueDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-muted-foreground">Priority</label>
+              <Select value={newTaskPriority} onValueChange={(value: TaskPriority) => setNewTaskPriority(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority}>
+                      {TASK_PRIORITY_LABELS[priority]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Panchayath and Wards - Optional */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-muted-foreground">Panchayath and Wards (Optional)</label>
+            <TaskScopeFields
+              panchayaths={panchayaths}
+              panchayathId={newTaskPanchayath}
+              wards={newTaskWards}
+              onChange={changeNewTaskScope}
+            />
+          </div>
         </CardContent>
       </Card>
 
@@ -1010,7 +1324,23 @@ export const TodoList = () => {
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
             <span>Tasks Management</span>
-            <div className="flex gap-2">
+            <div className="flex items-center gap-2">
+              {newTaskIds.size > 0 && (
+                <>
+                  <Badge>{newTaskIds.size} new</Badge>
+                  <Button variant="ghost" size="sm" onClick={() => markSeen()}>
+                    Mark all as seen
+                  </Button>
+                </>
+              )}
+              <Button
+                variant={viewMode === 'board' ? "default" : "outline"}
+                size="sm"
+                onClick={() => setViewMode(viewMode === 'board' ? 'list' : 'board')}
+              >
+                <SquareKanban className="h-4 w-4 mr-1" />
+                {viewMode === 'board' ? "List View" : "Board View"}
+              </Button>
               <Button
                 variant={showCalendar ? "default" : "outline"}
                 size="sm"
@@ -1039,6 +1369,31 @@ export const TodoList = () => {
               />
             </div>
             
+            {/* Filter by creation date */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <label className="text-sm font-medium whitespace-nowrap">Created between:</label>
+              <Input
+                type="date"
+                value={filterFromDate}
+                max={filterToDate || undefined}
+                onChange={(e) => setFilterFromDate(e.target.value)}
+                className="w-full sm:max-w-[180px]"
+              />
+              <span className="text-sm text-muted-foreground">and</span>
+              <Input
+                type="date"
+                value={filterToDate}
+                min={filterFromDate || undefined}
+                onChange={(e) => setFilterToDate(e.target.value)}
+                className="w-full sm:max-w-[180px]"
+              />
+              {(filterFromDate || filterToDate) && (
+                <Button variant="ghost" size="sm" onClick={() => { setFilterFromDate(''); setFilterToDate(''); }}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+
             {/* Filter by Assigned To */}
             <div className="flex items-center gap-2">
               <label className="text-sm font-medium whitespace-nowrap">Filter by Assigned To:</label>
@@ -1057,6 +1412,67 @@ export const TodoList = () => {
                 </SelectContent>
               </Select>
             </div>
+
+            {/* Filter by panchayath and ward */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <label className="text-sm font-medium whitespace-nowrap">Panchayath:</label>
+              <Select value={filterPanchayath} onValueChange={(value) => { setFilterPanchayath(value); setFilterWard('all'); }}>
+                <SelectTrigger className="w-full sm:max-w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All panchayaths</SelectItem>
+                  {panchayaths.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {filterPanchayath !== 'all' && (
+                <>
+                  <label className="text-sm font-medium whitespace-nowrap">Ward:</label>
+                  <Select value={filterWard} onValueChange={setFilterWard}>
+                    <SelectTrigger className="w-full sm:max-w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All wards</SelectItem>
+                      {Array.from({ length: panchayaths.find(p => p.id === filterPanchayath)?.number_of_wards || 0 }, (_, i) => i + 1).map(ward => (
+                        <SelectItem key={ward} value={String(ward)}>Ward {ward}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              )}
+            </div>
+
+            {/* Filter and sort by urgency */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <label className="text-sm font-medium whitespace-nowrap">Urgency:</label>
+              <Select value={filterByUrgency} onValueChange={(value: 'all' | 'overdue' | TaskPriority) => setFilterByUrgency(value)}>
+                <SelectTrigger className="w-full sm:max-w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All priorities</SelectItem>
+                  <SelectItem value="overdue">Overdue only</SelectItem>
+                  {TASK_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority}>
+                      {TASK_PRIORITY_LABELS[priority]} priority
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="text-sm font-medium whitespace-nowrap">Sort by:</label>
+              <Select value={sortOrder} onValueChange={(value: TaskSortOrder) => setSortOrder(value)}>
+                <SelectTrigger className="w-full sm:max-w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="urgency">Most urgent first</SelectItem>
+                  <SelectItem value="newest">Newest first</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           {showCalendar ? (
             <div className="space-y-4">
@@ -1073,13 +1489,18 @@ export const TodoList = () => {
                   <h3 className="font-medium">
                     Tasks for {format(selectedDate, "PPP")}
                   </h3>
-                  {getTasksForDate(selectedDate).length === 0 ? (
+                  {calendarTasks.length === 0 ? (
                     <div className="text-center py-4 text-muted-foreground">
                       No tasks for this date.
                     </div>
                   ) : (
                     <div className="space-y-2">
-                      {getTasksForDate(selectedDate).map((task) => (
+                      {calendarTotal > calendarTasks.length && (
+                        <p className="text-xs text-muted-foreground">
+                          Showing the latest {calendarTasks.length} of {calendarTotal} tasks
+                        </p>
+                      )}
+                      {calendarTasks.map((task) => (
                         <Card key={task.id} className="p-3">
                           <div className="flex items-center justify-between">
                             <div className="flex-1">
@@ -1115,14 +1536,52 @@ export const TodoList = () => {
                 </div>
               )}
             </div>
+          ) : viewMode === 'board' ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <label className="text-sm font-medium whitespace-nowrap">Swimlanes:</label>
+                <Select value={boardSwimlanes} onValueChange={(value: TaskBoardSwimlanes) => setBoardSwimlanes(value)}>
+                  <SelectTrigger className="w-full sm:max-w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="assignee">By team member</SelectItem>
+                    <SelectItem value="panchayath">By panchayath</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <TaskBoard
+                tasks={tasks}
+                swimlanes={boardSwimlanes}
+                members={adminMembers}
+                newTaskIds={newTaskIds}
+                subtaskProgress={subtaskProgress}
+                onMove={moveTaskOnBoard}
+                onShowComments={openComments}
+                onShowHistory={openHistory}
+              />
+              {taskCounts.finished > BOARD_FINISHED_LIMIT && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the latest {BOARD_FINISHED_LIMIT} of {taskCounts.finished} finished tasks
+                </p>
+              )}
+              {boardOpenTasks.length < taskCounts.open && (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={() => loadBoardTasks(boardOpenTasks.length)} disabled={loadingMore}>
+                    {loadingMore ? 'Loading...' : `Load more (${boardOpenTasks.length} of ${taskCounts.open} open)`}
+                  </Button>
+                </div>
+              )}
+            </div>
           ) : (
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
               <TabsList className="grid w-full grid-cols-2">
                 <TabsTrigger value="unfinished">
-                  Unfinished ({unfinishedTasks.length})
+                  Unfinished ({taskCounts.open})
                 </TabsTrigger>
                 <TabsTrigger value="finished">
-                  Finished ({finishedTasks.length})
+                  Finished ({taskCounts.finished})
                 </TabsTrigger>
               </TabsList>
               
@@ -1156,14 +1615,16 @@ export const TodoList = () => {
                             <RefreshCcw className="h-4 w-4 mr-1" />
                             Reassign Selected
                           </Button>
-                          <Button
-                            size="sm"
-                            variant="destructive"
-                            onClick={() => startBulkAction('delete')}
-                          >
-                            <Trash2 className="h-4 w-4 mr-1" />
-                            Delete Selected
-                          </Button>
+                          {canDelete && (
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => startBulkAction('delete')}
+                            >
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Delete Selected
+                            </Button>
+                          )}
                           <Button
                             size="sm"
                             variant="ghost"
@@ -1188,6 +1649,7 @@ export const TodoList = () => {
                             </TableHead>
                             <TableHead>Task</TableHead>
                             <TableHead>Status</TableHead>
+                            <TableHead>Due / Priority</TableHead>
                             <TableHead>Assigned To (Team)</TableHead>
                             <TableHead>Reassigned To (Coord/Sup)</TableHead>
                             <TableHead>Created</TableHead>
@@ -1197,7 +1659,7 @@ export const TodoList = () => {
                         </TableHeader>
                         <TableBody>
                           {unfinishedTasks.map((task) => (
-                            <TableRow key={task.id}>
+                            <TableRow key={task.id} className={isTaskOverdue(task) ? 'bg-red-50 hover:bg-red-100' : newTaskIds.has(task.id) ? 'bg-primary/5' : ''}>
                               <TableCell>
                                 <Checkbox
                                   checked={selectedTasks.includes(task.id)}
@@ -1231,6 +1693,12 @@ export const TodoList = () => {
                                  ) : (
                                    <div className="flex items-center gap-2">
                                      <div className="font-medium underline">{task.text}</div>
+                                     {newTaskIds.has(task.id) && (
+                                       <Badge className="text-xs">
+                                         <Sparkles className="h-3 w-3 mr-1" />
+                                         New
+                                       </Badge>
+                                     )}
                                      <Button 
                                        size="sm" 
                                        variant="ghost" 
@@ -1241,6 +1709,12 @@ export const TodoList = () => {
                                      </Button>
                                    </div>
                                  )}
+                                 {describeTaskScope(task) && (
+                                   <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                                     <MapPin className="h-3 w-3" />
+                                     {describeTaskScope(task)}
+                                   </p>
+                                 )}
                                </TableCell>
                             <TableCell>
                                <Badge variant={
@@ -1249,6 +1723,29 @@ export const TodoList = () => {
                                } className={isRequested(task) ? 'bg-orange-500 hover:bg-orange-600' : ''}>
                                  {isRequested(task) ? 'Requested' : task.status}
                                </Badge>
+                               {subtaskProgress[task.id] && (
+                                 <Badge variant="outline" className="mt-1 text-xs whitespace-nowrap">
+                                   <GitBranch className="h-3 w-3 mr-1" />
+                                   {subtaskProgress[task.id].finished}/{subtaskProgress[task.id].total} sub-tasks
+                                 </Badge>
+                               )}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-1">
+                                {task.due_date || task.priority !== 'normal' || task.escalated_at ? (
+                                  <TaskUrgencyBadges task={task} />
+                                ) : (
+                                  <span className="text-sm text-muted-foreground">No due date</span>
+                                )}
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => startScheduling(task)}
+                                  className="h-6 px-1"
+                                >
+                                  <Edit className="h-3 w-3" />
+                                </Button>
+                              </div>
                             </TableCell>
                              <TableCell>
                                <div className="space-y-1">
@@ -1364,21 +1861,41 @@ export const TodoList = () => {
                               <div className="flex items-center justify-end gap-1">
                                 <Button
                                   size="sm"
-                                  variant="outline"
-                                  onClick={() => toggleTaskStatus(task.id)}
+                                  variant="ghost"
+                                  onClick={() => openComments(task)}
                                   className="h-8 px-2"
+                                  title="Comments"
                                 >
-                                  <XCircle className="h-3 w-3 mr-1" />
-                                  Finish
+                                  <MessageSquare className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => openHistory(task)}
+                                  className="h-8 px-2"
+                                  title="Task history"
+                                >
+                                  <History className="h-3 w-3" />
                                 </Button>
                                 <Button
                                   size="sm"
-                                  variant="destructive"
-                                  onClick={() => startDeleting(task.id)}
+                                  variant="outline"
+                                  onClick={() => toggleTaskStatus(task.id)}
                                   className="h-8 px-2"
                                 >
-                                  <Trash2 className="h-3 w-3" />
+                                  <XCircle className="h-3 w-3 mr-1" />
+                                  {isRequested(task) ? 'Review' : 'Finish'}
                                 </Button>
+                                {canDelete && (
+                                  <Button
+                                    size="sm"
+                                    variant="destructive"
+                                    onClick={() => startDeleting(task.id)}
+                                    className="h-8 px-2"
+                                  >
+                                    <Trash2 className="h-3 w-3" />
+                                  </Button>
+                                )}
                               </div>
                             </TableCell>
                           </TableRow>
@@ -1386,6 +1903,13 @@ export const TodoList = () => {
                         </TableBody>
                       </Table>
                     </div>
+                    {hasMoreTasks && (
+                      <div className="flex justify-center">
+                        <Button variant="outline" onClick={() => loadTasks(tasks.length)} disabled={loadingMore}>
+                          {loadingMore ? 'Loading...' : `Load more (${tasks.length} of ${taskCounts[activeStatus]})`}
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 )}
               </TabsContent>
@@ -1412,14 +1936,16 @@ export const TodoList = () => {
                             <RefreshCcw className="h-4 w-4 mr-1" />
                             Reassign Selected
                           </Button>
-                          <Button
-                            size="sm"
-                            variant="destructive"
-                            onClick={() => startBulkAction('delete')}
-                          >
-                            <Trash2 className="h-4 w-4 mr-1" />
-                            Delete Selected
-                          </Button>
+                          {canDelete && (
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => startBulkAction('delete')}
+                            >
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Delete Selected
+                            </Button>
+                          )}
                           <Button
                             size="sm"
                             variant="ghost"
@@ -1453,7 +1979,7 @@ export const TodoList = () => {
                         </TableHeader>
                         <TableBody>
                           {finishedTasks.map((task) => (
-                            <TableRow key={task.id}>
+                            <TableRow key={task.id} className={newTaskIds.has(task.id) ? 'bg-primary/5' : ''}>
                               <TableCell>
                                 <Checkbox
                                   checked={selectedTasks.includes(task.id)}
@@ -1487,6 +2013,12 @@ export const TodoList = () => {
                                  ) : (
                                    <div className="flex items-center gap-2">
                                      <div className="font-medium line-through text-muted-foreground">{task.text}</div>
+                                     {newTaskIds.has(task.id) && (
+                                       <Badge className="text-xs">
+                                         <Sparkles className="h-3 w-3 mr-1" />
+                                         New
+                                       </Badge>
+                                     )}
                                      <Button 
                                        size="sm" 
                                        variant="ghost" 
@@ -1497,6 +2029,12 @@ export const TodoList = () => {
                                      </Button>
                                    </div>
                                  )}
+                                 {describeTaskScope(task) && (
+                                   <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                                     <MapPin className="h-3 w-3" />
+                                     {describeTaskScope(task)}
+                                   </p>
+                                 )}
                                </TableCell>
                             <TableCell>
                                <Badge variant={
@@ -1505,6 +2043,12 @@ export const TodoList = () => {
                                } className={isRequested(task) ? 'bg-orange-500 hover:bg-orange-600' : ''}>
                                  {isRequested(task) ? 'Requested' : task.status}
                                </Badge>
+                               {subtaskProgress[task.id] && (
+                                 <Badge variant="outline" className="mt-1 text-xs whitespace-nowrap">
+                                   <GitBranch className="h-3 w-3 mr-1" />
+                                   {subtaskProgress[task.id].finished}/{subtaskProgress[task.id].total} sub-tasks
+                                 </Badge>
+                               )}
                             </TableCell>
                              <TableCell>
                                <div className="space-y-1">
@@ -1609,21 +2153,41 @@ export const TodoList = () => {
                               <div className="flex items-center justify-end gap-1">
                                 <Button
                                   size="sm"
-                                  variant="default"
-                                  onClick={() => toggleTaskStatus(task.id)}
+                                  variant="ghost"
+                                  onClick={() => openComments(task)}
                                   className="h-8 px-2"
+                                  title="Comments"
                                 >
-                                  <CheckCircle className="h-3 w-3 mr-1" />
-                                  Unfinish
+                                  <MessageSquare className="h-3 w-3" />
                                 </Button>
                                 <Button
                                   size="sm"
-                                  variant="destructive"
-                                  onClick={() => startDeleting(task.id)}
+                                  variant="ghost"
+                                  onClick={() => openHistory(task)}
                                   className="h-8 px-2"
+                                  title="Task history"
                                 >
-                                  <Trash2 className="h-3 w-3" />
+                                  <History className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="default"
+                                  onClick={() => toggleTaskStatus(task.id)}
+                                  className="h-8 px-2"
+                                >
+                                  <CheckCircle className="h-3 w-3 mr-1" />
+                                  Unfinish
                                 </Button>
+                                {canDelete && (
+                                  <Button
+                                    size="sm"
+                                    variant="destructive"
+                                    onClick={() => startDeleting(task.id)}
+                                    className="h-8 px-2"
+                                  >
+                                    <Trash2 className="h-3 w-3" />
+                                  </Button>
+                                )}
                               </div>
                             </TableCell>
                           </TableRow>
@@ -1631,6 +2195,13 @@ export const TodoList = () => {
                         </TableBody>
                       </Table>
                     </div>
+                    {hasMoreTasks && (
+                      <div className="flex justify-center">
+                        <Button variant="outline" onClick={() => loadTasks(tasks.length)} disabled={loadingMore}>
+                          {loadingMore ? 'Loading...' : `Load more (${tasks.length} of ${taskCounts[activeStatus]})`}
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 )}
               </TabsContent>
@@ -1640,36 +2211,78 @@ export const TodoList = () => {
       </Card>
 
       {/* Bulk Action Dialogs */}
-      <Dialog open={bulkAction === 'delete'} onOpenChange={() => bulkAction === 'delete' && cancelBulkAction()}>
-        <DialogContent>
+      <DeleteReasonDialog
+        open={bulkAction === 'delete'}
+        onOpenChange={(open) => !open && cancelBulkAction()}
+        title="Bulk Delete Tasks"
+        description={`Delete ${selectedTasks.length} selected task${selectedTasks.length > 1 ? 's' : ''}?`}
+        confirmLabel="Delete Tasks"
+        onConfirm={confirmBulkDelete}
+      />
+
+      <Dialog open={!!schedulingTask} onOpenChange={(open) => !open && setSchedulingTask(null)}>
+        <DialogContent className="sm:max-w-md">
           <DialogHeader>
-            <DialogTitle>Bulk Delete Tasks</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to delete {selectedTasks.length} selected task{selectedTasks.length > 1 ? 's' : ''}? This action cannot be undone.
-            </DialogDescription>
+            <DialogTitle>Due Date, Priority and Area</DialogTitle>
+            <DialogDescription>{schedulingTask?.text}</DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
-            <div>
-              <label className="text-sm font-medium">Enter passkey to confirm deletion:</label>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Due Date:</label>
               <Input
-                type="password"
-                placeholder="Enter passkey..."
-                value={bulkDeletePasskey}
-                onChange={(e) => setBulkDeletePasskey(e.target.value)}
+                type="date"
+                value={scheduleDueDate}
+                onChange={(e) => setScheduleDueDate(e.target.value)}
+              />
+              {schedulingTask?.escalated_at && (
+                <p className="text-xs text-muted-foreground">Changing the due date clears the escalation.</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Priority:</label>
+              <Select value={schedulePriority} onValueChange={(value: TaskPriority) => setSchedulePriority(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority}>
+                      {TASK_PRIORITY_LABELS[priority]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Panchayath and Wards:</label>
+              <TaskScopeFields
+                panchayaths={panchayaths}
+                panchayathId={schedulePanchayath}
+                wards={scheduleWards}
+                onChange={(panchayathId, wards) => {
+                  setSchedulePanchayath(panchayathId);
+                  setScheduleWards(wards);
+                }}
               />
             </div>
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={cancelBulkAction}>
+            <Button variant="outline" onClick={() => setSchedulingTask(null)}>
               Cancel
             </Button>
-            <Button variant="destructive" onClick={confirmBulkDelete}>
-              Delete Tasks
+            <Button onClick={updateTaskSchedule}>
+              Save
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
+      <TaskHistoryDialog task={historyTask} onOpenChange={(open) => !open && setHistoryTask(null)} />
+
+      <TaskCommentsDialog task={commentsTask} onOpenChange={(open) => !open && setCommentsTask(null)} />
+
+      <CompletionReviewDialog task={reviewingTask} onOpenChange={(open) => !open && setReviewingTask(null)} onReviewed={() => loadTasks()} />
+
       <Dialog open={bulkAction === 'finish'} onOpenChange={() => bulkAction === 'finish' && cancelBulkAction()}>
         <DialogContent>
           <DialogHeader>
@@ -1784,35 +2397,17 @@ export const TodoList = () => {
       </Dialog>
 
       {/* Delete Task Dialog */}
-      <Dialog open={!!deletingTask} onOpenChange={(open) => !open && cancelDeleting()}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Delete Task</DialogTitle>
-            <DialogDescription>
-              This action cannot be undone. Please enter the passkey to confirm deletion.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4">
-            <Input
-              type="password"
-              placeholder="Enter passkey..."
-              value={deletePasskey}
-              onChange={(e) => setDeletePasskey(e.target.value)}
-            />
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={cancelDeleting}>
-              Cancel
-            </Button>
-            <Button variant="destructive" onClick={confirmDeleteTask}>
-              Delete Task
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <DeleteReasonDialog
+        open={!!deletingTask}
+        onOpenChange={(open) => !open && cancelDeleting()}
+        title="Delete Task"
+        description="Delete this task?"
+        confirmLabel="Delete Task"
+        onConfirm={confirmDeleteTask}
+      />
 
       {/* Reassignment Dialog */}
-      <Dialog open={!!reassigningTask} onOpenChange={() => setReassigningTask(null)}>
+      <Dialog open={!!reassigningTask} onOpenChange={(open) => !open && cancelReassigning()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Reassign Task to Coordinator/Supervisor</DialogTitle>
@@ -1850,18 +2445,21 @@ export const TodoList = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="unassigned">Remove Reassignment</SelectItem>
-                    {filteredAssignees
-                      .filter(assignee => assignee.type === reassigneeType)
-                      .map(assignee => (
-                        <SelectItem key={assignee.id} value={assignee.id}>
-                          <div className="flex items-center justify-between w-full">
-                            <span>{assignee.name}</span>
-                            <Badge variant="outline" className="ml-2">
-                              {assignee.mobile}
+                    {reassignOptions.map(assignee => (
+                      <SelectItem key={assignee.id} value={assignee.id}>
+                        <div className="flex items-center justify-between w-full">
+                          <span>{assignee.name}</span>
+                          <Badge variant="outline" className="ml-2">
+                            {assignee.mobile}
+                          </Badge>
+                          {assignee.inArea && (
+                            <Badge variant="secondary" className="ml-2 text-xs">
+                              In area
                             </Badge>
-                          </div>
-                        </SelectItem>
-                      ))}
+                          )}
+                        </div>
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -6,7 +6,11 @@ import { HistoryTab } from "@/components/HistoryTab";
 import { AgentTestimonialAnalytics } from "@/components/admin/AgentTestimonialAnalytics";
 import { BarChart3, Network, History, MessageSquare } from "lucide-react";
 
-export const ViewAnalyze = () => {
+interface ViewAnalyzeProps {
+  canDelete: boolean;
+}
+
+export const ViewAnalyze = ({ canDelete }: ViewAnalyzeProps) => {
   return (
     <Card>
       <CardHeader>
@@ -40,11 +44,11 @@ export const ViewAnalyze = () => {
           </TabsList>
           
           <TabsContent value="hierarchy">
-            <PanchayathView />
+            <PanchayathView canDelete={canDelete} />
           </TabsContent>
           
           <TabsContent value="hierarchy-count">
-            <PanchayathHierarchy />
+            <PanchayathHierarchy canDelete={canDelete} />
           </TabsContent>
           
           <TabsContent value="testimonials">
@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback, useRef } from "react"
+import { User } from "@/lib/authService"
+import { cacheAgentSession, getAgentSessionToken, getCachedAgentSession, restoreAgentSession, endAgentSession, endAllAgentSessions, setActiveAgentRole } from "@/lib/sessionService"
+import { useToast } from "@/hooks/use-toast"
+
+// How often an active tab re-checks its session with the server
+const REVALIDATE_INTERVAL_MS = 5 * 60 * 1000
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "scroll"] as const
+
+/**
+ * The signed-in agent. A user cached from the last visit shows straight away while the session is
+ * checked with the server in the background, so the dashboard does not wait on a slow connection.
+ */
+export function useAgentSession() {
+  const [cached] = useState(getCachedAgentSession)
+  const [currentUser, setCurrentUser] = useState<User | null>(cached?.user ?? null)
+  const [roles, setRoles] = useState<User[]>(cached?.roles ?? [])
+  const [loading, setLoading] = useState(!cached)
+  const lastActivity = useRef(Date.now())
+  const lastCheck = useRef(Date.now())
+  const currentUserRef = useRef<User | null>(null)
+  currentUserRef.current = currentUser
+  const { toast } = useToast()
+
+  const revalidate = useCallback(async () => {
+    lastCheck.current = Date.now()
+    const result = await restoreAgentSession()
+
+    if (result.success && result.user) {
+      setCurrentUser(result.user)
+      setRoles(result.roles || [result.user])
+      return
+    }
+
+    // A network failure leaves the stored session in place; only drop the user when the server ended it
+    if (!getAgentSessionToken()) {
+      if (currentUserRef.current || result.error) {
+        toast({
+          title: "Session ended",
+          description: result.error || "Please log in again.",
+          variant: "destructive",
+        })
+      }
+      setCurrentUser(null)
+      setRoles([])
+    }
+  }, [toast])
+
+  useEffect(() => {
+    revalidate().finally(() => setLoading(false))
+  }, [revalidate])
+
+  useEffect(() => {
+    if (currentUser) cacheAgentSession(currentUser, roles)
+  }, [currentUser, roles])
+
+  useEffect(() => {
+    if (!currentUser) return
+
+    const markActive = () => {
+      lastActivity.current = Date.now()
+    }
+    const onVisible = () => {
+      if (document.visibilityState === "visible") revalidate()
+    }
+    // Only touch the session when the user actually did something, so idle tabs still time out
+    const timer = setInterval(() => {
+      if (lastActivity.current > lastCheck.current) revalidate()
+    }, REVALIDATE_INTERVAL_MS)
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }))
+    document.addEventListener("visibilitychange", onVisible)
+
+    return () => {
+      clearInterval(timer)
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive))
+      document.removeEventListener("visibilitychange", onVisible)
+    }
+  }, [currentUser, revalidate])
+
+  const signIn = useCallback((user: User, userRoles: User[] = [user]) => {
+    setActiveAgentRole(user)
+    setCurrentUser(user)
+    setRoles(userRoles)
+  }, [])
+
+  const switchRole = useCallback((user: User) => {
+    setActiveAgentRole(user)
+    setCurrentUser(user)
+  }, [])
+
+  // Profile edits only change the active role's record, so keep the role list in step
+  const updateCurrentUser = useCallback((user: User) => {
+    setCurrentUser(user)
+    setRoles(prev => prev.map(role => (role.id === user.id ? user : role)))
+  }, [])
+
+  const logout = useCallback(async () => {
+    await endAgentSession()
+    setCurrentUser(null)
+    setRoles([])
+  }, [])
+
+  const logoutEverywhere = useCallback(async () => {
+    const result = await endAllAgentSessions()
+    setCurrentUser(null)
+    setRoles([])
+    return result
+  }, [])
+
+  return {
+    currentUser,
+    roles,
+    signIn,
+    switchRole,
+    updateCurrentUser,
+    loading,
+    logout,
+    logoutEverywhere,
+  }
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from "react"
+import { OutboxAction, OutboxItem, offlineQueue } from "@/lib/offlineQueue"
+import { isOffline } from "@/lib/network"
+import { onBackgroundSync } from "@/lib/serviceWorker"
+
+// How often queued changes are retried while the device claims to be online
+const RETRY_INTERVAL_MS = 30000
+
+/**
+ * The agent's queued changes, synced on load, when the connection comes back (or the service worker
+ * says so) and every so often while any are waiting. syncedAt changes whenever queued changes reached the server, so views can
+ * reload what they show.
+ */
+export function useOfflineQueue(ownerId: string | undefined) {
+  const [items, setItems] = useState<OutboxItem[]>([])
+  const [online, setOnline] = useState(!isOffline())
+  const [syncedAt, setSyncedAt] = useState(0)
+
+  useEffect(() => {
+    if (!ownerId) return
+
+    const refresh = () => {
+      offlineQueue.list(ownerId).then(setItems)
+    }
+    const goOnline = () => {
+      setOnline(true)
+      offlineQueue.sync(ownerId)
+    }
+    const goOffline = () => setOnline(false)
+
+    const unsubscribe = offlineQueue.subscribe(event => {
+      refresh()
+      if (event === "synced") setSyncedAt(Date.now())
+    })
+    const stopBackgroundSync = onBackgroundSync(async () => {
+      await offlineQueue.sync(ownerId)
+      return !(await offlineQueue.list(ownerId)).some(item => item.status === "pending")
+    })
+    window.addEventListener("online", goOnline)
+    window.addEventListener("offline", goOffline)
+    refresh()
+    offlineQueue.sync(ownerId)
+
+    return () => {
+      unsubscribe()
+      stopBackgroundSync()
+      window.removeEventListener("online", goOnline)
+      window.removeEventListener("offline", goOffline)
+    }
+  }, [ownerId])
+
+  const hasPending = items.some(item => item.status === "pending")
+
+  useEffect(() => {
+    if (!ownerId || !hasPending) return
+    const timer = setInterval(() => offlineQueue.sync(ownerId), RETRY_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [ownerId, hasPending])
+
+  const submit = useCallback((action: OutboxAction) => offlineQueue.submit(ownerId!, action), [ownerId])
+  const sync = useCallback(() => offlineQueue.sync(ownerId!), [ownerId])
+  const resolve = useCallback((itemId: string, keepMine: boolean) => offlineQueue.resolve(ownerId!, itemId, keepMine), [ownerId])
+
+  return { items, online, syncedAt, submit, sync, resolve }
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect, useRef, useCallback } from "react"
+import { TaskChange, subscribeToTaskChanges } from "@/lib/taskRealtime"
+
+/**
+ * Follows live task changes on the given topics. Tasks changed by someone else since the user
+ * last looked are collected in newTaskIds until marked as seen.
+ */
+export function useTaskActivity(userId: string, topics: string[], onChange: (change: TaskChange) => void) {
+  const [newTaskIds, setNewTaskIds] = useState<Set<string>>(new Set())
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+  // The topics array is rebuilt on every render, so the subscription follows its contents instead
+  const topicKey = topics.join(",")
+
+  useEffect(() => {
+    if (!userId || !topicKey) return
+
+    return subscribeToTaskChanges(topicKey.split(","), change => {
+      if (change.kind !== "removed" && !change.actor_ids.includes(userId)) {
+        setNewTaskIds(prev => new Set(prev).add(change.task_id))
+      }
+      onChangeRef.current(change)
+    })
+  }, [userId, topicKey])
+
+  // Without a task id, everything counts as seen
+  const markSeen = useCallback((taskId?: string) => {
+    setNewTaskIds(prev => {
+      if (!taskId) return prev.size === 0 ? prev : new Set()
+      if (!prev.has(taskId)) return prev
+      const next = new Set(prev)
+      next.delete(taskId)
+      return next
+    })
+  }, [])
+
+  return { newTaskIds, markSeen }
+}
@@ -0,0 +1,23 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from './types';
+import { fetchWithSession } from './sessionHeaders';
+
+// client.ts is regenerated by the Supabase integration, so the session headers are wired in here
+// instead. The project settings come from the same .env the integration keeps up to date.
+// Import the supabase client like this:
+// import { supabase } from "@/integrations/supabase/sessionClient";
+
+export const supabase = createClient<Database>(
+  import.meta.env.VITE_SUPABASE_URL,
+  import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+  {
+    auth: {
+      storage: localStorage,
+      persistSession: true,
+      autoRefreshToken: true,
+    },
+    global: {
+      fetch: fetchWithSession,
+    }
+  }
+);
@@ -0,0 +1,27 @@
+// Session tokens are sent with every request so row-level security can scope data to the caller.
+// The keys are shared with sessionService and superAdminAuthService, which own the stored sessions.
+export const AGENT_SESSION_STORAGE_KEY = 'agentSession';
+export const SUPER_ADMIN_SESSION_STORAGE_KEY = 'superAdminSession';
+
+const readToken = (key: string): string | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null')?.token ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * fetch wrapper for the Supabase client that adds the x-agent-session and
+ * x-super-admin-session headers when those sessions exist
+ */
+export const fetchWithSession: typeof fetch = (input, init) => {
+  const headers = new Headers(init?.headers);
+  const agentToken = readToken(AGENT_SESSION_STORAGE_KEY);
+  const superAdminToken = readToken(SUPER_ADMIN_SESSION_STORAGE_KEY);
+
+  if (agentToken) headers.set('x-agent-session', agentToken);
+  if (superAdminToken) headers.set('x-super-admin-session', superAdminToken);
+
+  return fetch(input, { ...init, headers });
+};
@@ -14,6 +14,44 @@ export type Database = {
   }
   public: {
     Tables: {
+      activity_categories: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          id: string
+          name: string
+          panchayath_id: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          panchayath_id: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          panchayath_id?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activity_categories_panchayath_id_fkey"
+            columns: ["panchayath_id"]
+            isOneToOne: false
+            referencedRelation: "panchayaths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       admin_members: {
         Row: {
           admin_type: string | null
@@ -82,10 +120,87 @@ export type Database = {
         }
         Relationships: []
       }
+      agent_sessions: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          last_seen_at: string
+          mobile_number: string
+          revoked_at: string | null
+          token_hash: string
+          user_agent: string | null
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          last_seen_at?: string
+          mobile_number: string
+          revoked_at?: string | null
+          token_hash: string
+          user_agent?: string | null
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          last_seen_at?: string
+          mobile_number?: string
+          revoked_at?: string | null
+          token_hash?: string
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_label: string
+          actor_mobile: string | null
+          actor_super_admin_id: string | null
+          actor_type: string
+          created_at: string
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_label: string
+          actor_mobile?: string | null
+          actor_super_admin_id?: string | null
+          actor_type: string
+          created_at?: string
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_label?: string
+          actor_mobile?: string | null
+          actor_super_admin_id?: string | null
+          actor_type?: string
+          created_at?: string
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
       coordinators: {
         Row: {
           created_at: string | null
           created_by: string | null
+          deleted_at: string | null
+          deletion_id: string | null
           id: string
           mobile_number: string
           name: string
@@ -97,6 +212,8 @@ export type Database = {
         Insert: {
           created_at?: string | null
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
           id?: string
           mobile_number: string
           name: string
@@ -108,6 +225,8 @@ export type Database = {
         Update: {
           created_at?: string | null
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
           id?: string
           mobile_number?: string
           name?: string
@@ -117,6 +236,13 @@ export type Database = {
           ward?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "coordinators_deletion_id_fkey"
+            columns: ["deletion_id"]
+            isOneToOne: false
+            referencedRelation: "deletions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "coordinators_panchayath_id_fkey"
             columns: ["panchayath_id"]
@@ -126,6 +252,45 @@ export type Database = {
           },
         ]
       }
+      daily_note_entries: {
+        Row: {
+          category_id: string
+          created_at: string
+          id: string
+          note_id: string
+          quantity: number
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          id?: string
+          note_id: string
+          quantity: number
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          id?: string
+          note_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "daily_note_entries_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "activity_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "daily_note_entries_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "daily_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       daily_notes: {
         Row: {
           activity: string | null
@@ -133,9 +298,12 @@ export type Database = {
           date: string
           id: string
           is_leave: boolean
+          late_approved_by: string | null
+          late_submitted_at: string | null
           mobile_number: string | null
           updated_at: string
           user_id: string | null
+          ward: number | null
         }
         Insert: {
           activity?: string | null
@@ -143,9 +311,12 @@ export type Database = {
           date: string
           id?: string
           is_leave?: boolean
+          late_approved_by?: string | null
+          late_submitted_at?: string | null
           mobile_number?: string | null
           updated_at?: string
           user_id?: string | null
+          ward?: number | null
         }
         Update: {
           activity?: string | null
@@ -153,9 +324,48 @@ export type Database = {
           date?: string
           id?: string
           is_leave?: boolean
+          late_approved_by?: string | null
+          late_submitted_at?: string | null
           mobile_number?: string | null
           updated_at?: string
           user_id?: string | null
+          ward?: number | null
+        }
+        Relationships: []
+      }
+      deletions: {
+        Row: {
+          deleted_at: string
+          deleted_by: string
+          id: string
+          reason: string
+          record_ids: string[]
+          record_labels: string[]
+          restored_at: string | null
+          restored_by: string | null
+          table_name: string
+        }
+        Insert: {
+          deleted_at?: string
+          deleted_by: string
+          id?: string
+          reason: string
+          record_ids: string[]
+          record_labels: string[]
+          restored_at?: string | null
+          restored_by?: string | null
+          table_name: string
+        }
+        Update: {
+          deleted_at?: string
+          deleted_by?: string
+          id?: string
+          reason?: string
+          record_ids?: string[]
+          record_labels?: string[]
+          restored_at?: string | null
+          restored_by?: string | null
+          table_name?: string
         }
         Relationships: []
       }
@@ -163,6 +373,8 @@ export type Database = {
         Row: {
           created_at: string | null
           created_by: string | null
+          deleted_at: string | null
+          deletion_id: string | null
           id: string
           mobile_number: string
           name: string
@@ -174,6 +386,8 @@ export type Database = {
         Insert: {
           created_at?: string | null
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
           id?: string
           mobile_number: string
           name: string
@@ -185,6 +399,8 @@ export type Database = {
         Update: {
           created_at?: string | null
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
           id?: string
           mobile_number?: string
           name?: string
@@ -194,6 +410,13 @@ export type Database = {
           ward?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "group_leaders_deletion_id_fkey"
+            columns: ["deletion_id"]
+            isOneToOne: false
+            referencedRelation: "deletions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "group_leaders_panchayath_id_fkey"
             columns: ["panchayath_id"]
@@ -210,6 +433,193 @@ export type Database = {
           },
         ]
       }
+      late_daily_reports: {
+        Row: {
+          activity: string | null
+          agent_name: string
+          agent_type: string
+          approver_id: string | null
+          created_at: string
+          date: string
+          entries: Json
+          id: string
+          is_correction: boolean
+          mobile_number: string
+          panchayath_id: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+          ward: number | null
+        }
+        Insert: {
+          activity?: string | null
+          agent_name: string
+          agent_type: string
+          approver_id?: string | null
+          created_at?: string
+          date: string
+          entries?: Json
+          id?: string
+          is_correction?: boolean
+          mobile_number: string
+          panchayath_id?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+          ward?: number | null
+        }
+        Update: {
+          activity?: string | null
+          agent_name?: string
+          agent_type?: string
+          approver_id?: string | null
+          created_at?: string
+          date?: string
+          entries?: Json
+          id?: string
+          is_correction?: boolean
+          mobile_number?: string
+          panchayath_id?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+          ward?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "late_daily_reports_panchayath_id_fkey"
+            columns: ["panchayath_id"]
+            isOneToOne: false
+            referencedRelation: "panchayaths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_requests: {
+        Row: {
+          agent_id: string
+          agent_name: string
+          agent_type: string
+          approver_id: string | null
+          created_at: string
+          from_date: string
+          id: string
+          mobile_number: string
+          panchayath_id: string | null
+          reason: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          to_date: string
+          updated_at: string
+        }
+        Insert: {
+          agent_id: string
+          agent_name: string
+          agent_type: string
+          approver_id?: string | null
+          created_at?: string
+          from_date: string
+          id?: string
+          mobile_number: string
+          panchayath_id?: string | null
+          reason: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          to_date: string
+          updated_at?: string
+        }
+        Update: {
+          agent_id?: string
+          agent_name?: string
+          agent_type?: string
+          approver_id?: string | null
+          created_at?: string
+          from_date?: string
+          id?: string
+          mobile_number?: string
+          panchayath_id?: string | null
+          reason?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          to_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_requests_panchayath_id_fkey"
+            columns: ["panchayath_id"]
+            isOneToOne: false
+            referencedRelation: "panchayaths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      login_otps: {
+        Row: {
+          attempts: number
+          code_hash: string
+          consumed_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          mobile_number: string
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          consumed_at?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          mobile_number: string
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          consumed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          mobile_number?: string
+        }
+        Relationships: []
+      }
+      mobile_registry: {
+        Row: {
+          created_at: string
+          mobile_number: string
+          record_id: string
+          source_table: string
+        }
+        Insert: {
+          created_at?: string
+          mobile_number: string
+          record_id: string
+          source_table: string
+        }
+        Update: {
+          created_at?: string
+          mobile_number?: string
+          record_id?: string
+          source_table?: string
+        }
+        Relationships: []
+      }
       officers: {
         Row: {
           created_at: string | null
@@ -241,7 +651,10 @@ export type Database = {
         Row: {
           created_at: string | null
           created_by: string | null
+          deleted_at: string | null
+          deletion_id: string | null
           id: string
+          late_report_days: number
           name: string
           number_of_wards: number
           updated_at: string | null
@@ -249,7 +662,10 @@ export type Database = {
         Insert: {
           created_at?: string | null
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
           id?: string
+          late_report_days?: number
           name: string
           number_of_wards: number
           updated_at?: string | null
@@ -257,7 +673,10 @@ export type Database = {
         Update: {
           created_at?: string | null
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
           id?: string
+          late_report_days?: number
           name?: string
           number_of_wards?: number
           updated_at?: string | null
@@ -270,12 +689,21 @@ export type Database = {
             referencedRelation: "officers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "panchayaths_deletion_id_fkey"
+            columns: ["deletion_id"]
+            isOneToOne: false
+            referencedRelation: "deletions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       pros: {
         Row: {
           created_at: string | null
           created_by: string | null
+          deleted_at: string | null
+          deletion_id: string | null
           group_leader_id: string
           id: string
           mobile_number: string
@@ -287,6 +715,8 @@ export type Database = {
         Insert: {
           created_at?: string | null
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
           group_leader_id: string
           id?: string
           mobile_number: string
@@ -298,6 +728,8 @@ export type Database = {
         Update: {
           created_at?: string | null
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
           group_leader_id?: string
           id?: string
           mobile_number?: string
@@ -307,6 +739,13 @@ export type Database = {
           ward?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "pros_deletion_id_fkey"
+            columns: ["deletion_id"]
+            isOneToOne: false
+            referencedRelation: "deletions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "pros_group_leader_id_fkey"
             columns: ["group_leader_id"]
@@ -323,6 +762,41 @@ export type Database = {
           },
         ]
       }
+      super_admin_sessions: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          revoked_at: string | null
+          super_admin_id: string
+          token_hash: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          revoked_at?: string | null
+          super_admin_id: string
+          token_hash: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          revoked_at?: string | null
+          super_admin_id?: string
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "super_admin_sessions_super_admin_id_fkey"
+            columns: ["super_admin_id"]
+            isOneToOne: false
+            referencedRelation: "super_admins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       super_admins: {
         Row: {
           created_at: string | null
@@ -381,6 +855,8 @@ export type Database = {
           coordinator_id: string
           created_at: string | null
           created_by: string | null
+          deleted_at: string | null
+          deletion_id: string | null
           id: string
           mobile_number: string
           name: string
@@ -391,6 +867,8 @@ export type Database = {
           coordinator_id: string
           created_at?: string | null
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
           id?: string
           mobile_number: string
           name: string
@@ -401,6 +879,8 @@ export type Database = {
           coordinator_id?: string
           created_at?: string | null
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
           id?: string
           mobile_number?: string
           name?: string
@@ -415,6 +895,13 @@ export type Database = {
             referencedRelation: "coordinators"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "supervisors_deletion_id_fkey"
+            columns: ["deletion_id"]
+            isOneToOne: false
+            referencedRelation: "deletions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "supervisors_panchayath_id_fkey"
             columns: ["panchayath_id"]
@@ -424,6 +911,94 @@ export type Database = {
           },
         ]
       }
+      task_templates: {
+        Row: {
+          assigned_to: string | null
+          assignee_id: string | null
+          assignee_type: string | null
+          created_at: string
+          created_by: string | null
+          due_in_days: number | null
+          ends_on: string | null
+          id: string
+          last_generated_on: string | null
+          month_day: number | null
+          paused_at: string | null
+          priority: string
+          reassigned_to_coordinator: string | null
+          reassigned_to_supervisor: string | null
+          recurrence: string
+          starts_on: string
+          text: string
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          assigned_to?: string | null
+          assignee_id?: string | null
+          assignee_type?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_in_days?: number | null
+          ends_on?: string | null
+          id?: string
+          last_generated_on?: string | null
+          month_day?: number | null
+          paused_at?: string | null
+          priority?: string
+          reassigned_to_coordinator?: string | null
+          reassigned_to_supervisor?: string | null
+          recurrence: string
+          starts_on?: string
+          text: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Update: {
+          assigned_to?: string | null
+          assignee_id?: string | null
+          assignee_type?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_in_days?: number | null
+          ends_on?: string | null
+          id?: string
+          last_generated_on?: string | null
+          month_day?: number | null
+          paused_at?: string | null
+          priority?: string
+          reassigned_to_coordinator?: string | null
+          reassigned_to_supervisor?: string | null
+          recurrence?: string
+          starts_on?: string
+          text?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "admin_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_templates_reassigned_to_coordinator_fkey"
+            columns: ["reassigned_to_coordinator"]
+            isOneToOne: false
+            referencedRelation: "coordinators"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_templates_reassigned_to_supervisor_fkey"
+            columns: ["reassigned_to_supervisor"]
+            isOneToOne: false
+            referencedRelation: "supervisors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       testimonial_questions: {
         Row: {
           created_at: string
@@ -505,47 +1080,252 @@ export type Database = {
           },
         ]
       }
+      todo_comment_attachments: {
+        Row: {
+          comment_id: string
+          content_type: string | null
+          created_at: string
+          file_name: string
+          id: string
+          size_bytes: number | null
+          storage_path: string
+        }
+        Insert: {
+          comment_id: string
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          id?: string
+          size_bytes?: number | null
+          storage_path: string
+        }
+        Update: {
+          comment_id?: string
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          id?: string
+          size_bytes?: number | null
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "todo_comment_attachments_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "todo_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      todo_comments: {
+        Row: {
+          author_label: string
+          author_mobile: string | null
+          body: string
+          created_at: string
+          id: string
+          parent_id: string | null
+          todo_id: string
+        }
+        Insert: {
+          author_label: string
+          author_mobile?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          todo_id: string
+        }
+        Update: {
+          author_label?: string
+          author_mobile?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          todo_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "todo_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "todo_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "todo_comments_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      todo_events: {
+        Row: {
+          actor_label: string
+          actor_mobile: string | null
+          created_at: string
+          details: Json | null
+          event_type: string
+          from_status: string | null
+          id: string
+          note: string | null
+          to_status: string | null
+          todo_id: string
+        }
+        Insert: {
+          actor_label: string
+          actor_mobile?: string | null
+          created_at?: string
+          details?: Json | null
+          event_type: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          to_status?: string | null
+          todo_id: string
+        }
+        Update: {
+          actor_label?: string
+          actor_mobile?: string | null
+          created_at?: string
+          details?: Json | null
+          event_type?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          to_status?: string | null
+          todo_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "todo_events_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       todos: {
         Row: {
           assigned_to: string | null
+          assignee_id: string | null
+          assignee_name: string | null
+          assignee_type: string | null
           created_at: string
           created_by: string | null
+          deleted_at: string | null
+          deletion_id: string | null
+          due_date: string | null
+          escalated_at: string | null
+          escalated_to_coordinator: string | null
           finished_at: string | null
           id: string
+          occurrence_date: string | null
+          panchayath_id: string | null
+          parent_id: string | null
+          priority: string
           reassigned_to_coordinator: string | null
           reassigned_to_supervisor: string | null
           remarks: string | null
           status: string
+          template_id: string | null
           text: string
           updated_at: string
+          wards: number[] | null
         }
         Insert: {
           assigned_to?: string | null
+          assignee_id?: string | null
+          assignee_type?: string | null
           created_at?: string
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
+          due_date?: string | null
+          escalated_at?: string | null
+          escalated_to_coordinator?: string | null
           finished_at?: string | null
           id?: string
+          occurrence_date?: string | null
+          panchayath_id?: string | null
+          parent_id?: string | null
+          priority?: string
           reassigned_to_coordinator?: string | null
           reassigned_to_supervisor?: string | null
           remarks?: string | null
           status?: string
+          template_id?: string | null
           text: string
           updated_at?: string
+          wards?: number[] | null
         }
         Update: {
           assigned_to?: string | null
+          assignee_id?: string | null
+          assignee_type?: string | null
           created_at?: string
           created_by?: string | null
+          deleted_at?: string | null
+          deletion_id?: string | null
+          due_date?: string | null
+          escalated_at?: string | null
+          escalated_to_coordinator?: string | null
           finished_at?: string | null
           id?: string
+          occurrence_date?: string | null
+          panchayath_id?: string | null
+          parent_id?: string | null
+          priority?: string
           reassigned_to_coordinator?: string | null
           reassigned_to_supervisor?: string | null
           remarks?: string | null
           status?: string
+          template_id?: string | null
           text?: string
           updated_at?: string
+          wards?: number[] | null
         }
         Relationships: [
+          {
+            foreignKeyName: "todos_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "admin_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "todos_deletion_id_fkey"
+            columns: ["deletion_id"]
+            isOneToOne: false
+            referencedRelation: "deletions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "todos_escalated_to_coordinator_fkey"
+            columns: ["escalated_to_coordinator"]
+            isOneToOne: false
+            referencedRelation: "coordinators"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "todos_panchayath_id_fkey"
+            columns: ["panchayath_id"]
+            isOneToOne: false
+            referencedRelation: "panchayaths"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "todos_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "todos_reassigned_to_coordinator_fkey"
             columns: ["reassigned_to_coordinator"]
@@ -560,6 +1340,13 @@ export type Database = {
             referencedRelation: "supervisors"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "todos_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "task_templates"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -586,15 +1373,373 @@ export type Database = {
       }
     }
     Functions: {
+      add_task_comment: {
+        Args: {
+          p_attachments?: Json
+          p_body: string
+          p_parent_id?: string
+          p_todo_id: string
+        }
+        Returns: string
+      }
+      agent_session_mobile: {
+        Args: { p_token: string }
+        Returns: string
+      }
+      assignee_name: {
+        Args: { "": Database["public"]["Tables"]["todos"]["Row"] }
+        Returns: string
+      }
+      can_access_task: {
+        Args: { p_todo_id: string }
+        Returns: boolean
+      }
+      can_manage_activity_categories: {
+        Args: { p_panchayath_id: string }
+        Returns: boolean
+      }
+      cancel_late_daily_report: {
+        Args: { p_report_id: string }
+        Returns: undefined
+      }
+      cancel_leave_request: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      cascade_task: {
+        Args: { p_todo_id: string }
+        Returns: number
+      }
+      change_super_admin_password: {
+        Args: {
+          p_current_password: string
+          p_new_password: string
+          p_token: string
+        }
+        Returns: boolean
+      }
+      create_login_otp: {
+        Args: { p_mobile: string }
+        Returns: {
+          code: string
+          expires_at: string
+        }[]
+      }
+      create_super_admin: {
+        Args: {
+          p_name: string
+          p_password: string
+          p_token: string
+          p_username: string
+        }
+        Returns: string
+      }
+      daily_activity_totals: {
+        Args: { p_from: string; p_panchayath_id: string; p_to: string }
+        Returns: {
+          category_id: string
+          mobile_number: string
+          quantity: number
+        }[]
+      }
+      end_agent_session: {
+        Args: { p_token: string }
+        Returns: undefined
+      }
+      end_all_agent_sessions: {
+        Args: { p_token: string }
+        Returns: number
+      }
+      escape_like: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      escalate_overdue_tasks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       get_agent_by_mobile: {
-        Args: { mobile_num: string }
+        Args: { include_officers?: boolean; mobile_num: string }
+        Returns: {
+          agent_id: string
+          agent_name: string
+          agent_type: string
+          mobile_number: string
+          panchayath_id: string
+          panchayath_name: string
+          source_table: string
+          ward: number
+        }[]
+      }
+      has_session: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_panchayath_coordinator: {
+        Args: { p_panchayath_id: string }
+        Returns: boolean
+      }
+      is_super_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_team_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      list_restorable_deletions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          deleted_at: string
+          deleted_by: string
+          id: string
+          reason: string
+          record_labels: string[]
+          restorable_until: string
+          table_name: string
+        }[]
+      }
+      list_super_admins: {
+        Args: { p_token: string }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          username: string
+        }[]
+      }
+      raise_mobile_taken: {
+        Args: { p_mobile: string }
+        Returns: undefined
+      }
+      request_header: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      request_leave: {
+        Args: { p_agent_id: string; p_from: string; p_reason: string; p_to: string }
+        Returns: string
+      }
+      request_task_completion: {
+        Args: { p_evidence: string; p_todo_id: string }
+        Returns: undefined
+      }
+      reset_super_admin_password: {
+        Args: {
+          p_new_password: string
+          p_super_admin_id: string
+          p_token: string
+        }
+        Returns: undefined
+      }
+      restore_deletion: {
+        Args: { p_deletion_id: string }
+        Returns: undefined
+      }
+      review_late_daily_report: {
+        Args: { p_approve: boolean; p_note?: string; p_report_id: string }
+        Returns: undefined
+      }
+      review_leave_request: {
+        Args: { p_approve: boolean; p_note?: string; p_request_id: string }
+        Returns: undefined
+      }
+      review_task_completion: {
+        Args: { p_approve: boolean; p_reason?: string; p_todo_id: string }
+        Returns: undefined
+      }
+      save_daily_report: {
+        Args: {
+          p_activity: string
+          p_date: string
+          p_entries: Json
+          p_user_id: string
+          p_ward: number
+        }
+        Returns: string
+      }
+      search_audit_log: {
+        Args: {
+          p_action?: string
+          p_from?: string
+          p_limit?: number
+          p_offset?: number
+          p_search?: string
+          p_table_name?: string
+          p_to?: string
+        }
+        Returns: {
+          action: string
+          actor_label: string
+          actor_mobile: string | null
+          actor_super_admin_id: string | null
+          actor_type: string
+          created_at: string
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string | null
+          table_name: string
+        }[]
+      }
+      search_tasks: {
+        Args: {
+          p_assigned_to?: string
+          p_from?: string
+          p_holder?: string
+          p_overdue?: boolean
+          p_panchayath?: string
+          p_priority?: string
+          p_search?: string
+          p_sort?: string
+          p_status?: string
+          p_to?: string
+          p_top_level?: boolean
+          p_unassigned?: boolean
+          p_ward?: number
+        }
+        Returns: {
+          assigned_to: string | null
+          assignee_id: string | null
+          assignee_name: string | null
+          assignee_type: string | null
+          created_at: string
+          created_by: string | null
+          deleted_at: string | null
+          deletion_id: string | null
+          due_date: string | null
+          escalated_at: string | null
+          escalated_to_coordinator: string | null
+          finished_at: string | null
+          id: string
+          occurrence_date: string | null
+          panchayath_id: string | null
+          parent_id: string | null
+          priority: string
+          reassigned_to_coordinator: string | null
+          reassigned_to_supervisor: string | null
+          remarks: string | null
+          status: string
+          template_id: string | null
+          text: string
+          updated_at: string
+          wards: number[] | null
+        }[]
+      }
+      session_actor_label: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      session_agent_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      session_coordinator_panchayaths: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      session_mobile: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      session_visible_agent_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      set_late_report_window: {
+        Args: { p_days: number; p_panchayath_id: string }
+        Returns: undefined
+      }
+      soft_delete_records: {
+        Args: { p_ids: string[]; p_reason: string; p_table: string }
+        Returns: string
+      }
+      soft_delete_retention: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      start_agent_session: {
+        Args: { p_code: string; p_mobile: string; p_user_agent?: string }
         Returns: {
           agent_id: string
           agent_name: string
           agent_type: string
+          expires_at: string
+          mobile_number: string
           panchayath_id: string
+          panchayath_name: string
+          session_token: string
+          source_table: string
+          ward: number
+        }[]
+      }
+      submit_late_daily_report: {
+        Args: {
+          p_activity: string
+          p_date: string
+          p_entries: Json
+          p_user_id: string
+          p_ward: number
+        }
+        Returns: string
+      }
+      super_admin_login: {
+        Args: { p_password: string; p_username: string }
+        Returns: {
+          expires_at: string
+          name: string
+          session_token: string
+          super_admin_id: string
+          username: string
+        }[]
+      }
+      super_admin_logout: {
+        Args: { p_token: string }
+        Returns: undefined
+      }
+      super_admin_session: {
+        Args: { p_token: string }
+        Returns: {
+          expires_at: string
+          name: string
+          super_admin_id: string
+          username: string
         }[]
       }
+      task_holder_label: {
+        Args: { p_id: string }
+        Returns: string
+      }
+      task_today: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      touch_agent_session: {
+        Args: { p_token: string }
+        Returns: {
+          agent_id: string
+          agent_name: string
+          agent_type: string
+          expires_at: string
+          mobile_number: string
+          panchayath_id: string
+          panchayath_name: string
+          source_table: string
+          ward: number
+        }[]
+      }
+      upcoming_template_tasks: {
+        Args: { p_days?: number }
+        Returns: {
+          due_date: string
+          occurs_on: string
+          template_id: string
+        }[]
+      }
+      verify_login_otp: {
+        Args: { p_code: string; p_mobile: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
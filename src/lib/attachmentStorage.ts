@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+
+// Task attachments live in this Supabase Storage bucket; add_task_comment checks each one is there
+const ATTACHMENTS_BUCKET = 'task-attachments';
+
+// Signed links stay valid long enough to open a photo from the thread
+const SIGNED_URL_SECONDS = 60 * 60;
+
+export const uploadAttachment = async (path: string, file: File): Promise<{ error?: string }> => {
+  const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).upload(path, file, {
+    contentType: file.type || undefined,
+    upsert: false
+  });
+
+  if (error) {
+    console.error('Error uploading attachment:', error);
+    return { error: error.message };
+  }
+
+  return {};
+};
+
+export const createAttachmentUrl = async (path: string): Promise<string | null> => {
+  const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+
+  if (error) {
+    console.error('Error creating attachment link:', error);
+    return null;
+  }
+
+  return data.signedUrl;
+};
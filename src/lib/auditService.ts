@@ -0,0 +1,77 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { Tables } from "@/integrations/supabase/types";
+import { addDays, parseISO } from "date-fns";
+
+export type AuditEntry = Tables<'audit_log'>;
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditFilters {
+  tableName?: string;
+  action?: AuditAction;
+  search?: string;
+  // Days (yyyy-MM-dd) in the viewer's time zone, both included
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditSearchResult {
+  success: boolean;
+  entries: AuditEntry[];
+  error?: string;
+}
+
+/**
+ * Tables whose changes are recorded in the audit log, with the labels the viewer shows
+ */
+export const AUDITED_TABLES: Record<string, string> = {
+  panchayaths: 'Panchayaths',
+  coordinators: 'Coordinators',
+  supervisors: 'Supervisors',
+  supervisor_wards: 'Supervisor Wards',
+  group_leaders: 'Group Leaders',
+  pros: 'PROs',
+  todos: 'Tasks',
+  task_templates: 'Recurring Tasks',
+  daily_notes: 'Daily Notes',
+  activity_categories: 'Activity Types',
+  late_daily_reports: 'Late Daily Reports',
+  leave_requests: 'Leave Requests',
+  admin_members: 'Team Members'
+};
+
+/**
+ * Search the audit log, newest first; only super admins get results
+ */
+export const searchAuditLog = async (filters: AuditFilters = {}): Promise<AuditSearchResult> => {
+  const { data, error } = await supabase.rpc('search_audit_log', {
+    p_table_name: filters.tableName || null,
+    p_action: filters.action || null,
+    p_search: filters.search?.trim() || null,
+    p_from: filters.from ? parseISO(filters.from).toISOString() : null,
+    p_to: filters.to ? addDays(parseISO(filters.to), 1).toISOString() : null,
+    p_limit: filters.limit ?? 50,
+    p_offset: filters.offset ?? 0
+  });
+
+  if (error) {
+    console.error('Error searching audit log:', error);
+    return { success: false, entries: [], error: error.message };
+  }
+
+  return { success: true, entries: data || [] };
+};
+
+/**
+ * Fields whose value differs between the before and after snapshots of an update
+ */
+export const getChangedFields = (entry: AuditEntry): string[] => {
+  const before = (entry.old_data || {}) as Record<string, unknown>;
+  const after = (entry.new_data || {}) as Record<string, unknown>;
+
+  return Object.keys({ ...before, ...after }).filter(
+    key => key !== 'updated_at' && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+};
@@ -1,4 +1,4 @@
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 
 export interface User {
   id: string;
@@ -9,158 +9,82 @@ export interface User {
   hasAdminAccess: boolean;
   ward?: number;
   panchayath_id?: string;
+  panchayath_name?: string;
 }
 
 export interface AuthResult {
   success: boolean;
   user?: User;
+  // Every role held by the mobile number, in login priority order
+  roles?: User[];
+  error?: string;
+}
+
+export interface OtpRequestResult {
+  success: boolean;
+  expiresAt?: string;
   error?: string;
 }
 
 /**
- * Search for a user by mobile number across all agent tables
+ * Ask the login-otp edge function to send a one-time code to a registered mobile number
  */
-export const findUserByMobile = async (mobile: string): Promise<AuthResult> => {
-  const cleanMobile = mobile.trim();
-  
-  // Check coordinators table
-  try {
-    const { data: coordinatorsData, error: coordinatorsError } = await supabase
-      .from('coordinators')
-      .select('id, name, mobile_number, panchayath_id')
-      .eq('mobile_number', cleanMobile)
-      .limit(1);
-    
-    if (!coordinatorsError && coordinatorsData && coordinatorsData.length > 0) {
-      const user = coordinatorsData[0];
-      return {
-        success: true,
-        user: {
-          id: user.id,
-          name: user.name,
-          mobile_number: user.mobile_number,
-          role: 'coordinator',
-          table: 'coordinators',
-          hasAdminAccess: false,
-          panchayath_id: user.panchayath_id
-        }
-      };
-    }
-  } catch (error) {
-    console.error('Error checking coordinators table:', error);
-  }
+export const requestLoginOtp = async (mobile: string): Promise<OtpRequestResult> => {
+  const { data, error } = await supabase.functions.invoke('login-otp', {
+    body: { mobile: mobile.trim() }
+  });
 
-  // Check supervisors table
-  try {
-    const { data: supervisorsData, error: supervisorsError } = await supabase
-      .from('supervisors')
-      .select('id, name, mobile_number, panchayath_id')
-      .eq('mobile_number', cleanMobile)
-      .limit(1);
-    
-    if (!supervisorsError && supervisorsData && supervisorsData.length > 0) {
-      const user = supervisorsData[0];
-      return {
-        success: true,
-        user: {
-          id: user.id,
-          name: user.name,
-          mobile_number: user.mobile_number,
-          role: 'supervisor',
-          table: 'supervisors',
-          hasAdminAccess: false,
-          panchayath_id: user.panchayath_id
-        }
-      };
-    }
-  } catch (error) {
-    console.error('Error checking supervisors table:', error);
+  if (error) {
+    console.error('Error requesting login code:', error);
+    return { success: false, error: 'Could not send login code. Please try again.' };
   }
 
-  // Check group_leaders table
-  try {
-    const { data: groupLeadersData, error: groupLeadersError } = await supabase
-      .from('group_leaders')
-      .select('id, name, mobile_number, ward, panchayath_id')
-      .eq('mobile_number', cleanMobile)
-      .limit(1);
-    
-    if (!groupLeadersError && groupLeadersData && groupLeadersData.length > 0) {
-      const user = groupLeadersData[0];
-      return {
-        success: true,
-        user: {
-          id: user.id,
-          name: user.name,
-          mobile_number: user.mobile_number,
-          role: 'group_leader',
-          table: 'group_leaders',
-          hasAdminAccess: false,
-          ward: user.ward,
-          panchayath_id: user.panchayath_id
-        }
-      };
-    }
-  } catch (error) {
-    console.error('Error checking group_leaders table:', error);
-  }
+  return data as OtpRequestResult;
+};
 
-  // Check pros table
-  try {
-    const { data: prosData, error: prosError } = await supabase
-      .from('pros')
-      .select('id, name, mobile_number, panchayath_id')
-      .eq('mobile_number', cleanMobile)
-      .limit(1);
-    
-    if (!prosError && prosData && prosData.length > 0) {
-      const user = prosData[0];
-      return {
-        success: true,
-        user: {
-          id: user.id,
-          name: user.name,
-          mobile_number: user.mobile_number,
-          role: 'pro',
-          table: 'pros',
-          hasAdminAccess: false,
-          panchayath_id: user.panchayath_id
-        }
-      };
-    }
-  } catch (error) {
-    console.error('Error checking pros table:', error);
-  }
+// One role of the session's mobile number, as returned by start_agent_session and touch_agent_session
+export interface SessionRoleRow {
+  agent_id: string | null;
+  agent_name: string | null;
+  agent_type: string | null;
+  source_table: string | null;
+  mobile_number: string;
+  panchayath_id: string | null;
+  panchayath_name: string | null;
+  ward: number | null;
+}
 
-  // Check admin_members table (team members with admin access)
-  try {
-    const { data: adminMembersData, error: adminMembersError } = await supabase
-      .from('admin_members')
-      .select('id, name, mobile')
-      .eq('mobile', cleanMobile)
-      .limit(1);
-    
-    if (!adminMembersError && adminMembersData && adminMembersData.length > 0) {
-      const user = adminMembersData[0];
-      return {
-        success: true,
-        user: {
-          id: user.id,
-          name: user.name,
-          mobile_number: user.mobile,
-          role: 'admin_member',
-          table: 'admin_members',
-          hasAdminAccess: true
-        }
-      };
-    }
-  } catch (error) {
-    console.error('Error checking admin_members table:', error);
+/**
+ * Turn the role rows that come back with a session into the user and every role they hold
+ */
+export const toAuthResult = (rows: SessionRoleRow[]): AuthResult => {
+  // A session whose number no longer holds any role comes back as a row without an agent
+  const roleRows = rows.filter(row => row.agent_id);
+
+  if (roleRows.length === 0) {
+    return {
+      success: false,
+      error: 'You are not registered. Please contact administrator.'
+    };
   }
 
+  // Rows are ordered by role priority, so the first one is the default role
+  const roles: User[] = roleRows.map(row => ({
+    id: row.agent_id!,
+    name: row.agent_name!,
+    mobile_number: row.mobile_number,
+    role: row.agent_type as User['role'],
+    table: row.source_table!,
+    hasAdminAccess: row.agent_type === 'admin_member',
+    ward: row.ward ?? undefined,
+    panchayath_id: row.panchayath_id ?? undefined,
+    panchayath_name: row.panchayath_name ?? undefined
+  }));
+
   return {
-    success: false,
-    error: 'You are not registered. Please contact administrator.'
+    success: true,
+    user: roles[0],
+    roles
   };
 };
 
@@ -173,7 +97,16 @@ export const getRoleDisplayName = (role: string): string => {
     'supervisor': 'Supervisor',
     'group_leader': 'Group Leader',
     'pro': 'PRO',
-    'admin_member': 'Team Member'
+    'admin_member': 'Team Member',
+    'officer': 'Officer'
   };
   return displayNames[role] || role;
-};
\ No newline at end of file
+};
+
+/**
+ * Describe a role for pickers, including its panchayath when known
+ */
+export const getRoleLabel = (user: User): string => {
+  const role = getRoleDisplayName(user.role);
+  return user.panchayath_name ? `${role} · ${user.panchayath_name}` : role;
+};
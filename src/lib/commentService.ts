@@ -0,0 +1,102 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { Database } from "@/integrations/supabase/types";
+import { createAttachmentUrl, uploadAttachment } from "@/lib/attachmentStorage";
+import { getDatabaseErrorMessage } from "@/lib/databaseErrors";
+
+export type TaskCommentAttachment = Database['public']['Tables']['todo_comment_attachments']['Row'];
+
+export type TaskComment = Database['public']['Tables']['todo_comments']['Row'] & {
+  attachments: TaskCommentAttachment[];
+  replies: TaskComment[];
+};
+
+export interface CommentResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Largest file accepted as an attachment; matches the task-attachments bucket limit
+ */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * File types accepted as attachments, as an accept attribute for file inputs
+ */
+export const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,image/heic,application/pdf,.doc,.docx';
+
+const COMMENT_ERROR_MESSAGES: Record<string, string> = {
+  NOT_FOUND: 'The task or comment no longer exists',
+  COMMENT_EMPTY: 'Write a comment or attach a file',
+  INVALID_ATTACHMENT: 'One of the attachments could not be found, please upload it again'
+};
+
+/**
+ * Comments on a task grouped into threads, oldest first
+ */
+export const getTaskComments = async (taskId: string): Promise<TaskComment[]> => {
+  const { data, error } = await supabase
+    .from('todo_comments')
+    .select('*, todo_comment_attachments(*)')
+    .eq('todo_id', taskId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading task comments:', error);
+    return [];
+  }
+
+  const comments: TaskComment[] = (data || []).map(({ todo_comment_attachments, ...comment }) => ({
+    ...comment,
+    attachments: todo_comment_attachments || [],
+    replies: []
+  }));
+
+  const threads = new Map(comments.filter(comment => !comment.parent_id).map(comment => [comment.id, comment]));
+  comments
+    .filter(comment => comment.parent_id)
+    .forEach(reply => threads.get(reply.parent_id as string)?.replies.push(reply));
+
+  return Array.from(threads.values());
+};
+
+/**
+ * Upload the files to the task's folder, then post the comment with them attached.
+ * Replies go under the first comment of the thread.
+ */
+export const addTaskComment = async (taskId: string, body: string, files: File[] = [], parentId?: string): Promise<CommentResult> => {
+  const tooLarge = files.find(file => file.size > MAX_ATTACHMENT_BYTES);
+  if (tooLarge) {
+    return { success: false, error: `${tooLarge.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB` };
+  }
+
+  const attachments = [];
+  for (const file of files) {
+    const path = `${taskId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+    const { error } = await uploadAttachment(path, file);
+    if (error) {
+      return { success: false, error: `Failed to upload ${file.name}` };
+    }
+    attachments.push({ path, file_name: file.name, content_type: file.type || null, size_bytes: file.size });
+  }
+
+  const { error } = await supabase.rpc('add_task_comment', {
+    p_todo_id: taskId,
+    p_body: body.trim(),
+    p_parent_id: parentId,
+    p_attachments: attachments
+  });
+
+  if (error) {
+    console.error('Error adding task comment:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, COMMENT_ERROR_MESSAGES, error.message || 'Failed to add comment') };
+  }
+
+  return { success: true };
+};
+
+/**
+ * A short-lived link to open or download an attachment
+ */
+export const getAttachmentUrl = (attachment: TaskCommentAttachment): Promise<string | null> =>
+  createAttachmentUrl(attachment.storage_path);
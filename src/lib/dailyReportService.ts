@@ -0,0 +1,404 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { Database } from "@/integrations/supabase/types";
+import { format, subDays } from "date-fns";
+import { getDatabaseErrorMessage } from "@/lib/databaseErrors";
+import { isNetworkError } from "@/lib/network";
+
+export type ActivityCategory = Database['public']['Tables']['activity_categories']['Row'];
+
+export type DailyNoteEntry = Pick<Database['public']['Tables']['daily_note_entries']['Row'], 'category_id' | 'quantity'>;
+
+export type DailyNote = Database['public']['Tables']['daily_notes']['Row'] & {
+  entries: DailyNoteEntry[];
+};
+
+export interface DailyReportInput {
+  activity: string;
+  ward: number | null;
+  // Counts by category id; blank or zero counts are not stored
+  quantities: Record<string, number>;
+}
+
+export interface DailyReportResult {
+  success: boolean;
+  error?: string;
+  // The request never reached the server, so it can be retried later
+  offline?: boolean;
+}
+
+export type LateReportStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+/**
+ * A note for a past day, or a correction of one, sent to the agent's supervisor for approval
+ */
+export type LateDailyReport = Omit<Database['public']['Tables']['late_daily_reports']['Row'], 'status' | 'entries'> & {
+  status: LateReportStatus;
+  entries: DailyNoteEntry[];
+};
+
+/**
+ * Summed counts of one category for one agent over a date range
+ */
+export type ActivityTotal = Database['public']['Functions']['daily_activity_totals']['Returns'][number];
+
+/**
+ * Counts of one category across a panchayath, for the report summary cards
+ */
+export interface CategoryTotal {
+  category: ActivityCategory;
+  quantity: number;
+  agents: number;
+}
+
+export const LATE_REPORT_STATUS_LABELS: Record<LateReportStatus, string> = {
+  pending: 'Waiting for approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Withdrawn'
+};
+
+const DAILY_REPORT_ERROR_MESSAGES: Record<string, string> = {
+  PERMISSION_DENIED: 'You can only save your own daily report',
+  NOT_TODAY: "You can only edit today's activity",
+  NOT_PAST: "Save today's activity directly, late reports are for earlier days",
+  OUTSIDE_WINDOW: 'This day is too far back to report on',
+  ALREADY_PENDING: 'A late report for this day is already waiting for approval',
+  INVALID_ENTRY: 'One of the activity types is no longer in use, please refresh and try again',
+  REJECT_REASON_REQUIRED: 'Please give a reason for rejecting the report',
+  INVALID_TRANSITION: 'The report has changed, please refresh and try again',
+  NOT_FOUND: 'The report no longer exists',
+  INVALID_WINDOW: 'The late report window must be between 0 and 30 days'
+};
+
+const toEntryList = (quantities: Record<string, number>): DailyNoteEntry[] =>
+  Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([category_id, quantity]) => ({ category_id, quantity }));
+
+export const DAILY_NOTE_SELECT = '*, entries:daily_note_entries(category_id, quantity)';
+
+/**
+ * Categories of a panchayath in display order; archived ones are left out unless asked for
+ */
+export const getActivityCategories = async (panchayathId: string, includeArchived = false): Promise<ActivityCategory[]> => {
+  let query = supabase
+    .from('activity_categories')
+    .select('*')
+    .eq('panchayath_id', panchayathId)
+    .order('sort_order')
+    .order('name');
+
+  if (!includeArchived) {
+    query = query.is('archived_at', null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error loading activity categories:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+export const createActivityCategory = async (panchayathId: string, name: string, sortOrder: number): Promise<DailyReportResult> => {
+  if (!name.trim()) return { success: false, error: 'Enter a name for the activity type' };
+
+  const { error } = await supabase
+    .from('activity_categories')
+    .insert({ panchayath_id: panchayathId, name: name.trim(), sort_order: sortOrder });
+
+  if (error) {
+    console.error('Error creating activity category:', error);
+    return {
+      success: false,
+      error: error.code === '23505' ? 'This activity type already exists' : 'Failed to add the activity type'
+    };
+  }
+
+  return { success: true };
+};
+
+export const renameActivityCategory = async (categoryId: string, name: string): Promise<DailyReportResult> => {
+  if (!name.trim()) return { success: false, error: 'Enter a name for the activity type' };
+
+  const { error } = await supabase
+    .from('activity_categories')
+    .update({ name: name.trim() })
+    .eq('id', categoryId);
+
+  if (error) {
+    console.error('Error renaming activity category:', error);
+    return {
+      success: false,
+      error: error.code === '23505' ? 'This activity type already exists' : 'Failed to rename the activity type'
+    };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Archived categories are no longer offered to agents but keep their counts in past reports
+ */
+export const setActivityCategoryArchived = async (categoryId: string, archived: boolean): Promise<DailyReportResult> => {
+  const { error } = await supabase
+    .from('activity_categories')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', categoryId);
+
+  if (error) {
+    console.error('Error archiving activity category:', error);
+    return {
+      success: false,
+      error: error.code === '23505'
+        ? 'An active activity type already has this name'
+        : archived ? 'Failed to archive the activity type' : 'Failed to restore the activity type'
+    };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Categories by id, archived or not, to name the counts of reports from any panchayath
+ */
+export const getActivityCategoriesByIds = async (categoryIds: string[]): Promise<ActivityCategory[]> => {
+  if (categoryIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('activity_categories')
+    .select('*')
+    .in('id', categoryIds);
+
+  if (error) {
+    console.error('Error loading activity categories:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Swap the positions of two categories in the list
+ */
+export const swapActivityCategories = async (first: ActivityCategory, second: ActivityCategory): Promise<DailyReportResult> => {
+  const results = await Promise.all([
+    supabase.from('activity_categories').update({ sort_order: second.sort_order }).eq('id', first.id),
+    supabase.from('activity_categories').update({ sort_order: first.sort_order }).eq('id', second.id)
+  ]);
+  const error = results.find(result => result.error)?.error;
+
+  if (error) {
+    console.error('Error reordering activity categories:', error);
+    return { success: false, error: 'Failed to reorder the activity types' };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Save the agent's report for today; a day with no remark and no counts is recorded as leave
+ */
+export const saveDailyReport = async (userId: string, date: string, input: DailyReportInput): Promise<DailyReportResult> => {
+  const { error } = await supabase.rpc('save_daily_report', {
+    p_user_id: userId,
+    p_date: date,
+    p_activity: input.activity,
+    p_ward: input.ward,
+    p_entries: toEntryList(input.quantities)
+  });
+
+  if (error) {
+    console.error('Error saving note:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, DAILY_REPORT_ERROR_MESSAGES, 'Failed to save daily note'), offline: isNetworkError(error) };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Whether a past day is still open for late reports under the panchayath's window
+ */
+export const isWithinLateReportWindow = (date: string, windowDays: number): boolean => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  return date < today && date >= format(subDays(new Date(), windowDays), 'yyyy-MM-dd');
+};
+
+/**
+ * Send a note for a past day, or a correction of one, to the supervisor; it only reaches the
+ * reports once approved
+ */
+export const submitLateDailyReport = async (userId: string, date: string, input: DailyReportInput): Promise<DailyReportResult> => {
+  const { error } = await supabase.rpc('submit_late_daily_report', {
+    p_user_id: userId,
+    p_date: date,
+    p_activity: input.activity,
+    p_ward: input.ward,
+    p_entries: toEntryList(input.quantities)
+  });
+
+  if (error) {
+    console.error('Error submitting late report:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, DAILY_REPORT_ERROR_MESSAGES, 'Failed to submit the late report'), offline: isNetworkError(error) };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Approve or reject a pending late report; only the agent's supervisor or a team admin can
+ */
+export const reviewLateDailyReport = async (reportId: string, approve: boolean, note?: string): Promise<DailyReportResult> => {
+  const { error } = await supabase.rpc('review_late_daily_report', {
+    p_report_id: reportId,
+    p_approve: approve,
+    p_note: note?.trim() || null
+  });
+
+  if (error) {
+    console.error('Error reviewing late report:', error);
+    return {
+      success: false,
+      error: error.message === 'PERMISSION_DENIED'
+        ? 'You cannot review this report'
+        : getDatabaseErrorMessage(error, DAILY_REPORT_ERROR_MESSAGES, 'Failed to review the late report')
+    };
+  }
+
+  return { success: true };
+};
+
+export const cancelLateDailyReport = async (reportId: string): Promise<DailyReportResult> => {
+  const { error } = await supabase.rpc('cancel_late_daily_report', { p_report_id: reportId });
+
+  if (error) {
+    console.error('Error withdrawing late report:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, DAILY_REPORT_ERROR_MESSAGES, 'Failed to withdraw the late report') };
+  }
+
+  return { success: true };
+};
+
+/**
+ * An agent's late reports, newest day first
+ */
+export const getLateDailyReports = async (userId: string): Promise<LateDailyReport[]> => {
+  const { data, error } = await supabase
+    .from('late_daily_reports')
+    .select('*')
+    .eq('user_id', userId)
+    .order('date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .overrideTypes<LateDailyReport[], { merge: false }>();
+
+  if (error) {
+    console.error('Error loading late reports:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Pending late reports waiting on the given agents. Team admins also get the ones without a
+ * supervisor to review them: those of coordinators, and of agents whose supervisor was removed.
+ */
+export const getLateDailyReportsToReview = async (approverIds: string[], includeUnassigned: boolean): Promise<LateDailyReport[]> => {
+  const filters = [
+    approverIds.length > 0 ? `approver_id.in.(${approverIds.join(',')})` : null,
+    includeUnassigned ? 'approver_id.is.null' : null
+  ].filter(Boolean);
+
+  if (filters.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('late_daily_reports')
+    .select('*')
+    .eq('status', 'pending')
+    .or(filters.join(','))
+    .order('date')
+    .overrideTypes<LateDailyReport[], { merge: false }>();
+
+  if (error) {
+    console.error('Error loading late reports to review:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * How many days back agents of a panchayath may submit late reports
+ */
+export const setLateReportWindow = async (panchayathId: string, days: number): Promise<DailyReportResult> => {
+  const { error } = await supabase.rpc('set_late_report_window', {
+    p_panchayath_id: panchayathId,
+    p_days: days
+  });
+
+  if (error) {
+    console.error('Error saving late report window:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, DAILY_REPORT_ERROR_MESSAGES, 'Failed to save the late report window') };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Per agent and category totals of a panchayath's daily reports between two dates, inclusive
+ */
+export const getActivityTotals = async (panchayathId: string, from: string, to: string): Promise<ActivityTotal[]> => {
+  const { data, error } = await supabase.rpc('daily_activity_totals', {
+    p_panchayath_id: panchayathId,
+    p_from: from,
+    p_to: to
+  });
+
+  if (error) {
+    console.error('Error loading activity totals:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Totals per category for the whole panchayath. Active categories without counts show as zero;
+ * archived ones only while they still have counts in the range.
+ */
+export const summarizeActivityTotals = (categories: ActivityCategory[], totals: ActivityTotal[]): CategoryTotal[] =>
+  categories
+    .map(category => {
+      const rows = totals.filter(total => total.category_id === category.id);
+      return {
+        category,
+        quantity: rows.reduce((sum, row) => sum + row.quantity, 0),
+        agents: rows.length
+      };
+    })
+    .filter(total => !total.category.archived_at || total.quantity > 0);
+
+/**
+ * One agent's totals keyed by category id
+ */
+export const agentActivityTotals = (totals: ActivityTotal[], mobileNumber: string): Record<string, number> =>
+  Object.fromEntries(
+    totals
+      .filter(total => total.mobile_number === mobileNumber)
+      .map(total => [total.category_id, total.quantity])
+  );
+
+/**
+ * The day's counts in words, e.g. "12 Households visited, 1 Meetings held"
+ */
+export const describeDailyEntries = (entries: DailyNoteEntry[], categories: ActivityCategory[]): string =>
+  entries
+    .filter(entry => entry.quantity > 0)
+    .map(entry => {
+      const category = categories.find(c => c.id === entry.category_id);
+      return category ? `${entry.quantity} ${category.name}` : null;
+    })
+    .filter(Boolean)
+    .join(', ');
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { getDatabaseErrorMessage } from './databaseErrors';
+
+const MESSAGES = { NOT_FOUND: 'The task no longer exists' };
+
+describe('getDatabaseErrorMessage', () => {
+  it('shows the message for a known code', () => {
+    expect(getDatabaseErrorMessage({ message: 'NOT_FOUND' }, MESSAGES, 'Failed to save')).toBe('The task no longer exists');
+  });
+
+  it('falls back to the given message, then to the error itself', () => {
+    expect(getDatabaseErrorMessage({ message: 'timeout' }, MESSAGES, 'Failed to save')).toBe('Failed to save');
+    expect(getDatabaseErrorMessage({ message: 'timeout' }, MESSAGES)).toBe('timeout');
+    expect(getDatabaseErrorMessage({}, MESSAGES)).toBe('Something went wrong');
+  });
+});
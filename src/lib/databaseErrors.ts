@@ -0,0 +1,20 @@
+/**
+ * The parts of a supabase-js error the services read. Database functions raise their own codes
+ * (PERMISSION_DENIED, NOT_FOUND, ...) as the message.
+ */
+export interface DatabaseError {
+  code?: string;
+  message?: string;
+  details?: string;
+}
+
+/**
+ * The message to show for an error raised by a database function
+ * @param messages - Messages for the codes the service's functions raise
+ * @param fallback - Shown for any other error; defaults to the error's own message
+ */
+export const getDatabaseErrorMessage = (
+  error: DatabaseError,
+  messages: Record<string, string>,
+  fallback = error.message || 'Something went wrong'
+): string => messages[error.message || ''] || fallback;
@@ -0,0 +1,94 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { Database } from "@/integrations/supabase/types";
+import { DatabaseError, getDatabaseErrorMessage } from "@/lib/databaseErrors";
+import { getMobileConflict, getMobileConflictMessage } from "@/lib/mobileValidation";
+
+export type SoftDeleteTable = 'panchayaths' | 'coordinators' | 'supervisors' | 'group_leaders' | 'pros' | 'todos';
+
+export type RestorableDeletion = Database['public']['Functions']['list_restorable_deletions']['Returns'][number];
+
+export interface DeletionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Days a super admin has to restore a deletion; matches soft_delete_retention() in the database
+ */
+export const RESTORE_WINDOW_DAYS = 30;
+
+/**
+ * Labels for the tables that support soft deletes, as shown in the deleted records list
+ */
+export const SOFT_DELETE_TABLE_LABELS: Record<SoftDeleteTable, string> = {
+  panchayaths: 'Panchayath',
+  coordinators: 'Coordinator',
+  supervisors: 'Supervisor',
+  group_leaders: 'Group Leader',
+  pros: 'PRO',
+  todos: 'Task'
+};
+
+const DELETION_ERROR_MESSAGES: Record<string, string> = {
+  PERMISSION_DENIED: 'You do not have permission to do this',
+  DELETE_REASON_REQUIRED: 'Please give a reason for the deletion',
+  NOT_FOUND: 'The records no longer exist or were already deleted',
+  RESTORE_WINDOW_EXPIRED: 'This deletion is too old to restore',
+  PARENT_DELETED: 'Restore the deleted panchayath or superior of these records first'
+};
+
+const getDeletionErrorMessage = (error: DatabaseError): string => {
+  const conflict = getMobileConflict(error);
+  if (conflict) {
+    return `${getMobileConflictMessage(conflict)}, so it cannot be restored`;
+  }
+
+  return getDatabaseErrorMessage(error, DELETION_ERROR_MESSAGES);
+};
+
+/**
+ * Soft delete records of one table, together with the agents below them in the hierarchy.
+ * The database checks the caller's role and stores the reason with the deletion.
+ */
+export const softDeleteRecords = async (table: SoftDeleteTable, ids: string[], reason: string): Promise<DeletionResult> => {
+  const { error } = await supabase.rpc('soft_delete_records', {
+    p_table: table,
+    p_ids: ids,
+    p_reason: reason.trim()
+  });
+
+  if (error) {
+    console.error(`Error deleting ${table}:`, error);
+    return { success: false, error: getDeletionErrorMessage(error) };
+  }
+
+  return { success: true };
+};
+
+/**
+ * List deletions that are still within the retention window (super admins only)
+ */
+export const listRestorableDeletions = async (): Promise<RestorableDeletion[]> => {
+  const { data, error } = await supabase.rpc('list_restorable_deletions');
+
+  if (error) {
+    console.error('Error listing deletions:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Bring back every record removed by a deletion (super admins only)
+ */
+export const restoreDeletion = async (deletionId: string): Promise<DeletionResult> => {
+  const { error } = await supabase.rpc('restore_deletion', { p_deletion_id: deletionId });
+
+  if (error) {
+    console.error('Error restoring deletion:', error);
+    return { success: false, error: getDeletionErrorMessage(error) };
+  }
+
+  return { success: true };
+};
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApprovedLeave, ReportedNote, getReportDayStatus, listDates, summarizeReportDays } from './leaveService';
+
+vi.mock('@/integrations/supabase/sessionClient', () => ({ supabase: {} }));
+
+const MOBILE = '9000000131';
+
+const report = (date: string): ReportedNote => ({ date, is_leave: false, activity: 'Visited ward 1' });
+
+const leave = (from: string, to: string, mobileNumber = MOBILE): ApprovedLeave => ({
+  mobile_number: mobileNumber,
+  from_date: from,
+  to_date: to
+});
+
+describe('report days', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Midday on the 20th, the same day in India and in UTC
+    vi.setSystemTime(new Date('2026-10-20T06:30:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts a day as reported, on leave or missing', () => {
+    const leaves = [leave('2026-10-15', '2026-10-15')];
+
+    expect(getReportDayStatus('2026-10-15', report('2026-10-15'), leaves, MOBILE)).toBe('reported');
+    expect(getReportDayStatus('2026-10-15', null, leaves, MOBILE)).toBe('leave');
+    expect(getReportDayStatus('2026-10-16', null, leaves, MOBILE)).toBe('missing');
+    // Another agent's leave does not cover this one
+    expect(getReportDayStatus('2026-10-15', null, leaves, '9000000132')).toBe('missing');
+  });
+
+  it('skips approved leave in the middle of a missing run without ending it', () => {
+    const summary = summarizeReportDays(
+      listDates('2026-10-14', '2026-10-19'),
+      [report('2026-10-14')],
+      [leave('2026-10-16', '2026-10-17')],
+      MOBILE
+    );
+
+    expect(summary).toEqual({
+      reported_days: 1,
+      leave_days: 2,
+      missing_days: 3,
+      consecutive_missing_days: 3,
+      last_report_date: '2026-10-14'
+    });
+  });
+
+  it('does not count today as missing before it ends', () => {
+    const summary = summarizeReportDays(listDates('2026-10-18', '2026-10-20'), [report('2026-10-18')], [], MOBILE);
+
+    expect(summary.missing_days).toBe(1);
+    expect(summary.consecutive_missing_days).toBe(1);
+  });
+
+  it('counts today once it has a report', () => {
+    const summary = summarizeReportDays(listDates('2026-10-19', '2026-10-20'), [report('2026-10-20')], [], MOBILE);
+
+    expect(summary.reported_days).toBe(1);
+    expect(summary.consecutive_missing_days).toBe(0);
+    expect(summary.last_report_date).toBe('2026-10-20');
+  });
+
+  it('counts a note marked as leave without approved leave as missing', () => {
+    const legacyLeave: ReportedNote = { date: '2026-10-19', is_leave: true, activity: 'On leave' };
+
+    expect(getReportDayStatus('2026-10-19', legacyLeave, [], MOBILE)).toBe('missing');
+    expect(summarizeReportDays(['2026-10-19'], [legacyLeave], [], MOBILE)).toMatchObject({
+      leave_days: 0,
+      missing_days: 1
+    });
+  });
+
+  it('does not count an empty note as a report', () => {
+    const empty: ReportedNote = { date: '2026-10-19', is_leave: false, activity: ' ', entries: [{ quantity: 0 }] };
+
+    expect(getReportDayStatus('2026-10-19', empty, [], MOBILE)).toBe('missing');
+    expect(getReportDayStatus('2026-10-19', { ...empty, entries: [{ quantity: 2 }] }, [], MOBILE)).toBe('reported');
+  });
+});
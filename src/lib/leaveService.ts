@@ -0,0 +1,285 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { Database } from "@/integrations/supabase/types";
+import { format } from "date-fns";
+import { getDatabaseErrorMessage } from "@/lib/databaseErrors";
+import { toTaskDate } from "@/lib/taskService";
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export type LeaveRequest = Omit<Database['public']['Tables']['leave_requests']['Row'], 'status'> & {
+  status: LeaveStatus;
+};
+
+export interface LeaveActionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Approved leave as the reports need it
+ */
+export type ApprovedLeave = Pick<LeaveRequest, 'mobile_number' | 'from_date' | 'to_date'>;
+
+/**
+ * How a past day counts for an agent: a report was saved, they were on approved leave, or neither
+ */
+export type ReportDayStatus = 'reported' | 'leave' | 'missing';
+
+/**
+ * The parts of a daily note that decide whether anything was reported
+ */
+export interface ReportedNote {
+  date: string;
+  is_leave: boolean;
+  activity: string | null;
+  entries?: { quantity: number }[];
+}
+
+export interface ReportDaySummary {
+  reported_days: number;
+  leave_days: number;
+  missing_days: number;
+  // Missing reports since the last report; leave days are skipped, not counted
+  consecutive_missing_days: number;
+  last_report_date: string | null;
+}
+
+export const LEAVE_STATUS_LABELS: Record<LeaveStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled'
+};
+
+/**
+ * Consecutive missing reports after which an agent counts as inactive
+ */
+export const INACTIVE_AFTER_MISSING_DAYS = 3;
+
+const LEAVE_ERROR_MESSAGES: Record<string, string> = {
+  PERMISSION_DENIED: 'You do not have permission to do this',
+  REASON_REQUIRED: 'Please give a reason for the leave',
+  INVALID_DATES: 'The leave cannot end before it starts',
+  OVERLAPPING_LEAVE: 'You already have leave requested for some of these days',
+  REJECT_REASON_REQUIRED: 'Please give a reason for rejecting the request',
+  INVALID_TRANSITION: 'The request has changed, please refresh and try again',
+  NOT_FOUND: 'The request no longer exists'
+};
+
+// Leave and report days are counted in India, as task_today() counts them in the database
+const today = () => toTaskDate(new Date());
+
+export const requestLeave = async (agentId: string, from: string, to: string, reason: string): Promise<LeaveActionResult> => {
+  const { error } = await supabase.rpc('request_leave', {
+    p_agent_id: agentId,
+    p_from: from,
+    p_to: to,
+    p_reason: reason
+  });
+
+  if (error) {
+    console.error('Error requesting leave:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, LEAVE_ERROR_MESSAGES) };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Approve or reject a pending request; only the agent's immediate superior or a team admin can
+ */
+export const reviewLeaveRequest = async (requestId: string, approve: boolean, note?: string): Promise<LeaveActionResult> => {
+  const { error } = await supabase.rpc('review_leave_request', {
+    p_request_id: requestId,
+    p_approve: approve,
+    p_note: note?.trim() || null
+  });
+
+  if (error) {
+    console.error('Error reviewing leave request:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, LEAVE_ERROR_MESSAGES) };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Withdraw a pending request, or approved leave that has not started yet
+ */
+export const cancelLeaveRequest = async (requestId: string): Promise<LeaveActionResult> => {
+  const { error } = await supabase.rpc('cancel_leave_request', { p_request_id: requestId });
+
+  if (error) {
+    console.error('Error cancelling leave request:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, LEAVE_ERROR_MESSAGES) };
+  }
+
+  return { success: true };
+};
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), 'dd MMM yyyy');
+
+/**
+ * The leave dates in words, e.g. "03 Nov 2026 - 05 Nov 2026"
+ */
+export const describeLeaveDates = (request: Pick<LeaveRequest, 'from_date' | 'to_date'>): string =>
+  request.from_date === request.to_date
+    ? formatDay(request.from_date)
+    : `${formatDay(request.from_date)} - ${formatDay(request.to_date)}`;
+
+export const canCancelLeaveRequest = (request: LeaveRequest): boolean =>
+  request.status === 'pending' || (request.status === 'approved' && request.from_date > today());
+
+/**
+ * Every leave request made with a mobile number, newest first
+ */
+export const getLeaveRequests = async (mobileNumber: string): Promise<LeaveRequest[]> => {
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .select('*')
+    .eq('mobile_number', mobileNumber)
+    .order('from_date', { ascending: false });
+
+  if (error) {
+    console.error('Error loading leave requests:', error);
+    return [];
+  }
+
+  return (data || []) as LeaveRequest[];
+};
+
+/**
+ * Pending requests waiting on the given agents. Team admins also get the requests that have no
+ * superior to review them: those of coordinators, and of agents whose superior was removed.
+ */
+export const getLeaveRequestsToReview = async (approverIds: string[], includeUnassigned: boolean): Promise<LeaveRequest[]> => {
+  const filters = [
+    approverIds.length > 0 ? `approver_id.in.(${approverIds.join(',')})` : null,
+    includeUnassigned ? 'approver_id.is.null' : null
+  ].filter(Boolean);
+
+  if (filters.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .select('*')
+    .eq('status', 'pending')
+    .or(filters.join(','))
+    .order('from_date');
+
+  if (error) {
+    console.error('Error loading leave requests to review:', error);
+    return [];
+  }
+
+  return (data || []) as LeaveRequest[];
+};
+
+/**
+ * Approved leave overlapping a date range, for a panchayath or for one person
+ */
+export const getApprovedLeaves = async (
+  scope: { panchayathId?: string; mobileNumber?: string },
+  from: string,
+  to: string
+): Promise<ApprovedLeave[]> => {
+  let query = supabase
+    .from('leave_requests')
+    .select('mobile_number, from_date, to_date')
+    .eq('status', 'approved')
+    .lte('from_date', to)
+    .gte('to_date', from);
+
+  if (scope.panchayathId) {
+    query = query.eq('panchayath_id', scope.panchayathId);
+  }
+  if (scope.mobileNumber) {
+    query = query.eq('mobile_number', scope.mobileNumber);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error loading approved leave:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+export const isOnApprovedLeave = (leaves: ApprovedLeave[], date: string, mobileNumber?: string): boolean =>
+  leaves.some(leave =>
+    (!mobileNumber || leave.mobile_number === mobileNumber) && leave.from_date <= date && leave.to_date >= date
+  );
+
+/**
+ * A remark or any count makes a reported day; an empty note is no report
+ */
+export const hasDailyReport = (note: ReportedNote | null | undefined): boolean =>
+  !!note && !note.is_leave && (!!note.activity?.trim() || (note.entries || []).some(entry => entry.quantity > 0));
+
+export const getReportDayStatus = (
+  date: string,
+  note: ReportedNote | null | undefined,
+  leaves: ApprovedLeave[],
+  mobileNumber?: string
+): ReportDayStatus => {
+  if (hasDailyReport(note)) return 'reported';
+  if (isOnApprovedLeave(leaves, date, mobileNumber)) return 'leave';
+  return 'missing';
+};
+
+/**
+ * Count reported, leave and missing days over the given dates. Today is only counted once it has
+ * a report, as the agent still has time to write one.
+ */
+export const summarizeReportDays = (
+  dates: string[],
+  notes: ReportedNote[],
+  leaves: ApprovedLeave[],
+  mobileNumber?: string
+): ReportDaySummary => {
+  const notesByDate = new Map(notes.map(note => [note.date, note]));
+  const summary: ReportDaySummary = {
+    reported_days: 0,
+    leave_days: 0,
+    missing_days: 0,
+    consecutive_missing_days: 0,
+    last_report_date: null
+  };
+  let streakOpen = true;
+
+  [...dates].sort().reverse().forEach(date => {
+    const status = getReportDayStatus(date, notesByDate.get(date), leaves, mobileNumber);
+    if (status === 'missing' && date >= today()) return;
+
+    if (status === 'reported') {
+      summary.reported_days++;
+      summary.last_report_date = summary.last_report_date || date;
+      streakOpen = false;
+    } else if (status === 'leave') {
+      summary.leave_days++;
+    } else {
+      summary.missing_days++;
+      if (streakOpen) summary.consecutive_missing_days++;
+    }
+  });
+
+  return summary;
+};
+
+/**
+ * Every date from one day to another, inclusive, as yyyy-MM-dd
+ */
+export const listDates = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  const day = new Date(`${from}T00:00:00`);
+  const end = new Date(`${to}T00:00:00`);
+
+  while (day <= end) {
+    dates.push(format(day, 'yyyy-MM-dd'));
+    day.setDate(day.getDate() + 1);
+  }
+
+  return dates;
+};
@@ -0,0 +1,11 @@
+/**
+ * Whether the device reports no connection at all
+ */
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Whether a failed request never reached the server, as opposed to the server refusing it.
+ * supabase-js passes fetch failures on as errors whose message is the browser's TypeError text.
+ */
+export const isNetworkError = (error: { message?: string }): boolean =>
+  isOffline() || /failed to fetch|networkerror|load failed|network request failed|fetch failed/i.test(error.message || '');
@@ -0,0 +1,41 @@
+const CACHE_PREFIX = 'offlineCache:';
+
+export interface CachedValue<T> {
+  value: T;
+  savedAt: string;
+}
+
+/**
+ * The last copy of something loaded from the server, kept so screens can show it straight away
+ * on a slow or missing connection
+ */
+export const readCache = <T>(key: string): CachedValue<T> | null => {
+  const stored = localStorage.getItem(CACHE_PREFIX + key);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as CachedValue<T>;
+  } catch (error) {
+    console.error('Error parsing cached data:', error);
+    localStorage.removeItem(CACHE_PREFIX + key);
+    return null;
+  }
+};
+
+export const writeCache = <T>(key: string, value: T) => {
+  try {
+    localStorage.setItem(CACHE_PREFIX + key, JSON.stringify({ value, savedAt: new Date().toISOString() }));
+  } catch (error) {
+    // Storage full or disabled; the screen just loads from the network next time
+    console.error('Error caching data:', error);
+  }
+};
+
+/**
+ * Forget everything cached for the signed-in user
+ */
+export const clearOfflineCache = () => {
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(CACHE_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { saveDailyReport, submitLateDailyReport } from '@/lib/dailyReportService';
+import {
+  OutboxAction,
+  OutboxItem,
+  OutboxTransport,
+  SendOutcome,
+  createMemoryStore,
+  createOfflineQueue,
+  supabaseTransport
+} from './offlineQueue';
+
+vi.mock('@/integrations/supabase/sessionClient', () => ({ supabase: {} }));
+vi.mock('@/lib/dailyReportService', () => ({
+  saveDailyReport: vi.fn(async () => ({ success: true })),
+  submitLateDailyReport: vi.fn(async () => ({ success: true }))
+}));
+
+const OWNER = 'agent-1';
+
+const remarks = (taskId: string, text: string, baseRemarks: string | null = null): OutboxAction => ({
+  kind: 'task_remarks',
+  taskId,
+  taskText: `Task ${taskId}`,
+  remarks: text,
+  baseRemarks
+});
+
+const report = (date: string, activity: string, baseUpdatedAt: string | null = null): OutboxAction => ({
+  kind: 'daily_report',
+  userId: OWNER,
+  date,
+  input: { activity, ward: 1, quantities: {} },
+  baseUpdatedAt
+});
+
+/**
+ * A transport answering from a list of outcomes, or 'sent' once they run out; it records what it
+ * was asked to send
+ */
+const fakeTransport = (outcomes: SendOutcome[] = []) => {
+  const sent: OutboxItem[] = [];
+  const transport: OutboxTransport = async item => {
+    sent.push(item);
+    return outcomes.shift() || { status: 'sent' };
+  };
+  return { transport, sent };
+};
+
+const OFFLINE: SendOutcome = { status: 'offline' };
+
+// The tasks the items are about, in order
+const taskIds = (items: OutboxItem[]) => items.map(item => item.kind === 'daily_report' ? null : item.taskId);
+
+describe('offline queue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 9, 19, 10, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Submit an action a minute after the last one while the server cannot be reached. The submit
+  // tries the transport once: directly, or by syncing the changes already waiting.
+  const queueOffline = async (queue: ReturnType<typeof createOfflineQueue>, transportOutcomes: SendOutcome[], action: OutboxAction) => {
+    vi.setSystemTime(new Date(Date.now() + 60000));
+    transportOutcomes.push(OFFLINE);
+    return queue.submit(OWNER, action);
+  };
+
+  it('sends straight away when nothing is waiting', async () => {
+    const { transport, sent } = fakeTransport();
+    const queue = createOfflineQueue(createMemoryStore(), transport);
+
+    expect(await queue.submit(OWNER, remarks('t1', 'Half done'))).toEqual({ success: true });
+    expect(sent).toHaveLength(1);
+    // The agent is looking at fresh data, so the conflict check is skipped
+    expect(sent[0].force).toBe(true);
+    expect(await queue.list(OWNER)).toEqual([]);
+  });
+
+  it('queues what cannot reach the server and sends it in order on sync', async () => {
+    const outcomes: SendOutcome[] = [];
+    const { transport, sent } = fakeTransport(outcomes);
+    const queue = createOfflineQueue(createMemoryStore(), transport);
+
+    expect(await queueOffline(queue, outcomes, remarks('t1', 'First'))).toEqual({ success: true, queued: true });
+    // With a change waiting, a later one queues behind it and tries to sync, still offline here
+    await queueOffline(queue, outcomes, remarks('t2', 'Second'));
+    expect(taskIds(await queue.list(OWNER))).toEqual(['t1', 't2']);
+
+    sent.length = 0;
+    await queue.sync(OWNER);
+
+    expect(sent.map(item => item.kind === 'task_remarks' && item.remarks)).toEqual(['First', 'Second']);
+    expect(sent.every(item => !item.force)).toBe(true);
+    expect(await queue.list(OWNER)).toEqual([]);
+  });
+
+  it('stops syncing at the first change that is still offline', async () => {
+    const outcomes: SendOutcome[] = [];
+    const { transport, sent } = fakeTransport(outcomes);
+    const queue = createOfflineQueue(createMemoryStore(), transport);
+
+    await queueOffline(queue, outcomes, remarks('t1', 'First'));
+    await queueOffline(queue, outcomes, remarks('t2', 'Second'));
+
+    sent.length = 0;
+    outcomes.push({ status: 'sent' }, OFFLINE);
+    await queue.sync(OWNER);
+
+    expect(taskIds(sent)).toEqual(['t1', 't2']);
+    const left = await queue.list(OWNER);
+    expect(taskIds(left)).toEqual(['t2']);
+    expect(left[0].status).toBe('pending');
+  });
+
+  it('sends a change queued behind others once they get through', async () => {
+    const outcomes: SendOutcome[] = [];
+    const { transport, sent } = fakeTransport(outcomes);
+    const queue = createOfflineQueue(createMemoryStore(), transport);
+
+    await queueOffline(queue, outcomes, remarks('t1', 'First'));
+
+    sent.length = 0;
+    expect(await queue.submit(OWNER, remarks('t2', 'Second'))).toEqual({ success: true });
+    expect(taskIds(sent)).toEqual(['t1', 't2']);
+    expect(await queue.list(OWNER)).toEqual([]);
+  });
+
+  it('keeps a conflict for the agent to settle, and sends theirs anyway when asked', async () => {
+    const outcomes: SendOutcome[] = [];
+    const { transport, sent } = fakeTransport(outcomes);
+    const queue = createOfflineQueue(createMemoryStore(), transport);
+
+    await queueOffline(queue, outcomes, remarks('t1', 'Mine', 'Before'));
+    outcomes.push({ status: 'conflict', error: 'Changed elsewhere', canOverwrite: true });
+    await queue.sync(OWNER);
+
+    const [conflict] = await queue.list(OWNER);
+    expect(conflict).toMatchObject({ status: 'conflict', error: 'Changed elsewhere', canOverwrite: true });
+
+    // Nothing more is sent until the agent decides
+    sent.length = 0;
+    await queue.sync(OWNER);
+    expect(sent).toEqual([]);
+
+    await queue.resolve(OWNER, conflict.id, true);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ remarks: 'Mine', force: true });
+    expect(await queue.list(OWNER)).toEqual([]);
+  });
+
+  it('drops a conflicting change the agent discards', async () => {
+    const outcomes: SendOutcome[] = [];
+    const { transport, sent } = fakeTransport(outcomes);
+    const queue = createOfflineQueue(createMemoryStore(), transport);
+
+    await queueOffline(queue, outcomes, remarks('t1', 'Mine', 'Before'));
+    outcomes.push({ status: 'conflict', error: 'Changed elsewhere', canOverwrite: true });
+    await queue.sync(OWNER);
+
+    sent.length = 0;
+    await queue.resolve(OWNER, (await queue.list(OWNER))[0].id, false);
+    expect(sent).toEqual([]);
+    expect(await queue.list(OWNER)).toEqual([]);
+  });
+
+  it('replaces a queued change to the same note, keeping what the agent first saw', async () => {
+    const outcomes: SendOutcome[] = [];
+    const { transport } = fakeTransport(outcomes);
+    const queue = createOfflineQueue(createMemoryStore(), transport);
+
+    await queueOffline(queue, outcomes, report('2026-10-19', 'Morning visits', '2026-10-19T08:00:00Z'));
+    const [first] = await queue.list(OWNER);
+    await queueOffline(queue, outcomes, report('2026-10-19', 'Morning and evening visits', '2026-10-19T09:30:00Z'));
+
+    const items = await queue.list(OWNER);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      id: first.id,
+      input: { activity: 'Morning and evening visits' },
+      baseUpdatedAt: '2026-10-19T08:00:00Z'
+    });
+  });
+
+  it("keeps each agent's changes to themselves", async () => {
+    const outcomes: SendOutcome[] = [];
+    const { transport } = fakeTransport(outcomes);
+    const queue = createOfflineQueue(createMemoryStore(), transport);
+
+    await queueOffline(queue, outcomes, remarks('t1', 'Mine'));
+
+    expect(await queue.list('agent-2')).toEqual([]);
+  });
+});
+
+describe('sending a queued daily note', () => {
+  const queuedNote = (date: string, queuedAt: Date, force = false): OutboxItem => ({
+    ...(report(date, 'Visited ward 1') as Extract<OutboxAction, { kind: 'daily_report' }>),
+    id: 'note-1',
+    ownerId: OWNER,
+    queuedAt: queuedAt.toISOString(),
+    status: 'pending',
+    force
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // Just after midnight on the 20th in India
+    vi.setSystemTime(new Date('2026-10-20T00:15:00+05:30'));
+    vi.mocked(saveDailyReport).mockClear();
+    vi.mocked(submitLateDailyReport).mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("asks before sending a note for a day that ended while it waited", async () => {
+    const outcome = await supabaseTransport(queuedNote('2026-10-19', new Date('2026-10-19T22:00:00+05:30')));
+
+    expect(outcome).toMatchObject({ status: 'conflict', canOverwrite: true });
+    expect(outcome.status === 'conflict' && outcome.error).toMatch(/late report/);
+    expect(saveDailyReport).not.toHaveBeenCalled();
+    expect(submitLateDailyReport).not.toHaveBeenCalled();
+  });
+
+  it('sends it as a late report once the agent says so', async () => {
+    expect(await supabaseTransport(queuedNote('2026-10-19', new Date('2026-10-19T22:00:00+05:30'), true))).toEqual({ status: 'sent' });
+    expect(submitLateDailyReport).toHaveBeenCalledWith(OWNER, '2026-10-19', expect.objectContaining({ activity: 'Visited ward 1' }));
+  });
+
+  it("saves a note for today as today's", async () => {
+    expect(await supabaseTransport(queuedNote('2026-10-20', new Date('2026-10-20T00:05:00+05:30'), true))).toEqual({ status: 'sent' });
+    expect(saveDailyReport).toHaveBeenCalledWith(OWNER, '2026-10-20', expect.objectContaining({ activity: 'Visited ward 1' }));
+  });
+
+  it('counts days in India whatever the time zone of the device', async () => {
+    // Still the 19th in UTC and further west, but the 19th has ended in India
+    expect(await supabaseTransport(queuedNote('2026-10-19', new Date('2026-10-19T23:00:00+05:30')))).toMatchObject({ status: 'conflict' });
+    expect(await supabaseTransport(queuedNote('2026-10-20', new Date('2026-10-20T00:05:00+05:30'), true))).toEqual({ status: 'sent' });
+    expect(saveDailyReport).toHaveBeenCalledWith(OWNER, '2026-10-20', expect.anything());
+    expect(submitLateDailyReport).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,325 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { format } from "date-fns";
+import { DailyReportInput, saveDailyReport, submitLateDailyReport } from "@/lib/dailyReportService";
+import { requestTaskCompletion, toTaskDate, updateTaskRemarks } from "@/lib/taskService";
+import { isNetworkError, isOffline } from "@/lib/network";
+import { requestBackgroundSync } from "@/lib/serviceWorker";
+
+/**
+ * A change an agent made that has to reach the server. The base values are what the agent saw when
+ * they made it, so a change made elsewhere in the meantime shows up as a conflict.
+ */
+export type OutboxAction =
+  | { kind: 'daily_report'; userId: string; date: string; input: DailyReportInput; baseUpdatedAt: string | null }
+  | { kind: 'task_remarks'; taskId: string; taskText: string; remarks: string; baseRemarks: string | null }
+  | { kind: 'task_completion'; taskId: string; taskText: string; evidence: string };
+
+export type OutboxItem = OutboxAction & {
+  id: string;
+  // The agent the change belongs to; only their session can send it
+  ownerId: string;
+  queuedAt: string;
+  status: 'pending' | 'conflict';
+  error?: string;
+  // A conflict the agent can settle by sending their change anyway
+  canOverwrite?: boolean;
+  // Skip the conflict check on the next attempt
+  force?: boolean;
+};
+
+export type SendOutcome =
+  | { status: 'sent' }
+  | { status: 'offline' }
+  | { status: 'conflict'; error: string; canOverwrite: boolean };
+
+export interface SubmitResult {
+  success: boolean;
+  // Kept on this device to be sent once the connection is back
+  queued?: boolean;
+  error?: string;
+}
+
+export type OutboxEvent = 'changed' | 'synced';
+
+/**
+ * Where queued changes are kept between visits
+ */
+export interface OutboxStore {
+  getAll: () => Promise<OutboxItem[]>;
+  put: (item: OutboxItem) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Sends one change to the server. Swap it for one that always answers offline to try the queue
+ * without a real network.
+ */
+export type OutboxTransport = (item: OutboxItem) => Promise<SendOutcome>;
+
+const DATABASE_NAME = 'team-offline';
+const OUTBOX_STORE = 'outbox';
+
+const OFFLINE: SendOutcome = { status: 'offline' };
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbStore = (): OutboxStore => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      database = toPromise(request);
+    }
+    return database;
+  };
+
+  const objectStore = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(OUTBOX_STORE, mode).objectStore(OUTBOX_STORE);
+
+  return {
+    getAll: async () => toPromise((await objectStore('readonly')).getAll() as IDBRequest<OutboxItem[]>),
+    put: async item => {
+      await toPromise((await objectStore('readwrite')).put(item));
+    },
+    remove: async id => {
+      await toPromise((await objectStore('readwrite')).delete(id));
+    }
+  };
+};
+
+/**
+ * Keeps the queue in memory only, for browsers without IndexedDB such as some private windows
+ */
+export const createMemoryStore = (): OutboxStore => {
+  const items = new Map<string, OutboxItem>();
+
+  return {
+    getAll: async () => [...items.values()],
+    put: async item => {
+      items.set(item.id, item);
+    },
+    remove: async id => {
+      items.delete(id);
+    }
+  };
+};
+
+// A later change to the same note or task replaces the queued one
+const outboxKey = (action: OutboxAction) =>
+  action.kind === 'daily_report' ? `${action.kind}:${action.userId}:${action.date}` : `${action.kind}:${action.taskId}`;
+
+const sendDailyReport = async (item: Extract<OutboxItem, { kind: 'daily_report' }>): Promise<SendOutcome> => {
+  // Days end in India for save_daily_report and submit_late_daily_report, whatever the device's clock says
+  const today = toTaskDate(new Date());
+
+  if (!item.force) {
+    // Saved for the day it was written but still queued after midnight: it can only go in as a late
+    // report now, which needs approval, so the agent decides whether to send it that way
+    if (item.date < today && item.date === toTaskDate(new Date(item.queuedAt))) {
+      return {
+        status: 'conflict',
+        error: `Not sent before ${format(new Date(`${item.date}T00:00:00`), 'dd MMM')} ended, so it can only go in as a late report for your supervisor to approve`,
+        canOverwrite: true
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('daily_notes')
+      .select('updated_at')
+      .eq('user_id', item.userId)
+      .eq('date', item.date)
+      .maybeSingle();
+
+    if (error) return isNetworkError(error) ? OFFLINE : { status: 'conflict', error: 'Failed to check the saved note', canOverwrite: true };
+    if ((data?.updated_at ?? null) !== item.baseUpdatedAt) {
+      return { status: 'conflict', error: 'The note for this day was changed elsewhere while you were offline', canOverwrite: true };
+    }
+  }
+
+  const result = item.date === today
+    ? await saveDailyReport(item.userId, item.date, item.input)
+    : await submitLateDailyReport(item.userId, item.date, item.input);
+
+  if (result.offline) return OFFLINE;
+  return result.success ? { status: 'sent' } : { status: 'conflict', error: result.error || 'Failed to save daily note', canOverwrite: false };
+};
+
+const sendTaskRemarks = async (item: Extract<OutboxItem, { kind: 'task_remarks' }>): Promise<SendOutcome> => {
+  if (!item.force) {
+    const { data, error } = await supabase
+      .from('todos')
+      .select('remarks')
+      .eq('id', item.taskId)
+      .maybeSingle();
+
+    if (error) return isNetworkError(error) ? OFFLINE : { status: 'conflict', error: 'Failed to check the task', canOverwrite: true };
+    if (!data) return { status: 'conflict', error: 'The task no longer exists', canOverwrite: false };
+    if (data.remarks !== item.baseRemarks && data.remarks !== item.remarks) {
+      return { status: 'conflict', error: `The remarks were changed to "${data.remarks || ''}" while you were offline`, canOverwrite: true };
+    }
+  }
+
+  const result = await updateTaskRemarks(item.taskId, item.remarks);
+  if (result.offline) return OFFLINE;
+  return result.success ? { status: 'sent' } : { status: 'conflict', error: result.error || 'Failed to update remarks', canOverwrite: true };
+};
+
+const sendTaskCompletion = async (item: Extract<OutboxItem, { kind: 'task_completion' }>): Promise<SendOutcome> => {
+  const result = await requestTaskCompletion(item.taskId, item.evidence);
+  if (result.offline) return OFFLINE;
+  return result.success ? { status: 'sent' } : { status: 'conflict', error: result.error || 'Failed to send completion request', canOverwrite: false };
+};
+
+export const supabaseTransport: OutboxTransport = item => {
+  switch (item.kind) {
+    case 'daily_report':
+      return sendDailyReport(item);
+    case 'task_remarks':
+      return sendTaskRemarks(item);
+    case 'task_completion':
+      return sendTaskCompletion(item);
+  }
+};
+
+/**
+ * The queue of changes waiting for a connection. submit tries the server first and only queues
+ * what could not reach it; sync sends queued changes in the order they were made and stops at the
+ * first one that still cannot get through.
+ */
+export const createOfflineQueue = (store: OutboxStore, transport: OutboxTransport) => {
+  const listeners = new Set<(event: OutboxEvent) => void>();
+  const syncing = new Map<string, Promise<void>>();
+
+  const notify = (event: OutboxEvent) => listeners.forEach(listener => listener(event));
+
+  const list = async (ownerId: string): Promise<OutboxItem[]> =>
+    (await store.getAll())
+      .filter(item => item.ownerId === ownerId)
+      .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+  const enqueue = async (ownerId: string, action: OutboxAction) => {
+    const previous = (await list(ownerId)).find(item => outboxKey(item) === outboxKey(action));
+    // Keep what the agent first saw, so the conflict check compares against it
+    const base = previous?.kind === 'daily_report' ? { baseUpdatedAt: previous.baseUpdatedAt }
+      : previous?.kind === 'task_remarks' ? { baseRemarks: previous.baseRemarks }
+      : {};
+
+    await store.put({
+      ...action,
+      ...base,
+      id: previous?.id || crypto.randomUUID(),
+      ownerId,
+      queuedAt: new Date().toISOString(),
+      status: 'pending'
+    } as OutboxItem);
+    notify('changed');
+    requestBackgroundSync();
+  };
+
+  const runSync = async (ownerId: string) => {
+    let sent = 0;
+
+    for (const item of await list(ownerId)) {
+      if (item.status !== 'pending') continue;
+
+      let outcome: SendOutcome;
+      try {
+        outcome = await transport(item);
+      } catch (error) {
+        console.error('Error syncing queued change:', error);
+        outcome = OFFLINE;
+      }
+
+      if (outcome.status === 'offline') break;
+
+      if (outcome.status === 'sent') {
+        await store.remove(item.id);
+        sent++;
+      } else {
+        await store.put({ ...item, status: 'conflict', error: outcome.error, canOverwrite: outcome.canOverwrite, force: false });
+      }
+      notify('changed');
+    }
+
+    if (sent > 0) notify('synced');
+  };
+
+  const sync = (ownerId: string): Promise<void> => {
+    if (isOffline()) return Promise.resolve();
+    if (!syncing.has(ownerId)) {
+      syncing.set(ownerId, runSync(ownerId).finally(() => syncing.delete(ownerId)));
+    }
+    return syncing.get(ownerId)!;
+  };
+
+  const submit = async (ownerId: string, action: OutboxAction): Promise<SubmitResult> => {
+    // Earlier changes still waiting go first, so this one waits behind them
+    const waiting = (await list(ownerId)).some(item => item.status === 'pending');
+
+    if (!isOffline() && !waiting) {
+      // The agent is looking at fresh data, so there is nothing to conflict with
+      const outcome = await transport({ ...action, id: '', ownerId, queuedAt: new Date().toISOString(), status: 'pending', force: true } as OutboxItem)
+        .catch((): SendOutcome => OFFLINE);
+
+      if (outcome.status === 'sent') return { success: true };
+      if (outcome.status === 'conflict') return { success: false, error: outcome.error };
+    }
+
+    await enqueue(ownerId, action);
+    if (waiting) {
+      await sync(ownerId);
+      if (!(await list(ownerId)).some(item => outboxKey(item) === outboxKey(action))) return { success: true };
+    }
+    return { success: true, queued: true };
+  };
+
+  /**
+   * Settle a conflict: send the agent's change anyway, or drop it
+   */
+  const resolve = async (ownerId: string, itemId: string, keepMine: boolean) => {
+    const item = (await list(ownerId)).find(queued => queued.id === itemId);
+    if (!item) return;
+
+    if (keepMine) {
+      await store.put({ ...item, status: 'pending', error: undefined, canOverwrite: undefined, force: true });
+    } else {
+      await store.remove(item.id);
+    }
+    notify('changed');
+    if (keepMine) await sync(ownerId);
+  };
+
+  const subscribe = (listener: (event: OutboxEvent) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { list, submit, sync, resolve, subscribe };
+};
+
+export const offlineQueue = createOfflineQueue(
+  typeof indexedDB === 'undefined' ? createMemoryStore() : createIndexedDbStore(),
+  supabaseTransport
+);
+
+/**
+ * The queued change in words, e.g. "Daily note for 19 Oct"
+ */
+export const describeOutboxItem = (item: OutboxItem): string => {
+  switch (item.kind) {
+    case 'daily_report':
+      return `Daily note for ${format(new Date(`${item.date}T00:00:00`), 'dd MMM')}`;
+    case 'task_remarks':
+      return `Remarks on "${item.taskText}"`;
+    case 'task_completion':
+      return `Completion request for "${item.taskText}"`;
+  }
+};
@@ -0,0 +1,87 @@
+import { User } from "@/lib/authService";
+
+/**
+ * Every role that can sign in: the agent roles from authService plus super admins,
+ * who authenticate separately through superAdminAuthService
+ */
+export type AccessRole = User['role'] | 'super_admin';
+
+export type Permission =
+  | 'team_admin.access'
+  | 'team_admin.panchayath'
+  | 'team_admin.analytics'
+  | 'team_admin.testimonials'
+  | 'team_admin.performance'
+  | 'team_admin.todo'
+  | 'tasks.manage'
+  | 'tasks.delete'
+  | 'hierarchy.delete'
+  | 'reports.view'
+  | 'daily_reports.configure'
+  | 'daily_reports.review_late'
+  | 'leave.request'
+  | 'leave.review'
+  | 'super_admin.user_management'
+  | 'super_admin.testimonials'
+  | 'super_admin.accounts'
+  | 'super_admin.audit'
+  | 'super_admin.deleted_records';
+
+const TEAM_ADMIN_PERMISSIONS: Permission[] = [
+  'team_admin.access',
+  'team_admin.panchayath',
+  'team_admin.analytics',
+  'team_admin.testimonials',
+  'team_admin.performance',
+  'team_admin.todo'
+];
+
+const ROLE_PERMISSIONS: Record<AccessRole, Permission[]> = {
+  coordinator: ['tasks.manage', 'reports.view', 'daily_reports.configure', 'daily_reports.review_late', 'leave.request', 'leave.review'],
+  supervisor: ['daily_reports.configure', 'daily_reports.review_late', 'leave.request', 'leave.review'],
+  group_leader: ['leave.request', 'leave.review'],
+  pro: ['leave.request'],
+  admin_member: [...TEAM_ADMIN_PERMISSIONS, 'tasks.manage', 'tasks.delete', 'hierarchy.delete', 'daily_reports.review_late', 'leave.review'],
+  super_admin: [
+    'super_admin.user_management',
+    'super_admin.testimonials',
+    'super_admin.accounts',
+    'super_admin.audit',
+    'super_admin.deleted_records'
+  ]
+};
+
+/**
+ * Permission required to open each guarded route
+ */
+export const ROUTE_PERMISSIONS = {
+  '/admin': 'team_admin.access'
+} as const satisfies Record<string, Permission>;
+
+/**
+ * Permission required to see each Team Admin tab, in display order
+ */
+export const TEAM_ADMIN_TAB_PERMISSIONS = {
+  panchayath: 'team_admin.panchayath',
+  analytics: 'team_admin.analytics',
+  testimonials: 'team_admin.testimonials',
+  performance: 'team_admin.performance',
+  todo: 'team_admin.todo'
+} as const satisfies Record<string, Permission>;
+
+export type TeamAdminTab = keyof typeof TEAM_ADMIN_TAB_PERMISSIONS;
+
+/**
+ * Check whether a role has been granted a permission
+ */
+export const hasPermission = (role: AccessRole | null | undefined, permission: Permission): boolean => {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+};
+
+/**
+ * Team Admin tabs the role is allowed to see, in display order
+ */
+export const getAllowedTeamAdminTabs = (role: AccessRole | null | undefined): TeamAdminTab[] =>
+  (Object.keys(TEAM_ADMIN_TAB_PERMISSIONS) as TeamAdminTab[])
+    .filter(tab => hasPermission(role, TEAM_ADMIN_TAB_PERMISSIONS[tab]));
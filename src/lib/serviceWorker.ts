@@ -0,0 +1,59 @@
+// Must match OUTBOX_SYNC_TAG in public/sw.js
+const BACKGROUND_SYNC_TAG = 'outbox-sync';
+
+// Background Sync is not in TypeScript's DOM types yet
+interface SyncManager {
+  register: (tag: string) => Promise<void>;
+}
+
+type SyncRegistration = ServiceWorkerRegistration & { sync?: SyncManager };
+
+const isSupported = () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+/**
+ * Installs the service worker that caches the app shell. Only production builds register it, so
+ * the dev server never serves a cached page.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !isSupported()) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Error registering service worker:', error);
+    });
+  });
+};
+
+/**
+ * Asks the browser to wake the app once the connection is back, even if the tab is in the
+ * background by then. Browsers without Background Sync rely on the online event and retries instead.
+ */
+export const requestBackgroundSync = async () => {
+  if (!isSupported() || !navigator.serviceWorker.controller) return;
+
+  try {
+    const registration: SyncRegistration = await navigator.serviceWorker.ready;
+    await registration.sync?.register(BACKGROUND_SYNC_TAG);
+  } catch (error) {
+    console.error('Error requesting background sync:', error);
+  }
+};
+
+/**
+ * Runs the handler when the service worker asks for queued changes to be sent. The handler
+ * answers whether everything went out; if not, the browser tries again later.
+ */
+export const onBackgroundSync = (handler: () => Promise<boolean>): (() => void) => {
+  if (!isSupported()) return () => {};
+
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type !== BACKGROUND_SYNC_TAG) return;
+    const [port] = event.ports;
+    handler()
+      .catch(() => false)
+      .then(sent => port?.postMessage({ sent }));
+  };
+
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
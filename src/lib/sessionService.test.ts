@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '@/integrations/supabase/sessionClient';
+import { getAgentSessionToken, restoreAgentSession } from './sessionService';
+
+vi.mock('@/integrations/supabase/sessionClient', () => ({ supabase: { rpc: vi.fn() } }));
+
+// Enough of localStorage for the session: stored keys are the object's own properties, as in browsers
+const createStorage = () => Object.create({
+  getItem(this: Record<string, string>, key: string) {
+    return Object.prototype.hasOwnProperty.call(this, key) ? this[key] : null;
+  },
+  setItem(this: Record<string, string>, key: string, value: string) {
+    this[key] = String(value);
+  },
+  removeItem(this: Record<string, string>, key: string) {
+    delete this[key];
+  }
+}) as Storage;
+
+const TOKEN = 'stored-token';
+
+const touchReturns = (result: { data: unknown; error: { message: string } | null }) =>
+  vi.mocked(supabase.rpc).mockResolvedValueOnce(result as Awaited<ReturnType<typeof supabase.rpc>>);
+
+describe('restoring the agent session', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+    localStorage.setItem('agentSession', JSON.stringify({
+      token: TOKEN,
+      expiresAt: new Date(Date.now() + 86400000).toISOString()
+    }));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('keeps the session when it cannot be checked', async () => {
+    touchReturns({ data: null, error: { message: 'TypeError: Failed to fetch' } });
+
+    expect(await restoreAgentSession()).toEqual({ success: false, error: 'Could not verify your session' });
+    expect(getAgentSessionToken()).toBe(TOKEN);
+  });
+
+  it('forgets the session when the server no longer knows it', async () => {
+    touchReturns({ data: [], error: null });
+
+    expect((await restoreAgentSession()).success).toBe(false);
+    expect(getAgentSessionToken()).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { AGENT_SESSION_STORAGE_KEY as SESSION_STORAGE_KEY } from "@/integrations/supabase/sessionHeaders";
+import { AuthResult, User, toAuthResult } from "@/lib/authService";
+import { clearOfflineCache, readCache, writeCache } from "@/lib/offlineCache";
+
+interface StoredSession {
+  token: string;
+  expiresAt: string;
+  // Record id of the role picked for this session, for numbers that hold more than one
+  activeRoleId?: string;
+}
+
+// The user and roles last confirmed by the server, tied to the token they were confirmed for
+interface CachedSessionUser {
+  token: string;
+  user: User;
+  roles: User[];
+}
+
+const SESSION_USER_CACHE_KEY = 'sessionUser';
+
+const getStoredSession = (): StoredSession | null => {
+  const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as StoredSession;
+  } catch (error) {
+    console.error('Error parsing stored session:', error);
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    return null;
+  }
+};
+
+const clearSession = () => {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+  // Raw user objects from before server-side sessions are no longer trusted
+  localStorage.removeItem('currentUser');
+  clearOfflineCache();
+};
+
+/**
+ * Get the token of the stored session, if any
+ */
+export const getAgentSessionToken = (): string | null => getStoredSession()?.token ?? null;
+
+/**
+ * The user last confirmed for the stored session, so the dashboard can open before the session is
+ * checked again. Only for display: the server still checks the token on every request.
+ */
+export const getCachedAgentSession = (): { user: User; roles: User[] } | null => {
+  const stored = getStoredSession();
+  const cached = readCache<CachedSessionUser>(SESSION_USER_CACHE_KEY)?.value;
+  if (!stored || !cached || cached.token !== stored.token) return null;
+  if (new Date(stored.expiresAt).getTime() <= Date.now()) return null;
+  return { user: cached.user, roles: cached.roles };
+};
+
+/**
+ * Keep the signed-in user for the next visit, see getCachedAgentSession
+ */
+export const cacheAgentSession = (user: User, roles: User[]) => {
+  const token = getAgentSessionToken();
+  if (!token) return;
+  writeCache<CachedSessionUser>(SESSION_USER_CACHE_KEY, { token, user, roles });
+};
+
+/**
+ * Remember which of the user's roles is active, so reloads and revalidation keep it
+ */
+export const setActiveAgentRole = (user: User) => {
+  const stored = getStoredSession();
+  if (!stored) return;
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ ...stored, activeRoleId: user.id }));
+};
+
+/**
+ * Redeem a one-time login code for a session and load the user it belongs to
+ */
+export const startAgentSession = async (mobile: string, code: string): Promise<AuthResult> => {
+  const { data, error } = await supabase.rpc('start_agent_session', {
+    p_mobile: mobile.trim(),
+    p_code: code,
+    p_user_agent: navigator.userAgent
+  });
+
+  if (error) {
+    console.error('Error starting session:', error);
+    return {
+      success: false,
+      error: error.message === 'AGENT_NOT_REGISTERED'
+        ? 'You are not registered. Please contact administrator.'
+        : 'Could not verify code. Please try again.'
+    };
+  }
+
+  // One row per role the number holds, each carrying the new session
+  const row = data?.[0];
+  if (!row) {
+    return { success: false, error: 'Invalid or expired code' };
+  }
+
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({
+    token: row.session_token,
+    expiresAt: row.expires_at
+  }));
+
+  return toAuthResult(data);
+};
+
+/**
+ * Validate the stored session with the database and re-derive the user's roles and access from the
+ * roles it returns.
+ * Also counts as activity for the idle timeout.
+ */
+export const restoreAgentSession = async (): Promise<AuthResult> => {
+  const stored = getStoredSession();
+  if (!stored) {
+    clearSession();
+    return { success: false };
+  }
+
+  if (new Date(stored.expiresAt).getTime() <= Date.now()) {
+    clearSession();
+    return { success: false, error: 'Your session has expired. Please log in again.' };
+  }
+
+  const { data, error } = await supabase.rpc('touch_agent_session', { p_token: stored.token });
+
+  if (error) {
+    console.error('Error validating session:', error);
+    return { success: false, error: 'Could not verify your session' };
+  }
+
+  // The session comes back with the roles its number holds, one row each
+  if (!data || data.length === 0) {
+    clearSession();
+    return { success: false, error: 'Your session has expired. Please log in again.' };
+  }
+
+  const result = toAuthResult(data);
+  if (!result.success) {
+    clearSession();
+    return result;
+  }
+
+  // Fall back to the default role if the active one was removed
+  const activeRole = result.roles?.find(role => role.id === stored.activeRoleId);
+  return { ...result, user: activeRole || result.user };
+};
+
+/**
+ * End the current session on the server and forget it locally
+ */
+export const endAgentSession = async (): Promise<void> => {
+  const token = getAgentSessionToken();
+  clearSession();
+
+  if (token) {
+    const { error } = await supabase.rpc('end_agent_session', { p_token: token });
+    if (error) {
+      console.error('Error ending session:', error);
+    }
+  }
+};
+
+/**
+ * End every session for the logged-in mobile number, on all devices
+ */
+export const endAllAgentSessions = async (): Promise<{ success: boolean; count?: number; error?: string }> => {
+  const token = getAgentSessionToken();
+  if (!token) {
+    return { success: false, error: 'You are not logged in' };
+  }
+
+  const { data, error } = await supabase.rpc('end_all_agent_sessions', { p_token: token });
+  clearSession();
+
+  if (error) {
+    console.error('Error ending all sessions:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, count: data };
+};
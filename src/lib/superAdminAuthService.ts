@@ -0,0 +1,238 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { SUPER_ADMIN_SESSION_STORAGE_KEY as SESSION_STORAGE_KEY } from "@/integrations/supabase/sessionHeaders";
+
+export interface SuperAdmin {
+  id: string;
+  username: string;
+  name: string;
+}
+
+export interface SuperAdminSession {
+  token: string;
+  expiresAt: string;
+  admin: SuperAdmin;
+}
+
+export interface SuperAdminAuthResult {
+  success: boolean;
+  session?: SuperAdminSession;
+  error?: string;
+}
+
+export interface SuperAdminActionResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface SuperAdminListItem extends SuperAdmin {
+  created_at: string;
+}
+
+const saveSession = (session: SuperAdminSession) => {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+};
+
+const getStoredSession = (): SuperAdminSession | null => {
+  const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as SuperAdminSession;
+  } catch (error) {
+    console.error('Error parsing stored super admin session:', error);
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    return null;
+  }
+};
+
+const clearSession = () => {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+/**
+ * Get the token of the stored session, if any
+ */
+export const getSuperAdminToken = (): string | null => getStoredSession()?.token ?? null;
+
+/**
+ * Verify a username and password against the hashed credentials in super_admins
+ */
+export const loginSuperAdmin = async (username: string, password: string): Promise<SuperAdminAuthResult> => {
+  const { data, error } = await supabase.rpc('super_admin_login', {
+    p_username: username.trim(),
+    p_password: password
+  });
+
+  if (error) {
+    console.error('Error logging in super admin:', error);
+    return { success: false, error: 'An error occurred during login' };
+  }
+
+  const row = data?.[0];
+  if (!row) {
+    return { success: false, error: 'Invalid credentials' };
+  }
+
+  const session: SuperAdminSession = {
+    token: row.session_token,
+    expiresAt: row.expires_at,
+    admin: {
+      id: row.super_admin_id,
+      username: row.username,
+      name: row.name
+    }
+  };
+  saveSession(session);
+
+  return { success: true, session };
+};
+
+/**
+ * Re-validate the stored session with the database so it survives a page refresh
+ */
+export const restoreSuperAdminSession = async (): Promise<SuperAdminAuthResult> => {
+  const stored = getStoredSession();
+  if (!stored) {
+    return { success: false };
+  }
+
+  if (new Date(stored.expiresAt).getTime() <= Date.now()) {
+    clearSession();
+    return { success: false, error: 'Your session has expired. Please log in again.' };
+  }
+
+  const { data, error } = await supabase.rpc('super_admin_session', { p_token: stored.token });
+
+  if (error) {
+    console.error('Error restoring super admin session:', error);
+    return { success: false, error: 'Could not verify your session' };
+  }
+
+  const row = data?.[0];
+  if (!row) {
+    clearSession();
+    return { success: false, error: 'Your session has expired. Please log in again.' };
+  }
+
+  const session: SuperAdminSession = {
+    token: stored.token,
+    expiresAt: row.expires_at,
+    admin: {
+      id: row.super_admin_id,
+      username: row.username,
+      name: row.name
+    }
+  };
+  saveSession(session);
+
+  return { success: true, session };
+};
+
+/**
+ * Revoke the current session on the server and forget it locally
+ */
+export const logoutSuperAdmin = async (): Promise<void> => {
+  const token = getSuperAdminToken();
+  clearSession();
+
+  if (token) {
+    const { error } = await supabase.rpc('super_admin_logout', { p_token: token });
+    if (error) {
+      console.error('Error revoking super admin session:', error);
+    }
+  }
+};
+
+/**
+ * Change the logged-in super admin's own password
+ */
+export const changeSuperAdminPassword = async (currentPassword: string, newPassword: string): Promise<SuperAdminActionResult> => {
+  const token = getSuperAdminToken();
+  if (!token) {
+    return { success: false, error: 'You are not logged in' };
+  }
+
+  const { data, error } = await supabase.rpc('change_super_admin_password', {
+    p_token: token,
+    p_current_password: currentPassword,
+    p_new_password: newPassword
+  });
+
+  if (error) {
+    console.error('Error changing super admin password:', error);
+    return { success: false, error: error.message };
+  }
+
+  if (!data) {
+    return { success: false, error: 'Current password is incorrect' };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Set a new password for another super admin; their existing sessions are revoked
+ */
+export const resetSuperAdminPassword = async (superAdminId: string, newPassword: string): Promise<SuperAdminActionResult> => {
+  const token = getSuperAdminToken();
+  if (!token) {
+    return { success: false, error: 'You are not logged in' };
+  }
+
+  const { error } = await supabase.rpc('reset_super_admin_password', {
+    p_token: token,
+    p_super_admin_id: superAdminId,
+    p_new_password: newPassword
+  });
+
+  if (error) {
+    console.error('Error resetting super admin password:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+};
+
+/**
+ * List all super admins (requires a valid session)
+ */
+export const listSuperAdmins = async (): Promise<SuperAdminListItem[]> => {
+  const token = getSuperAdminToken();
+  if (!token) return [];
+
+  const { data, error } = await supabase.rpc('list_super_admins', { p_token: token });
+
+  if (error) {
+    console.error('Error listing super admins:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Create an additional super admin account
+ */
+export const createSuperAdmin = async (username: string, name: string, password: string): Promise<SuperAdminActionResult> => {
+  const token = getSuperAdminToken();
+  if (!token) {
+    return { success: false, error: 'You are not logged in' };
+  }
+
+  const { error } = await supabase.rpc('create_super_admin', {
+    p_token: token,
+    p_username: username,
+    p_name: name,
+    p_password: password
+  });
+
+  if (error) {
+    console.error('Error creating super admin:', error);
+    return {
+      success: false,
+      error: error.code === '23505' ? 'That username is already taken' : error.message
+    };
+  }
+
+  return { success: true };
+};
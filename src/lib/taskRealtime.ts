@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+
+export type TaskChangeKind =
+  | 'created'
+  | 'status'
+  | 'assigned'
+  | 'remarks'
+  | 'commented'
+  | 'removed'
+  | 'restored'
+  | 'updated';
+
+/**
+ * The signal broadcast when a task changes. It carries no task content; reload the task to see
+ * what changed.
+ */
+export interface TaskChange {
+  task_id: string;
+  kind: TaskChangeKind;
+  actor_ids: string[];
+}
+
+/**
+ * Every task change is broadcast here, for team admins
+ */
+export const TEAM_TASKS_TOPIC = 'tasks:team';
+
+/**
+ * Changes to tasks an agent holds, held or created
+ */
+export const agentTasksTopic = (agentId: string) => `tasks:${agentId}`;
+
+/**
+ * Listen for task changes on the given topics; returns a function that stops listening
+ */
+export const subscribeToTaskChanges = (topics: string[], onChange: (change: TaskChange) => void): (() => void) => {
+  const channels = topics.map(topic =>
+    supabase
+      .channel(topic)
+      .on('broadcast', { event: 'task_changed' }, ({ payload }) => onChange(payload as TaskChange))
+      .subscribe()
+  );
+
+  return () => {
+    channels.forEach(channel => supabase.removeChannel(channel));
+  };
+};
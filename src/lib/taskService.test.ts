@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isTaskOverdue, toTaskDate } from './taskService';
+
+vi.mock('@/integrations/supabase/sessionClient', () => ({ supabase: {} }));
+
+const task = (status: string, dueDate: string) => ({
+  status,
+  due_date: dueDate,
+  priority: 'normal',
+  created_at: '2026-10-01T09:00:00Z'
+});
+
+describe('task days', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // 01:30 on the 20th in India, still the 19th in UTC and further west
+    vi.setSystemTime(new Date('2026-10-19T20:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts days in India', () => {
+    expect(toTaskDate(new Date())).toBe('2026-10-20');
+    expect(toTaskDate(new Date('2026-10-19T18:29:59Z'))).toBe('2026-10-19');
+  });
+
+  it('makes a task overdue once its due date has passed in India', () => {
+    expect(isTaskOverdue(task('unfinished', '2026-10-19'))).toBe(true);
+    expect(isTaskOverdue(task('unfinished', '2026-10-20'))).toBe(false);
+    expect(isTaskOverdue(task('finished', '2026-10-19'))).toBe(false);
+  });
+});
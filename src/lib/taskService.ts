@@ -0,0 +1,461 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { Database } from "@/integrations/supabase/types";
+import { getDatabaseErrorMessage } from "@/lib/databaseErrors";
+import { isNetworkError } from "@/lib/network";
+
+export type TaskStatus = 'unfinished' | 'requested' | 'finished';
+
+export type TaskPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+/**
+ * The role of whoever holds a task, as stored in assignee_type
+ */
+export type TaskAssigneeType = 'admin_member' | 'coordinator' | 'supervisor' | 'group_leader' | 'pro';
+
+export type TaskSortOrder = 'urgency' | 'newest';
+
+/**
+ * A task status, or 'open' for every task not finished yet
+ */
+export type TaskStatusFilter = TaskStatus | 'open';
+
+/**
+ * Filters applied by the database when listing tasks; dates are creation days (yyyy-MM-dd)
+ */
+export interface TaskSearchFilters {
+  status?: TaskStatusFilter;
+  assignedTo?: string | 'unassigned';
+  holderId?: string;
+  priority?: TaskPriority;
+  overdueOnly?: boolean;
+  from?: string;
+  to?: string;
+  search?: string;
+  topLevelOnly?: boolean;
+  panchayathId?: string;
+  // Tasks naming the ward and those covering the whole panchayath
+  ward?: number;
+  sort?: TaskSortOrder;
+}
+
+interface TaskPerson {
+  id: string;
+  name: string;
+}
+
+/**
+ * A task with the people it is assigned to, as listed by searchTasks
+ */
+export type TaskListItem = Database['public']['Tables']['todos']['Row'] & {
+  assignee_name: string | null;
+  panchayath: TaskPerson | null;
+  assigned_member: (TaskPerson & { mobile: string }) | null;
+  reassigned_coordinator: (TaskPerson & { mobile_number: string; panchayath: TaskPerson | null }) | null;
+  reassigned_supervisor: (TaskPerson & { mobile_number: string; panchayath: TaskPerson | null }) | null;
+};
+
+/**
+ * Columns of the task board, in the order a task moves through them
+ */
+export type TaskBoardColumn = 'unassigned' | 'assigned' | 'field' | 'requested' | 'finished';
+
+export interface TaskPage {
+  tasks: TaskListItem[];
+  total: number;
+  error?: string;
+}
+
+/**
+ * The fields that decide how urgent a task is
+ */
+export interface TaskUrgency {
+  status: string;
+  priority?: string | null;
+  due_date?: string | null;
+  created_at: string;
+}
+
+export type TaskEventType =
+  | 'created'
+  | 'assigned'
+  | 'reassigned'
+  | 'cascaded'
+  | 'remarks_changed'
+  | 'escalated'
+  | 'completion_requested'
+  | 'approved'
+  | 'rejected'
+  | 'finished'
+  | 'reopened';
+
+export type TaskEvent = Omit<Database['public']['Tables']['todo_events']['Row'], 'event_type' | 'details'> & {
+  event_type: TaskEventType;
+  details: { from?: string | null; to?: string | null } | null;
+};
+
+export interface TaskActionResult {
+  success: boolean;
+  error?: string;
+  // The request never reached the server, so it can be retried later
+  offline?: boolean;
+}
+
+/**
+ * How far the sub-tasks cascaded from a task have got
+ */
+export interface SubtaskProgress {
+  total: number;
+  finished: number;
+}
+
+export const TASK_PAGE_SIZE = 50;
+
+// The people of each task come embedded in the same request instead of one query per task
+const TASK_LIST_SELECT = `*, assignee_name,
+  panchayath:panchayaths!todos_panchayath_id_fkey(id, name),
+  assigned_member:admin_members!todos_assigned_to_fkey(id, name, mobile),
+  reassigned_coordinator:coordinators!todos_reassigned_to_coordinator_fkey(id, name, mobile_number, panchayath:panchayaths(id, name)),
+  reassigned_supervisor:supervisors!todos_reassigned_to_supervisor_fkey(id, name, mobile_number, panchayath:panchayaths(id, name))`;
+
+/**
+ * Priorities from most to least urgent, as offered when creating or filtering tasks
+ */
+export const TASK_PRIORITIES: TaskPriority[] = ['urgent', 'high', 'normal', 'low'];
+
+export const TASK_PRIORITY_LABELS: Record<TaskPriority, string> = {
+  urgent: 'Urgent',
+  high: 'High',
+  normal: 'Normal',
+  low: 'Low'
+};
+
+export const TASK_BOARD_COLUMNS: TaskBoardColumn[] = ['unassigned', 'assigned', 'field', 'requested', 'finished'];
+
+export const TASK_BOARD_COLUMN_LABELS: Record<TaskBoardColumn, string> = {
+  unassigned: 'Unassigned',
+  assigned: 'Assigned',
+  field: 'Reassigned to Field',
+  requested: 'Completion Requested',
+  finished: 'Finished'
+};
+
+/**
+ * The board column a task sits in: its status once completion is asked for, otherwise how far
+ * down it has been handed
+ */
+export const getTaskBoardColumn = (task: {
+  status: string;
+  assigned_to?: string | null;
+  reassigned_to_coordinator?: string | null;
+  reassigned_to_supervisor?: string | null;
+}): TaskBoardColumn => {
+  if (task.status === 'finished') return 'finished';
+  if (task.status === 'requested') return 'requested';
+  if (task.reassigned_to_coordinator || task.reassigned_to_supervisor) return 'field';
+  if (task.assigned_to) return 'assigned';
+  return 'unassigned';
+};
+
+/**
+ * The panchayath and wards a task is for, e.g. "Kadalundi, wards 3, 7"; null for unscoped tasks
+ */
+export const describeTaskScope = (task: { panchayath?: { name: string } | null; wards?: number[] | null }): string | null => {
+  if (!task.panchayath) return null;
+  if (!task.wards?.length) return `${task.panchayath.name}, all wards`;
+  return `${task.panchayath.name}, ${task.wards.length === 1 ? 'ward' : 'wards'} ${[...task.wards].sort((a, b) => a - b).join(', ')}`;
+};
+
+/**
+ * Whether an agent works where a task is scoped: the same panchayath and, when the task names
+ * wards, one of them
+ */
+export const isInTaskScope = (
+  scope: { panchayath_id?: string | null; wards?: number[] | null },
+  agent: { panchayath_id?: string | null; wards: number[] }
+): boolean => {
+  if (!scope.panchayath_id || agent.panchayath_id !== scope.panchayath_id) return false;
+  return !scope.wards?.length || agent.wards.some(ward => scope.wards!.includes(ward));
+};
+
+export const TASK_EVENT_LABELS: Record<TaskEventType, string> = {
+  created: 'Created',
+  assigned: 'Assigned',
+  reassigned: 'Reassigned',
+  cascaded: 'Sent down the hierarchy',
+  remarks_changed: 'Remarks changed',
+  escalated: 'Escalated',
+  completion_requested: 'Completion requested',
+  approved: 'Completion approved',
+  rejected: 'Completion rejected',
+  finished: 'Finished',
+  reopened: 'Reopened'
+};
+
+const TASK_ERROR_MESSAGES: Record<string, string> = {
+  PERMISSION_DENIED: 'You do not have permission to do this',
+  EVIDENCE_REQUIRED: 'Please describe what was done to complete the task',
+  REJECT_REASON_REQUIRED: 'Please give a reason for rejecting the request',
+  INVALID_TRANSITION: 'The task status has changed, please refresh and try again',
+  NOT_FOUND: 'The task no longer exists'
+};
+
+const toSearchArgs = (filters: TaskSearchFilters) => ({
+  p_status: filters.status,
+  p_assigned_to: filters.assignedTo && filters.assignedTo !== 'unassigned' ? filters.assignedTo : undefined,
+  p_unassigned: filters.assignedTo === 'unassigned',
+  p_holder: filters.holderId,
+  p_priority: filters.priority,
+  p_overdue: !!filters.overdueOnly,
+  p_from: filters.from,
+  p_to: filters.to,
+  p_search: filters.search?.trim() || undefined,
+  p_top_level: !!filters.topLevelOnly,
+  p_panchayath: filters.panchayathId,
+  p_ward: filters.ward,
+  p_sort: filters.sort || 'urgency'
+});
+
+/**
+ * One page of the tasks matching the filters, with how many match in total
+ */
+export const searchTasks = async (filters: TaskSearchFilters, offset = 0, limit = TASK_PAGE_SIZE): Promise<TaskPage> => {
+  // The client cannot follow relationships from a function's rows, so the embedded people are typed here
+  const { data, error, count } = await supabase
+    .rpc('search_tasks', toSearchArgs(filters), { count: 'exact' })
+    .select(TASK_LIST_SELECT)
+    .range(offset, offset + limit - 1)
+    .overrideTypes<TaskListItem[], { merge: false }>();
+
+  if (error) {
+    console.error('Error searching tasks:', error);
+    return { tasks: [], total: 0, error: getDatabaseErrorMessage(error, TASK_ERROR_MESSAGES) };
+  }
+
+  return { tasks: data || [], total: count ?? 0 };
+};
+
+/**
+ * A single task as searchTasks lists it, or null when it is gone or no longer visible
+ */
+export const getTaskListItem = async (taskId: string): Promise<TaskListItem | null> => {
+  const { data, error } = await supabase
+    .from('todos')
+    .select(TASK_LIST_SELECT)
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading task:', error);
+    return null;
+  }
+
+  return data;
+};
+
+/**
+ * Whether a task belongs in a list loaded with these filters; the same rules search_tasks
+ * applies, for tasks that change after the list was loaded
+ */
+export const matchesTaskFilters = (task: TaskListItem, filters: TaskSearchFilters): boolean => {
+  if (filters.status === 'open' ? task.status === 'finished' : filters.status && task.status !== filters.status) return false;
+  if (filters.assignedTo === 'unassigned' ? task.assigned_to : filters.assignedTo && task.assigned_to !== filters.assignedTo) return false;
+  if (filters.holderId) {
+    const holder = filters.holderId;
+    const holds = [task.assigned_to, task.reassigned_to_coordinator, task.reassigned_to_supervisor, task.assignee_id, task.escalated_to_coordinator].includes(holder);
+    const reviews = task.created_by === holder && !!task.parent_id && task.status === 'requested';
+    if (!holds && !reviews) return false;
+  }
+  if (filters.priority && task.priority !== filters.priority) return false;
+  if (filters.overdueOnly && !isTaskOverdue(task)) return false;
+
+  const createdOn = toTaskDate(new Date(task.created_at));
+  if (filters.from && createdOn < filters.from) return false;
+  if (filters.to && createdOn > filters.to) return false;
+  if (filters.search?.trim() && !task.text.toLowerCase().includes(filters.search.trim().toLowerCase())) return false;
+  if (filters.topLevelOnly && task.parent_id) return false;
+  if (filters.panchayathId && task.panchayath_id !== filters.panchayathId) return false;
+  if (filters.ward && !(task.panchayath_id && (!task.wards || task.wards.includes(filters.ward)))) return false;
+
+  return true;
+};
+
+/**
+ * How many tasks match the filters, without loading them
+ */
+export const countTasks = async (filters: TaskSearchFilters): Promise<number> => {
+  const { error, count } = await supabase.rpc('search_tasks', toSearchArgs(filters), { count: 'exact', head: true });
+
+  if (error) {
+    console.error('Error counting tasks:', error);
+    return 0;
+  }
+
+  return count ?? 0;
+};
+
+/**
+ * Ask for a task to be marked finished, with evidence of the work done.
+ * Only someone the task is assigned or reassigned to can ask.
+ */
+export const requestTaskCompletion = async (taskId: string, evidence: string): Promise<TaskActionResult> => {
+  const { error } = await supabase.rpc('request_task_completion', {
+    p_todo_id: taskId,
+    p_evidence: evidence.trim()
+  });
+
+  if (error) {
+    console.error('Error requesting task completion:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, TASK_ERROR_MESSAGES), offline: isNetworkError(error) };
+  }
+
+  return { success: true };
+};
+
+export const updateTaskRemarks = async (taskId: string, remarks: string): Promise<TaskActionResult> => {
+  const { error } = await supabase
+    .from('todos')
+    .update({ remarks })
+    .eq('id', taskId);
+
+  if (error) {
+    console.error('Error updating remarks:', error);
+    return { success: false, error: 'Failed to update remarks. Please try again.', offline: isNetworkError(error) };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Approve a completion request, finishing the task, or reject it with a reason
+ */
+export const reviewTaskCompletion = async (taskId: string, approve: boolean, reason?: string): Promise<TaskActionResult> => {
+  const { error } = await supabase.rpc('review_task_completion', {
+    p_todo_id: taskId,
+    p_approve: approve,
+    p_reason: reason?.trim() || undefined
+  });
+
+  if (error) {
+    console.error('Error reviewing task completion:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, TASK_ERROR_MESSAGES) };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Hand a task down as sub-tasks: a supervisor's task goes to every group leader in their
+ * wards, a group leader's to their PROs. Agents who already have one are skipped.
+ */
+export const cascadeTask = async (taskId: string): Promise<TaskActionResult & { created?: number }> => {
+  const { data, error } = await supabase.rpc('cascade_task', { p_todo_id: taskId });
+
+  if (error) {
+    console.error('Error cascading task:', error);
+    return { success: false, error: getDatabaseErrorMessage(error, TASK_ERROR_MESSAGES) };
+  }
+
+  return { success: true, created: data ?? 0 };
+};
+
+/**
+ * Sub-task counts for each of the given tasks that has any
+ */
+export const getSubtaskProgress = async (parentIds: string[]): Promise<Record<string, SubtaskProgress>> => {
+  if (parentIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('todos')
+    .select('parent_id, status')
+    .in('parent_id', parentIds);
+
+  if (error) {
+    console.error('Error loading sub-task progress:', error);
+    return {};
+  }
+
+  return (data || []).reduce<Record<string, SubtaskProgress>>((progress, subtask) => {
+    const entry = progress[subtask.parent_id as string] || { total: 0, finished: 0 };
+    entry.total += 1;
+    if (subtask.status === 'finished') entry.finished += 1;
+    progress[subtask.parent_id as string] = entry;
+    return progress;
+  }, {});
+};
+
+/**
+ * History of a task, oldest first
+ */
+export const getTaskEvents = async (taskId: string): Promise<TaskEvent[]> => {
+  const { data, error } = await supabase
+    .from('todo_events')
+    .select('*')
+    .eq('todo_id', taskId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading task history:', error);
+    return [];
+  }
+
+  return (data || []) as TaskEvent[];
+};
+
+/**
+ * The most recent completion request of a task, holding the evidence given with it
+ */
+export const getLatestCompletionRequest = async (taskId: string): Promise<TaskEvent | null> => {
+  const { data, error } = await supabase
+    .from('todo_events')
+    .select('*')
+    .eq('todo_id', taskId)
+    .eq('event_type', 'completion_requested')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading completion request:', error);
+    return null;
+  }
+
+  return data as TaskEvent | null;
+};
+
+/**
+ * The day (yyyy-MM-dd) a moment falls on in India, where task_today() and the task filters in the
+ * database count days, whatever the device's time zone
+ */
+export const toTaskDate = (date: Date): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(date);
+
+/**
+ * A task is overdue once its due date has passed and it is still not finished
+ */
+export const isTaskOverdue = (task: TaskUrgency): boolean =>
+  task.status !== 'finished' && !!task.due_date && task.due_date < toTaskDate(new Date());
+
+const getPriorityRank = (task: TaskUrgency): number => {
+  const rank = TASK_PRIORITIES.indexOf(task.priority as TaskPriority);
+  return rank === -1 ? TASK_PRIORITIES.indexOf('normal') : rank;
+};
+
+/**
+ * Sort comparator putting overdue tasks first, then higher priorities, then the nearest due
+ * date; tasks without a due date come last and ties go to the newest task
+ */
+export const compareByUrgency = (a: TaskUrgency, b: TaskUrgency): number => {
+  const overdue = Number(isTaskOverdue(b)) - Number(isTaskOverdue(a));
+  if (overdue !== 0) return overdue;
+
+  const priority = getPriorityRank(a) - getPriorityRank(b);
+  if (priority !== 0) return priority;
+
+  if (a.due_date !== b.due_date) {
+    if (!a.due_date) return 1;
+    if (!b.due_date) return -1;
+    return a.due_date < b.due_date ? -1 : 1;
+  }
+
+  return b.created_at.localeCompare(a.created_at);
+};
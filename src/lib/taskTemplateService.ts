@@ -0,0 +1,195 @@
+import { supabase } from "@/integrations/supabase/sessionClient";
+import { Database } from "@/integrations/supabase/types";
+import { format } from "date-fns";
+import { TaskActionResult, TaskAssigneeType, TaskPriority } from "@/lib/taskService";
+
+export type TaskRecurrence = 'daily' | 'weekly' | 'monthly';
+
+export type TaskTemplate = Database['public']['Tables']['task_templates']['Row'];
+
+/**
+ * The parts of a series an admin sets; edits only affect tasks not yet created
+ */
+export interface TaskTemplateInput {
+  text: string;
+  priority: TaskPriority;
+  due_in_days: number | null;
+  recurrence: TaskRecurrence;
+  weekdays: number[];
+  month_day: number | null;
+  starts_on: string;
+  ends_on: string | null;
+  assigned_to: string | null;
+  reassigned_to_coordinator: string | null;
+  reassigned_to_supervisor: string | null;
+  // Only read for a group leader or PRO holder; the team columns decide the holder otherwise
+  assignee_type: TaskAssigneeType | null;
+  assignee_id: string | null;
+}
+
+export type UpcomingTemplateTask = Database['public']['Functions']['upcoming_template_tasks']['Returns'][number];
+
+export type TaskTemplateState = 'active' | 'paused' | 'ended';
+
+export const TASK_RECURRENCE_LABELS: Record<TaskRecurrence, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly'
+};
+
+/**
+ * Weekday names indexed like Date.getDay(), which is how templates store them
+ */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+/**
+ * Paused series resume where they left off; ended ones have no days left to generate
+ */
+export const getTaskTemplateState = (template: TaskTemplate): TaskTemplateState => {
+  if (template.ends_on && template.ends_on < today()) return 'ended';
+  return template.paused_at ? 'paused' : 'active';
+};
+
+/**
+ * The recurrence rule in words, e.g. "Weekly on Mon, Thu"
+ */
+export const describeRecurrence = (template: Pick<TaskTemplate, 'recurrence' | 'weekdays' | 'month_day'>): string => {
+  switch (template.recurrence) {
+    case 'weekly':
+      return `Weekly on ${[...template.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+    case 'monthly':
+      return `Monthly on day ${template.month_day}`;
+    default:
+      return 'Every day';
+  }
+};
+
+const validateTemplate = (input: TaskTemplateInput): string | null => {
+  if (!input.text.trim()) return 'Enter the task text';
+  if (input.recurrence === 'weekly' && input.weekdays.length === 0) return 'Pick at least one weekday';
+  if (input.recurrence === 'monthly' && !input.month_day) return 'Pick the day of the month';
+  if (input.ends_on && input.ends_on < input.starts_on) return 'The series cannot end before it starts';
+  return null;
+};
+
+/**
+ * Who holds the tasks of a series, worked out as the todos trigger does for the team columns: the
+ * coordinator or supervisor handed on to, then a group leader or PRO, then the team member
+ */
+export const getTaskTemplateAssignee = (
+  input: TaskTemplateInput
+): Pick<TaskTemplateInput, 'assignee_type' | 'assignee_id'> => {
+  if (input.reassigned_to_coordinator) return { assignee_type: 'coordinator', assignee_id: input.reassigned_to_coordinator };
+  if (input.reassigned_to_supervisor) return { assignee_type: 'supervisor', assignee_id: input.reassigned_to_supervisor };
+  if ((input.assignee_type === 'group_leader' || input.assignee_type === 'pro') && input.assignee_id) {
+    return { assignee_type: input.assignee_type, assignee_id: input.assignee_id };
+  }
+  if (input.assigned_to) return { assignee_type: 'admin_member', assignee_id: input.assigned_to };
+  return { assignee_type: null, assignee_id: null };
+};
+
+// Only the fields of the chosen rule are kept, so switching rules leaves nothing stale behind
+const toTemplateRow = (input: TaskTemplateInput) => ({
+  ...input,
+  ...getTaskTemplateAssignee(input),
+  text: input.text.trim(),
+  weekdays: input.recurrence === 'weekly' ? input.weekdays : [],
+  month_day: input.recurrence === 'monthly' ? input.month_day : null
+});
+
+export const getTaskTemplates = async (): Promise<TaskTemplate[]> => {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading task templates:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+export const createTaskTemplate = async (input: TaskTemplateInput, createdBy: string): Promise<TaskActionResult> => {
+  const invalid = validateTemplate(input);
+  if (invalid) return { success: false, error: invalid };
+
+  const { error } = await supabase
+    .from('task_templates')
+    .insert({ ...toTemplateRow(input), created_by: createdBy });
+
+  if (error) {
+    console.error('Error creating task template:', error);
+    return { success: false, error: 'Failed to create the recurring task' };
+  }
+
+  return { success: true };
+};
+
+export const updateTaskTemplate = async (templateId: string, input: TaskTemplateInput): Promise<TaskActionResult> => {
+  const invalid = validateTemplate(input);
+  if (invalid) return { success: false, error: invalid };
+
+  const { error } = await supabase
+    .from('task_templates')
+    .update(toTemplateRow(input))
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Error updating task template:', error);
+    return { success: false, error: 'Failed to update the recurring task' };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Pause or resume a series; a resumed series does not make up for the days it was paused
+ */
+export const setTaskTemplatePaused = async (templateId: string, paused: boolean): Promise<TaskActionResult> => {
+  const { error } = await supabase
+    .from('task_templates')
+    .update({ paused_at: paused ? new Date().toISOString() : null })
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Error pausing task template:', error);
+    return { success: false, error: paused ? 'Failed to pause the series' : 'Failed to resume the series' };
+  }
+
+  return { success: true };
+};
+
+/**
+ * End a series after today; tasks it already created are kept
+ */
+export const endTaskTemplate = async (templateId: string): Promise<TaskActionResult> => {
+  const { error } = await supabase
+    .from('task_templates')
+    .update({ ends_on: today() })
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Error ending task template:', error);
+    return { success: false, error: 'Failed to end the series' };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Tasks the active series will create over the coming days, soonest first
+ */
+export const getUpcomingTemplateTasks = async (days = 14): Promise<UpcomingTemplateTask[]> => {
+  const { data, error } = await supabase.rpc('upcoming_template_tasks', { p_days: days });
+
+  if (error) {
+    console.error('Error loading upcoming recurring tasks:', error);
+    return [];
+  }
+
+  return data || [];
+};
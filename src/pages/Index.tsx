@@ -1,47 +1,73 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { MobileLogin } from "@/components/MobileLogin";
 import { UserProfile } from "@/components/UserProfile";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
 import { DailyNoteCard } from "@/components/DailyNoteCard";
+import { ActivityCategoryManager } from "@/components/ActivityCategoryManager";
+import { LeaveRequestCard } from "@/components/LeaveRequestCard";
+import { LeaveApprovals } from "@/components/LeaveApprovals";
+import { LateReportApprovals } from "@/components/LateReportApprovals";
+import { LateReportWindowSetting } from "@/components/LateReportWindowSetting";
 import { CoordinatorReports } from "@/components/CoordinatorReports";
 import { MyTasks } from "@/components/admin/MyTasks";
 import { PanchayathManagement } from "@/components/admin/PanchayathManagement";
 import { TaskManagement } from "@/components/TaskManagement";
-import { FileText } from "lucide-react";
-import { User } from "@/lib/authService";
+import { ChevronDown, FileText, ListChecks, Loader2 } from "lucide-react";
+import { User, getRoleDisplayName } from "@/lib/authService";
 import { useToast } from "@/hooks/use-toast";
+import { useAgentSession } from "@/hooks/use-agent-session";
+import { hasPermission } from "@/lib/permissions";
 const Index = () => {
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const {
+    currentUser,
+    roles,
+    signIn,
+    switchRole,
+    updateCurrentUser,
+    loading,
+    logout,
+    logoutEverywhere
+  } = useAgentSession();
   const [isReportsOpen, setIsReportsOpen] = useState(false);
   
   const {
     toast
   } = useToast();
 
-  // Load user from localStorage on component mount
-  useEffect(() => {
-    const storedUser = localStorage.getItem('currentUser');
-    if (storedUser) {
-      try {
-        setCurrentUser(JSON.parse(storedUser));
-      } catch (error) {
-        console.error('Error parsing stored user:', error);
-        localStorage.removeItem('currentUser');
-      }
-    }
-  }, []);
-  const handleLogin = (user: User) => {
-    setCurrentUser(user);
-    localStorage.setItem('currentUser', JSON.stringify(user));
+  // The session token is stored by MobileLogin; the user is only cached for display until the server confirms it
+  const handleLogin = (user: User, userRoles: User[]) => {
+    signIn(user, userRoles);
   };
-  const handleLogout = () => {
-    setCurrentUser(null);
-    localStorage.removeItem('currentUser');
+  const handleSwitchRole = (user: User) => {
+    switchRole(user);
+    setIsReportsOpen(false);
+    toast({
+      title: "Role switched",
+      description: `You are now working as ${getRoleDisplayName(user.role)}`
+    });
+  };
+  const handleLogout = async () => {
+    await logout();
     toast({
       title: "Logged out",
       description: "You have been logged out successfully"
     });
   };
+  const handleLogoutEverywhere = async () => {
+    const result = await logoutEverywhere();
+    toast({
+      title: result.success ? "Logged out everywhere" : "Logged out",
+      description: result.success ? `${result.count} session${result.count === 1 ? '' : 's'} ended on all devices` : "You have been logged out on this device"
+    });
+  };
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>;
+  }
 
   // Show login screen if user is not authenticated
   if (!currentUser) {
@@ -57,15 +83,18 @@ const Index = () => {
             </p>
           </div>
           <div className="flex flex-col sm:flex-row items-center gap-3 sm:gap-4">
-            <UserProfile currentUser={currentUser} onUserUpdate={setCurrentUser} />
+            {/* Changes saved offline and waiting to sync */}
+            <SyncStatusIndicator key={`sync-${currentUser.id}`} ownerId={currentUser.id} />
+
+            <UserProfile key={currentUser.id} currentUser={currentUser} roles={roles} onUserUpdate={updateCurrentUser} onSwitchRole={handleSwitchRole} onLogoutEverywhere={handleLogoutEverywhere} />
             
             {/* Show Team Admin Panel button only for team members */}
-            {currentUser.hasAdminAccess && <Button variant="outline" onClick={() => window.location.href = '/admin'} className="w-full sm:w-auto border-primary/20 hover:border-primary">
+            {hasPermission(currentUser.role, 'team_admin.access') && <Button variant="outline" onClick={() => window.location.href = '/admin'} className="w-full sm:w-auto border-primary/20 hover:border-primary">
                 Team Admin Panel
               </Button>}
             
             {/* Show Reports button only for coordinators */}
-            {currentUser.role === 'coordinator' && <Button variant="outline" onClick={() => setIsReportsOpen(!isReportsOpen)} className="w-full sm:w-auto border-blue-500/20 hover:border-blue-500 bg-blue-50 hover:bg-blue-100 text-blue-700 flex items-center gap-2">
+            {hasPermission(currentUser.role, 'reports.view') && <Button variant="outline" onClick={() => setIsReportsOpen(!isReportsOpen)} className="w-full sm:w-auto border-blue-500/20 hover:border-blue-500 bg-blue-50 hover:bg-blue-100 text-blue-700 flex items-center gap-2">
                 <FileText className="h-4 w-4" />
                 Reports
               </Button>}
@@ -79,20 +108,66 @@ const Index = () => {
 
         {/* Daily Note Feature */}
         <div className="mb-6">
-          <DailyNoteCard currentUser={currentUser} />
+          <DailyNoteCard key={currentUser.id} currentUser={currentUser} />
         </div>
 
+        {/* Leave waiting on the current user's approval */}
+        {hasPermission(currentUser.role, 'leave.review') && <div className="mb-6 empty:hidden">
+            <LeaveApprovals key={currentUser.id} currentUser={currentUser} />
+          </div>}
+
+        {/* Late daily reports waiting on the current user's approval */}
+        {hasPermission(currentUser.role, 'daily_reports.review_late') && <div className="mb-6 empty:hidden">
+            <LateReportApprovals key={currentUser.id} currentUser={currentUser} />
+          </div>}
+
+        {/* Own leave requests */}
+        {hasPermission(currentUser.role, 'leave.request') && <div className="mb-6">
+            <LeaveRequestCard key={currentUser.id} currentUser={currentUser} />
+          </div>}
+
+        {/* Daily report settings - supervisors and coordinators set up activity types and the late report window for their panchayath */}
+        {hasPermission(currentUser.role, 'daily_reports.configure') && currentUser.panchayath_id && <div className="mb-6">
+            <Collapsible>
+              <Card>
+                <CollapsibleTrigger asChild>
+                  <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle className="flex items-center gap-2 text-lg">
+                          <ListChecks className="h-5 w-5" />
+                          Daily Report Settings
+                        </CardTitle>
+                        <CardDescription>
+                          What agents in {currentUser.panchayath_name || 'your panchayath'} count in their daily notes, and how late they can report
+                        </CardDescription>
+                      </div>
+                      <ChevronDown className="h-4 w-4" />
+                    </div>
+                  </CardHeader>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <CardContent className="pt-0 space-y-6">
+                    <ActivityCategoryManager key={currentUser.id} panchayathId={currentUser.panchayath_id} />
+                    <LateReportWindowSetting key={`late-${currentUser.id}`} panchayathId={currentUser.panchayath_id} />
+                  </CardContent>
+                </CollapsibleContent>
+              </Card>
+            </Collapsible>
+          </div>}
+
 
         {/* Agent Management - Show for admin users and coordinators */}
-        {(currentUser.hasAdminAccess || currentUser.role === 'coordinator') && (
+        {hasPermission(currentUser.role, 'tasks.manage') && (
           <div className="mb-6">
-            <TaskManagement currentUser={currentUser} />
+            <TaskManagement key={currentUser.id} currentUser={currentUser} />
           </div>
         )}
 
         {/* Assigned Tasks - Show for all users */}
         <div className="mb-6">
           <MyTasks 
+            key={currentUser.id}
             userId={currentUser.id} 
             userRole={currentUser.role}
             userTable={currentUser.table}
@@ -100,8 +175,8 @@ const Index = () => {
         </div>
 
         {/* Coordinator Reports */}
-        {currentUser.role === 'coordinator' && isReportsOpen && <div className="mb-6">
-            <CoordinatorReports currentUser={currentUser} />
+        {hasPermission(currentUser.role, 'reports.view') && isReportsOpen && <div className="mb-6">
+            <CoordinatorReports key={currentUser.id} currentUser={currentUser} />
           </div>}
 
 
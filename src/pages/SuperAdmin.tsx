@@ -1,42 +1,69 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Shield, Settings, Database, Users, BarChart3, MessageSquare } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Shield, Settings, Database, Users, BarChart3, MessageSquare, KeyRound, Loader2, History, ArchiveRestore } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase } from "@/integrations/supabase/sessionClient";
 import { AdminTeamManagement } from "@/components/admin/AdminTeamManagement";
 import { TestimonialManagementSimple } from "@/components/admin/TestimonialManagementSimple";
+import { SuperAdminAccounts } from "@/components/admin/SuperAdminAccounts";
+import { AuditLogViewer } from "@/components/admin/AuditLogViewer";
+import { DeletedRecords } from "@/components/admin/DeletedRecords";
+import { Permission, hasPermission } from "@/lib/permissions";
+import { SuperAdmin as SuperAdminAccount, loginSuperAdmin, restoreSuperAdminSession, logoutSuperAdmin, changeSuperAdminPassword } from "@/lib/superAdminAuthService";
 
 const SuperAdmin = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [currentAdmin, setCurrentAdmin] = useState<SuperAdminAccount | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState("user-management");
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  // Super admins sign in here rather than through an agent session; every account in super_admins
+  // has the super_admin role, so a session the server validated is all the page needs
+  const isAuthenticated = !!currentAdmin;
+  const can = (permission: Permission) => hasPermission('super_admin', permission);
+
+  // Restore a previously issued session so a page refresh keeps the admin logged in
+  useEffect(() => {
+    restoreSuperAdminSession()
+      .then(result => {
+        if (result.success && result.session) {
+          setCurrentAdmin(result.session.admin);
+        }
+      })
+      .finally(() => setCheckingSession(false));
+  }, []);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
-      // Simple authentication check for demo purposes
-      // In production, this should use proper password hashing
-      if (username === "eva" && password === "321") {
-        setIsAuthenticated(true);
+      const result = await loginSuperAdmin(username, password);
+      if (result.success && result.session) {
+        setCurrentAdmin(result.session.admin);
+        setPassword("");
         toast({
           title: "Login Successful",
-          description: "Welcome to Super Admin Panel",
+          description: `Welcome to Super Admin Panel, ${result.session.admin.name}`,
         });
       } else {
         toast({
           title: "Login Failed",
-          description: "Invalid credentials",
+          description: result.error || "Invalid credentials",
           variant: "destructive",
         });
       }
@@ -51,8 +78,9 @@ const SuperAdmin = () => {
     }
   };
 
-  const handleLogout = () => {
-    setIsAuthenticated(false);
+  const handleLogout = async () => {
+    await logoutSuperAdmin();
+    setCurrentAdmin(null);
     setUsername("");
     setPassword("");
     toast({
@@ -61,6 +89,53 @@ const SuperAdmin = () => {
     });
   };
 
+  const closeChangePassword = () => {
+    setShowChangePassword(false);
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Error",
+        description: "New passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    const result = await changeSuperAdminPassword(currentPassword, newPassword);
+    setLoading(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to change password",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Password Changed",
+      description: "Your password has been updated. Other sessions have been signed out.",
+    });
+    closeChangePassword();
+  };
+
+  if (checkingSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
   if (!isAuthenticated) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background to-background/95 flex items-center justify-center p-6">
@@ -130,46 +205,113 @@ const SuperAdmin = () => {
               </p>
             </div>
           </div>
-          <Button variant="outline" onClick={handleLogout}>
-            Logout
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setShowChangePassword(true)} className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              Change Password
+            </Button>
+            <Button variant="outline" onClick={handleLogout}>
+              Logout
+            </Button>
+          </div>
         </div>
 
         {/* Admin Navigation Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6 mb-6 sm:mb-8">
-          <div 
-            className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "user-management" ? "scale-[1.02]" : ""}`} 
-            onClick={() => setActiveTab("user-management")}
-          >
-            <Card className={`relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "user-management" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
-              <CardHeader className="pb-3 bg-blue-50">
-                <div className="flex items-center gap-2">
-                  <Users className="h-5 w-5 text-primary" />
-                  <CardTitle className="text-lg">User Management</CardTitle>
-                </div>
-                <CardDescription>
-                  Manage all system users and roles
-                </CardDescription>
-              </CardHeader>
-            </Card>
-          </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4 sm:gap-6 mb-6 sm:mb-8">
+          {can('super_admin.user_management') && (
+            <div 
+              className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "user-management" ? "scale-[1.02]" : ""}`} 
+              onClick={() => setActiveTab("user-management")}
+            >
+              <Card className={`relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "user-management" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
+                <CardHeader className="pb-3 bg-blue-50">
+                  <div className="flex items-center gap-2">
+                    <Users className="h-5 w-5 text-primary" />
+                    <CardTitle className="text-lg">User Management</CardTitle>
+                  </div>
+                  <CardDescription>
+                    Manage all system users and roles
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            </div>
+          )}
 
-          <div 
-            className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "testimonials" ? "scale-[1.02]" : ""}`} 
-            onClick={() => setActiveTab("testimonials")}
-          >
-            <Card className={`relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "testimonials" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
-              <CardHeader className="pb-3 bg-yellow-50">
-                <div className="flex items-center gap-2">
-                  <MessageSquare className="h-5 w-5 text-primary" />
-                  <CardTitle className="text-lg">Testimonials</CardTitle>
-                </div>
-                <CardDescription>
-                  Manage agent testimonial questions
-                </CardDescription>
-              </CardHeader>
-            </Card>
-          </div>
+          {can('super_admin.testimonials') && (
+            <div 
+              className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "testimonials" ? "scale-[1.02]" : ""}`} 
+              onClick={() => setActiveTab("testimonials")}
+            >
+              <Card className={`relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "testimonials" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
+                <CardHeader className="pb-3 bg-yellow-50">
+                  <div className="flex items-center gap-2">
+                    <MessageSquare className="h-5 w-5 text-primary" />
+                    <CardTitle className="text-lg">Testimonials</CardTitle>
+                  </div>
+                  <CardDescription>
+                    Manage agent testimonial questions
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            </div>
+          )}
+
+          {can('super_admin.accounts') && (
+            <div 
+              className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "super-admins" ? "scale-[1.02]" : ""}`} 
+              onClick={() => setActiveTab("super-admins")}
+            >
+              <Card className={`relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "super-admins" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
+                <CardHeader className="pb-3 bg-red-50">
+                  <div className="flex items-center gap-2">
+                    <Shield className="h-5 w-5 text-primary" />
+                    <CardTitle className="text-lg">Super Admins</CardTitle>
+                  </div>
+                  <CardDescription>
+                    Manage super admin accounts and passwords
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            </div>
+          )}
+
+          {can('super_admin.audit') && (
+            <div 
+              className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "audit-log" ? "scale-[1.02]" : ""}`} 
+              onClick={() => setActiveTab("audit-log")}
+            >
+              <Card className={`relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "audit-log" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
+                <CardHeader className="pb-3 bg-green-50">
+                  <div className="flex items-center gap-2">
+                    <History className="h-5 w-5 text-primary" />
+                    <CardTitle className="text-lg">Audit Log</CardTitle>
+                  </div>
+                  <CardDescription>
+                    Review who changed what and when
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            </div>
+          )}
+
+          {can('super_admin.deleted_records') && (
+            <div 
+              className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "deleted-records" ? "scale-[1.02]" : ""}`} 
+              onClick={() => setActiveTab("deleted-records")}
+            >
+              <Card className={`relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "deleted-records" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
+                <CardHeader className="pb-3 bg-orange-50">
+                  <div className="flex items-center gap-2">
+                    <ArchiveRestore className="h-5 w-5 text-primary" />
+                    <CardTitle className="text-lg">Deleted Records</CardTitle>
+                  </div>
+                  <CardDescription>
+                    Restore recently deleted data
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            </div>
+          )}
         </div>
 
         {/* Content Area */}
@@ -216,16 +358,71 @@ const SuperAdmin = () => {
             </Card>
           </TabsContent>
           
-          <TabsContent value="user-management">
-            <AdminTeamManagement />
-          </TabsContent>
+          {can('super_admin.user_management') && (
+            <TabsContent value="user-management">
+              <AdminTeamManagement />
+            </TabsContent>
+          )}
 
-          <TabsContent value="testimonials">
-            <TestimonialManagementSimple />
-          </TabsContent>
+          {can('super_admin.testimonials') && (
+            <TabsContent value="testimonials">
+              <TestimonialManagementSimple />
+            </TabsContent>
+          )}
+
+          {can('super_admin.accounts') && (
+            <TabsContent value="super-admins">
+              <SuperAdminAccounts currentAdminId={currentAdmin.id} />
+            </TabsContent>
+          )}
+
+          {can('super_admin.audit') && (
+            <TabsContent value="audit-log">
+              <AuditLogViewer />
+            </TabsContent>
+          )}
+
+          {can('super_admin.deleted_records') && (
+            <TabsContent value="deleted-records">
+              <DeletedRecords />
+            </TabsContent>
+          )}
           
         </Tabs>
       </div>
+
+      <Dialog open={showChangePassword} onOpenChange={(open) => !open && closeChangePassword()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Change Password</DialogTitle>
+            <DialogDescription>
+              Your other sessions will be signed out after the change.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleChangePassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current Password</Label>
+              <Input id="current-password" type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New Password</Label>
+              <Input id="new-password" type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} minLength={8} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm New Password</Label>
+              <Input id="confirm-password" type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} minLength={8} required />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeChangePassword} disabled={loading}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Saving..." : "Change Password"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
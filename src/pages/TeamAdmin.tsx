@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,22 +7,24 @@ import { PanchayathManagement } from "@/components/admin/PanchayathManagement";
 import { AgentTestimonialAnalytics } from "@/components/admin/AgentTestimonialAnalytics";
 import { PerformanceReport } from "@/components/admin/PerformanceReport";
 import { TodoList } from "@/components/admin/TodoList";
+import { TaskTemplates } from "@/components/admin/TaskTemplates";
 import { ArrowLeft, Shield, Settings, BarChart3, MapPin, Users, MessageSquare, TrendingDown, ListTodo } from "lucide-react";
 import { DailyNoteCard } from "@/components/DailyNoteCard";
 import { useNavigate } from "react-router-dom";
 import { User } from "@/lib/authService";
-const TeamAdmin = () => {
-  const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState("panchayath");
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+import { TeamAdminTab, getAllowedTeamAdminTabs, hasPermission } from "@/lib/permissions";
+interface TeamAdminProps {
+  currentUser: User;
+}
 
-  // Get current user from localStorage on component mount
-  useEffect(() => {
-    const userData = localStorage.getItem('currentUser');
-    if (userData) {
-      setCurrentUser(JSON.parse(userData));
-    }
-  }, []);
+// Rendered behind RequirePermission, so currentUser always comes from a validated session
+const TeamAdmin = ({
+  currentUser
+}: TeamAdminProps) => {
+  const navigate = useNavigate();
+  const allowedTabs = getAllowedTeamAdminTabs(currentUser.role);
+  const [activeTab, setActiveTab] = useState<TeamAdminTab>(allowedTabs[0]);
+  const canSee = (tab: TeamAdminTab) => allowedTabs.includes(tab);
   return <div className="min-h-screen bg-gradient-to-br from-background to-background/95 p-3 sm:p-6">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
@@ -44,15 +46,13 @@ const TeamAdmin = () => {
         </div>
 
         {/* Daily Notes for Team Members */}
-        {currentUser && (
-          <div className="mb-6">
-            <DailyNoteCard currentUser={currentUser} />
-          </div>
-        )}
+        <div className="mb-6">
+          <DailyNoteCard currentUser={currentUser} />
+        </div>
 
         {/* Admin Navigation Cards */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4 sm:gap-6 mb-6 sm:mb-8">
-          <div className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "panchayath" ? "scale-[1.02]" : ""}`} onClick={() => setActiveTab("panchayath")}>
+          {canSee("panchayath") && <div className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "panchayath" ? "scale-[1.02]" : ""}`} onClick={() => setActiveTab("panchayath")}>
             <Card className={`h-full relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "panchayath" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
               <CardHeader className="pb-4">
                 <div className="flex flex-col items-center text-center gap-3">
@@ -69,9 +69,9 @@ const TeamAdmin = () => {
                 </div>
               </CardHeader>
             </Card>
-          </div>
+          </div>}
 
-          <div className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "analytics" ? "scale-[1.02]" : ""}`} onClick={() => setActiveTab("analytics")}>
+          {canSee("analytics") && <div className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "analytics" ? "scale-[1.02]" : ""}`} onClick={() => setActiveTab("analytics")}>
             <Card className={`h-full relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "analytics" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
               <CardHeader className="pb-4">
                 <div className="flex flex-col items-center text-center gap-3">
@@ -88,9 +88,9 @@ const TeamAdmin = () => {
                 </div>
               </CardHeader>
             </Card>
-          </div>
+          </div>}
 
-          <div className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "testimonials" ? "scale-[1.02]" : ""}`} onClick={() => setActiveTab("testimonials")}>
+          {canSee("testimonials") && <div className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "testimonials" ? "scale-[1.02]" : ""}`} onClick={() => setActiveTab("testimonials")}>
             <Card className={`h-full relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "testimonials" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
               <CardHeader className="pb-4">
                 <div className="flex flex-col items-center text-center gap-3">
@@ -107,9 +107,9 @@ const TeamAdmin = () => {
                 </div>
               </CardHeader>
             </Card>
-          </div>
+          </div>}
 
-          <div className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "performance" ? "scale-[1.02]" : ""}`} onClick={() => setActiveTab("performance")}>
+          {canSee("performance") && <div className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "performance" ? "scale-[1.02]" : ""}`} onClick={() => setActiveTab("performance")}>
             <Card className={`h-full relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "performance" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
               <CardHeader className="pb-4">
                 <div className="flex flex-col items-center text-center gap-3">
@@ -126,9 +126,9 @@ const TeamAdmin = () => {
                 </div>
               </CardHeader>
             </Card>
-          </div>
+          </div>}
 
-          <div className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "todo" ? "scale-[1.02]" : ""}`} onClick={() => setActiveTab("todo")}>
+          {canSee("todo") && <div className={`cursor-pointer transition-all duration-300 hover:scale-[1.02] ${activeTab === "todo" ? "scale-[1.02]" : ""}`} onClick={() => setActiveTab("todo")}>
             <Card className={`h-full relative overflow-hidden border-2 transition-all duration-300 ${activeTab === "todo" ? "border-primary shadow-xl bg-primary/10" : "border-border hover:border-primary/50 hover:shadow-lg"}`}>
               <CardHeader className="pb-4">
                 <div className="flex flex-col items-center text-center gap-3">
@@ -145,31 +145,34 @@ const TeamAdmin = () => {
                 </div>
               </CardHeader>
             </Card>
-          </div>
+          </div>}
         </div>
 
 
         {/* Content Area */}
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsContent value="panchayath">
-            <PanchayathManagement />
-          </TabsContent>
+        <Tabs value={activeTab} onValueChange={tab => setActiveTab(tab as TeamAdminTab)} className="w-full">
+          {canSee("panchayath") && <TabsContent value="panchayath">
+            <PanchayathManagement canDelete={hasPermission(currentUser.role, "hierarchy.delete")} />
+          </TabsContent>}
           
-          <TabsContent value="analytics">
-            <ViewAnalyze />
-          </TabsContent>
+          {canSee("analytics") && <TabsContent value="analytics">
+            <ViewAnalyze canDelete={hasPermission(currentUser.role, "hierarchy.delete")} />
+          </TabsContent>}
 
-          <TabsContent value="testimonials">
+          {canSee("testimonials") && <TabsContent value="testimonials">
             <AgentTestimonialAnalytics />
-          </TabsContent>
+          </TabsContent>}
 
-          <TabsContent value="performance">
+          {canSee("performance") && <TabsContent value="performance">
             <PerformanceReport />
-          </TabsContent>
+          </TabsContent>}
 
-          <TabsContent value="todo">
-            <TodoList />
-          </TabsContent>
+          {canSee("todo") && <TabsContent value="todo">
+            <div className="space-y-6">
+              <TodoList currentUserId={currentUser.id} canDelete={hasPermission(currentUser.role, "tasks.delete")} />
+              <TaskTemplates currentUserId={currentUser.id} />
+            </div>
+          </TabsContent>}
         </Tabs>
       </div>
     </div>;
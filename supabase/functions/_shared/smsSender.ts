@@ -0,0 +1,55 @@
+/**
+ * Pluggable SMS delivery used by edge functions.
+ * Pick an implementation with the SMS_PROVIDER secret: "console" (default) or "http".
+ */
+export interface SmsSender {
+  send(to: string, message: string): Promise<void>;
+}
+
+/**
+ * Development sender: writes the message to the function logs instead of sending it
+ */
+export class ConsoleSmsSender implements SmsSender {
+  async send(to: string, message: string): Promise<void> {
+    console.log(`[sms] to=${to} message="${message}"`);
+  }
+}
+
+/**
+ * Generic gateway sender: POSTs { to, message } as JSON to SMS_GATEWAY_URL,
+ * authenticated with SMS_GATEWAY_TOKEN as a bearer token
+ */
+export class HttpSmsSender implements SmsSender {
+  constructor(private url: string, private token?: string) {}
+
+  async send(to: string, message: string): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {})
+      },
+      body: JSON.stringify({ to, message })
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded with ${response.status}`);
+    }
+  }
+}
+
+export const getSmsSender = (): SmsSender => {
+  const provider = Deno.env.get('SMS_PROVIDER') ?? 'console';
+
+  switch (provider) {
+    case 'http': {
+      const url = Deno.env.get('SMS_GATEWAY_URL');
+      if (!url) throw new Error('SMS_GATEWAY_URL is not configured');
+      return new HttpSmsSender(url, Deno.env.get('SMS_GATEWAY_TOKEN'));
+    }
+    case 'console':
+      return new ConsoleSmsSender();
+    default:
+      throw new Error(`Unknown SMS_PROVIDER: ${provider}`);
+  }
+};
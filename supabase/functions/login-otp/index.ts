@@ -0,0 +1,59 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getSmsSender } from '../_shared/smsSender.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-agent-session, x-super-admin-session',
+};
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Business errors raised by create_login_otp, mapped to what the login screen shows
+const errorMessages: Record<string, string> = {
+  OTP_NOT_REGISTERED: 'You are not registered. Please contact administrator.',
+  OTP_COOLDOWN: 'A code was sent recently. Please wait a minute before requesting another.',
+  OTP_RATE_LIMITED: 'Too many codes requested. Please try again in an hour.',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { mobile } = await req.json();
+    if (!mobile || typeof mobile !== 'string') {
+      return json({ success: false, error: 'Mobile number required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { data, error } = await supabase.rpc('create_login_otp', { p_mobile: mobile });
+
+    if (error) {
+      const message = errorMessages[error.message];
+      if (message) {
+        return json({ success: false, code: error.message, error: message });
+      }
+      throw error;
+    }
+
+    const otp = data?.[0];
+    await getSmsSender().send(
+      mobile.trim(),
+      `${otp.code} is your Agent Management System login code. It expires in 5 minutes.`
+    );
+
+    return json({ success: true, expiresAt: otp.expires_at });
+  } catch (error) {
+    console.error('Error issuing login code:', error);
+    return json({ success: false, error: 'Could not send login code' }, 500);
+  }
+});
@@ -0,0 +1,220 @@
+-- Super admin authentication backed by the super_admins table
+-- Passwords are stored as bcrypt hashes (pgcrypto) and verified inside the database,
+-- so the browser never sees password_hash and no credentials live in the bundle.
+-- Bootstrap the first account from the SQL editor:
+--   INSERT INTO super_admins (username, name, password_hash)
+--   VALUES ('admin', 'Administrator', extensions.crypt('<password>', extensions.gen_salt('bf', 10)));
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Sessions issued after a successful super admin login
+CREATE TABLE IF NOT EXISTS public.super_admin_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  super_admin_id UUID NOT NULL REFERENCES public.super_admins(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_super_admin_sessions_admin ON public.super_admin_sessions(super_admin_id);
+
+-- No direct client access: sessions and password hashes are only reachable through the functions below
+ALTER TABLE public.super_admin_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Super admins can read own data" ON public.super_admins;
+DROP POLICY IF EXISTS "Super admins can update own data" ON public.super_admins;
+
+-- Resolve a session token to its super admin, or NULL when missing, expired or revoked
+CREATE OR REPLACE FUNCTION public.super_admin_from_token(p_token TEXT)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT s.super_admin_id
+  FROM super_admin_sessions s
+  WHERE s.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  AND s.revoked_at IS NULL
+  AND s.expires_at > now()
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.super_admin_login(p_username TEXT, p_password TEXT)
+RETURNS TABLE (
+  session_token TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  super_admin_id UUID,
+  username VARCHAR,
+  name VARCHAR
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_admin super_admins%ROWTYPE;
+  v_token TEXT;
+  v_expires TIMESTAMP WITH TIME ZONE := now() + interval '12 hours';
+BEGIN
+  SELECT * INTO v_admin FROM super_admins sa WHERE sa.username = lower(trim(p_username));
+
+  IF NOT FOUND OR v_admin.password_hash <> crypt(p_password, v_admin.password_hash) THEN
+    RETURN;
+  END IF;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO super_admin_sessions (super_admin_id, token_hash, expires_at)
+  VALUES (v_admin.id, encode(digest(v_token, 'sha256'), 'hex'), v_expires);
+
+  RETURN QUERY SELECT v_token, v_expires, v_admin.id, v_admin.username, v_admin.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.super_admin_session(p_token TEXT)
+RETURNS TABLE (
+  super_admin_id UUID,
+  username VARCHAR,
+  name VARCHAR,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT sa.id, sa.username, sa.name, s.expires_at
+  FROM super_admin_sessions s
+  JOIN super_admins sa ON sa.id = s.super_admin_id
+  WHERE s.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  AND s.revoked_at IS NULL
+  AND s.expires_at > now()
+$$;
+
+CREATE OR REPLACE FUNCTION public.super_admin_logout(p_token TEXT)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  UPDATE super_admin_sessions
+  SET revoked_at = now()
+  WHERE token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  AND revoked_at IS NULL
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_super_admins(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  username VARCHAR,
+  name VARCHAR,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF super_admin_from_token(p_token) IS NULL THEN
+    RAISE EXCEPTION 'Super admin session is invalid or expired' USING ERRCODE = '28000';
+  END IF;
+
+  RETURN QUERY SELECT sa.id, sa.username, sa.name, sa.created_at FROM super_admins sa ORDER BY sa.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_super_admin(p_token TEXT, p_username TEXT, p_name TEXT, p_password TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF super_admin_from_token(p_token) IS NULL THEN
+    RAISE EXCEPTION 'Super admin session is invalid or expired' USING ERRCODE = '28000';
+  END IF;
+
+  IF length(p_password) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO super_admins (username, name, password_hash)
+  VALUES (lower(trim(p_username)), trim(p_name), crypt(p_password, gen_salt('bf', 10)))
+  RETURNING super_admins.id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Change the caller's own password; requires the current password and revokes other sessions
+CREATE OR REPLACE FUNCTION public.change_super_admin_password(p_token TEXT, p_current_password TEXT, p_new_password TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_admin_id UUID := super_admin_from_token(p_token);
+  v_hash TEXT;
+BEGIN
+  IF v_admin_id IS NULL THEN
+    RAISE EXCEPTION 'Super admin session is invalid or expired' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT password_hash INTO v_hash FROM super_admins WHERE id = v_admin_id;
+
+  IF v_hash <> crypt(p_current_password, v_hash) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF length(p_new_password) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE super_admins SET password_hash = crypt(p_new_password, gen_salt('bf', 10)) WHERE id = v_admin_id;
+
+  UPDATE super_admin_sessions
+  SET revoked_at = now()
+  WHERE super_admin_id = v_admin_id
+  AND revoked_at IS NULL
+  AND token_hash <> encode(digest(p_token, 'sha256'), 'hex');
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Reset another super admin's password and sign them out everywhere
+CREATE OR REPLACE FUNCTION public.reset_super_admin_password(p_token TEXT, p_super_admin_id UUID, p_new_password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF super_admin_from_token(p_token) IS NULL THEN
+    RAISE EXCEPTION 'Super admin session is invalid or expired' USING ERRCODE = '28000';
+  END IF;
+
+  IF length(p_new_password) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE super_admins SET password_hash = crypt(p_new_password, gen_salt('bf', 10)) WHERE id = p_super_admin_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Super admin not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE super_admin_sessions SET revoked_at = now()
+  WHERE super_admin_id = p_super_admin_id AND revoked_at IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.super_admin_from_token(TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.super_admin_sessions IS 'Login sessions for super admins; only a SHA-256 hash of each token is stored';
@@ -0,0 +1,104 @@
+-- One-time login codes for mobile login
+-- Codes are generated and hashed in the database. Only the login-otp edge function
+-- (service role) can issue a code and hand it to the SMS sender; the browser can only verify.
+
+CREATE TABLE IF NOT EXISTS public.login_otps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mobile_number VARCHAR(15) NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_otps_mobile_created ON public.login_otps(mobile_number, created_at DESC);
+
+-- No policies: the table is only reachable through the functions below
+ALTER TABLE public.login_otps ENABLE ROW LEVEL SECURITY;
+
+-- Issue a new code for a registered mobile number.
+-- Raises OTP_NOT_REGISTERED, OTP_COOLDOWN (one code per minute) or OTP_RATE_LIMITED (five codes per hour).
+CREATE OR REPLACE FUNCTION public.create_login_otp(p_mobile TEXT)
+RETURNS TABLE (
+  code TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_mobile TEXT := trim(p_mobile);
+  v_code TEXT;
+  v_expires TIMESTAMP WITH TIME ZONE := now() + interval '5 minutes';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM get_agent_by_mobile(v_mobile))
+     AND NOT EXISTS (SELECT 1 FROM admin_members WHERE mobile = v_mobile) THEN
+    RAISE EXCEPTION 'OTP_NOT_REGISTERED' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM login_otps o
+    WHERE o.mobile_number = v_mobile AND o.created_at > now() - interval '1 minute'
+  ) THEN
+    RAISE EXCEPTION 'OTP_COOLDOWN' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM login_otps o
+    WHERE o.mobile_number = v_mobile AND o.created_at > now() - interval '1 hour'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'OTP_RATE_LIMITED' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Only the newest code for a number is ever valid
+  UPDATE login_otps o SET consumed_at = now()
+  WHERE o.mobile_number = v_mobile AND o.consumed_at IS NULL;
+
+  v_code := lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT % 1000000))::TEXT, 6, '0');
+
+  INSERT INTO login_otps (mobile_number, code_hash, expires_at)
+  VALUES (v_mobile, crypt(v_code, gen_salt('bf', 8)), v_expires);
+
+  RETURN QUERY SELECT v_code, v_expires;
+END;
+$$;
+
+-- Check a code. A code can be used once, expires after five minutes and locks after five wrong attempts.
+CREATE OR REPLACE FUNCTION public.verify_login_otp(p_mobile TEXT, p_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_otp login_otps%ROWTYPE;
+BEGIN
+  SELECT * INTO v_otp
+  FROM login_otps
+  WHERE mobile_number = trim(p_mobile)
+  AND consumed_at IS NULL
+  AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_otp.attempts >= 5 THEN
+    RETURN FALSE;
+  END IF;
+
+  IF v_otp.code_hash <> crypt(trim(p_code), v_otp.code_hash) THEN
+    UPDATE login_otps SET attempts = attempts + 1 WHERE id = v_otp.id;
+    RETURN FALSE;
+  END IF;
+
+  UPDATE login_otps SET consumed_at = now() WHERE id = v_otp.id;
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_login_otp(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_login_otp(TEXT) TO service_role;
+
+COMMENT ON TABLE public.login_otps IS 'Hashed one-time login codes sent to agents by SMS';
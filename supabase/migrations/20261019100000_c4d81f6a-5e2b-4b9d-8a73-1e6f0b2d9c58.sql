@@ -0,0 +1,161 @@
+-- Server-side sessions for agents and team members
+-- A session is issued only after a valid one-time code and is bound to the verified mobile number.
+-- The browser keeps only the opaque token; role and admin access are looked up again on every load.
+
+CREATE TABLE IF NOT EXISTS public.agent_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mobile_number VARCHAR(15) NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_sessions_mobile ON public.agent_sessions(mobile_number);
+
+-- No policies: sessions are only reachable through the functions below
+ALTER TABLE public.agent_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Sessions last 14 days at most and end after 48 hours without activity
+CREATE OR REPLACE FUNCTION public.agent_session_mobile(p_token TEXT)
+RETURNS VARCHAR
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT s.mobile_number
+  FROM agent_sessions s
+  WHERE s.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  AND s.revoked_at IS NULL
+  AND s.expires_at > now()
+  AND s.last_seen_at > now() - interval '48 hours'
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_agent_session(p_mobile TEXT, p_code TEXT, p_user_agent TEXT DEFAULT NULL)
+RETURNS TABLE (
+  session_token TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_token TEXT;
+  v_expires TIMESTAMP WITH TIME ZONE := now() + interval '14 days';
+BEGIN
+  IF NOT verify_login_otp(p_mobile, p_code) THEN
+    RETURN;
+  END IF;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO agent_sessions (mobile_number, token_hash, user_agent, expires_at)
+  VALUES (trim(p_mobile), encode(digest(v_token, 'sha256'), 'hex'), left(p_user_agent, 255), v_expires);
+
+  RETURN QUERY SELECT v_token, v_expires;
+END;
+$$;
+
+-- Validate a session and record activity, so an active session never hits the idle timeout
+CREATE OR REPLACE FUNCTION public.touch_agent_session(p_token TEXT)
+RETURNS TABLE (
+  mobile_number VARCHAR,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE agent_sessions s
+  SET last_seen_at = now()
+  WHERE s.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  AND s.revoked_at IS NULL
+  AND s.expires_at > now()
+  AND s.last_seen_at > now() - interval '48 hours'
+  RETURNING s.mobile_number, s.expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_agent_session(p_token TEXT)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  UPDATE agent_sessions
+  SET revoked_at = now()
+  WHERE token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  AND revoked_at IS NULL
+$$;
+
+-- Revoke every session for the caller's mobile number; returns how many were ended
+CREATE OR REPLACE FUNCTION public.end_all_agent_sessions(p_token TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_mobile VARCHAR := agent_session_mobile(p_token);
+  v_count INTEGER;
+BEGIN
+  IF v_mobile IS NULL THEN
+    RAISE EXCEPTION 'Session is invalid or expired' USING ERRCODE = '28000';
+  END IF;
+
+  UPDATE agent_sessions
+  SET revoked_at = now()
+  WHERE mobile_number = v_mobile
+  AND revoked_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Keep sessions attached when an agent changes their mobile number in their profile
+CREATE OR REPLACE FUNCTION public.sync_agent_session_mobile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old TEXT := to_jsonb(OLD) ->> TG_ARGV[0];
+  v_new TEXT := to_jsonb(NEW) ->> TG_ARGV[0];
+BEGIN
+  IF v_old IS DISTINCT FROM v_new THEN
+    UPDATE agent_sessions SET mobile_number = v_new
+    WHERE mobile_number = v_old AND revoked_at IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_coordinators_session_mobile AFTER UPDATE OF mobile_number ON coordinators
+    FOR EACH ROW EXECUTE FUNCTION sync_agent_session_mobile('mobile_number');
+
+CREATE TRIGGER sync_supervisors_session_mobile AFTER UPDATE OF mobile_number ON supervisors
+    FOR EACH ROW EXECUTE FUNCTION sync_agent_session_mobile('mobile_number');
+
+CREATE TRIGGER sync_group_leaders_session_mobile AFTER UPDATE OF mobile_number ON group_leaders
+    FOR EACH ROW EXECUTE FUNCTION sync_agent_session_mobile('mobile_number');
+
+CREATE TRIGGER sync_pros_session_mobile AFTER UPDATE OF mobile_number ON pros
+    FOR EACH ROW EXECUTE FUNCTION sync_agent_session_mobile('mobile_number');
+
+CREATE TRIGGER sync_admin_members_session_mobile AFTER UPDATE OF mobile ON admin_members
+    FOR EACH ROW EXECUTE FUNCTION sync_agent_session_mobile('mobile');
+
+-- Codes are now only redeemed through start_agent_session
+REVOKE ALL ON FUNCTION public.verify_login_otp(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.agent_session_mobile(TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.agent_sessions IS 'Login sessions for agents and team members; only a SHA-256 hash of each token is stored';
@@ -0,0 +1,54 @@
+-- One round trip to find every record holding a mobile number
+-- Replaces the per-table probes done from the browser at login and in the mobile duplicate check.
+-- Rows come back in login priority order: coordinator, supervisor, group leader, PRO, team member, officer.
+
+DROP FUNCTION IF EXISTS public.get_agent_by_mobile(VARCHAR);
+
+CREATE OR REPLACE FUNCTION public.get_agent_by_mobile(mobile_num VARCHAR, include_officers BOOLEAN DEFAULT false)
+RETURNS TABLE (
+  agent_id UUID,
+  agent_name VARCHAR,
+  agent_type VARCHAR,
+  source_table VARCHAR,
+  mobile_number VARCHAR,
+  panchayath_id UUID,
+  panchayath_name VARCHAR,
+  ward INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.agent_id, a.agent_name, a.agent_type, a.source_table, a.mobile_number, a.panchayath_id, a.panchayath_name, a.ward
+  FROM (
+    SELECT c.id AS agent_id, c.name::VARCHAR AS agent_name, 'coordinator'::VARCHAR AS agent_type, 'coordinators'::VARCHAR AS source_table,
+           c.mobile_number::VARCHAR AS mobile_number, c.panchayath_id, p.name::VARCHAR AS panchayath_name, c.ward, 1 AS priority
+    FROM coordinators c LEFT JOIN panchayaths p ON p.id = c.panchayath_id
+    WHERE c.mobile_number = trim(mobile_num)
+    UNION ALL
+    SELECT s.id, s.name, 'supervisor', 'supervisors', s.mobile_number, s.panchayath_id, p.name, NULL::INTEGER, 2
+    FROM supervisors s LEFT JOIN panchayaths p ON p.id = s.panchayath_id
+    WHERE s.mobile_number = trim(mobile_num)
+    UNION ALL
+    SELECT g.id, g.name, 'group_leader', 'group_leaders', g.mobile_number, g.panchayath_id, p.name, g.ward, 3
+    FROM group_leaders g LEFT JOIN panchayaths p ON p.id = g.panchayath_id
+    WHERE g.mobile_number = trim(mobile_num)
+    UNION ALL
+    SELECT r.id, r.name, 'pro', 'pros', r.mobile_number, r.panchayath_id, p.name, r.ward, 4
+    FROM pros r LEFT JOIN panchayaths p ON p.id = r.panchayath_id
+    WHERE r.mobile_number = trim(mobile_num)
+    UNION ALL
+    -- Team members record their panchayath by name only
+    SELECT m.id, m.name, 'admin_member', 'admin_members', m.mobile, NULL::UUID, m.panchayath, NULL::INTEGER, 5
+    FROM admin_members m
+    WHERE m.mobile = trim(mobile_num)
+    UNION ALL
+    SELECT o.id, o.name, 'officer', 'officers', o.mobile_number, NULL::UUID, NULL::VARCHAR, NULL::INTEGER, 6
+    FROM officers o
+    WHERE include_officers AND o.mobile_number = trim(mobile_num)
+  ) a
+  ORDER BY a.priority
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_agent_by_mobile(VARCHAR, BOOLEAN) TO anon, authenticated;
@@ -0,0 +1,162 @@
+-- Single registry of mobile numbers across officers, agents and team members
+-- Every insert or mobile change on the six tables claims the number here first, so two records can
+-- never end up sharing a number even when forms are bypassed or race each other.
+-- Conflicts are raised as MOBILE_TAKEN (SQLSTATE 23505) with a JSON detail naming the holder's
+-- table, role and panchayath, for forms to show.
+
+CREATE TABLE IF NOT EXISTS public.mobile_registry (
+  mobile_number VARCHAR(15) PRIMARY KEY,
+  source_table VARCHAR NOT NULL,
+  record_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mobile_registry_record ON public.mobile_registry(record_id);
+
+-- No policies: the registry is only maintained by the triggers below
+ALTER TABLE public.mobile_registry ENABLE ROW LEVEL SECURITY;
+
+-- Numbers already shared before the registry existed stay with their highest-priority holder;
+-- the other records keep working but cannot be moved onto another taken number.
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile_number, 'coordinators', id FROM public.coordinators
+ON CONFLICT (mobile_number) DO NOTHING;
+
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile_number, 'supervisors', id FROM public.supervisors
+ON CONFLICT (mobile_number) DO NOTHING;
+
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile_number, 'group_leaders', id FROM public.group_leaders
+ON CONFLICT (mobile_number) DO NOTHING;
+
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile_number, 'pros', id FROM public.pros
+ON CONFLICT (mobile_number) DO NOTHING;
+
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile, 'admin_members', id FROM public.admin_members
+ON CONFLICT (mobile_number) DO NOTHING;
+
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile_number, 'officers', id FROM public.officers
+ON CONFLICT (mobile_number) DO NOTHING;
+
+-- Raise the structured conflict error for a number held by another record
+CREATE OR REPLACE FUNCTION public.raise_mobile_taken(p_mobile TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_holder RECORD;
+BEGIN
+  SELECT a.source_table, a.agent_type, a.panchayath_name INTO v_holder
+  FROM mobile_registry r
+  JOIN get_agent_by_mobile(p_mobile, true) a ON a.agent_id = r.record_id
+  WHERE r.mobile_number = p_mobile;
+
+  RAISE EXCEPTION 'MOBILE_TAKEN'
+    USING ERRCODE = '23505',
+          DETAIL = json_build_object(
+            'table', v_holder.source_table,
+            'role', v_holder.agent_type,
+            'panchayath', v_holder.panchayath_name
+          )::TEXT;
+END;
+$$;
+
+-- Trigger argument: the name of the mobile column on the table
+CREATE OR REPLACE FUNCTION public.claim_mobile_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old TEXT := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ->> TG_ARGV[0] END;
+  v_new TEXT := to_jsonb(NEW) ->> TG_ARGV[0];
+BEGIN
+  IF v_old IS NOT DISTINCT FROM v_new THEN
+    RETURN NEW;
+  END IF;
+
+  -- Waits on a concurrent claim of the same number, then sees it as taken
+  INSERT INTO mobile_registry (mobile_number, source_table, record_id)
+  VALUES (v_new, TG_TABLE_NAME, NEW.id)
+  ON CONFLICT (mobile_number) DO NOTHING;
+
+  IF NOT FOUND THEN
+    PERFORM raise_mobile_taken(v_new);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    DELETE FROM mobile_registry WHERE mobile_number = v_old AND record_id = OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Free the number when its holder is deleted, handing it to any record that still shares it
+CREATE OR REPLACE FUNCTION public.release_mobile_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mobile TEXT := to_jsonb(OLD) ->> TG_ARGV[0];
+  v_next RECORD;
+BEGIN
+  DELETE FROM mobile_registry WHERE mobile_number = v_mobile AND record_id = OLD.id;
+
+  IF FOUND THEN
+    SELECT a.source_table, a.agent_id INTO v_next
+    FROM get_agent_by_mobile(v_mobile, true) a
+    LIMIT 1;
+
+    IF v_next.agent_id IS NOT NULL THEN
+      INSERT INTO mobile_registry (mobile_number, source_table, record_id)
+      VALUES (v_mobile, v_next.source_table, v_next.agent_id);
+    END IF;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER claim_coordinators_mobile BEFORE INSERT OR UPDATE OF mobile_number ON coordinators
+    FOR EACH ROW EXECUTE FUNCTION claim_mobile_number('mobile_number');
+CREATE TRIGGER release_coordinators_mobile AFTER DELETE ON coordinators
+    FOR EACH ROW EXECUTE FUNCTION release_mobile_number('mobile_number');
+
+CREATE TRIGGER claim_supervisors_mobile BEFORE INSERT OR UPDATE OF mobile_number ON supervisors
+    FOR EACH ROW EXECUTE FUNCTION claim_mobile_number('mobile_number');
+CREATE TRIGGER release_supervisors_mobile AFTER DELETE ON supervisors
+    FOR EACH ROW EXECUTE FUNCTION release_mobile_number('mobile_number');
+
+CREATE TRIGGER claim_group_leaders_mobile BEFORE INSERT OR UPDATE OF mobile_number ON group_leaders
+    FOR EACH ROW EXECUTE FUNCTION claim_mobile_number('mobile_number');
+CREATE TRIGGER release_group_leaders_mobile AFTER DELETE ON group_leaders
+    FOR EACH ROW EXECUTE FUNCTION release_mobile_number('mobile_number');
+
+CREATE TRIGGER claim_pros_mobile BEFORE INSERT OR UPDATE OF mobile_number ON pros
+    FOR EACH ROW EXECUTE FUNCTION claim_mobile_number('mobile_number');
+CREATE TRIGGER release_pros_mobile AFTER DELETE ON pros
+    FOR EACH ROW EXECUTE FUNCTION release_mobile_number('mobile_number');
+
+CREATE TRIGGER claim_admin_members_mobile BEFORE INSERT OR UPDATE OF mobile ON admin_members
+    FOR EACH ROW EXECUTE FUNCTION claim_mobile_number('mobile');
+CREATE TRIGGER release_admin_members_mobile AFTER DELETE ON admin_members
+    FOR EACH ROW EXECUTE FUNCTION release_mobile_number('mobile');
+
+CREATE TRIGGER claim_officers_mobile BEFORE INSERT OR UPDATE OF mobile_number ON officers
+    FOR EACH ROW EXECUTE FUNCTION claim_mobile_number('mobile_number');
+CREATE TRIGGER release_officers_mobile AFTER DELETE ON officers
+    FOR EACH ROW EXECUTE FUNCTION release_mobile_number('mobile_number');
+
+REVOKE ALL ON FUNCTION public.raise_mobile_taken(TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.mobile_registry IS 'One row per mobile number in use, pointing at the officer, agent or team member that holds it';
@@ -0,0 +1,286 @@
+-- Row-level security scoped to the caller's session, panchayath and place in the hierarchy
+-- The app has no Supabase Auth users: every request runs as anon and identifies itself with the
+-- x-agent-session and/or x-super-admin-session headers set by the client. Policies resolve those
+-- tokens through the SECURITY DEFINER helpers below, which read the tables without RLS so that
+-- policies never recurse into each other.
+--
+-- Access summary
+--   super admins and team members (admin_members): everything, as before
+--   coordinators: every agent, note and testimonial in their panchayath; agents there are editable
+--   supervisors: themselves, their coordinator, their group leaders and those group leaders' PROs
+--   group leaders: themselves, their supervisor and their PROs
+--   PROs: themselves and their group leader
+--   everyone signed in: panchayaths, supervisor wards, team directory and testimonial questions
+--   notes: own notes, plus read access to notes of visible agents
+--   tasks: only tasks assigned, reassigned to or created by one of the caller's own records
+
+-- Session helpers
+
+CREATE OR REPLACE FUNCTION public.request_header(p_name TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT NULLIF(current_setting('request.headers', true), '')::json ->> p_name
+$$;
+
+CREATE OR REPLACE FUNCTION public.session_mobile()
+RETURNS VARCHAR
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT agent_session_mobile(request_header('x-agent-session'))
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_super_admin()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT super_admin_from_token(request_header('x-super-admin-session')) IS NOT NULL
+$$;
+
+-- Team members manage every panchayath; super admins can do anything a team member can
+CREATE OR REPLACE FUNCTION public.is_team_admin()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_super_admin()
+    OR EXISTS (SELECT 1 FROM admin_members WHERE mobile = session_mobile())
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_session()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT session_mobile() IS NOT NULL OR is_super_admin()
+$$;
+
+-- Records (in any agent table) that belong to the caller's mobile number
+CREATE OR REPLACE FUNCTION public.session_agent_ids()
+RETURNS SETOF UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT agent_id FROM get_agent_by_mobile(session_mobile())
+$$;
+
+CREATE OR REPLACE FUNCTION public.session_coordinator_panchayaths()
+RETURNS SETOF UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT panchayath_id FROM coordinators WHERE mobile_number = session_mobile()
+$$;
+
+-- Every agent record the caller may see: their own, their subtree and their direct superior
+CREATE OR REPLACE FUNCTION public.session_visible_agent_ids()
+RETURNS SETOF UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH me AS (
+    SELECT agent_id, agent_type FROM get_agent_by_mobile(session_mobile())
+  ),
+  my_panchayaths AS (
+    SELECT panchayath_id FROM coordinators WHERE id IN (SELECT agent_id FROM me WHERE agent_type = 'coordinator')
+  ),
+  my_supervisors AS (
+    SELECT id, coordinator_id FROM supervisors WHERE id IN (SELECT agent_id FROM me WHERE agent_type = 'supervisor')
+  ),
+  my_group_leaders AS (
+    SELECT id, supervisor_id FROM group_leaders WHERE id IN (SELECT agent_id FROM me WHERE agent_type = 'group_leader')
+  ),
+  my_pros AS (
+    SELECT id, group_leader_id FROM pros WHERE id IN (SELECT agent_id FROM me WHERE agent_type = 'pro')
+  ),
+  led_group_leaders AS (
+    SELECT id FROM group_leaders WHERE supervisor_id IN (SELECT id FROM my_supervisors)
+  )
+  SELECT agent_id FROM me
+  -- Coordinators: the whole panchayath
+  UNION SELECT id FROM coordinators WHERE panchayath_id IN (SELECT panchayath_id FROM my_panchayaths)
+  UNION SELECT id FROM supervisors WHERE panchayath_id IN (SELECT panchayath_id FROM my_panchayaths)
+  UNION SELECT id FROM group_leaders WHERE panchayath_id IN (SELECT panchayath_id FROM my_panchayaths)
+  UNION SELECT id FROM pros WHERE panchayath_id IN (SELECT panchayath_id FROM my_panchayaths)
+  -- Supervisors: their coordinator, group leaders and those group leaders' PROs
+  UNION SELECT coordinator_id FROM my_supervisors
+  UNION SELECT id FROM led_group_leaders
+  UNION SELECT id FROM pros WHERE group_leader_id IN (SELECT id FROM led_group_leaders)
+  -- Group leaders: their supervisor and PROs
+  UNION SELECT supervisor_id FROM my_group_leaders
+  UNION SELECT id FROM pros WHERE group_leader_id IN (SELECT id FROM my_group_leaders)
+  -- PROs: their group leader
+  UNION SELECT group_leader_id FROM my_pros
+$$;
+
+-- Drop every existing policy on the app tables, including the ones created by hand-run scripts
+
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename IN (
+      'officers', 'panchayaths', 'coordinators', 'supervisors', 'supervisor_wards', 'group_leaders', 'pros',
+      'admin_teams', 'admin_members', 'daily_notes', 'todos', 'testimonial_questions', 'testimonial_responses'
+    )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', r.policyname, r.tablename);
+  END LOOP;
+END;
+$$;
+
+-- Agent tables
+
+CREATE POLICY "Visible agents can be read" ON coordinators FOR SELECT TO anon, authenticated
+  USING (is_team_admin() OR id IN (SELECT session_visible_agent_ids()));
+CREATE POLICY "Admins and panchayath coordinators can add coordinators" ON coordinators FOR INSERT TO anon, authenticated
+  WITH CHECK (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()));
+CREATE POLICY "Admins, panchayath coordinators and the agent can update" ON coordinators FOR UPDATE TO anon, authenticated
+  USING (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()) OR id IN (SELECT session_agent_ids()))
+  WITH CHECK (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()) OR id IN (SELECT session_agent_ids()));
+CREATE POLICY "Admins and panchayath coordinators can delete coordinators" ON coordinators FOR DELETE TO anon, authenticated
+  USING (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()));
+
+CREATE POLICY "Visible agents can be read" ON supervisors FOR SELECT TO anon, authenticated
+  USING (is_team_admin() OR id IN (SELECT session_visible_agent_ids()));
+CREATE POLICY "Admins and panchayath coordinators can add supervisors" ON supervisors FOR INSERT TO anon, authenticated
+  WITH CHECK (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()));
+CREATE POLICY "Admins, panchayath coordinators and the agent can update" ON supervisors FOR UPDATE TO anon, authenticated
+  USING (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()) OR id IN (SELECT session_agent_ids()))
+  WITH CHECK (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()) OR id IN (SELECT session_agent_ids()));
+CREATE POLICY "Admins and panchayath coordinators can delete supervisors" ON supervisors FOR DELETE TO anon, authenticated
+  USING (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()));
+
+CREATE POLICY "Visible agents can be read" ON group_leaders FOR SELECT TO anon, authenticated
+  USING (is_team_admin() OR id IN (SELECT session_visible_agent_ids()));
+CREATE POLICY "Admins and panchayath coordinators can add group leaders" ON group_leaders FOR INSERT TO anon, authenticated
+  WITH CHECK (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()));
+CREATE POLICY "Admins, panchayath coordinators and the agent can update" ON group_leaders FOR UPDATE TO anon, authenticated
+  USING (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()) OR id IN (SELECT session_agent_ids()))
+  WITH CHECK (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()) OR id IN (SELECT session_agent_ids()));
+CREATE POLICY "Admins and panchayath coordinators can delete group leaders" ON group_leaders FOR DELETE TO anon, authenticated
+  USING (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()));
+
+CREATE POLICY "Visible agents can be read" ON pros FOR SELECT TO anon, authenticated
+  USING (is_team_admin() OR id IN (SELECT session_visible_agent_ids()));
+CREATE POLICY "Admins and panchayath coordinators can add PROs" ON pros FOR INSERT TO anon, authenticated
+  WITH CHECK (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()));
+CREATE POLICY "Admins, panchayath coordinators and the agent can update" ON pros FOR UPDATE TO anon, authenticated
+  USING (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()) OR id IN (SELECT session_agent_ids()))
+  WITH CHECK (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()) OR id IN (SELECT session_agent_ids()));
+CREATE POLICY "Admins and panchayath coordinators can delete PROs" ON pros FOR DELETE TO anon, authenticated
+  USING (is_team_admin() OR panchayath_id IN (SELECT session_coordinator_panchayaths()));
+
+CREATE POLICY "Signed-in users can read supervisor wards" ON supervisor_wards FOR SELECT TO anon, authenticated
+  USING (has_session());
+CREATE POLICY "Admins and panchayath coordinators manage supervisor wards" ON supervisor_wards FOR ALL TO anon, authenticated
+  USING (is_team_admin() OR supervisor_id IN (
+    SELECT id FROM supervisors WHERE panchayath_id IN (SELECT session_coordinator_panchayaths())
+  ))
+  WITH CHECK (is_team_admin() OR supervisor_id IN (
+    SELECT id FROM supervisors WHERE panchayath_id IN (SELECT session_coordinator_panchayaths())
+  ));
+
+-- Reference data
+
+CREATE POLICY "Signed-in users can read panchayaths" ON panchayaths FOR SELECT TO anon, authenticated
+  USING (has_session());
+CREATE POLICY "Admins manage panchayaths" ON panchayaths FOR ALL TO anon, authenticated
+  USING (is_team_admin())
+  WITH CHECK (is_team_admin());
+
+CREATE POLICY "Admins manage officers" ON officers FOR ALL TO anon, authenticated
+  USING (is_team_admin())
+  WITH CHECK (is_team_admin());
+
+CREATE POLICY "Signed-in users can read testimonial questions" ON testimonial_questions FOR SELECT TO anon, authenticated
+  USING (has_session());
+CREATE POLICY "Super admins manage testimonial questions" ON testimonial_questions FOR ALL TO anon, authenticated
+  USING (is_super_admin())
+  WITH CHECK (is_super_admin());
+
+-- Team directory: readable by everyone signed in, so tasks can show who assigned them
+
+CREATE POLICY "Signed-in users can read admin teams" ON admin_teams FOR SELECT TO anon, authenticated
+  USING (has_session());
+CREATE POLICY "Super admins manage admin teams" ON admin_teams FOR ALL TO anon, authenticated
+  USING (is_super_admin())
+  WITH CHECK (is_super_admin());
+
+CREATE POLICY "Signed-in users can read admin members" ON admin_members FOR SELECT TO anon, authenticated
+  USING (has_session());
+CREATE POLICY "Super admins manage admin members" ON admin_members FOR ALL TO anon, authenticated
+  USING (is_super_admin())
+  WITH CHECK (is_super_admin());
+CREATE POLICY "Admin members can update their own record" ON admin_members FOR UPDATE TO anon, authenticated
+  USING (id IN (SELECT session_agent_ids()))
+  WITH CHECK (id IN (SELECT session_agent_ids()));
+
+-- Daily notes
+
+CREATE POLICY "Own and visible agents' notes can be read" ON daily_notes FOR SELECT TO anon, authenticated
+  USING (
+    is_team_admin()
+    OR mobile_number = session_mobile()
+    OR user_id IN (SELECT session_visible_agent_ids())
+  );
+CREATE POLICY "Agents write their own notes" ON daily_notes FOR ALL TO anon, authenticated
+  USING (mobile_number = session_mobile() AND user_id IN (SELECT session_agent_ids()))
+  WITH CHECK (mobile_number = session_mobile() AND user_id IN (SELECT session_agent_ids()));
+
+-- Tasks
+
+CREATE POLICY "Admins manage all tasks" ON todos FOR ALL TO anon, authenticated
+  USING (is_team_admin())
+  WITH CHECK (is_team_admin());
+CREATE POLICY "Agents read their own tasks" ON todos FOR SELECT TO anon, authenticated
+  USING (
+    assigned_to IN (SELECT session_agent_ids())
+    OR reassigned_to_coordinator IN (SELECT session_agent_ids())
+    OR reassigned_to_supervisor IN (SELECT session_agent_ids())
+    OR created_by IN (SELECT session_agent_ids())
+  );
+CREATE POLICY "Agents update their own tasks" ON todos FOR UPDATE TO anon, authenticated
+  USING (
+    assigned_to IN (SELECT session_agent_ids())
+    OR reassigned_to_coordinator IN (SELECT session_agent_ids())
+    OR reassigned_to_supervisor IN (SELECT session_agent_ids())
+  )
+  WITH CHECK (
+    assigned_to IN (SELECT session_agent_ids())
+    OR reassigned_to_coordinator IN (SELECT session_agent_ids())
+    OR reassigned_to_supervisor IN (SELECT session_agent_ids())
+  );
+
+-- Testimonials
+
+CREATE POLICY "Signed-in users can record testimonials" ON testimonial_responses FOR INSERT TO anon, authenticated
+  WITH CHECK (has_session());
+CREATE POLICY "Admins and visible agents' testimonials can be read" ON testimonial_responses FOR SELECT TO anon, authenticated
+  USING (is_team_admin() OR agent_id IN (SELECT session_visible_agent_ids()));
+CREATE POLICY "Admins manage testimonials" ON testimonial_responses FOR ALL TO anon, authenticated
+  USING (is_team_admin())
+  WITH CHECK (is_team_admin());
+
+-- The hierarchy view must apply the policies of whoever queries it
+ALTER VIEW public.hierarchy_view SET (security_invoker = true);
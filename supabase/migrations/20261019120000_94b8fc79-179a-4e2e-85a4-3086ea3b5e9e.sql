@@ -0,0 +1,145 @@
+-- Append-only audit trail of every change to the hierarchy, tasks and notes
+-- Rows are written by triggers only. The actor is taken from the session headers of the request
+-- (see the row-level security migration); changes made with the service role are recorded as system.
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  table_name VARCHAR NOT NULL,
+  record_id UUID,
+  action VARCHAR NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data JSONB,
+  new_data JSONB,
+  actor_type VARCHAR NOT NULL CHECK (actor_type IN ('agent', 'super_admin', 'system')),
+  actor_mobile VARCHAR(15),
+  actor_super_admin_id UUID,
+  actor_label TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON public.audit_log(table_name, record_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can read the audit log" ON public.audit_log FOR SELECT TO anon, authenticated
+  USING (is_super_admin());
+
+-- Entries can never be changed or removed, not even by the table owner
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only BEFORE UPDATE OR DELETE ON public.audit_log
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate BEFORE TRUNCATE ON public.audit_log
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION public.record_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_mobile VARCHAR := session_mobile();
+  v_super_admin_id UUID := super_admin_from_token(request_header('x-super-admin-session'));
+  v_label TEXT;
+BEGIN
+  -- Saving a form often rewrites unchanged rows; only real changes are worth an entry
+  IF TG_OP = 'UPDATE' AND (v_old - 'updated_at') = (v_new - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_super_admin_id IS NOT NULL THEN
+    SELECT 'Super admin ' || username INTO v_label FROM super_admins WHERE id = v_super_admin_id;
+  ELSIF v_mobile IS NOT NULL THEN
+    SELECT agent_name || ' (' || v_mobile || ')' INTO v_label FROM get_agent_by_mobile(v_mobile) LIMIT 1;
+  END IF;
+
+  INSERT INTO audit_log (
+    table_name, record_id, action, old_data, new_data,
+    actor_type, actor_mobile, actor_super_admin_id, actor_label
+  )
+  VALUES (
+    TG_TABLE_NAME,
+    (COALESCE(v_new, v_old) ->> 'id')::UUID,
+    TG_OP,
+    v_old,
+    v_new,
+    CASE
+      WHEN v_super_admin_id IS NOT NULL THEN 'super_admin'
+      WHEN v_mobile IS NOT NULL THEN 'agent'
+      ELSE 'system'
+    END,
+    v_mobile,
+    v_super_admin_id,
+    COALESCE(v_label, v_mobile, 'System')
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_panchayaths AFTER INSERT OR UPDATE OR DELETE ON panchayaths
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+CREATE TRIGGER audit_coordinators AFTER INSERT OR UPDATE OR DELETE ON coordinators
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+CREATE TRIGGER audit_supervisors AFTER INSERT OR UPDATE OR DELETE ON supervisors
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+CREATE TRIGGER audit_supervisor_wards AFTER INSERT OR UPDATE OR DELETE ON supervisor_wards
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+CREATE TRIGGER audit_group_leaders AFTER INSERT OR UPDATE OR DELETE ON group_leaders
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+CREATE TRIGGER audit_pros AFTER INSERT OR UPDATE OR DELETE ON pros
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+CREATE TRIGGER audit_todos AFTER INSERT OR UPDATE OR DELETE ON todos
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+CREATE TRIGGER audit_daily_notes AFTER INSERT OR UPDATE OR DELETE ON daily_notes
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+CREATE TRIGGER audit_admin_members AFTER INSERT OR UPDATE OR DELETE ON admin_members
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+-- Search for the audit viewer; row-level security limits results to super admins
+CREATE OR REPLACE FUNCTION public.search_audit_log(
+  p_table_name TEXT DEFAULT NULL,
+  p_action TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF public.audit_log
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM audit_log a
+  WHERE (p_table_name IS NULL OR a.table_name = p_table_name)
+  AND (p_action IS NULL OR a.action = p_action)
+  AND (p_from IS NULL OR a.created_at >= p_from)
+  AND (p_to IS NULL OR a.created_at < p_to)
+  AND (
+    p_search IS NULL OR p_search = ''
+    OR a.actor_label ILIKE '%' || p_search || '%'
+    OR a.record_id::TEXT = p_search
+    OR a.old_data::TEXT ILIKE '%' || p_search || '%'
+    OR a.new_data::TEXT ILIKE '%' || p_search || '%'
+  )
+  ORDER BY a.created_at DESC, a.id DESC
+  LIMIT LEAST(p_limit, 200)
+  OFFSET p_offset
+$$;
+
+REVOKE ALL ON FUNCTION public.record_audit() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.audit_log IS 'Append-only record of changes to the hierarchy, tasks and notes, written by record_audit triggers';
@@ -0,0 +1,427 @@
+-- Soft deletes with a recorded reason, restorable by super admins for a limited time
+-- Panchayaths, agents and tasks are no longer deleted from the browser. soft_delete_records checks
+-- the caller's role, records who deleted what and why in deletions, and hides the rows (and the
+-- rows that would have been removed by ON DELETE CASCADE) behind deleted_at. A super admin can
+-- bring a whole deletion back with restore_deletion until the retention window has passed.
+
+CREATE OR REPLACE FUNCTION public.soft_delete_retention()
+RETURNS INTERVAL
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT INTERVAL '30 days'
+$$;
+
+CREATE TABLE IF NOT EXISTS public.deletions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name VARCHAR NOT NULL,
+  record_ids UUID[] NOT NULL,
+  record_labels TEXT[] NOT NULL,
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  deleted_by TEXT NOT NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  restored_by TEXT,
+  restored_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_deletions_deleted_at ON public.deletions(deleted_at DESC);
+
+ALTER TABLE public.deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can read deletions" ON public.deletions FOR SELECT TO anon, authenticated
+  USING (is_super_admin());
+
+ALTER TABLE public.panchayaths
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deletion_id UUID REFERENCES public.deletions(id);
+ALTER TABLE public.coordinators
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deletion_id UUID REFERENCES public.deletions(id);
+ALTER TABLE public.supervisors
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deletion_id UUID REFERENCES public.deletions(id);
+ALTER TABLE public.group_leaders
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deletion_id UUID REFERENCES public.deletions(id);
+ALTER TABLE public.pros
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deletion_id UUID REFERENCES public.deletions(id);
+ALTER TABLE public.todos
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deletion_id UUID REFERENCES public.deletions(id);
+
+CREATE INDEX IF NOT EXISTS idx_panchayaths_deletion ON public.panchayaths(deletion_id) WHERE deletion_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_coordinators_deletion ON public.coordinators(deletion_id) WHERE deletion_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_supervisors_deletion ON public.supervisors(deletion_id) WHERE deletion_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_group_leaders_deletion ON public.group_leaders(deletion_id) WHERE deletion_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pros_deletion ON public.pros(deletion_id) WHERE deletion_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_todos_deletion ON public.todos(deletion_id) WHERE deletion_id IS NOT NULL;
+
+-- Deleted rows are invisible to the app, can only be deleted through soft_delete_records and
+-- can only be brought back through restore_deletion. These restrictive policies are ANDed with
+-- the access policies from the row-level security migration.
+
+CREATE POLICY "Deleted panchayaths are hidden" ON panchayaths AS RESTRICTIVE FOR ALL TO anon, authenticated
+  USING (deleted_at IS NULL) WITH CHECK (deleted_at IS NULL AND deletion_id IS NULL);
+CREATE POLICY "Panchayaths are soft deleted" ON panchayaths AS RESTRICTIVE FOR DELETE TO anon, authenticated
+  USING (false);
+
+CREATE POLICY "Deleted coordinators are hidden" ON coordinators AS RESTRICTIVE FOR ALL TO anon, authenticated
+  USING (deleted_at IS NULL) WITH CHECK (deleted_at IS NULL AND deletion_id IS NULL);
+CREATE POLICY "Coordinators are soft deleted" ON coordinators AS RESTRICTIVE FOR DELETE TO anon, authenticated
+  USING (false);
+
+CREATE POLICY "Deleted supervisors are hidden" ON supervisors AS RESTRICTIVE FOR ALL TO anon, authenticated
+  USING (deleted_at IS NULL) WITH CHECK (deleted_at IS NULL AND deletion_id IS NULL);
+CREATE POLICY "Supervisors are soft deleted" ON supervisors AS RESTRICTIVE FOR DELETE TO anon, authenticated
+  USING (false);
+
+CREATE POLICY "Deleted group leaders are hidden" ON group_leaders AS RESTRICTIVE FOR ALL TO anon, authenticated
+  USING (deleted_at IS NULL) WITH CHECK (deleted_at IS NULL AND deletion_id IS NULL);
+CREATE POLICY "Group leaders are soft deleted" ON group_leaders AS RESTRICTIVE FOR DELETE TO anon, authenticated
+  USING (false);
+
+CREATE POLICY "Deleted PROs are hidden" ON pros AS RESTRICTIVE FOR ALL TO anon, authenticated
+  USING (deleted_at IS NULL) WITH CHECK (deleted_at IS NULL AND deletion_id IS NULL);
+CREATE POLICY "PROs are soft deleted" ON pros AS RESTRICTIVE FOR DELETE TO anon, authenticated
+  USING (false);
+
+CREATE POLICY "Deleted tasks are hidden" ON todos AS RESTRICTIVE FOR ALL TO anon, authenticated
+  USING (deleted_at IS NULL) WITH CHECK (deleted_at IS NULL AND deletion_id IS NULL);
+CREATE POLICY "Tasks are soft deleted" ON todos AS RESTRICTIVE FOR DELETE TO anon, authenticated
+  USING (false);
+
+-- The helpers below bypass row-level security, so they have to skip deleted rows themselves.
+-- A deleted agent can no longer sign in or act as a coordinator.
+
+CREATE OR REPLACE FUNCTION public.get_agent_by_mobile(mobile_num VARCHAR, include_officers BOOLEAN DEFAULT false)
+RETURNS TABLE (
+  agent_id UUID,
+  agent_name VARCHAR,
+  agent_type VARCHAR,
+  source_table VARCHAR,
+  mobile_number VARCHAR,
+  panchayath_id UUID,
+  panchayath_name VARCHAR,
+  ward INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.agent_id, a.agent_name, a.agent_type, a.source_table, a.mobile_number, a.panchayath_id, a.panchayath_name, a.ward
+  FROM (
+    SELECT c.id AS agent_id, c.name::VARCHAR AS agent_name, 'coordinator'::VARCHAR AS agent_type, 'coordinators'::VARCHAR AS source_table,
+           c.mobile_number::VARCHAR AS mobile_number, c.panchayath_id, p.name::VARCHAR AS panchayath_name, c.ward, 1 AS priority
+    FROM coordinators c LEFT JOIN panchayaths p ON p.id = c.panchayath_id
+    WHERE c.mobile_number = trim(mobile_num) AND c.deleted_at IS NULL
+    UNION ALL
+    SELECT s.id, s.name, 'supervisor', 'supervisors', s.mobile_number, s.panchayath_id, p.name, NULL::INTEGER, 2
+    FROM supervisors s LEFT JOIN panchayaths p ON p.id = s.panchayath_id
+    WHERE s.mobile_number = trim(mobile_num) AND s.deleted_at IS NULL
+    UNION ALL
+    SELECT g.id, g.name, 'group_leader', 'group_leaders', g.mobile_number, g.panchayath_id, p.name, g.ward, 3
+    FROM group_leaders g LEFT JOIN panchayaths p ON p.id = g.panchayath_id
+    WHERE g.mobile_number = trim(mobile_num) AND g.deleted_at IS NULL
+    UNION ALL
+    SELECT r.id, r.name, 'pro', 'pros', r.mobile_number, r.panchayath_id, p.name, r.ward, 4
+    FROM pros r LEFT JOIN panchayaths p ON p.id = r.panchayath_id
+    WHERE r.mobile_number = trim(mobile_num) AND r.deleted_at IS NULL
+    UNION ALL
+    -- Team members record their panchayath by name only
+    SELECT m.id, m.name, 'admin_member', 'admin_members', m.mobile, NULL::UUID, m.panchayath, NULL::INTEGER, 5
+    FROM admin_members m
+    WHERE m.mobile = trim(mobile_num)
+    UNION ALL
+    SELECT o.id, o.name, 'officer', 'officers', o.mobile_number, NULL::UUID, NULL::VARCHAR, NULL::INTEGER, 6
+    FROM officers o
+    WHERE include_officers AND o.mobile_number = trim(mobile_num)
+  ) a
+  ORDER BY a.priority
+$$;
+
+CREATE OR REPLACE FUNCTION public.session_coordinator_panchayaths()
+RETURNS SETOF UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT panchayath_id FROM coordinators WHERE mobile_number = session_mobile() AND deleted_at IS NULL
+$$;
+
+-- Who is making the current request, as shown in the audit log and deletion history
+CREATE OR REPLACE FUNCTION public.session_actor_label()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mobile VARCHAR := session_mobile();
+  v_super_admin_id UUID := super_admin_from_token(request_header('x-super-admin-session'));
+  v_label TEXT;
+BEGIN
+  IF v_super_admin_id IS NOT NULL THEN
+    SELECT 'Super admin ' || username INTO v_label FROM super_admins WHERE id = v_super_admin_id;
+  ELSIF v_mobile IS NOT NULL THEN
+    SELECT agent_name || ' (' || v_mobile || ')' INTO v_label FROM get_agent_by_mobile(v_mobile) LIMIT 1;
+  END IF;
+
+  RETURN COALESCE(v_label, v_mobile, 'System');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_mobile VARCHAR := session_mobile();
+  v_super_admin_id UUID := super_admin_from_token(request_header('x-super-admin-session'));
+BEGIN
+  -- Saving a form often rewrites unchanged rows; only real changes are worth an entry
+  IF TG_OP = 'UPDATE' AND (v_old - 'updated_at') = (v_new - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO audit_log (
+    table_name, record_id, action, old_data, new_data,
+    actor_type, actor_mobile, actor_super_admin_id, actor_label
+  )
+  VALUES (
+    TG_TABLE_NAME,
+    (COALESCE(v_new, v_old) ->> 'id')::UUID,
+    TG_OP,
+    v_old,
+    v_new,
+    CASE
+      WHEN v_super_admin_id IS NOT NULL THEN 'super_admin'
+      WHEN v_mobile IS NOT NULL THEN 'agent'
+      ELSE 'system'
+    END,
+    v_mobile,
+    v_super_admin_id,
+    session_actor_label()
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Delete records of one table, together with everything that hangs off them in the hierarchy.
+-- Raises PERMISSION_DENIED (42501) when the caller may not delete every record given,
+-- DELETE_REASON_REQUIRED when no reason is given and NOT_FOUND when nothing was left to delete.
+CREATE OR REPLACE FUNCTION public.soft_delete_records(p_table TEXT, p_ids UUID[], p_reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deletion_id UUID := gen_random_uuid();
+  v_allowed BOOLEAN;
+  v_labels TEXT[];
+BEGIN
+  IF p_table NOT IN ('panchayaths', 'coordinators', 'supervisors', 'group_leaders', 'pros', 'todos') THEN
+    RAISE EXCEPTION 'Table % does not support soft deletes', p_table;
+  END IF;
+
+  IF btrim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'DELETE_REASON_REQUIRED';
+  END IF;
+
+  -- Same rule as the delete policies these deletes replace: team admins anywhere,
+  -- coordinators for agents in their own panchayath
+  IF is_team_admin() THEN
+    v_allowed := true;
+  ELSIF p_table IN ('coordinators', 'supervisors', 'group_leaders', 'pros') THEN
+    EXECUTE format(
+      'SELECT bool_and(panchayath_id IN (SELECT session_coordinator_panchayaths())) FROM %I WHERE id = ANY($1)',
+      p_table
+    ) INTO v_allowed USING p_ids;
+  END IF;
+
+  IF NOT COALESCE(v_allowed, false) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  EXECUTE format(
+    'SELECT array_agg(%I::TEXT ORDER BY %I) FROM %I WHERE id = ANY($1) AND deleted_at IS NULL',
+    CASE WHEN p_table = 'todos' THEN 'text' ELSE 'name' END,
+    CASE WHEN p_table = 'todos' THEN 'text' ELSE 'name' END,
+    p_table
+  ) INTO v_labels USING p_ids;
+
+  IF v_labels IS NULL THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  INSERT INTO deletions (id, table_name, record_ids, record_labels, reason, deleted_by)
+  VALUES (v_deletion_id, p_table, p_ids, v_labels, btrim(p_reason), session_actor_label());
+
+  EXECUTE format(
+    'UPDATE %I SET deleted_at = now(), deletion_id = $1 WHERE id = ANY($2) AND deleted_at IS NULL',
+    p_table
+  ) USING v_deletion_id, p_ids;
+
+  -- Follow what ON DELETE CASCADE would have removed, top of the hierarchy first
+  UPDATE coordinators SET deleted_at = now(), deletion_id = v_deletion_id
+  WHERE deleted_at IS NULL
+  AND panchayath_id IN (SELECT id FROM panchayaths WHERE deletion_id = v_deletion_id);
+
+  UPDATE supervisors SET deleted_at = now(), deletion_id = v_deletion_id
+  WHERE deleted_at IS NULL
+  AND (
+    panchayath_id IN (SELECT id FROM panchayaths WHERE deletion_id = v_deletion_id)
+    OR coordinator_id IN (SELECT id FROM coordinators WHERE deletion_id = v_deletion_id)
+  );
+
+  UPDATE group_leaders SET deleted_at = now(), deletion_id = v_deletion_id
+  WHERE deleted_at IS NULL
+  AND (
+    panchayath_id IN (SELECT id FROM panchayaths WHERE deletion_id = v_deletion_id)
+    OR supervisor_id IN (SELECT id FROM supervisors WHERE deletion_id = v_deletion_id)
+  );
+
+  UPDATE pros SET deleted_at = now(), deletion_id = v_deletion_id
+  WHERE deleted_at IS NULL
+  AND (
+    panchayath_id IN (SELECT id FROM panchayaths WHERE deletion_id = v_deletion_id)
+    OR group_leader_id IN (SELECT id FROM group_leaders WHERE deletion_id = v_deletion_id)
+  );
+
+  -- Deleted agents give up their mobile numbers; restore_deletion claims them back
+  DELETE FROM mobile_registry
+  WHERE record_id IN (
+    SELECT id FROM coordinators WHERE deletion_id = v_deletion_id
+    UNION ALL SELECT id FROM supervisors WHERE deletion_id = v_deletion_id
+    UNION ALL SELECT id FROM group_leaders WHERE deletion_id = v_deletion_id
+    UNION ALL SELECT id FROM pros WHERE deletion_id = v_deletion_id
+  );
+
+  RETURN v_deletion_id;
+END;
+$$;
+
+-- Bring back every record of a deletion. Super admins only, within the retention window.
+-- Raises RESTORE_WINDOW_EXPIRED, PARENT_DELETED when a record's panchayath or superior was
+-- deleted separately and is still gone, and MOBILE_TAKEN when an agent's number has been reused.
+CREATE OR REPLACE FUNCTION public.restore_deletion(p_deletion_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deletion deletions%ROWTYPE;
+  v_agent RECORD;
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_deletion FROM deletions WHERE id = p_deletion_id AND restored_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF v_deletion.deleted_at < now() - soft_delete_retention() THEN
+    RAISE EXCEPTION 'RESTORE_WINDOW_EXPIRED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM coordinators c JOIN panchayaths p ON p.id = c.panchayath_id
+    WHERE c.deletion_id = p_deletion_id AND p.deletion_id IS DISTINCT FROM p_deletion_id AND p.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 1 FROM supervisors s
+    JOIN panchayaths p ON p.id = s.panchayath_id
+    JOIN coordinators c ON c.id = s.coordinator_id
+    WHERE s.deletion_id = p_deletion_id
+    AND (
+      (p.deletion_id IS DISTINCT FROM p_deletion_id AND p.deleted_at IS NOT NULL)
+      OR (c.deletion_id IS DISTINCT FROM p_deletion_id AND c.deleted_at IS NOT NULL)
+    )
+    UNION ALL
+    SELECT 1 FROM group_leaders g
+    JOIN panchayaths p ON p.id = g.panchayath_id
+    JOIN supervisors s ON s.id = g.supervisor_id
+    WHERE g.deletion_id = p_deletion_id
+    AND (
+      (p.deletion_id IS DISTINCT FROM p_deletion_id AND p.deleted_at IS NOT NULL)
+      OR (s.deletion_id IS DISTINCT FROM p_deletion_id AND s.deleted_at IS NOT NULL)
+    )
+    UNION ALL
+    SELECT 1 FROM pros r
+    JOIN panchayaths p ON p.id = r.panchayath_id
+    JOIN group_leaders g ON g.id = r.group_leader_id
+    WHERE r.deletion_id = p_deletion_id
+    AND (
+      (p.deletion_id IS DISTINCT FROM p_deletion_id AND p.deleted_at IS NOT NULL)
+      OR (g.deletion_id IS DISTINCT FROM p_deletion_id AND g.deleted_at IS NOT NULL)
+    )
+  ) THEN
+    RAISE EXCEPTION 'PARENT_DELETED';
+  END IF;
+
+  FOR v_agent IN
+    SELECT id, mobile_number, 'coordinators' AS source_table FROM coordinators WHERE deletion_id = p_deletion_id
+    UNION ALL SELECT id, mobile_number, 'supervisors' FROM supervisors WHERE deletion_id = p_deletion_id
+    UNION ALL SELECT id, mobile_number, 'group_leaders' FROM group_leaders WHERE deletion_id = p_deletion_id
+    UNION ALL SELECT id, mobile_number, 'pros' FROM pros WHERE deletion_id = p_deletion_id
+  LOOP
+    INSERT INTO mobile_registry (mobile_number, source_table, record_id)
+    VALUES (v_agent.mobile_number, v_agent.source_table, v_agent.id)
+    ON CONFLICT (mobile_number) DO NOTHING;
+
+    IF NOT FOUND THEN
+      PERFORM raise_mobile_taken(v_agent.mobile_number);
+    END IF;
+  END LOOP;
+
+  UPDATE panchayaths SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+  UPDATE coordinators SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+  UPDATE supervisors SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+  UPDATE group_leaders SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+  UPDATE pros SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+  UPDATE todos SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+
+  UPDATE deletions SET restored_at = now(), restored_by = session_actor_label() WHERE id = p_deletion_id;
+END;
+$$;
+
+-- Deletions a super admin can still restore, newest first; row-level security limits results to super admins
+CREATE OR REPLACE FUNCTION public.list_restorable_deletions()
+RETURNS TABLE (
+  id UUID,
+  table_name VARCHAR,
+  record_labels TEXT[],
+  reason TEXT,
+  deleted_by TEXT,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  restorable_until TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT d.id, d.table_name, d.record_labels, d.reason, d.deleted_by, d.deleted_at,
+         d.deleted_at + soft_delete_retention() AS restorable_until
+  FROM deletions d
+  WHERE d.restored_at IS NULL
+  AND d.deleted_at >= now() - soft_delete_retention()
+  ORDER BY d.deleted_at DESC
+$$;
+
+GRANT EXECUTE ON FUNCTION public.soft_delete_records(TEXT, UUID[], TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_deletion(UUID) TO anon, authenticated;
+REVOKE ALL ON FUNCTION public.session_actor_label() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.deletions IS 'Who deleted which panchayaths, agents or tasks and why; the rows stay soft deleted until restored';
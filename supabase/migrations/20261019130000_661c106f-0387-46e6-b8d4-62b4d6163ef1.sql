@@ -0,0 +1,207 @@
+-- Completion requests as a real task status, with an approval step and a history of transitions
+-- Assignees ask for completion with request_task_completion and the task's creator answers with
+-- review_task_completion. Every status change is written to todo_transitions with its actor,
+-- time and note (the evidence or the rejection reason). Remarks no longer carry any status.
+
+-- created_by pointed at auth.users, which this app never signs in to; it now holds the team
+-- member who created the task, matching how the row-level security policies already read it
+ALTER TABLE public.todos DROP CONSTRAINT IF EXISTS todos_created_by_fkey;
+
+ALTER TABLE public.todos DROP CONSTRAINT IF EXISTS todos_status_check;
+ALTER TABLE public.todos ADD CONSTRAINT todos_status_check CHECK (status IN ('unfinished', 'requested', 'finished'));
+
+-- Requests made the old way, as a marker appended to the remarks
+UPDATE public.todos
+SET status = 'requested',
+    remarks = NULLIF(btrim(regexp_replace(
+      remarks, '\s*\|?\s*(Coordinator|Supervisor) requested completion - Awaiting final approval', '', 'gi'
+    )), '')
+WHERE status = 'unfinished'
+AND remarks ILIKE '%requested completion%';
+
+CREATE TABLE IF NOT EXISTS public.todo_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  todo_id UUID NOT NULL REFERENCES public.todos(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  note TEXT,
+  actor_mobile VARCHAR(15),
+  actor_label TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_todo_transitions_todo ON public.todo_transitions(todo_id, created_at);
+
+ALTER TABLE public.todo_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below; readable wherever the task itself is
+CREATE POLICY "Transitions of visible tasks can be read" ON public.todo_transitions FOR SELECT TO anon, authenticated
+  USING (todo_id IN (SELECT id FROM todos));
+
+-- Moves into or out of 'requested' only happen through the functions below, and only team
+-- admins may change a status directly. Changes made with the service role are not restricted.
+CREATE OR REPLACE FUNCTION public.guard_task_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_user IN ('anon', 'authenticated')
+  AND current_setting('app.task_transition', true) IS DISTINCT FROM 'on' THEN
+    IF 'requested' IN (OLD.status, NEW.status) THEN
+      RAISE EXCEPTION 'INVALID_TRANSITION';
+    END IF;
+
+    IF NOT is_team_admin() THEN
+      RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  NEW.finished_at := CASE WHEN NEW.status = 'finished' THEN COALESCE(NEW.finished_at, now()) END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_task_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO todo_transitions (todo_id, from_status, to_status, note, actor_mobile, actor_label)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NULLIF(current_setting('app.task_transition_note', true), ''),
+    session_mobile(),
+    session_actor_label()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_todos_status BEFORE UPDATE OF status ON todos
+    FOR EACH ROW EXECUTE FUNCTION guard_task_status();
+CREATE TRIGGER record_todos_transition AFTER INSERT OR UPDATE OF status ON todos
+    FOR EACH ROW EXECUTE FUNCTION record_task_transition();
+
+-- Shared by the two functions below: change the status of a task with a note on the transition
+CREATE OR REPLACE FUNCTION public.transition_task(p_todo_id UUID, p_status TEXT, p_note TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.task_transition', 'on', true);
+  PERFORM set_config('app.task_transition_note', COALESCE(btrim(p_note), ''), true);
+
+  UPDATE todos SET status = p_status WHERE id = p_todo_id;
+
+  PERFORM set_config('app.task_transition', '', true);
+  PERFORM set_config('app.task_transition_note', '', true);
+END;
+$$;
+
+-- Raises EVIDENCE_REQUIRED, NOT_FOUND, PERMISSION_DENIED (42501) when the caller is not
+-- assigned to the task, and INVALID_TRANSITION when the task is not unfinished
+CREATE OR REPLACE FUNCTION public.request_task_completion(p_todo_id UUID, p_evidence TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task todos%ROWTYPE;
+BEGIN
+  IF btrim(COALESCE(p_evidence, '')) = '' THEN
+    RAISE EXCEPTION 'EVIDENCE_REQUIRED';
+  END IF;
+
+  SELECT * INTO v_task FROM todos WHERE id = p_todo_id AND deleted_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM session_agent_ids() a(id)
+    WHERE a.id IN (v_task.assigned_to, v_task.reassigned_to_coordinator, v_task.reassigned_to_supervisor)
+  ) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_task.status <> 'unfinished' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  PERFORM transition_task(p_todo_id, 'requested', p_evidence);
+END;
+$$;
+
+-- Approve (finished) or reject (back to unfinished, reason required) a completion request.
+-- The task's creator reviews it, as does the team member who handed the task on to a
+-- coordinator or supervisor. Tasks created before creators were recorded can be reviewed by
+-- any team admin. Nobody reviews their own request.
+CREATE OR REPLACE FUNCTION public.review_task_completion(p_todo_id UUID, p_approve BOOLEAN, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task todos%ROWTYPE;
+  v_requested_by VARCHAR(15);
+BEGIN
+  IF NOT p_approve AND btrim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'REJECT_REASON_REQUIRED';
+  END IF;
+
+  SELECT * INTO v_task FROM todos WHERE id = p_todo_id AND deleted_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF v_task.status <> 'requested' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  SELECT actor_mobile INTO v_requested_by
+  FROM todo_transitions
+  WHERE todo_id = p_todo_id AND to_status = 'requested'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT (
+    v_task.created_by IN (SELECT session_agent_ids())
+    OR (v_task.created_by IS NULL AND is_team_admin())
+    OR (
+      v_task.assigned_to IN (SELECT session_agent_ids())
+      AND COALESCE(v_task.reassigned_to_coordinator, v_task.reassigned_to_supervisor) IS NOT NULL
+    )
+  ) OR v_requested_by = session_mobile() THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM transition_task(p_todo_id, CASE WHEN p_approve THEN 'finished' ELSE 'unfinished' END, p_reason);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.transition_task(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.request_task_completion(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.review_task_completion(UUID, BOOLEAN, TEXT) TO anon, authenticated;
+
+COMMENT ON TABLE public.todo_transitions IS 'Every status change of a task with who made it, when, and the evidence or reason given';
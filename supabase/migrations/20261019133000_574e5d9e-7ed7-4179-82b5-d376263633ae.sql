@@ -0,0 +1,89 @@
+-- Due dates, priorities and escalation of overdue tasks
+-- A task is overdue once its due date has passed in India Standard Time. When a task that was
+-- handed on to a coordinator or supervisor becomes overdue, escalate_overdue_tasks flags it for
+-- their superior: a supervisor's coordinator, or the team for a coordinator. The flag is cleared
+-- when the due date or the reassignment changes.
+
+ALTER TABLE public.todos
+  ADD COLUMN IF NOT EXISTS due_date DATE,
+  ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS escalated_to_coordinator UUID REFERENCES public.coordinators(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_todos_open_due_date ON public.todos(due_date)
+  WHERE status <> 'finished' AND deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_todos_escalated_to_coordinator ON public.todos(escalated_to_coordinator);
+
+CREATE OR REPLACE FUNCTION public.task_today()
+RETURNS DATE
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT (now() AT TIME ZONE 'Asia/Kolkata')::DATE
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_task_escalation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date
+  OR NEW.reassigned_to_coordinator IS DISTINCT FROM OLD.reassigned_to_coordinator
+  OR NEW.reassigned_to_supervisor IS DISTINCT FROM OLD.reassigned_to_supervisor THEN
+    NEW.escalated_at := NULL;
+    NEW.escalated_to_coordinator := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_todos_escalation BEFORE UPDATE OF due_date, reassigned_to_coordinator, reassigned_to_supervisor ON todos
+    FOR EACH ROW EXECUTE FUNCTION reset_task_escalation();
+
+-- Returns the number of tasks escalated
+CREATE OR REPLACE FUNCTION public.escalate_overdue_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE todos t
+  SET escalated_at = now(),
+      escalated_to_coordinator = (
+        SELECT s.coordinator_id FROM supervisors s
+        WHERE s.id = t.reassigned_to_supervisor AND s.deleted_at IS NULL
+      )
+  WHERE t.status <> 'finished'
+  AND t.deleted_at IS NULL
+  AND t.escalated_at IS NULL
+  AND t.due_date < task_today()
+  AND (t.reassigned_to_coordinator IS NOT NULL OR t.reassigned_to_supervisor IS NOT NULL);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.escalate_overdue_tasks() FROM PUBLIC, anon, authenticated;
+
+-- Coordinators see the tasks escalated to them alongside their own
+DROP POLICY IF EXISTS "Agents read their own tasks" ON todos;
+CREATE POLICY "Agents read their own tasks" ON todos FOR SELECT TO anon, authenticated
+  USING (
+    assigned_to IN (SELECT session_agent_ids())
+    OR reassigned_to_coordinator IN (SELECT session_agent_ids())
+    OR reassigned_to_supervisor IN (SELECT session_agent_ids())
+    OR escalated_to_coordinator IN (SELECT session_agent_ids())
+    OR created_by IN (SELECT session_agent_ids())
+  );
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('escalate-overdue-tasks', '*/15 * * * *', 'SELECT public.escalate_overdue_tasks()');
+
+COMMENT ON COLUMN public.todos.escalated_to_coordinator IS 'Coordinator flagged about an overdue task of one of their supervisors; NULL with escalated_at set means the team was flagged';
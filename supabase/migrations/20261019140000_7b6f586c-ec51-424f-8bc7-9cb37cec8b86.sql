@@ -0,0 +1,190 @@
+-- Task history: every change in who holds a task and what was said about it
+-- todo_transitions only kept status changes. It becomes todo_events, which also records creation,
+-- assignment to a team member, each reassignment to a coordinator or supervisor, remark edits and
+-- escalations. Assignee names are stored with the event so the chain survives later changes.
+
+ALTER TABLE public.todo_transitions RENAME TO todo_events;
+ALTER TABLE public.todo_events RENAME CONSTRAINT todo_transitions_pkey TO todo_events_pkey;
+ALTER TABLE public.todo_events RENAME CONSTRAINT todo_transitions_todo_id_fkey TO todo_events_todo_id_fkey;
+ALTER INDEX public.idx_todo_transitions_todo RENAME TO idx_todo_events_todo;
+ALTER POLICY "Transitions of visible tasks can be read" ON public.todo_events RENAME TO "Events of visible tasks can be read";
+
+ALTER TABLE public.todo_events
+  ADD COLUMN event_type TEXT,
+  ADD COLUMN details JSONB,
+  ALTER COLUMN to_status DROP NOT NULL;
+
+UPDATE public.todo_events
+SET event_type = CASE
+  WHEN from_status IS NULL THEN 'created'
+  WHEN to_status = 'requested' THEN 'completion_requested'
+  WHEN from_status = 'requested' AND to_status = 'finished' THEN 'approved'
+  WHEN from_status = 'requested' THEN 'rejected'
+  WHEN to_status = 'finished' THEN 'finished'
+  ELSE 'reopened'
+END;
+
+-- Tasks created before any history was kept start with their creation time
+INSERT INTO public.todo_events (todo_id, event_type, to_status, actor_label, created_at)
+SELECT t.id, 'created', 'unfinished', 'Unknown', t.created_at
+FROM public.todos t
+WHERE NOT EXISTS (SELECT 1 FROM public.todo_events e WHERE e.todo_id = t.id AND e.event_type = 'created');
+
+ALTER TABLE public.todo_events
+  ALTER COLUMN event_type SET NOT NULL,
+  ADD CONSTRAINT todo_events_event_type_check CHECK (event_type IN (
+    'created', 'assigned', 'reassigned', 'remarks_changed', 'escalated',
+    'completion_requested', 'approved', 'rejected', 'finished', 'reopened'
+  ));
+
+-- Name of a team member, coordinator or supervisor, whichever the id belongs to
+CREATE OR REPLACE FUNCTION public.task_holder_label(p_id UUID)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT name || ' (Team)' FROM admin_members WHERE id = p_id),
+    (SELECT name || ' (Coordinator)' FROM coordinators WHERE id = p_id),
+    (SELECT name || ' (Supervisor)' FROM supervisors WHERE id = p_id)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_task_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_mobile VARCHAR := session_mobile();
+  v_actor_label TEXT := session_actor_label();
+  v_old_holder UUID;
+  v_new_holder UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO todo_events (todo_id, event_type, to_status, actor_mobile, actor_label)
+    VALUES (NEW.id, 'created', NEW.status, v_actor_mobile, v_actor_label);
+
+    IF NEW.assigned_to IS NOT NULL THEN
+      INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+      VALUES (NEW.id, 'assigned', jsonb_build_object('to', task_holder_label(NEW.assigned_to)), v_actor_mobile, v_actor_label);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+    VALUES (
+      NEW.id, 'assigned',
+      jsonb_build_object('from', task_holder_label(OLD.assigned_to), 'to', task_holder_label(NEW.assigned_to)),
+      v_actor_mobile, v_actor_label
+    );
+  END IF;
+
+  v_old_holder := COALESCE(OLD.reassigned_to_coordinator, OLD.reassigned_to_supervisor);
+  v_new_holder := COALESCE(NEW.reassigned_to_coordinator, NEW.reassigned_to_supervisor);
+  IF v_new_holder IS DISTINCT FROM v_old_holder THEN
+    INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+    VALUES (
+      NEW.id, 'reassigned',
+      jsonb_build_object('from', task_holder_label(v_old_holder), 'to', task_holder_label(v_new_holder)),
+      v_actor_mobile, v_actor_label
+    );
+  END IF;
+
+  IF NEW.remarks IS DISTINCT FROM OLD.remarks THEN
+    INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+    VALUES (NEW.id, 'remarks_changed', jsonb_build_object('from', OLD.remarks, 'to', NEW.remarks), v_actor_mobile, v_actor_label);
+  END IF;
+
+  IF NEW.escalated_at IS NOT NULL AND OLD.escalated_at IS NULL THEN
+    INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+    VALUES (
+      NEW.id, 'escalated',
+      jsonb_build_object('to', COALESCE(task_holder_label(NEW.escalated_to_coordinator), 'Team')),
+      v_actor_mobile, v_actor_label
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO todo_events (todo_id, event_type, from_status, to_status, note, actor_mobile, actor_label)
+    VALUES (
+      NEW.id,
+      CASE
+        WHEN NEW.status = 'requested' THEN 'completion_requested'
+        WHEN OLD.status = 'requested' AND NEW.status = 'finished' THEN 'approved'
+        WHEN OLD.status = 'requested' THEN 'rejected'
+        WHEN NEW.status = 'finished' THEN 'finished'
+        ELSE 'reopened'
+      END,
+      OLD.status,
+      NEW.status,
+      NULLIF(current_setting('app.task_transition_note', true), ''),
+      v_actor_mobile,
+      v_actor_label
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_todos_transition ON todos;
+DROP FUNCTION IF EXISTS public.record_task_transition();
+
+CREATE TRIGGER record_todos_events AFTER INSERT OR UPDATE ON todos
+    FOR EACH ROW EXECUTE FUNCTION record_task_events();
+
+-- Same checks as before, reading the requester from todo_events
+CREATE OR REPLACE FUNCTION public.review_task_completion(p_todo_id UUID, p_approve BOOLEAN, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task todos%ROWTYPE;
+  v_requested_by VARCHAR(15);
+BEGIN
+  IF NOT p_approve AND btrim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'REJECT_REASON_REQUIRED';
+  END IF;
+
+  SELECT * INTO v_task FROM todos WHERE id = p_todo_id AND deleted_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF v_task.status <> 'requested' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  SELECT actor_mobile INTO v_requested_by
+  FROM todo_events
+  WHERE todo_id = p_todo_id AND event_type = 'completion_requested'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT (
+    v_task.created_by IN (SELECT session_agent_ids())
+    OR (v_task.created_by IS NULL AND is_team_admin())
+    OR (
+      v_task.assigned_to IN (SELECT session_agent_ids())
+      AND COALESCE(v_task.reassigned_to_coordinator, v_task.reassigned_to_supervisor) IS NOT NULL
+    )
+  ) OR v_requested_by = session_mobile() THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM transition_task(p_todo_id, CASE WHEN p_approve THEN 'finished' ELSE 'unfinished' END, p_reason);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.task_holder_label(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.todo_events IS 'History of each task: creation, assignments, reassignments, remark edits, escalations and status changes with who made them and when';
@@ -0,0 +1,143 @@
+-- Comment threads on tasks, with photos and documents kept in the task-attachments bucket
+-- Comments are append-only and written through add_task_comment, which takes the author from the
+-- caller's session. Attachments are uploaded first to <todo id>/<file> in storage and then linked
+-- to the comment. Anyone who can see a task can read and join its thread.
+
+CREATE OR REPLACE FUNCTION public.can_access_task(p_todo_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM todos t
+    WHERE t.id = p_todo_id
+    AND t.deleted_at IS NULL
+    AND (
+      is_team_admin()
+      OR t.assigned_to IN (SELECT session_agent_ids())
+      OR t.reassigned_to_coordinator IN (SELECT session_agent_ids())
+      OR t.reassigned_to_supervisor IN (SELECT session_agent_ids())
+      OR t.escalated_to_coordinator IN (SELECT session_agent_ids())
+      OR t.created_by IN (SELECT session_agent_ids())
+    )
+  )
+$$;
+
+CREATE TABLE IF NOT EXISTS public.todo_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  todo_id UUID NOT NULL REFERENCES public.todos(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.todo_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL DEFAULT '',
+  author_mobile VARCHAR(15),
+  author_label TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.todo_comment_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id UUID NOT NULL REFERENCES public.todo_comments(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT,
+  size_bytes BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_todo_comments_todo ON public.todo_comments(todo_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_todo_comment_attachments_comment ON public.todo_comment_attachments(comment_id);
+
+ALTER TABLE public.todo_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.todo_comment_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Comments of accessible tasks can be read" ON public.todo_comments FOR SELECT TO anon, authenticated
+  USING (can_access_task(todo_id));
+CREATE POLICY "Attachments of accessible tasks can be read" ON public.todo_comment_attachments FOR SELECT TO anon, authenticated
+  USING (comment_id IN (SELECT id FROM todo_comments));
+
+-- Storage: files live under a folder named after their task
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'task-attachments', 'task-attachments', false, 10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf',
+        'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Task attachments can be uploaded to accessible tasks" ON storage.objects FOR INSERT TO anon, authenticated
+  WITH CHECK (
+    bucket_id = 'task-attachments'
+    AND can_access_task(NULLIF((storage.foldername(name))[1], '')::UUID)
+  );
+CREATE POLICY "Task attachments of accessible tasks can be read" ON storage.objects FOR SELECT TO anon, authenticated
+  USING (
+    bucket_id = 'task-attachments'
+    AND can_access_task(NULLIF((storage.foldername(name))[1], '')::UUID)
+  );
+
+-- p_attachments is a JSON array of { path, file_name, content_type, size_bytes } for files
+-- already uploaded under the task's folder. Raises NOT_FOUND when the caller cannot see the task,
+-- COMMENT_EMPTY without text or files, and INVALID_ATTACHMENT for files outside the task's folder.
+CREATE OR REPLACE FUNCTION public.add_task_comment(
+  p_todo_id UUID,
+  p_body TEXT,
+  p_parent_id UUID DEFAULT NULL,
+  p_attachments JSONB DEFAULT '[]'::JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_comment_id UUID;
+  v_attachment JSONB;
+  v_attachments JSONB := COALESCE(p_attachments, '[]'::JSONB);
+BEGIN
+  IF NOT can_access_task(p_todo_id) THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF btrim(COALESCE(p_body, '')) = '' AND jsonb_array_length(v_attachments) = 0 THEN
+    RAISE EXCEPTION 'COMMENT_EMPTY';
+  END IF;
+
+  -- Replies stay one level deep, under the comment that started the thread
+  IF p_parent_id IS NOT NULL THEN
+    SELECT COALESCE(parent_id, id) INTO p_parent_id
+    FROM todo_comments WHERE id = p_parent_id AND todo_id = p_todo_id;
+
+    IF p_parent_id IS NULL THEN
+      RAISE EXCEPTION 'NOT_FOUND';
+    END IF;
+  END IF;
+
+  INSERT INTO todo_comments (todo_id, parent_id, body, author_mobile, author_label)
+  VALUES (p_todo_id, p_parent_id, btrim(COALESCE(p_body, '')), session_mobile(), session_actor_label())
+  RETURNING id INTO v_comment_id;
+
+  FOR v_attachment IN SELECT * FROM jsonb_array_elements(v_attachments) LOOP
+    IF v_attachment->>'path' NOT LIKE p_todo_id::TEXT || '/%'
+    OR NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'task-attachments' AND name = v_attachment->>'path') THEN
+      RAISE EXCEPTION 'INVALID_ATTACHMENT';
+    END IF;
+
+    INSERT INTO todo_comment_attachments (comment_id, storage_path, file_name, content_type, size_bytes)
+    VALUES (
+      v_comment_id,
+      v_attachment->>'path',
+      COALESCE(NULLIF(v_attachment->>'file_name', ''), v_attachment->>'path'),
+      v_attachment->>'content_type',
+      (v_attachment->>'size_bytes')::BIGINT
+    );
+  END LOOP;
+
+  RETURN v_comment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_task_comment(UUID, TEXT, UUID, JSONB) TO anon, authenticated;
+
+COMMENT ON TABLE public.todo_comments IS 'Conversation on a task; replies point at the first comment of their thread';
+COMMENT ON TABLE public.todo_comment_attachments IS 'Files in the task-attachments bucket attached to a task comment';
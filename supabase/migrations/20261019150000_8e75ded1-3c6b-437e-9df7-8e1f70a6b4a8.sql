@@ -0,0 +1,355 @@
+-- Tasks held by any agent, cascaded down the hierarchy and rolled back up
+-- assignee_type/assignee_id name whoever currently holds a task, whatever their role. For tasks
+-- handed on through the team columns they are kept in sync by a trigger: the reassigned
+-- coordinator or supervisor, otherwise the assigned team member. Group leaders and PROs only
+-- appear through the generic columns.
+--
+-- cascade_task lets a supervisor fan a task out to every group leader in their wards, and a
+-- group leader to their PROs, as sub-tasks (parent_id) created by the one cascading. When the
+-- last open sub-task is finished, the parent asks for completion, so its own reviewer signs off.
+
+ALTER TABLE public.todos
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.todos(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS assignee_type TEXT CHECK (assignee_type IN ('admin_member', 'coordinator', 'supervisor', 'group_leader', 'pro')),
+  ADD COLUMN IF NOT EXISTS assignee_id UUID,
+  ADD CONSTRAINT todos_assignee_pair_check CHECK ((assignee_type IS NULL) = (assignee_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_todos_parent ON public.todos(parent_id);
+CREATE INDEX IF NOT EXISTS idx_todos_assignee ON public.todos(assignee_id);
+
+UPDATE public.todos
+SET assignee_type = CASE
+      WHEN reassigned_to_coordinator IS NOT NULL THEN 'coordinator'
+      WHEN reassigned_to_supervisor IS NOT NULL THEN 'supervisor'
+      WHEN assigned_to IS NOT NULL THEN 'admin_member'
+    END,
+    assignee_id = COALESCE(reassigned_to_coordinator, reassigned_to_supervisor, assigned_to);
+
+-- Derive the holder from the team columns when those change and the holder was not set directly
+CREATE OR REPLACE FUNCTION public.sync_task_assignee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.assignee_id IS NOT NULL THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id
+  OR NOT (
+    NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+    OR NEW.reassigned_to_coordinator IS DISTINCT FROM OLD.reassigned_to_coordinator
+    OR NEW.reassigned_to_supervisor IS DISTINCT FROM OLD.reassigned_to_supervisor
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.assignee_type := CASE
+    WHEN NEW.reassigned_to_coordinator IS NOT NULL THEN 'coordinator'
+    WHEN NEW.reassigned_to_supervisor IS NOT NULL THEN 'supervisor'
+    WHEN NEW.assigned_to IS NOT NULL THEN 'admin_member'
+  END;
+  NEW.assignee_id := COALESCE(NEW.reassigned_to_coordinator, NEW.reassigned_to_supervisor, NEW.assigned_to);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_todos_assignee BEFORE INSERT OR UPDATE ON todos
+    FOR EACH ROW EXECUTE FUNCTION sync_task_assignee();
+
+-- Access follows the holder as well as the team columns
+
+DROP POLICY IF EXISTS "Agents read their own tasks" ON todos;
+CREATE POLICY "Agents read their own tasks" ON todos FOR SELECT TO anon, authenticated
+  USING (
+    assigned_to IN (SELECT session_agent_ids())
+    OR reassigned_to_coordinator IN (SELECT session_agent_ids())
+    OR reassigned_to_supervisor IN (SELECT session_agent_ids())
+    OR assignee_id IN (SELECT session_agent_ids())
+    OR escalated_to_coordinator IN (SELECT session_agent_ids())
+    OR created_by IN (SELECT session_agent_ids())
+  );
+
+DROP POLICY IF EXISTS "Agents update their own tasks" ON todos;
+CREATE POLICY "Agents update their own tasks" ON todos FOR UPDATE TO anon, authenticated
+  USING (
+    assigned_to IN (SELECT session_agent_ids())
+    OR reassigned_to_coordinator IN (SELECT session_agent_ids())
+    OR reassigned_to_supervisor IN (SELECT session_agent_ids())
+    OR assignee_id IN (SELECT session_agent_ids())
+  )
+  WITH CHECK (
+    assigned_to IN (SELECT session_agent_ids())
+    OR reassigned_to_coordinator IN (SELECT session_agent_ids())
+    OR reassigned_to_supervisor IN (SELECT session_agent_ids())
+    OR assignee_id IN (SELECT session_agent_ids())
+  );
+
+CREATE OR REPLACE FUNCTION public.can_access_task(p_todo_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM todos t
+    WHERE t.id = p_todo_id
+    AND t.deleted_at IS NULL
+    AND (
+      is_team_admin()
+      OR t.assigned_to IN (SELECT session_agent_ids())
+      OR t.reassigned_to_coordinator IN (SELECT session_agent_ids())
+      OR t.reassigned_to_supervisor IN (SELECT session_agent_ids())
+      OR t.assignee_id IN (SELECT session_agent_ids())
+      OR t.escalated_to_coordinator IN (SELECT session_agent_ids())
+      OR t.created_by IN (SELECT session_agent_ids())
+    )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_task_completion(p_todo_id UUID, p_evidence TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task todos%ROWTYPE;
+BEGIN
+  IF btrim(COALESCE(p_evidence, '')) = '' THEN
+    RAISE EXCEPTION 'EVIDENCE_REQUIRED';
+  END IF;
+
+  SELECT * INTO v_task FROM todos WHERE id = p_todo_id AND deleted_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM session_agent_ids() a(id)
+    WHERE a.id IN (v_task.assigned_to, v_task.reassigned_to_coordinator, v_task.reassigned_to_supervisor, v_task.assignee_id)
+  ) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_task.status <> 'unfinished' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  PERFORM transition_task(p_todo_id, 'requested', p_evidence);
+END;
+$$;
+
+-- History: group leaders and PROs in labels, and a cascaded event on the parent
+
+CREATE OR REPLACE FUNCTION public.task_holder_label(p_id UUID)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT name || ' (Team)' FROM admin_members WHERE id = p_id),
+    (SELECT name || ' (Coordinator)' FROM coordinators WHERE id = p_id),
+    (SELECT name || ' (Supervisor)' FROM supervisors WHERE id = p_id),
+    (SELECT name || ' (Group Leader)' FROM group_leaders WHERE id = p_id),
+    (SELECT name || ' (PRO)' FROM pros WHERE id = p_id)
+  )
+$$;
+
+ALTER TABLE public.todo_events DROP CONSTRAINT IF EXISTS todo_events_event_type_check;
+ALTER TABLE public.todo_events ADD CONSTRAINT todo_events_event_type_check CHECK (event_type IN (
+  'created', 'assigned', 'reassigned', 'cascaded', 'remarks_changed', 'escalated',
+  'completion_requested', 'approved', 'rejected', 'finished', 'reopened'
+));
+
+-- Reassignments are now read from the holder, which also covers group leaders and PROs
+CREATE OR REPLACE FUNCTION public.record_task_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_mobile VARCHAR := session_mobile();
+  v_actor_label TEXT := session_actor_label();
+  v_old_holder UUID;
+  v_new_holder UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO todo_events (todo_id, event_type, to_status, actor_mobile, actor_label)
+    VALUES (NEW.id, 'created', NEW.status, v_actor_mobile, v_actor_label);
+
+    IF NEW.assigned_to IS NOT NULL THEN
+      INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+      VALUES (NEW.id, 'assigned', jsonb_build_object('to', task_holder_label(NEW.assigned_to)), v_actor_mobile, v_actor_label);
+    END IF;
+
+    IF NEW.assignee_type IS DISTINCT FROM 'admin_member' AND NEW.assignee_id IS NOT NULL THEN
+      INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+      VALUES (NEW.id, 'reassigned', jsonb_build_object('to', task_holder_label(NEW.assignee_id)), v_actor_mobile, v_actor_label);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+    VALUES (
+      NEW.id, 'assigned',
+      jsonb_build_object('from', task_holder_label(OLD.assigned_to), 'to', task_holder_label(NEW.assigned_to)),
+      v_actor_mobile, v_actor_label
+    );
+  END IF;
+
+  v_old_holder := CASE WHEN OLD.assignee_type IS DISTINCT FROM 'admin_member' THEN OLD.assignee_id END;
+  v_new_holder := CASE WHEN NEW.assignee_type IS DISTINCT FROM 'admin_member' THEN NEW.assignee_id END;
+  IF v_new_holder IS DISTINCT FROM v_old_holder THEN
+    INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+    VALUES (
+      NEW.id, 'reassigned',
+      jsonb_build_object('from', task_holder_label(v_old_holder), 'to', task_holder_label(v_new_holder)),
+      v_actor_mobile, v_actor_label
+    );
+  END IF;
+
+  IF NEW.remarks IS DISTINCT FROM OLD.remarks THEN
+    INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+    VALUES (NEW.id, 'remarks_changed', jsonb_build_object('from', OLD.remarks, 'to', NEW.remarks), v_actor_mobile, v_actor_label);
+  END IF;
+
+  IF NEW.escalated_at IS NOT NULL AND OLD.escalated_at IS NULL THEN
+    INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+    VALUES (
+      NEW.id, 'escalated',
+      jsonb_build_object('to', COALESCE(task_holder_label(NEW.escalated_to_coordinator), 'Team')),
+      v_actor_mobile, v_actor_label
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO todo_events (todo_id, event_type, from_status, to_status, note, actor_mobile, actor_label)
+    VALUES (
+      NEW.id,
+      CASE
+        WHEN NEW.status = 'requested' THEN 'completion_requested'
+        WHEN OLD.status = 'requested' AND NEW.status = 'finished' THEN 'approved'
+        WHEN OLD.status = 'requested' THEN 'rejected'
+        WHEN NEW.status = 'finished' THEN 'finished'
+        ELSE 'reopened'
+      END,
+      OLD.status,
+      NEW.status,
+      NULLIF(current_setting('app.task_transition_note', true), ''),
+      v_actor_mobile,
+      v_actor_label
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Returns the number of sub-tasks created. Raises NOT_FOUND, PERMISSION_DENIED (42501) when the
+-- caller is not the supervisor or group leader holding the task, and INVALID_TRANSITION for
+-- finished tasks. Agents who already have a sub-task of this task are skipped.
+CREATE OR REPLACE FUNCTION public.cascade_task(p_todo_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task todos%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_task FROM todos WHERE id = p_todo_id AND deleted_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF NOT COALESCE(
+    v_task.assignee_type IN ('supervisor', 'group_leader')
+    AND v_task.assignee_id IN (SELECT session_agent_ids()),
+    false
+  ) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_task.status = 'finished' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  WITH targets AS (
+    SELECT 'group_leader' AS agent_type, g.id AS agent_id
+    FROM group_leaders g
+    JOIN supervisors s ON s.id = v_task.assignee_id AND s.panchayath_id = g.panchayath_id
+    WHERE v_task.assignee_type = 'supervisor'
+    AND g.deleted_at IS NULL
+    AND g.ward IN (SELECT w.ward FROM supervisor_wards w WHERE w.supervisor_id = s.id)
+    UNION ALL
+    SELECT 'pro', p.id
+    FROM pros p
+    WHERE v_task.assignee_type = 'group_leader'
+    AND p.group_leader_id = v_task.assignee_id
+    AND p.deleted_at IS NULL
+  )
+  INSERT INTO todos (text, status, priority, due_date, created_by, parent_id, assignee_type, assignee_id)
+  SELECT v_task.text, 'unfinished', v_task.priority, v_task.due_date, v_task.assignee_id, v_task.id, t.agent_type, t.agent_id
+  FROM targets t
+  WHERE NOT EXISTS (
+    SELECT 1 FROM todos c WHERE c.parent_id = v_task.id AND c.assignee_id = t.agent_id AND c.deleted_at IS NULL
+  );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count > 0 THEN
+    INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+    VALUES (
+      v_task.id, 'cascaded',
+      jsonb_build_object('to', v_count || CASE WHEN v_task.assignee_type = 'supervisor' THEN ' group leader(s)' ELSE ' PRO(s)' END),
+      session_mobile(), session_actor_label()
+    );
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cascade_task(UUID) TO anon, authenticated;
+
+-- Once every remaining sub-task is finished, the parent asks its reviewer for completion
+CREATE OR REPLACE FUNCTION public.roll_up_task_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total INTEGER;
+  v_open INTEGER;
+BEGIN
+  SELECT count(*), count(*) FILTER (WHERE status <> 'finished')
+  INTO v_total, v_open
+  FROM todos
+  WHERE parent_id = NEW.parent_id AND deleted_at IS NULL;
+
+  IF v_total > 0 AND v_open = 0
+  AND EXISTS (SELECT 1 FROM todos WHERE id = NEW.parent_id AND status = 'unfinished' AND deleted_at IS NULL) THEN
+    PERFORM transition_task(NEW.parent_id, 'requested', format('All %s sub-tasks are finished', v_total));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER roll_up_todos_completion AFTER UPDATE OF status, deleted_at ON todos
+    FOR EACH ROW WHEN (NEW.parent_id IS NOT NULL) EXECUTE FUNCTION roll_up_task_completion();
+
+COMMENT ON COLUMN public.todos.assignee_id IS 'Agent currently holding the task, of the role in assignee_type';
+COMMENT ON COLUMN public.todos.parent_id IS 'Task this one was cascaded from; the parent asks for completion when all of these are finished';
@@ -0,0 +1,156 @@
+-- Recurring tasks: templates with a recurrence rule that generate_recurring_tasks turns into todos
+-- A template repeats daily, weekly on the listed weekdays (0 = Sunday, as in JavaScript) or
+-- monthly on a day of the month; months shorter than that day use their last day. Each generated
+-- task points back at its template and the day it is for, so a day is never generated twice and
+-- edits to a series only change the tasks still to come.
+
+CREATE TABLE IF NOT EXISTS public.task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  text TEXT NOT NULL,
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+  due_in_days INTEGER CHECK (due_in_days >= 0),
+  recurrence TEXT NOT NULL CHECK (recurrence IN ('daily', 'weekly', 'monthly')),
+  weekdays SMALLINT[] NOT NULL DEFAULT '{}' CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  month_day SMALLINT CHECK (month_day BETWEEN 1 AND 31),
+  starts_on DATE NOT NULL DEFAULT task_today(),
+  ends_on DATE,
+  paused_at TIMESTAMP WITH TIME ZONE,
+  assigned_to UUID REFERENCES public.admin_members(id) ON DELETE SET NULL,
+  reassigned_to_coordinator UUID REFERENCES public.coordinators(id) ON DELETE SET NULL,
+  reassigned_to_supervisor UUID REFERENCES public.supervisors(id) ON DELETE SET NULL,
+  created_by UUID,
+  last_generated_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT task_templates_weekly_check CHECK (recurrence <> 'weekly' OR cardinality(weekdays) > 0),
+  CONSTRAINT task_templates_monthly_check CHECK (recurrence <> 'monthly' OR month_day IS NOT NULL),
+  CONSTRAINT task_templates_reassigned_check CHECK (reassigned_to_coordinator IS NULL OR reassigned_to_supervisor IS NULL)
+);
+
+ALTER TABLE public.todos
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.task_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_date DATE,
+  ADD CONSTRAINT todos_template_occurrence_key UNIQUE (template_id, occurrence_date);
+
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage task templates" ON public.task_templates FOR ALL TO anon, authenticated
+  USING (is_team_admin())
+  WITH CHECK (is_team_admin());
+
+CREATE TRIGGER update_task_templates_updated_at BEFORE UPDATE ON task_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_task_templates AFTER INSERT OR UPDATE OR DELETE ON task_templates
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+-- Whether a series has a task on the given day; pausing is left to the callers
+CREATE OR REPLACE FUNCTION public.task_template_occurs_on(p_template task_templates, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT p_date >= p_template.starts_on
+    AND (p_template.ends_on IS NULL OR p_date <= p_template.ends_on)
+    AND CASE p_template.recurrence
+      WHEN 'daily' THEN true
+      WHEN 'weekly' THEN EXTRACT(DOW FROM p_date)::SMALLINT = ANY (p_template.weekdays)
+      WHEN 'monthly' THEN EXTRACT(DAY FROM p_date) = LEAST(
+        p_template.month_day,
+        EXTRACT(DAY FROM date_trunc('month', p_date) + INTERVAL '1 month - 1 day')
+      )
+      ELSE false
+    END
+$$;
+
+-- A resumed series carries on from today rather than catching up on the days it was paused
+CREATE OR REPLACE FUNCTION public.skip_paused_task_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.paused_at IS NOT NULL AND NEW.paused_at IS NULL THEN
+    NEW.last_generated_on := GREATEST(NEW.last_generated_on, task_today() - 1);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER skip_task_templates_paused_days BEFORE UPDATE OF paused_at ON task_templates
+    FOR EACH ROW EXECUTE FUNCTION skip_paused_task_days();
+
+-- Creates the tasks of every active series due up to today. Days missed while the scheduler was
+-- down are caught up, at most a week back. Returns the number of tasks created.
+CREATE OR REPLACE FUNCTION public.generate_recurring_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := task_today();
+  v_template task_templates%ROWTYPE;
+  v_rows INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_template IN
+    SELECT * FROM task_templates
+    WHERE paused_at IS NULL
+    AND starts_on <= v_today
+    AND (last_generated_on IS NULL OR last_generated_on < v_today)
+    AND (ends_on IS NULL OR ends_on > COALESCE(last_generated_on, starts_on - 1))
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    INSERT INTO todos (
+      text, priority, due_date, assigned_to, reassigned_to_coordinator, reassigned_to_supervisor,
+      created_by, template_id, occurrence_date
+    )
+    SELECT
+      v_template.text, v_template.priority, d.day::DATE + v_template.due_in_days, v_template.assigned_to,
+      v_template.reassigned_to_coordinator, v_template.reassigned_to_supervisor,
+      v_template.created_by, v_template.id, d.day::DATE
+    FROM generate_series(
+      GREATEST(v_template.starts_on, COALESCE(v_template.last_generated_on + 1, v_template.starts_on), v_today - 6),
+      v_today,
+      INTERVAL '1 day'
+    ) AS d(day)
+    WHERE task_template_occurs_on(v_template, d.day::DATE)
+    ON CONFLICT (template_id, occurrence_date) DO NOTHING;
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_count := v_count + v_rows;
+
+    UPDATE task_templates SET last_generated_on = v_today WHERE id = v_template.id;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_recurring_tasks() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('generate-recurring-tasks', '0 * * * *', 'SELECT public.generate_recurring_tasks()');
+
+-- Tasks the active series will create over the next days, including today's if not created yet.
+-- Runs with the caller's rights, so only team admins get rows.
+CREATE OR REPLACE FUNCTION public.upcoming_template_tasks(p_days INTEGER DEFAULT 14)
+RETURNS TABLE (template_id UUID, occurs_on DATE, due_date DATE)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.id, d.day::DATE, d.day::DATE + t.due_in_days
+  FROM task_templates t
+  CROSS JOIN generate_series(task_today(), task_today() + LEAST(GREATEST(p_days, 1), 90) - 1, INTERVAL '1 day') AS d(day)
+  WHERE t.paused_at IS NULL
+  AND task_template_occurs_on(t, d.day::DATE)
+  AND NOT EXISTS (
+    SELECT 1 FROM todos x WHERE x.template_id = t.id AND x.occurrence_date = d.day::DATE
+  )
+  ORDER BY d.day, t.text
+$$;
+
+GRANT EXECUTE ON FUNCTION public.upcoming_template_tasks(INTEGER) TO anon, authenticated;
+
+COMMENT ON TABLE public.task_templates IS 'Recurring task series; generate_recurring_tasks creates their todos, tagged with template_id and occurrence_date';
@@ -0,0 +1,91 @@
+-- Task lists filtered, sorted and paged in the database
+-- search_tasks applies the filters of TodoList and MyTasks and their urgency order. It is a plain
+-- SQL function without SECURITY DEFINER or SET so the planner can inline it: row-level security
+-- still applies and the page range PostgREST adds reaches the query. Callers embed the team
+-- member, coordinator and supervisor of each task in the same request, which needs a foreign
+-- key behind assigned_to.
+
+-- NOT VALID leaves tasks of team members removed before this in place
+ALTER TABLE public.todos
+  ADD CONSTRAINT todos_assigned_to_fkey FOREIGN KEY (assigned_to) REFERENCES public.admin_members(id) ON DELETE SET NULL NOT VALID;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_todos_status_created ON public.todos(status, created_at DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_todos_assigned_to ON public.todos(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_todos_reassigned_to_coordinator ON public.todos(reassigned_to_coordinator);
+CREATE INDEX IF NOT EXISTS idx_todos_reassigned_to_supervisor ON public.todos(reassigned_to_supervisor);
+CREATE INDEX IF NOT EXISTS idx_todos_text_trgm ON public.todos USING gin (text gin_trgm_ops);
+
+-- Name of whoever holds a task, selectable as the assignee_name column of todos
+CREATE OR REPLACE FUNCTION public.assignee_name(p_task public.todos)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT CASE p_task.assignee_type
+    WHEN 'admin_member' THEN (SELECT name FROM public.admin_members WHERE id = p_task.assignee_id)
+    WHEN 'coordinator' THEN (SELECT name FROM public.coordinators WHERE id = p_task.assignee_id)
+    WHEN 'supervisor' THEN (SELECT name FROM public.supervisors WHERE id = p_task.assignee_id)
+    WHEN 'group_leader' THEN (SELECT name FROM public.group_leaders WHERE id = p_task.assignee_id)
+    WHEN 'pro' THEN (SELECT name FROM public.pros WHERE id = p_task.assignee_id)
+  END
+$$;
+
+-- p_status takes a task status or 'open' for anything not finished. p_holder matches tasks in an
+-- agent's hands: assigned, reassigned, cascaded or escalated to them, plus sub-tasks they sent
+-- down that await their review. p_from and p_to are creation days in India time. p_sort is
+-- 'urgency' (overdue, then priority, then nearest due date) or 'newest'.
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  p_status TEXT DEFAULT NULL,
+  p_assigned_to UUID DEFAULT NULL,
+  p_unassigned BOOLEAN DEFAULT false,
+  p_holder UUID DEFAULT NULL,
+  p_priority TEXT DEFAULT NULL,
+  p_overdue BOOLEAN DEFAULT false,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_top_level BOOLEAN DEFAULT false,
+  p_sort TEXT DEFAULT 'urgency'
+)
+RETURNS SETOF public.todos
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT t.*
+  FROM public.todos t
+  WHERE (
+    p_status IS NULL
+    OR (p_status = 'open' AND t.status <> 'finished')
+    OR t.status = p_status
+  )
+  AND (p_assigned_to IS NULL OR t.assigned_to = p_assigned_to)
+  AND (NOT p_unassigned OR t.assigned_to IS NULL)
+  AND (
+    p_holder IS NULL
+    OR t.assigned_to = p_holder
+    OR t.reassigned_to_coordinator = p_holder
+    OR t.reassigned_to_supervisor = p_holder
+    OR t.assignee_id = p_holder
+    OR t.escalated_to_coordinator = p_holder
+    OR (t.created_by = p_holder AND t.parent_id IS NOT NULL AND t.status = 'requested')
+  )
+  AND (p_priority IS NULL OR t.priority = p_priority)
+  AND (NOT p_overdue OR (t.status <> 'finished' AND t.due_date < public.task_today()))
+  AND (p_from IS NULL OR t.created_at >= p_from::TIMESTAMP AT TIME ZONE 'Asia/Kolkata')
+  AND (p_to IS NULL OR t.created_at < (p_to + 1)::TIMESTAMP AT TIME ZONE 'Asia/Kolkata')
+  AND (p_search IS NULL OR p_search = '' OR t.text ILIKE '%' || p_search || '%')
+  AND (NOT p_top_level OR t.parent_id IS NULL)
+  ORDER BY
+    CASE WHEN p_sort = 'urgency' THEN COALESCE(t.status <> 'finished' AND t.due_date < public.task_today(), false) END DESC,
+    CASE WHEN p_sort = 'urgency' THEN
+      CASE t.priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END
+    END,
+    CASE WHEN p_sort = 'urgency' THEN t.due_date END NULLS LAST,
+    t.created_at DESC,
+    t.id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, UUID, BOOLEAN, UUID, TEXT, BOOLEAN, DATE, DATE, TEXT, BOOLEAN, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.assignee_name(public.todos) TO anon, authenticated;
@@ -0,0 +1,102 @@
+-- Live task updates over Supabase Realtime broadcast
+-- Sessions travel in request headers that Realtime never sees, so row-level security cannot
+-- filter postgres_changes for agents. Instead every task change broadcasts a bare signal on
+-- public topics: tasks:team for team admins and tasks:<agent id> for each agent the task is or
+-- was with. The signal holds the task id, the kind of change and the agent ids of whoever made
+-- it; clients reload the task itself through the usual policies, so no task content is sent.
+
+-- Failing to broadcast must never fail the change itself
+CREATE OR REPLACE FUNCTION public.broadcast_task_change(p_task_id UUID, p_kind TEXT, p_agent_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payload JSONB;
+  v_topic TEXT;
+BEGIN
+  v_payload := jsonb_build_object(
+    'task_id', p_task_id,
+    'kind', p_kind,
+    'actor_ids', COALESCE((SELECT jsonb_agg(a.id) FROM session_agent_ids() a(id)), '[]'::JSONB)
+  );
+
+  FOR v_topic IN
+    SELECT 'tasks:team'
+    UNION
+    SELECT 'tasks:' || a.id FROM unnest(p_agent_ids) a(id) WHERE a.id IS NOT NULL
+  LOOP
+    PERFORM realtime.send(v_payload, 'task_changed', v_topic, false);
+  END LOOP;
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Could not broadcast change to task %: %', p_task_id, SQLERRM;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.broadcast_todos_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_kind TEXT := 'updated';
+  v_agent_ids UUID[] := ARRAY[
+    NEW.assigned_to, NEW.reassigned_to_coordinator, NEW.reassigned_to_supervisor,
+    NEW.assignee_id, NEW.escalated_to_coordinator, NEW.created_by
+  ];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_kind := 'created';
+  ELSE
+    -- Whoever the task just left hears about it too
+    v_agent_ids := v_agent_ids || ARRAY[
+      OLD.assigned_to, OLD.reassigned_to_coordinator, OLD.reassigned_to_supervisor,
+      OLD.assignee_id, OLD.escalated_to_coordinator
+    ];
+
+    IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+      v_kind := CASE WHEN NEW.deleted_at IS NULL THEN 'restored' ELSE 'removed' END;
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+      v_kind := 'status';
+    ELSIF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+    OR NEW.assignee_id IS DISTINCT FROM OLD.assignee_id
+    OR NEW.escalated_to_coordinator IS DISTINCT FROM OLD.escalated_to_coordinator THEN
+      v_kind := 'assigned';
+    ELSIF NEW.remarks IS DISTINCT FROM OLD.remarks THEN
+      v_kind := 'remarks';
+    END IF;
+  END IF;
+
+  PERFORM broadcast_task_change(NEW.id, v_kind, v_agent_ids);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER broadcast_todos_changes AFTER INSERT OR UPDATE ON todos
+    FOR EACH ROW EXECUTE FUNCTION broadcast_todos_change();
+
+CREATE OR REPLACE FUNCTION public.broadcast_todo_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM broadcast_task_change(
+    t.id,
+    'commented',
+    ARRAY[t.assigned_to, t.reassigned_to_coordinator, t.reassigned_to_supervisor, t.assignee_id, t.escalated_to_coordinator, t.created_by]
+  )
+  FROM todos t
+  WHERE t.id = NEW.todo_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER broadcast_todo_comments AFTER INSERT ON todo_comments
+    FOR EACH ROW EXECUTE FUNCTION broadcast_todo_comment();
+
+REVOKE ALL ON FUNCTION public.broadcast_task_change(UUID, TEXT, UUID[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,181 @@
+-- Tasks scoped to a panchayath and, optionally, some of its wards
+-- A task without wards covers the whole panchayath. Coordinators read every task scoped to their
+-- panchayath, not only those reassigned to them. search_tasks filters by panchayath and ward,
+-- cascading only reaches group leaders of the scoped wards, and sub-tasks inherit the scope.
+
+-- Panchayaths are only ever soft deleted, so the scope never loses its panchayath
+ALTER TABLE public.todos
+  ADD COLUMN panchayath_id UUID REFERENCES public.panchayaths(id),
+  ADD COLUMN wards INTEGER[],
+  ADD CONSTRAINT todos_wards_need_panchayath CHECK (wards IS NULL OR (panchayath_id IS NOT NULL AND cardinality(wards) > 0));
+
+CREATE INDEX IF NOT EXISTS idx_todos_panchayath ON public.todos(panchayath_id) WHERE panchayath_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_todos_wards ON public.todos USING gin (wards);
+
+CREATE OR REPLACE FUNCTION public.is_panchayath_coordinator(p_panchayath_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM coordinators c
+    WHERE c.id IN (SELECT session_agent_ids())
+    AND c.panchayath_id = p_panchayath_id
+    AND c.deleted_at IS NULL
+  )
+$$;
+
+CREATE POLICY "Coordinators read tasks in their panchayath" ON todos FOR SELECT TO anon, authenticated
+  USING (panchayath_id IS NOT NULL AND is_panchayath_coordinator(panchayath_id));
+
+-- Comments and history follow the same reach
+CREATE OR REPLACE FUNCTION public.can_access_task(p_todo_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM todos t
+    WHERE t.id = p_todo_id
+    AND t.deleted_at IS NULL
+    AND (
+      is_team_admin()
+      OR t.assigned_to IN (SELECT session_agent_ids())
+      OR t.reassigned_to_coordinator IN (SELECT session_agent_ids())
+      OR t.reassigned_to_supervisor IN (SELECT session_agent_ids())
+      OR t.assignee_id IN (SELECT session_agent_ids())
+      OR t.escalated_to_coordinator IN (SELECT session_agent_ids())
+      OR t.created_by IN (SELECT session_agent_ids())
+      OR (t.panchayath_id IS NOT NULL AND is_panchayath_coordinator(t.panchayath_id))
+    )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.cascade_task(p_todo_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task todos%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_task FROM todos WHERE id = p_todo_id AND deleted_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF NOT COALESCE(
+    v_task.assignee_type IN ('supervisor', 'group_leader')
+    AND v_task.assignee_id IN (SELECT session_agent_ids()),
+    false
+  ) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_task.status = 'finished' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  WITH targets AS (
+    SELECT 'group_leader' AS agent_type, g.id AS agent_id
+    FROM group_leaders g
+    JOIN supervisors s ON s.id = v_task.assignee_id AND s.panchayath_id = g.panchayath_id
+    WHERE v_task.assignee_type = 'supervisor'
+    AND g.deleted_at IS NULL
+    AND g.ward IN (SELECT w.ward FROM supervisor_wards w WHERE w.supervisor_id = s.id)
+    AND (v_task.wards IS NULL OR g.ward = ANY(v_task.wards))
+    UNION ALL
+    SELECT 'pro', p.id
+    FROM pros p
+    WHERE v_task.assignee_type = 'group_leader'
+    AND p.group_leader_id = v_task.assignee_id
+    AND p.deleted_at IS NULL
+  )
+  INSERT INTO todos (text, status, priority, due_date, created_by, parent_id, assignee_type, assignee_id, panchayath_id, wards)
+  SELECT v_task.text, 'unfinished', v_task.priority, v_task.due_date, v_task.assignee_id, v_task.id, t.agent_type, t.agent_id, v_task.panchayath_id, v_task.wards
+  FROM targets t
+  WHERE NOT EXISTS (
+    SELECT 1 FROM todos c WHERE c.parent_id = v_task.id AND c.assignee_id = t.agent_id AND c.deleted_at IS NULL
+  );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count > 0 THEN
+    INSERT INTO todo_events (todo_id, event_type, details, actor_mobile, actor_label)
+    VALUES (
+      v_task.id, 'cascaded',
+      jsonb_build_object('to', v_count || CASE WHEN v_task.assignee_type = 'supervisor' THEN ' group leader(s)' ELSE ' PRO(s)' END),
+      session_mobile(), session_actor_label()
+    );
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+-- p_ward matches tasks naming that ward as well as those covering the whole panchayath
+DROP FUNCTION IF EXISTS public.search_tasks(TEXT, UUID, BOOLEAN, UUID, TEXT, BOOLEAN, DATE, DATE, TEXT, BOOLEAN, TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  p_status TEXT DEFAULT NULL,
+  p_assigned_to UUID DEFAULT NULL,
+  p_unassigned BOOLEAN DEFAULT false,
+  p_holder UUID DEFAULT NULL,
+  p_priority TEXT DEFAULT NULL,
+  p_overdue BOOLEAN DEFAULT false,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_top_level BOOLEAN DEFAULT false,
+  p_panchayath UUID DEFAULT NULL,
+  p_ward INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'urgency'
+)
+RETURNS SETOF public.todos
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT t.*
+  FROM public.todos t
+  WHERE (
+    p_status IS NULL
+    OR (p_status = 'open' AND t.status <> 'finished')
+    OR t.status = p_status
+  )
+  AND (p_assigned_to IS NULL OR t.assigned_to = p_assigned_to)
+  AND (NOT p_unassigned OR t.assigned_to IS NULL)
+  AND (
+    p_holder IS NULL
+    OR t.assigned_to = p_holder
+    OR t.reassigned_to_coordinator = p_holder
+    OR t.reassigned_to_supervisor = p_holder
+    OR t.assignee_id = p_holder
+    OR t.escalated_to_coordinator = p_holder
+    OR (t.created_by = p_holder AND t.parent_id IS NOT NULL AND t.status = 'requested')
+  )
+  AND (p_priority IS NULL OR t.priority = p_priority)
+  AND (NOT p_overdue OR (t.status <> 'finished' AND t.due_date < public.task_today()))
+  AND (p_from IS NULL OR t.created_at >= p_from::TIMESTAMP AT TIME ZONE 'Asia/Kolkata')
+  AND (p_to IS NULL OR t.created_at < (p_to + 1)::TIMESTAMP AT TIME ZONE 'Asia/Kolkata')
+  AND (p_search IS NULL OR p_search = '' OR t.text ILIKE '%' || p_search || '%')
+  AND (NOT p_top_level OR t.parent_id IS NULL)
+  AND (p_panchayath IS NULL OR t.panchayath_id = p_panchayath)
+  AND (p_ward IS NULL OR (t.panchayath_id IS NOT NULL AND (t.wards IS NULL OR p_ward = ANY(t.wards))))
+  ORDER BY
+    CASE WHEN p_sort = 'urgency' THEN COALESCE(t.status <> 'finished' AND t.due_date < public.task_today(), false) END DESC,
+    CASE WHEN p_sort = 'urgency' THEN
+      CASE t.priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END
+    END,
+    CASE WHEN p_sort = 'urgency' THEN t.due_date END NULLS LAST,
+    t.created_at DESC,
+    t.id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, UUID, BOOLEAN, UUID, TEXT, BOOLEAN, DATE, DATE, TEXT, BOOLEAN, UUID, INTEGER, TEXT) TO anon, authenticated;
@@ -0,0 +1,180 @@
+-- Structured daily reports: each panchayath keeps a list of activity categories, and a daily note
+-- records how many of each the agent did that day, plus the ward they worked in. The free-text
+-- activity stays as a remark. Notes and their counts are saved together by save_daily_report,
+-- which also works out is_leave, so the reports no longer have to guess it from empty text.
+
+CREATE TABLE IF NOT EXISTS public.activity_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  panchayath_id UUID NOT NULL REFERENCES public.panchayaths(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Archived categories keep their counts in old reports, so only active names must be unique
+CREATE UNIQUE INDEX IF NOT EXISTS activity_categories_active_name_key
+  ON public.activity_categories(panchayath_id, lower(name)) WHERE archived_at IS NULL;
+
+ALTER TABLE public.daily_notes
+  ADD COLUMN IF NOT EXISTS ward INTEGER CHECK (ward > 0);
+
+CREATE TABLE IF NOT EXISTS public.daily_note_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES public.daily_notes(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES public.activity_categories(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT daily_note_entries_note_category_key UNIQUE (note_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_note_entries_category ON public.daily_note_entries(category_id);
+
+-- Supervisors set up the categories of their panchayath; its coordinators and team admins can too
+CREATE OR REPLACE FUNCTION public.can_manage_activity_categories(p_panchayath_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_team_admin()
+    OR is_panchayath_coordinator(p_panchayath_id)
+    OR EXISTS (
+      SELECT 1 FROM supervisors s
+      WHERE s.id IN (SELECT session_agent_ids())
+      AND s.panchayath_id = p_panchayath_id
+      AND s.deleted_at IS NULL
+    )
+$$;
+
+ALTER TABLE public.activity_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.daily_note_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read activity categories" ON activity_categories FOR SELECT TO anon, authenticated
+  USING (has_session());
+CREATE POLICY "Supervisors manage their panchayath's activity categories" ON activity_categories FOR ALL TO anon, authenticated
+  USING (can_manage_activity_categories(panchayath_id))
+  WITH CHECK (can_manage_activity_categories(panchayath_id));
+
+-- Entries are read with their note and only written through save_daily_report
+CREATE POLICY "Entries of readable notes can be read" ON daily_note_entries FOR SELECT TO anon, authenticated
+  USING (note_id IN (SELECT id FROM daily_notes));
+
+CREATE TRIGGER update_activity_categories_updated_at BEFORE UPDATE ON activity_categories
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_activity_categories AFTER INSERT OR UPDATE OR DELETE ON activity_categories
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+-- Every panchayath starts with the categories the field teams already report on
+
+CREATE OR REPLACE FUNCTION public.seed_activity_categories()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO activity_categories (panchayath_id, name, sort_order)
+  VALUES
+    (NEW.id, 'Households visited', 1),
+    (NEW.id, 'Meetings held', 2),
+    (NEW.id, 'Forms collected', 3);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_panchayath_activity_categories AFTER INSERT ON panchayaths
+    FOR EACH ROW EXECUTE FUNCTION seed_activity_categories();
+
+INSERT INTO public.activity_categories (panchayath_id, name, sort_order)
+SELECT p.id, c.name, c.sort_order
+FROM public.panchayaths p
+CROSS JOIN (VALUES ('Households visited', 1), ('Meetings held', 2), ('Forms collected', 3)) AS c(name, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM public.activity_categories a WHERE a.panchayath_id = p.id);
+
+-- Saves the caller's note for today with its counts, replacing any counts saved earlier. p_entries
+-- is a JSON array of {category_id, quantity}; zero counts are dropped. A day without a remark or
+-- any count is leave. Returns the note id.
+CREATE OR REPLACE FUNCTION public.save_daily_report(
+  p_user_id UUID,
+  p_date DATE,
+  p_activity TEXT,
+  p_ward INTEGER,
+  p_entries JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_activity TEXT := NULLIF(trim(p_activity), '');
+  v_note_id UUID;
+  v_counted INTEGER;
+BEGIN
+  IF session_mobile() IS NULL OR p_user_id NOT IN (SELECT session_agent_ids()) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_date <> task_today() THEN
+    RAISE EXCEPTION 'NOT_TODAY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(COALESCE(p_entries, '[]'::JSONB)) AS e(category_id UUID, quantity INTEGER)
+    WHERE e.quantity < 0
+    OR NOT EXISTS (SELECT 1 FROM activity_categories c WHERE c.id = e.category_id AND c.archived_at IS NULL)
+  ) THEN
+    RAISE EXCEPTION 'INVALID_ENTRY';
+  END IF;
+
+  SELECT count(*) INTO v_counted
+  FROM jsonb_to_recordset(COALESCE(p_entries, '[]'::JSONB)) AS e(category_id UUID, quantity INTEGER)
+  WHERE e.quantity > 0;
+
+  INSERT INTO daily_notes (user_id, mobile_number, date, activity, ward, is_leave)
+  VALUES (p_user_id, session_mobile(), p_date, v_activity, p_ward, v_activity IS NULL AND v_counted = 0)
+  ON CONFLICT (user_id, date) DO UPDATE
+    SET activity = EXCLUDED.activity,
+        ward = EXCLUDED.ward,
+        is_leave = EXCLUDED.is_leave
+  RETURNING id INTO v_note_id;
+
+  DELETE FROM daily_note_entries WHERE note_id = v_note_id;
+
+  INSERT INTO daily_note_entries (note_id, category_id, quantity)
+  SELECT v_note_id, e.category_id, sum(e.quantity)
+  FROM jsonb_to_recordset(COALESCE(p_entries, '[]'::JSONB)) AS e(category_id UUID, quantity INTEGER)
+  WHERE e.quantity > 0
+  GROUP BY e.category_id;
+
+  RETURN v_note_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_daily_report(UUID, DATE, TEXT, INTEGER, JSONB) TO anon, authenticated;
+
+-- Per agent and category totals of a panchayath's counts over a date range. Runs with the
+-- caller's rights, so each caller only adds up the notes they can read.
+CREATE OR REPLACE FUNCTION public.daily_activity_totals(p_panchayath_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (mobile_number TEXT, category_id UUID, quantity BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT n.mobile_number, e.category_id, sum(e.quantity)
+  FROM daily_note_entries e
+  JOIN daily_notes n ON n.id = e.note_id
+  JOIN activity_categories c ON c.id = e.category_id
+  WHERE c.panchayath_id = p_panchayath_id
+  AND n.date BETWEEN p_from AND p_to
+  GROUP BY n.mobile_number, e.category_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.daily_activity_totals(UUID, DATE, DATE) TO anon, authenticated;
+
+COMMENT ON TABLE public.activity_categories IS 'What agents count in their daily reports, per panchayath; archived categories stay for old reports';
+COMMENT ON TABLE public.daily_note_entries IS 'Counts per activity category of a daily note, written by save_daily_report';
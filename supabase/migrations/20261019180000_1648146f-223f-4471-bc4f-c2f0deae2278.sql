@@ -0,0 +1,191 @@
+-- Leave requests: an agent asks for leave over a date range with a reason, and their immediate
+-- superior approves or rejects it. PROs go to their group leader, group leaders to their
+-- supervisor, supervisors to their coordinator; coordinators have no superior agent, so team admins
+-- review theirs, and can step in for any request whose superior is gone.
+-- Approved leave is what the reports now count as leave. A day with no daily report and no
+-- approved leave is a missing report, whatever daily_notes.is_leave says.
+
+CREATE TABLE IF NOT EXISTS public.leave_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL,
+  agent_type TEXT NOT NULL CHECK (agent_type IN ('coordinator', 'supervisor', 'group_leader', 'pro')),
+  agent_name TEXT NOT NULL,
+  mobile_number TEXT NOT NULL,
+  panchayath_id UUID REFERENCES public.panchayaths(id) ON DELETE SET NULL,
+  from_date DATE NOT NULL,
+  to_date DATE NOT NULL,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  approver_id UUID,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT leave_requests_dates_check CHECK (to_date >= from_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_agent ON public.leave_requests(agent_id, from_date);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_mobile ON public.leave_requests(mobile_number, from_date);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_approver ON public.leave_requests(approver_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_leave_requests_panchayath ON public.leave_requests(panchayath_id, from_date);
+
+ALTER TABLE public.leave_requests ENABLE ROW LEVEL SECURITY;
+
+-- Read by the agent, their superiors and team admins; written only through the functions below
+CREATE POLICY "Own, reviewed and visible agents' leave can be read" ON leave_requests FOR SELECT TO anon, authenticated
+  USING (
+    is_team_admin()
+    OR agent_id IN (SELECT session_visible_agent_ids())
+    OR approver_id IN (SELECT session_agent_ids())
+  );
+
+CREATE TRIGGER update_leave_requests_updated_at BEFORE UPDATE ON leave_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_leave_requests AFTER INSERT OR UPDATE OR DELETE ON leave_requests
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+-- The agent one level up, or NULL for coordinators
+CREATE OR REPLACE FUNCTION public.agent_superior_id(p_agent_id UUID, p_agent_type TEXT)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_agent_type
+    WHEN 'pro' THEN (SELECT group_leader_id FROM pros WHERE id = p_agent_id)
+    WHEN 'group_leader' THEN (SELECT supervisor_id FROM group_leaders WHERE id = p_agent_id)
+    WHEN 'supervisor' THEN (SELECT coordinator_id FROM supervisors WHERE id = p_agent_id)
+  END
+$$;
+
+REVOKE ALL ON FUNCTION public.agent_superior_id(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Requests leave for one of the caller's agent roles. Ranges may not overlap another pending or
+-- approved request of the same person. Returns the request id.
+CREATE OR REPLACE FUNCTION public.request_leave(p_agent_id UUID, p_from DATE, p_to DATE, p_reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_agent RECORD;
+  v_id UUID;
+BEGIN
+  SELECT agent_id, agent_name, agent_type, panchayath_id INTO v_agent
+  FROM get_agent_by_mobile(session_mobile())
+  WHERE agent_id = p_agent_id
+  AND agent_type IN ('coordinator', 'supervisor', 'group_leader', 'pro');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF btrim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'REASON_REQUIRED';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+    RAISE EXCEPTION 'INVALID_DATES';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM leave_requests
+    WHERE mobile_number = session_mobile()
+    AND status IN ('pending', 'approved')
+    AND from_date <= p_to
+    AND to_date >= p_from
+  ) THEN
+    RAISE EXCEPTION 'OVERLAPPING_LEAVE';
+  END IF;
+
+  INSERT INTO leave_requests (
+    agent_id, agent_type, agent_name, mobile_number, panchayath_id, from_date, to_date, reason, approver_id
+  )
+  VALUES (
+    p_agent_id, v_agent.agent_type, v_agent.agent_name, session_mobile(), v_agent.panchayath_id, p_from, p_to, btrim(p_reason),
+    agent_superior_id(p_agent_id, v_agent.agent_type)
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_leave(UUID, DATE, DATE, TEXT) TO anon, authenticated;
+
+-- Approves or rejects a pending request; rejecting needs a reason. Agents cannot review their own.
+CREATE OR REPLACE FUNCTION public.review_leave_request(p_request_id UUID, p_approve BOOLEAN, p_note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request leave_requests%ROWTYPE;
+BEGIN
+  IF NOT p_approve AND btrim(COALESCE(p_note, '')) = '' THEN
+    RAISE EXCEPTION 'REJECT_REASON_REQUIRED';
+  END IF;
+
+  SELECT * INTO v_request FROM leave_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF v_request.mobile_number = session_mobile()
+    OR NOT (v_request.approver_id IN (SELECT session_agent_ids()) OR is_team_admin()) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  UPDATE leave_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = session_actor_label(),
+      reviewed_at = now(),
+      review_note = NULLIF(btrim(COALESCE(p_note, '')), '')
+  WHERE id = p_request_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_leave_request(UUID, BOOLEAN, TEXT) TO anon, authenticated;
+
+-- Withdraws the caller's own request while it is pending, or approved leave that has not started
+CREATE OR REPLACE FUNCTION public.cancel_leave_request(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request leave_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM leave_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF v_request.agent_id NOT IN (SELECT session_agent_ids()) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (v_request.status = 'pending' OR (v_request.status = 'approved' AND v_request.from_date > task_today())) THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  UPDATE leave_requests SET status = 'cancelled' WHERE id = p_request_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_leave_request(UUID) TO anon, authenticated;
+
+COMMENT ON TABLE public.leave_requests IS 'Leave asked for by agents and reviewed by their immediate superior; approved rows are the leave the reports count';
+COMMENT ON COLUMN public.daily_notes.is_leave IS 'True when nothing was reported that day; actual leave is recorded in leave_requests';
@@ -0,0 +1,345 @@
+-- Late daily reports: an agent who missed a day, or wants to correct one, submits the note for a
+-- past date within the panchayath's late report window. Their supervisor approves it before it
+-- reaches daily_notes: PROs and group leaders go to the supervisor above them, supervisors to their
+-- coordinator, and coordinators to team admins. Approved notes keep when they were first submitted
+-- and are marked late, so the reports can tell them apart from notes written on the day.
+
+ALTER TABLE public.panchayaths
+  ADD COLUMN IF NOT EXISTS late_report_days INTEGER NOT NULL DEFAULT 3 CHECK (late_report_days BETWEEN 0 AND 30);
+
+ALTER TABLE public.daily_notes
+  ADD COLUMN IF NOT EXISTS late_submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS late_approved_by TEXT;
+
+CREATE TABLE IF NOT EXISTS public.late_daily_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  agent_type TEXT NOT NULL CHECK (agent_type IN ('coordinator', 'supervisor', 'group_leader', 'pro')),
+  agent_name TEXT NOT NULL,
+  mobile_number TEXT NOT NULL,
+  panchayath_id UUID REFERENCES public.panchayaths(id) ON DELETE SET NULL,
+  date DATE NOT NULL,
+  activity TEXT,
+  ward INTEGER CHECK (ward > 0),
+  entries JSONB NOT NULL DEFAULT '[]'::JSONB,
+  is_correction BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  approver_id UUID,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open submission per agent and day
+CREATE UNIQUE INDEX IF NOT EXISTS late_daily_reports_pending_key
+  ON public.late_daily_reports(user_id, date) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_late_daily_reports_mobile ON public.late_daily_reports(mobile_number, date);
+CREATE INDEX IF NOT EXISTS idx_late_daily_reports_approver ON public.late_daily_reports(approver_id) WHERE status = 'pending';
+
+ALTER TABLE public.late_daily_reports ENABLE ROW LEVEL SECURITY;
+
+-- Read by the agent, their superiors and team admins; written only through the functions below
+CREATE POLICY "Own, reviewed and visible agents' late reports can be read" ON late_daily_reports FOR SELECT TO anon, authenticated
+  USING (
+    is_team_admin()
+    OR user_id IN (SELECT session_visible_agent_ids())
+    OR approver_id IN (SELECT session_agent_ids())
+  );
+
+CREATE TRIGGER update_late_daily_reports_updated_at BEFORE UPDATE ON late_daily_reports
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_late_daily_reports AFTER INSERT OR UPDATE OR DELETE ON late_daily_reports
+    FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+-- Past notes may only change through an approved late report, so agents no longer write
+-- daily_notes directly; save_daily_report covers today.
+DROP POLICY IF EXISTS "Agents write their own notes" ON daily_notes;
+
+-- The supervisor who approves an agent's late reports, or NULL for coordinators
+CREATE OR REPLACE FUNCTION public.agent_report_reviewer_id(p_agent_id UUID, p_agent_type TEXT)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_agent_type
+    WHEN 'pro' THEN (
+      SELECT gl.supervisor_id FROM pros p JOIN group_leaders gl ON gl.id = p.group_leader_id WHERE p.id = p_agent_id
+    )
+    WHEN 'group_leader' THEN (SELECT supervisor_id FROM group_leaders WHERE id = p_agent_id)
+    WHEN 'supervisor' THEN (SELECT coordinator_id FROM supervisors WHERE id = p_agent_id)
+  END
+$$;
+
+REVOKE ALL ON FUNCTION public.agent_report_reviewer_id(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Writes a note with its counts, replacing any counts saved earlier. Shared by save_daily_report
+-- and approved late reports; counts of categories deleted since are dropped.
+CREATE OR REPLACE FUNCTION public.write_daily_note(
+  p_user_id UUID,
+  p_mobile_number TEXT,
+  p_date DATE,
+  p_activity TEXT,
+  p_ward INTEGER,
+  p_entries JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_activity TEXT := NULLIF(trim(p_activity), '');
+  v_note_id UUID;
+  v_counted INTEGER;
+BEGIN
+  SELECT count(*) INTO v_counted
+  FROM jsonb_to_recordset(COALESCE(p_entries, '[]'::JSONB)) AS e(category_id UUID, quantity INTEGER)
+  WHERE e.quantity > 0;
+
+  INSERT INTO daily_notes (user_id, mobile_number, date, activity, ward, is_leave)
+  VALUES (p_user_id, p_mobile_number, p_date, v_activity, p_ward, v_activity IS NULL AND v_counted = 0)
+  ON CONFLICT (user_id, date) DO UPDATE
+    SET activity = EXCLUDED.activity,
+        ward = EXCLUDED.ward,
+        is_leave = EXCLUDED.is_leave
+  RETURNING id INTO v_note_id;
+
+  DELETE FROM daily_note_entries WHERE note_id = v_note_id;
+
+  INSERT INTO daily_note_entries (note_id, category_id, quantity)
+  SELECT v_note_id, e.category_id, sum(e.quantity)
+  FROM jsonb_to_recordset(COALESCE(p_entries, '[]'::JSONB)) AS e(category_id UUID, quantity INTEGER)
+  WHERE e.quantity > 0
+  AND EXISTS (SELECT 1 FROM activity_categories c WHERE c.id = e.category_id)
+  GROUP BY e.category_id;
+
+  RETURN v_note_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.write_daily_note(UUID, TEXT, DATE, TEXT, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Raises INVALID_ENTRY unless every count is for an active category and not negative
+CREATE OR REPLACE FUNCTION public.check_daily_entries(p_entries JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(COALESCE(p_entries, '[]'::JSONB)) AS e(category_id UUID, quantity INTEGER)
+    WHERE e.quantity < 0
+    OR NOT EXISTS (SELECT 1 FROM activity_categories c WHERE c.id = e.category_id AND c.archived_at IS NULL)
+  ) THEN
+    RAISE EXCEPTION 'INVALID_ENTRY';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.check_daily_entries(JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.save_daily_report(
+  p_user_id UUID,
+  p_date DATE,
+  p_activity TEXT,
+  p_ward INTEGER,
+  p_entries JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF session_mobile() IS NULL OR p_user_id NOT IN (SELECT session_agent_ids()) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  -- Earlier days go through submit_late_daily_report
+  IF p_date <> task_today() THEN
+    RAISE EXCEPTION 'NOT_TODAY';
+  END IF;
+
+  PERFORM check_daily_entries(p_entries);
+
+  RETURN write_daily_note(p_user_id, session_mobile(), p_date, p_activity, p_ward, p_entries);
+END;
+$$;
+
+-- Submits a note for a past day, or a correction of one, for the supervisor to approve. The day
+-- must be within the late report window of the agent's panchayath. Returns the submission id.
+CREATE OR REPLACE FUNCTION public.submit_late_daily_report(
+  p_user_id UUID,
+  p_date DATE,
+  p_activity TEXT,
+  p_ward INTEGER,
+  p_entries JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_agent RECORD;
+  v_window INTEGER;
+  v_id UUID;
+BEGIN
+  SELECT agent_id, agent_name, agent_type, panchayath_id INTO v_agent
+  FROM get_agent_by_mobile(session_mobile())
+  WHERE agent_id = p_user_id
+  AND agent_type IN ('coordinator', 'supervisor', 'group_leader', 'pro');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_date IS NULL OR p_date >= task_today() THEN
+    RAISE EXCEPTION 'NOT_PAST';
+  END IF;
+
+  SELECT late_report_days INTO v_window FROM panchayaths WHERE id = v_agent.panchayath_id;
+
+  IF p_date < task_today() - COALESCE(v_window, 0) THEN
+    RAISE EXCEPTION 'OUTSIDE_WINDOW';
+  END IF;
+
+  PERFORM check_daily_entries(p_entries);
+
+  IF EXISTS (SELECT 1 FROM late_daily_reports WHERE user_id = p_user_id AND date = p_date AND status = 'pending') THEN
+    RAISE EXCEPTION 'ALREADY_PENDING';
+  END IF;
+
+  INSERT INTO late_daily_reports (
+    user_id, agent_type, agent_name, mobile_number, panchayath_id, date, activity, ward, entries, is_correction, approver_id
+  )
+  VALUES (
+    p_user_id, v_agent.agent_type, v_agent.agent_name, session_mobile(), v_agent.panchayath_id, p_date,
+    NULLIF(trim(p_activity), ''), p_ward, COALESCE(p_entries, '[]'::JSONB),
+    EXISTS (SELECT 1 FROM daily_notes WHERE user_id = p_user_id AND date = p_date),
+    agent_report_reviewer_id(p_user_id, v_agent.agent_type)
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_late_daily_report(UUID, DATE, TEXT, INTEGER, JSONB) TO anon, authenticated;
+
+-- Approves or rejects a pending late report; rejecting needs a reason. Approving writes the note,
+-- marks it late and keeps the earliest of its first save and the submission as its created_at.
+CREATE OR REPLACE FUNCTION public.review_late_daily_report(p_report_id UUID, p_approve BOOLEAN, p_note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report late_daily_reports%ROWTYPE;
+  v_note_id UUID;
+BEGIN
+  IF NOT p_approve AND btrim(COALESCE(p_note, '')) = '' THEN
+    RAISE EXCEPTION 'REJECT_REASON_REQUIRED';
+  END IF;
+
+  SELECT * INTO v_report FROM late_daily_reports WHERE id = p_report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF v_report.mobile_number = session_mobile()
+    OR NOT (v_report.approver_id IN (SELECT session_agent_ids()) OR is_team_admin()) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_report.status <> 'pending' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  UPDATE late_daily_reports
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = session_actor_label(),
+      reviewed_at = now(),
+      review_note = NULLIF(btrim(COALESCE(p_note, '')), '')
+  WHERE id = p_report_id;
+
+  IF p_approve THEN
+    v_note_id := write_daily_note(
+      v_report.user_id, v_report.mobile_number, v_report.date, v_report.activity, v_report.ward, v_report.entries
+    );
+
+    UPDATE daily_notes
+    SET late_submitted_at = v_report.created_at,
+        late_approved_by = session_actor_label(),
+        created_at = LEAST(created_at, v_report.created_at)
+    WHERE id = v_note_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_late_daily_report(UUID, BOOLEAN, TEXT) TO anon, authenticated;
+
+-- Withdraws the caller's own late report while it is pending
+CREATE OR REPLACE FUNCTION public.cancel_late_daily_report(p_report_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report late_daily_reports%ROWTYPE;
+BEGIN
+  SELECT * INTO v_report FROM late_daily_reports WHERE id = p_report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF v_report.user_id NOT IN (SELECT session_agent_ids()) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_report.status <> 'pending' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  UPDATE late_daily_reports SET status = 'cancelled' WHERE id = p_report_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_late_daily_report(UUID) TO anon, authenticated;
+
+-- How many days back a panchayath's agents may submit late reports; 0 turns them off
+CREATE OR REPLACE FUNCTION public.set_late_report_window(p_panchayath_id UUID, p_days INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_manage_activity_categories(p_panchayath_id) THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_days IS NULL OR p_days < 0 OR p_days > 30 THEN
+    RAISE EXCEPTION 'INVALID_WINDOW';
+  END IF;
+
+  UPDATE panchayaths SET late_report_days = p_days WHERE id = p_panchayath_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_late_report_window(UUID, INTEGER) TO anon, authenticated;
+
+COMMENT ON TABLE public.late_daily_reports IS 'Notes for past days and corrections waiting on, or decided by, the agent''s supervisor';
+COMMENT ON COLUMN public.panchayaths.late_report_days IS 'Days back agents may submit late daily reports for approval; 0 turns them off';
+COMMENT ON COLUMN public.daily_notes.late_submitted_at IS 'When the approved late report for this day was submitted; NULL for notes written on the day';
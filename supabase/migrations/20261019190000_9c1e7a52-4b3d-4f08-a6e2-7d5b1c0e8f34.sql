@@ -0,0 +1,73 @@
+-- Case-insensitive super admin usernames
+-- Accounts created before hashed logins kept whatever case they were typed in, while
+-- super_admin_login lowercased the entered name and compared it as is, so those accounts could
+-- no longer sign in. Usernames now match without regard to case.
+
+CREATE INDEX IF NOT EXISTS idx_super_admins_username_lower ON public.super_admins(lower(username));
+
+CREATE OR REPLACE FUNCTION public.super_admin_login(p_username TEXT, p_password TEXT)
+RETURNS TABLE (
+  session_token TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  super_admin_id UUID,
+  username VARCHAR,
+  name VARCHAR
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_admin super_admins%ROWTYPE;
+  v_token TEXT;
+  v_expires TIMESTAMP WITH TIME ZONE := now() + interval '12 hours';
+BEGIN
+  -- Older accounts may differ only in case; the exact spelling wins
+  SELECT * INTO v_admin
+  FROM super_admins sa
+  WHERE lower(sa.username) = lower(trim(p_username))
+  ORDER BY sa.username = trim(p_username) DESC
+  LIMIT 1;
+
+  IF NOT FOUND OR v_admin.password_hash <> crypt(p_password, v_admin.password_hash) THEN
+    RETURN;
+  END IF;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO super_admin_sessions (super_admin_id, token_hash, expires_at)
+  VALUES (v_admin.id, encode(digest(v_token, 'sha256'), 'hex'), v_expires);
+
+  RETURN QUERY SELECT v_token, v_expires, v_admin.id, v_admin.username, v_admin.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_super_admin(p_token TEXT, p_username TEXT, p_name TEXT, p_password TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF super_admin_from_token(p_token) IS NULL THEN
+    RAISE EXCEPTION 'Super admin session is invalid or expired' USING ERRCODE = '28000';
+  END IF;
+
+  IF length(p_password) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters' USING ERRCODE = '22023';
+  END IF;
+
+  -- The unique constraint is case-sensitive, so "Eva" would not stop a new "eva"
+  IF EXISTS (SELECT 1 FROM super_admins WHERE lower(username) = lower(trim(p_username))) THEN
+    RAISE EXCEPTION 'Username is already taken' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO super_admins (username, name, password_hash)
+  VALUES (lower(trim(p_username)), trim(p_name), crypt(p_password, gen_salt('bf', 10)))
+  RETURNING super_admins.id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
@@ -0,0 +1,98 @@
+-- Sessions return the caller's own roles; the mobile lookup is no longer public
+-- get_agent_by_mobile bypasses row-level security and was executable with the public anon key, so
+-- anyone could look up any number and read the names, roles, panchayaths and wards behind it.
+-- start_agent_session and touch_agent_session now return the roles of the session's own number,
+-- one row per role in login priority order, and only the database's own functions may call the
+-- lookup. When a valid session's number no longer holds any role, touch_agent_session returns a
+-- single row without an agent_id.
+
+DROP FUNCTION IF EXISTS public.start_agent_session(TEXT, TEXT, TEXT);
+
+CREATE FUNCTION public.start_agent_session(p_mobile TEXT, p_code TEXT, p_user_agent TEXT DEFAULT NULL)
+RETURNS TABLE (
+  session_token TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  mobile_number VARCHAR,
+  agent_id UUID,
+  agent_name VARCHAR,
+  agent_type VARCHAR,
+  source_table VARCHAR,
+  panchayath_id UUID,
+  panchayath_name VARCHAR,
+  ward INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_mobile VARCHAR := trim(p_mobile);
+  v_token TEXT;
+  v_expires TIMESTAMP WITH TIME ZONE := now() + interval '14 days';
+BEGIN
+  IF NOT verify_login_otp(p_mobile, p_code) THEN
+    RETURN;
+  END IF;
+
+  -- The number may have been removed after its code was sent
+  IF NOT EXISTS (SELECT 1 FROM get_agent_by_mobile(v_mobile)) THEN
+    RAISE EXCEPTION 'AGENT_NOT_REGISTERED' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO agent_sessions (mobile_number, token_hash, user_agent, expires_at)
+  VALUES (v_mobile, encode(digest(v_token, 'sha256'), 'hex'), left(p_user_agent, 255), v_expires);
+
+  RETURN QUERY
+  SELECT v_token, v_expires, a.mobile_number, a.agent_id, a.agent_name, a.agent_type, a.source_table,
+         a.panchayath_id, a.panchayath_name, a.ward
+  FROM get_agent_by_mobile(v_mobile) a;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.touch_agent_session(TEXT);
+
+-- Validate a session and record activity, so an active session never hits the idle timeout
+CREATE FUNCTION public.touch_agent_session(p_token TEXT)
+RETURNS TABLE (
+  mobile_number VARCHAR,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  agent_id UUID,
+  agent_name VARCHAR,
+  agent_type VARCHAR,
+  source_table VARCHAR,
+  panchayath_id UUID,
+  panchayath_name VARCHAR,
+  ward INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_mobile VARCHAR;
+  v_expires TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE agent_sessions s
+  SET last_seen_at = now()
+  WHERE s.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  AND s.revoked_at IS NULL
+  AND s.expires_at > now()
+  AND s.last_seen_at > now() - interval '48 hours'
+  RETURNING s.mobile_number, s.expires_at INTO v_mobile, v_expires;
+
+  IF v_mobile IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT v_mobile, v_expires, a.agent_id, a.agent_name, a.agent_type, a.source_table,
+         a.panchayath_id, a.panchayath_name, a.ward
+  FROM (SELECT 1) AS session
+  LEFT JOIN get_agent_by_mobile(v_mobile) a ON true;
+END;
+$$;
+
+-- Still used inside request_leave, submit_late_daily_report, the session helpers and the audit trail
+REVOKE ALL ON FUNCTION public.get_agent_by_mobile(VARCHAR, BOOLEAN) FROM PUBLIC, anon, authenticated;
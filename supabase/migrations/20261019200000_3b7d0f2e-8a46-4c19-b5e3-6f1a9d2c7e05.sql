@@ -0,0 +1,210 @@
+-- Let a mobile number hold one record per role table
+-- The number identifies a person at login, and a person can be, say, a coordinator and a team
+-- member at once (the multi-role sign-in relies on this). The registry now stops two records of the
+-- same table sharing a number instead of stopping the number appearing in two tables.
+
+ALTER TABLE public.mobile_registry DROP CONSTRAINT mobile_registry_pkey;
+ALTER TABLE public.mobile_registry ADD PRIMARY KEY (mobile_number, source_table);
+
+-- Roles skipped by the original backfill because another table held the number first
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile_number, 'coordinators', id FROM public.coordinators WHERE deleted_at IS NULL
+ON CONFLICT (mobile_number, source_table) DO NOTHING;
+
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile_number, 'supervisors', id FROM public.supervisors WHERE deleted_at IS NULL
+ON CONFLICT (mobile_number, source_table) DO NOTHING;
+
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile_number, 'group_leaders', id FROM public.group_leaders WHERE deleted_at IS NULL
+ON CONFLICT (mobile_number, source_table) DO NOTHING;
+
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile_number, 'pros', id FROM public.pros WHERE deleted_at IS NULL
+ON CONFLICT (mobile_number, source_table) DO NOTHING;
+
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile, 'admin_members', id FROM public.admin_members
+ON CONFLICT (mobile_number, source_table) DO NOTHING;
+
+INSERT INTO public.mobile_registry (mobile_number, source_table, record_id)
+SELECT mobile_number, 'officers', id FROM public.officers
+ON CONFLICT (mobile_number, source_table) DO NOTHING;
+
+DROP FUNCTION public.raise_mobile_taken(TEXT);
+
+-- Raise the structured conflict error for a number held by another record of the same table
+CREATE OR REPLACE FUNCTION public.raise_mobile_taken(p_mobile TEXT, p_table TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_holder RECORD;
+BEGIN
+  SELECT a.source_table, a.agent_type, a.panchayath_name INTO v_holder
+  FROM mobile_registry r
+  JOIN get_agent_by_mobile(p_mobile, true) a ON a.agent_id = r.record_id
+  WHERE r.mobile_number = p_mobile AND r.source_table = p_table;
+
+  RAISE EXCEPTION 'MOBILE_TAKEN'
+    USING ERRCODE = '23505',
+          DETAIL = json_build_object(
+            'table', v_holder.source_table,
+            'role', v_holder.agent_type,
+            'panchayath', v_holder.panchayath_name
+          )::TEXT;
+END;
+$$;
+
+-- Trigger argument: the name of the mobile column on the table
+CREATE OR REPLACE FUNCTION public.claim_mobile_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old TEXT := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ->> TG_ARGV[0] END;
+  v_new TEXT := to_jsonb(NEW) ->> TG_ARGV[0];
+BEGIN
+  IF v_old IS NOT DISTINCT FROM v_new THEN
+    RETURN NEW;
+  END IF;
+
+  -- Waits on a concurrent claim of the same number, then sees it as taken
+  INSERT INTO mobile_registry (mobile_number, source_table, record_id)
+  VALUES (v_new, TG_TABLE_NAME, NEW.id)
+  ON CONFLICT (mobile_number, source_table) DO NOTHING;
+
+  IF NOT FOUND THEN
+    PERFORM raise_mobile_taken(v_new, TG_TABLE_NAME);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    DELETE FROM mobile_registry WHERE mobile_number = v_old AND record_id = OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Free the number when its holder is deleted, handing it to any record of the same table that
+-- still shares it
+CREATE OR REPLACE FUNCTION public.release_mobile_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mobile TEXT := to_jsonb(OLD) ->> TG_ARGV[0];
+  v_next RECORD;
+BEGIN
+  DELETE FROM mobile_registry WHERE mobile_number = v_mobile AND record_id = OLD.id;
+
+  IF FOUND THEN
+    SELECT a.source_table, a.agent_id INTO v_next
+    FROM get_agent_by_mobile(v_mobile, true) a
+    WHERE a.source_table = TG_TABLE_NAME
+    LIMIT 1;
+
+    IF v_next.agent_id IS NOT NULL THEN
+      INSERT INTO mobile_registry (mobile_number, source_table, record_id)
+      VALUES (v_mobile, v_next.source_table, v_next.agent_id);
+    END IF;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+-- Same as before, claiming restored agents' numbers per table
+CREATE OR REPLACE FUNCTION public.restore_deletion(p_deletion_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deletion deletions%ROWTYPE;
+  v_agent RECORD;
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_deletion FROM deletions WHERE id = p_deletion_id AND restored_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  IF v_deletion.deleted_at < now() - soft_delete_retention() THEN
+    RAISE EXCEPTION 'RESTORE_WINDOW_EXPIRED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM coordinators c JOIN panchayaths p ON p.id = c.panchayath_id
+    WHERE c.deletion_id = p_deletion_id AND p.deletion_id IS DISTINCT FROM p_deletion_id AND p.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 1 FROM supervisors s
+    JOIN panchayaths p ON p.id = s.panchayath_id
+    JOIN coordinators c ON c.id = s.coordinator_id
+    WHERE s.deletion_id = p_deletion_id
+    AND (
+      (p.deletion_id IS DISTINCT FROM p_deletion_id AND p.deleted_at IS NOT NULL)
+      OR (c.deletion_id IS DISTINCT FROM p_deletion_id AND c.deleted_at IS NOT NULL)
+    )
+    UNION ALL
+    SELECT 1 FROM group_leaders g
+    JOIN panchayaths p ON p.id = g.panchayath_id
+    JOIN supervisors s ON s.id = g.supervisor_id
+    WHERE g.deletion_id = p_deletion_id
+    AND (
+      (p.deletion_id IS DISTINCT FROM p_deletion_id AND p.deleted_at IS NOT NULL)
+      OR (s.deletion_id IS DISTINCT FROM p_deletion_id AND s.deleted_at IS NOT NULL)
+    )
+    UNION ALL
+    SELECT 1 FROM pros r
+    JOIN panchayaths p ON p.id = r.panchayath_id
+    JOIN group_leaders g ON g.id = r.group_leader_id
+    WHERE r.deletion_id = p_deletion_id
+    AND (
+      (p.deletion_id IS DISTINCT FROM p_deletion_id AND p.deleted_at IS NOT NULL)
+      OR (g.deletion_id IS DISTINCT FROM p_deletion_id AND g.deleted_at IS NOT NULL)
+    )
+  ) THEN
+    RAISE EXCEPTION 'PARENT_DELETED';
+  END IF;
+
+  FOR v_agent IN
+    SELECT id, mobile_number, 'coordinators' AS source_table FROM coordinators WHERE deletion_id = p_deletion_id
+    UNION ALL SELECT id, mobile_number, 'supervisors' FROM supervisors WHERE deletion_id = p_deletion_id
+    UNION ALL SELECT id, mobile_number, 'group_leaders' FROM group_leaders WHERE deletion_id = p_deletion_id
+    UNION ALL SELECT id, mobile_number, 'pros' FROM pros WHERE deletion_id = p_deletion_id
+  LOOP
+    INSERT INTO mobile_registry (mobile_number, source_table, record_id)
+    VALUES (v_agent.mobile_number, v_agent.source_table, v_agent.id)
+    ON CONFLICT (mobile_number, source_table) DO NOTHING;
+
+    IF NOT FOUND THEN
+      PERFORM raise_mobile_taken(v_agent.mobile_number, v_agent.source_table);
+    END IF;
+  END LOOP;
+
+  UPDATE panchayaths SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+  UPDATE coordinators SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+  UPDATE supervisors SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+  UPDATE group_leaders SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+  UPDATE pros SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+  UPDATE todos SET deleted_at = NULL, deletion_id = NULL WHERE deletion_id = p_deletion_id;
+
+  UPDATE deletions SET restored_at = now(), restored_by = session_actor_label() WHERE id = p_deletion_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.raise_mobile_taken(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.mobile_registry IS 'One row per mobile number and role table, pointing at the officer, agent or team member that holds it';
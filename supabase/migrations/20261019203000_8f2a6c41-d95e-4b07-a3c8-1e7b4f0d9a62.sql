@@ -0,0 +1,31 @@
+-- Agents may only change the remarks of the tasks they hold
+-- "Agents update their own tasks" lets an agent update their task rows, which used to include the
+-- text, due date, priority, status and who holds it. Everything else an agent does to a task goes
+-- through functions (request_task_completion, cascade_task, add_task_comment), so direct updates
+-- by agents are now limited to remarks. Team admins keep full access; changes made inside those
+-- functions or with the service role are not restricted.
+
+-- SECURITY INVOKER so current_user is the caller: anon for the app, the function owner inside the
+-- task functions
+CREATE OR REPLACE FUNCTION public.guard_agent_task_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_team_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - 'remarks' - 'updated_at' IS DISTINCT FROM to_jsonb(OLD) - 'remarks' - 'updated_at' THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run before the other BEFORE UPDATE triggers, which derive columns from the ones changed
+CREATE TRIGGER guard_todos_agent_update BEFORE UPDATE ON todos
+    FOR EACH ROW EXECUTE FUNCTION guard_agent_task_update();
@@ -0,0 +1,32 @@
+-- Run the task status guard as the caller
+-- guard_task_status was SECURITY DEFINER, so current_user inside it was always the function owner
+-- and the check for anon and authenticated never matched: anyone who could update a task could
+-- also change its status. As SECURITY INVOKER it sees the role of the request, while updates made
+-- by transition_task and the other task functions still run as their owner.
+
+CREATE OR REPLACE FUNCTION public.guard_task_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_user IN ('anon', 'authenticated')
+  AND current_setting('app.task_transition', true) IS DISTINCT FROM 'on' THEN
+    IF 'requested' IN (OLD.status, NEW.status) THEN
+      RAISE EXCEPTION 'INVALID_TRANSITION';
+    END IF;
+
+    IF NOT is_team_admin() THEN
+      RAISE EXCEPTION 'PERMISSION_DENIED' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  NEW.finished_at := CASE WHEN NEW.status = 'finished' THEN COALESCE(NEW.finished_at, now()) END;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,70 @@
+-- Recurring task series name their holder the way tasks do
+-- Templates only had the team columns, so a series could not be held by a group leader or a PRO
+-- and its tasks got their holder from the todos trigger. assignee_type/assignee_id are added with
+-- the same meaning as on todos, backfilled from the team columns, and copied onto every task the
+-- series creates. The app sets them together with the team columns; there is no sync trigger, as
+-- a group leader or PRO holder cannot be derived from those.
+
+ALTER TABLE public.task_templates
+  ADD COLUMN IF NOT EXISTS assignee_type TEXT CHECK (assignee_type IN ('admin_member', 'coordinator', 'supervisor', 'group_leader', 'pro')),
+  ADD COLUMN IF NOT EXISTS assignee_id UUID,
+  ADD CONSTRAINT task_templates_assignee_pair_check CHECK ((assignee_type IS NULL) = (assignee_id IS NULL));
+
+UPDATE public.task_templates
+SET assignee_type = CASE
+      WHEN reassigned_to_coordinator IS NOT NULL THEN 'coordinator'
+      WHEN reassigned_to_supervisor IS NOT NULL THEN 'supervisor'
+      WHEN assigned_to IS NOT NULL THEN 'admin_member'
+    END,
+    assignee_id = COALESCE(reassigned_to_coordinator, reassigned_to_supervisor, assigned_to);
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := task_today();
+  v_template task_templates%ROWTYPE;
+  v_rows INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_template IN
+    SELECT * FROM task_templates
+    WHERE paused_at IS NULL
+    AND starts_on <= v_today
+    AND (last_generated_on IS NULL OR last_generated_on < v_today)
+    AND (ends_on IS NULL OR ends_on > COALESCE(last_generated_on, starts_on - 1))
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    INSERT INTO todos (
+      text, priority, due_date, assigned_to, reassigned_to_coordinator, reassigned_to_supervisor,
+      assignee_type, assignee_id, created_by, template_id, occurrence_date
+    )
+    SELECT
+      v_template.text, v_template.priority, d.day::DATE + v_template.due_in_days, v_template.assigned_to,
+      v_template.reassigned_to_coordinator, v_template.reassigned_to_supervisor,
+      v_template.assignee_type, v_template.assignee_id,
+      v_template.created_by, v_template.id, d.day::DATE
+    FROM generate_series(
+      GREATEST(v_template.starts_on, COALESCE(v_template.last_generated_on + 1, v_template.starts_on), v_today - 6),
+      v_today,
+      INTERVAL '1 day'
+    ) AS d(day)
+    WHERE task_template_occurs_on(v_template, d.day::DATE)
+    ON CONFLICT (template_id, occurrence_date) DO NOTHING;
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_count := v_count + v_rows;
+
+    UPDATE task_templates SET last_generated_on = v_today WHERE id = v_template.id;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_recurring_tasks() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.task_templates.assignee_id IS 'Agent who holds the tasks of the series, of the role in assignee_type';
@@ -0,0 +1,69 @@
+-- Task search matches the typed text literally
+-- search_tasks put p_search straight into an ILIKE pattern, so a search for "100%" or "ward_1"
+-- treated % and _ as wildcards and matched unrelated tasks. escape_like escapes them, and the
+-- backslash itself, before the text is wrapped in wildcards.
+
+CREATE OR REPLACE FUNCTION public.escape_like(p_text TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT replace(replace(replace(p_text, '\', '\\'), '%', '\%'), '_', '\_')
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  p_status TEXT DEFAULT NULL,
+  p_assigned_to UUID DEFAULT NULL,
+  p_unassigned BOOLEAN DEFAULT false,
+  p_holder UUID DEFAULT NULL,
+  p_priority TEXT DEFAULT NULL,
+  p_overdue BOOLEAN DEFAULT false,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_top_level BOOLEAN DEFAULT false,
+  p_panchayath UUID DEFAULT NULL,
+  p_ward INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'urgency'
+)
+RETURNS SETOF public.todos
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT t.*
+  FROM public.todos t
+  WHERE (
+    p_status IS NULL
+    OR (p_status = 'open' AND t.status <> 'finished')
+    OR t.status = p_status
+  )
+  AND (p_assigned_to IS NULL OR t.assigned_to = p_assigned_to)
+  AND (NOT p_unassigned OR t.assigned_to IS NULL)
+  AND (
+    p_holder IS NULL
+    OR t.assigned_to = p_holder
+    OR t.reassigned_to_coordinator = p_holder
+    OR t.reassigned_to_supervisor = p_holder
+    OR t.assignee_id = p_holder
+    OR t.escalated_to_coordinator = p_holder
+    OR (t.created_by = p_holder AND t.parent_id IS NOT NULL AND t.status = 'requested')
+  )
+  AND (p_priority IS NULL OR t.priority = p_priority)
+  AND (NOT p_overdue OR (t.status <> 'finished' AND t.due_date < public.task_today()))
+  AND (p_from IS NULL OR t.created_at >= p_from::TIMESTAMP AT TIME ZONE 'Asia/Kolkata')
+  AND (p_to IS NULL OR t.created_at < (p_to + 1)::TIMESTAMP AT TIME ZONE 'Asia/Kolkata')
+  AND (p_search IS NULL OR p_search = '' OR t.text ILIKE '%' || public.escape_like(p_search) || '%')
+  AND (NOT p_top_level OR t.parent_id IS NULL)
+  AND (p_panchayath IS NULL OR t.panchayath_id = p_panchayath)
+  AND (p_ward IS NULL OR (t.panchayath_id IS NOT NULL AND (t.wards IS NULL OR p_ward = ANY(t.wards))))
+  ORDER BY
+    CASE WHEN p_sort = 'urgency' THEN COALESCE(t.status <> 'finished' AND t.due_date < public.task_today(), false) END DESC,
+    CASE WHEN p_sort = 'urgency' THEN
+      CASE t.priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END
+    END,
+    CASE WHEN p_sort = 'urgency' THEN t.due_date END NULLS LAST,
+    t.created_at DESC,
+    t.id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, UUID, BOOLEAN, UUID, TEXT, BOOLEAN, DATE, DATE, TEXT, BOOLEAN, UUID, INTEGER, TEXT) TO anon, authenticated;
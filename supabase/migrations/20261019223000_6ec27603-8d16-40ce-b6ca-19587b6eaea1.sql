@@ -0,0 +1,35 @@
+-- Audit log search matches the typed text literally
+-- search_audit_log put p_search straight into its ILIKE patterns, so % and _ acted as wildcards,
+-- as they did in task search. It now escapes them with escape_like.
+
+CREATE OR REPLACE FUNCTION public.search_audit_log(
+  p_table_name TEXT DEFAULT NULL,
+  p_action TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF public.audit_log
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM audit_log a
+  WHERE (p_table_name IS NULL OR a.table_name = p_table_name)
+  AND (p_action IS NULL OR a.action = p_action)
+  AND (p_from IS NULL OR a.created_at >= p_from)
+  AND (p_to IS NULL OR a.created_at < p_to)
+  AND (
+    p_search IS NULL OR p_search = ''
+    OR a.actor_label ILIKE '%' || public.escape_like(p_search) || '%'
+    OR a.record_id::TEXT = p_search
+    OR a.old_data::TEXT ILIKE '%' || public.escape_like(p_search) || '%'
+    OR a.new_data::TEXT ILIKE '%' || public.escape_like(p_search) || '%'
+  )
+  ORDER BY a.created_at DESC, a.id DESC
+  LIMIT LEAST(p_limit, 200)
+  OFFSET p_offset
+$$;
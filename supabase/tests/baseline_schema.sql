@@ -0,0 +1,219 @@
+-- The app schema as it stood before the 20261019 migrations, rebuilt from the generated types.
+-- The older migrations and the hand-run scripts in the repository root never added up to the live
+-- database, so the tests start from this snapshot instead of replaying them.
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TABLE public.officers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(255) NOT NULL,
+  mobile_number VARCHAR(10) NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE public.panchayaths (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(255) NOT NULL UNIQUE,
+  number_of_wards INTEGER NOT NULL CHECK (number_of_wards > 0),
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE public.coordinators (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  panchayath_id UUID NOT NULL REFERENCES public.panchayaths(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  mobile_number VARCHAR(10) NOT NULL,
+  ward INTEGER NOT NULL,
+  rating DECIMAL(3,1),
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE public.supervisors (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  panchayath_id UUID NOT NULL REFERENCES public.panchayaths(id) ON DELETE CASCADE,
+  coordinator_id UUID NOT NULL REFERENCES public.coordinators(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  mobile_number VARCHAR(10) NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE public.supervisor_wards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  supervisor_id UUID NOT NULL REFERENCES public.supervisors(id) ON DELETE CASCADE,
+  ward INTEGER NOT NULL,
+  UNIQUE (supervisor_id, ward)
+);
+
+CREATE TABLE public.group_leaders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  panchayath_id UUID NOT NULL REFERENCES public.panchayaths(id) ON DELETE CASCADE,
+  supervisor_id UUID NOT NULL REFERENCES public.supervisors(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  mobile_number VARCHAR(10) NOT NULL,
+  ward INTEGER NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE public.pros (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  panchayath_id UUID NOT NULL REFERENCES public.panchayaths(id) ON DELETE CASCADE,
+  group_leader_id UUID NOT NULL REFERENCES public.group_leaders(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  mobile_number VARCHAR(10) NOT NULL,
+  ward INTEGER NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE public.admin_teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE public.admin_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.admin_teams(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  mobile VARCHAR(15) NOT NULL UNIQUE,
+  panchayath VARCHAR(255) NOT NULL,
+  role VARCHAR(50) NOT NULL DEFAULT 'Team member',
+  admin_type VARCHAR(20) DEFAULT 'team_admin',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE public.super_admins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  username VARCHAR(50) UNIQUE NOT NULL,
+  password_hash VARCHAR(255) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE public.daily_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID,
+  mobile_number VARCHAR,
+  date DATE NOT NULL,
+  activity TEXT,
+  is_leave BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, date)
+);
+
+CREATE TABLE public.todos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  text TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'unfinished' CHECK (status IN ('finished', 'unfinished')),
+  remarks TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  created_by UUID,
+  assigned_to UUID,
+  reassigned_to_coordinator UUID REFERENCES public.coordinators(id) ON DELETE SET NULL,
+  reassigned_to_supervisor UUID REFERENCES public.supervisors(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.testimonial_questions (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  question TEXT NOT NULL,
+  is_active BOOLEAN DEFAULT true,
+  display_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.testimonial_responses (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  question_id BIGINT REFERENCES public.testimonial_questions(id) ON DELETE CASCADE,
+  agent_id UUID,
+  agent_type TEXT,
+  panchayath_id UUID REFERENCES public.panchayaths(id) ON DELETE CASCADE,
+  response TEXT NOT NULL,
+  score INTEGER,
+  respondent_name TEXT,
+  respondent_contact TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'officers', 'panchayaths', 'coordinators', 'supervisors', 'supervisor_wards', 'group_leaders', 'pros',
+    'admin_teams', 'admin_members', 'super_admins', 'daily_notes', 'todos', 'testimonial_questions',
+    'testimonial_responses'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t);
+    -- The permissive policies the app ran on before row-level security was scoped
+    EXECUTE format('CREATE POLICY "Allow all" ON public.%I FOR ALL USING (true) WITH CHECK (true)', t);
+  END LOOP;
+END;
+$$;
+
+CREATE VIEW public.hierarchy_view AS
+SELECT
+  p.name AS panchayath_name,
+  p.number_of_wards,
+  c.name AS coordinator_name,
+  c.mobile_number AS coordinator_mobile,
+  c.ward AS coordinator_ward,
+  c.rating AS coordinator_rating,
+  s.name AS supervisor_name,
+  s.mobile_number AS supervisor_mobile,
+  array_agg(DISTINCT sw.ward) AS supervisor_wards,
+  gl.name AS group_leader_name,
+  gl.mobile_number AS group_leader_mobile,
+  gl.ward AS group_leader_ward,
+  pr.name AS pro_name,
+  pr.mobile_number AS pro_mobile,
+  pr.ward AS pro_ward
+FROM panchayaths p
+LEFT JOIN coordinators c ON p.id = c.panchayath_id
+LEFT JOIN supervisors s ON c.id = s.coordinator_id
+LEFT JOIN supervisor_wards sw ON s.id = sw.supervisor_id
+LEFT JOIN group_leaders gl ON s.id = gl.supervisor_id
+LEFT JOIN pros pr ON gl.id = pr.group_leader_id
+GROUP BY p.id, p.name, p.number_of_wards, c.id, c.name, c.mobile_number, c.ward, c.rating,
+  s.id, s.name, s.mobile_number, gl.id, gl.name, gl.mobile_number, gl.ward,
+  pr.id, pr.name, pr.mobile_number, pr.ward;
+
+CREATE OR REPLACE FUNCTION public.get_agent_by_mobile(mobile_num VARCHAR)
+RETURNS TABLE (agent_id UUID, agent_name VARCHAR, agent_type VARCHAR, panchayath_id UUID)
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT id, name, 'coordinator'::VARCHAR, panchayath_id FROM coordinators WHERE mobile_number = mobile_num
+  UNION ALL
+  SELECT id, name, 'supervisor'::VARCHAR, panchayath_id FROM supervisors WHERE mobile_number = mobile_num
+  UNION ALL
+  SELECT id, name, 'group_leader'::VARCHAR, panchayath_id FROM group_leaders WHERE mobile_number = mobile_num
+  UNION ALL
+  SELECT id, name, 'pro'::VARCHAR, panchayath_id FROM pros WHERE mobile_number = mobile_num
+$$;
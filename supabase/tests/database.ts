@@ -0,0 +1,89 @@
+import { PGlite, Transaction } from '@electric-sql/pglite';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import { randomUUID } from 'node:crypto';
+import { readFileSync, readdirSync } from 'node:fs';
+import path from 'node:path';
+
+const TESTS_DIR = __dirname;
+const MIGRATIONS_DIR = path.resolve(__dirname, '../migrations');
+
+// Migrations from before this date were never enough to rebuild the live schema; baseline_schema.sql
+// stands in for them
+const FIRST_MIGRATION = '2026';
+
+/**
+ * A fresh in-memory Postgres with the Supabase stand-ins, the baseline schema and every migration
+ * applied. pg_cron is not available, so its jobs are only recorded in cron.job.
+ */
+export const createTestDatabase = async (): Promise<PGlite> => {
+  const db = new PGlite({ extensions: { pgcrypto, pg_trgm, uuid_ossp } });
+
+  await db.exec(readFileSync(path.join(TESTS_DIR, 'supabase_platform.sql'), 'utf8'));
+  await db.exec(readFileSync(path.join(TESTS_DIR, 'baseline_schema.sql'), 'utf8'));
+
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .filter(file => file.endsWith('.sql') && file >= FIRST_MIGRATION)
+    .sort();
+
+  for (const file of migrations) {
+    const sql = readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8')
+      .replace(/CREATE EXTENSION IF NOT EXISTS pg_cron;/g, '');
+    await db.exec(sql);
+  }
+
+  return db;
+};
+
+/**
+ * Open an agent session for a mobile number and return its token, as start_agent_session would
+ */
+export const createAgentSession = async (db: PGlite, mobile: string): Promise<string> => {
+  const token = randomUUID();
+  await db.query(
+    `INSERT INTO agent_sessions (mobile_number, token_hash, expires_at)
+     VALUES ($1, encode(extensions.digest($2, 'sha256'), 'hex'), now() + interval '1 day')`,
+    [mobile, token]
+  );
+  return token;
+};
+
+/**
+ * Open a super admin session and return its token, as super_admin_login would
+ */
+export const createSuperAdminSession = async (db: PGlite, superAdminId: string): Promise<string> => {
+  const token = randomUUID();
+  await db.query(
+    `INSERT INTO super_admin_sessions (super_admin_id, token_hash, expires_at)
+     VALUES ($1, encode(extensions.digest($2, 'sha256'), 'hex'), now() + interval '1 day')`,
+    [superAdminId, token]
+  );
+  return token;
+};
+
+export interface SessionHeaders {
+  'x-agent-session'?: string;
+  'x-super-admin-session'?: string;
+}
+
+/**
+ * Run queries the way PostgREST runs a request from the app: as anon, with the session headers the
+ * client sends. Everything is rolled back afterwards, so tests never see each other's writes.
+ */
+export const asSession = async <T>(
+  db: PGlite,
+  headers: SessionHeaders,
+  run: (tx: Transaction) => Promise<T>
+): Promise<T> => {
+  let result: T;
+
+  await db.transaction(async tx => {
+    await tx.query(`SELECT set_config('request.headers', $1, true)`, [JSON.stringify(headers)]);
+    await tx.exec('SET LOCAL ROLE anon');
+    result = await run(tx);
+    await tx.rollback();
+  });
+
+  return result;
+};
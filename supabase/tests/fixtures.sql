@@ -0,0 +1,49 @@
+-- A small hierarchy for the policy tests. Panchayath A has one coordinator with two supervisors,
+-- each leading one group leader with one PRO; panchayath B has a single coordinator. Every agent's
+-- id ends in the last digits of its mobile number so failures are easy to read.
+
+INSERT INTO panchayaths (id, name, number_of_wards) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'Panchayath A', 10),
+  ('00000000-0000-0000-0000-00000000000b', 'Panchayath B', 10);
+
+INSERT INTO coordinators (id, panchayath_id, name, mobile_number, ward, rating) VALUES
+  ('00000000-0000-0000-0000-000000000101', '00000000-0000-0000-0000-00000000000a', 'Coordinator A', '9000000101', 1, 5),
+  ('00000000-0000-0000-0000-000000000201', '00000000-0000-0000-0000-00000000000b', 'Coordinator B', '9000000201', 1, 5);
+
+INSERT INTO supervisors (id, panchayath_id, coordinator_id, name, mobile_number) VALUES
+  ('00000000-0000-0000-0000-000000000111', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-000000000101', 'Supervisor A1', '9000000111'),
+  ('00000000-0000-0000-0000-000000000112', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-000000000101', 'Supervisor A2', '9000000112');
+
+INSERT INTO supervisor_wards (supervisor_id, ward) VALUES
+  ('00000000-0000-0000-0000-000000000111', 1),
+  ('00000000-0000-0000-0000-000000000112', 2);
+
+INSERT INTO group_leaders (id, panchayath_id, supervisor_id, name, mobile_number, ward) VALUES
+  ('00000000-0000-0000-0000-000000000121', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-000000000111', 'Group Leader A1', '9000000121', 1),
+  ('00000000-0000-0000-0000-000000000122', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-000000000112', 'Group Leader A2', '9000000122', 2);
+
+INSERT INTO pros (id, panchayath_id, group_leader_id, name, mobile_number, ward) VALUES
+  ('00000000-0000-0000-0000-000000000131', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-000000000121', 'PRO A1', '9000000131', 1),
+  ('00000000-0000-0000-0000-000000000132', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-000000000122', 'PRO A2', '9000000132', 2);
+
+INSERT INTO admin_teams (id, name) VALUES
+  ('00000000-0000-0000-0000-000000000901', 'Head office');
+
+INSERT INTO admin_members (id, team_id, name, mobile, panchayath) VALUES
+  ('00000000-0000-0000-0000-000000000911', '00000000-0000-0000-0000-000000000901', 'Team Member', '9000000911', 'Panchayath A');
+
+INSERT INTO super_admins (id, username, password_hash, name) VALUES
+  ('00000000-0000-0000-0000-000000000999', 'root', 'not-a-real-hash', 'Super Admin');
+
+INSERT INTO daily_notes (user_id, mobile_number, date, activity) VALUES
+  ('00000000-0000-0000-0000-000000000111', '9000000111', current_date, 'Supervisor A1 visited ward 1'),
+  ('00000000-0000-0000-0000-000000000131', '9000000131', current_date, 'PRO A1 met ten households'),
+  ('00000000-0000-0000-0000-000000000201', '9000000201', current_date, 'Coordinator B held a meeting');
+
+-- One task held by each of PRO A1, Coordinator B and the team member
+INSERT INTO todos (id, text, created_by, assignee_type, assignee_id, panchayath_id) VALUES
+  ('00000000-0000-0000-0000-000000000531', 'Survey ward 1', '00000000-0000-0000-0000-000000000911', 'pro', '00000000-0000-0000-0000-000000000131', '00000000-0000-0000-0000-00000000000a'),
+  ('00000000-0000-0000-0000-000000000501', 'Book the hall', '00000000-0000-0000-0000-000000000911', 'coordinator', '00000000-0000-0000-0000-000000000201', '00000000-0000-0000-0000-00000000000b');
+
+INSERT INTO todos (id, text, assigned_to) VALUES
+  ('00000000-0000-0000-0000-000000000511', 'Prepare the monthly report', '00000000-0000-0000-0000-000000000911');
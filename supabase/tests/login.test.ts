@@ -0,0 +1,147 @@
+import { PGlite, Transaction } from '@electric-sql/pglite';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { asSession, createTestDatabase } from './database';
+
+const PRO_MOBILE = '9000000131';
+
+// Issue a code as the login-otp edge function does
+const createCode = async (tx: Transaction, mobile = PRO_MOBILE): Promise<string> => {
+  const { rows } = await tx.query<{ code: string }>('SELECT code FROM create_login_otp($1)', [mobile]);
+  return rows[0].code;
+};
+
+// The error a refused code is raised with; the transaction carries on past it
+const refusal = async (tx: Transaction, mobile = PRO_MOBILE): Promise<string | null> => {
+  await tx.query('SAVEPOINT create_code');
+  try {
+    await createCode(tx, mobile);
+    return null;
+  } catch (error) {
+    await tx.query('ROLLBACK TO SAVEPOINT create_code');
+    return (error as Error).message;
+  }
+};
+
+const verifyCode = async (tx: Transaction, code: string, mobile = PRO_MOBILE): Promise<boolean> => {
+  const { rows } = await tx.query<{ valid: boolean }>('SELECT verify_login_otp($1, $2) AS valid', [mobile, code]);
+  return rows[0].valid;
+};
+
+// A code that is certainly not the one issued
+const wrongCode = (code: string) => code === '000000' ? '111111' : '000000';
+
+// now() is fixed for the transaction, so time passes by moving the stored codes back instead
+const ageCodes = (tx: Transaction, age: string) => tx.query(
+  `UPDATE login_otps SET created_at = created_at - $1::interval, expires_at = expires_at - $1::interval`,
+  [age]
+);
+
+describe('login otp', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    await db.exec(readFileSync(path.join(__dirname, 'fixtures.sql'), 'utf8'));
+  });
+
+  // Run as the service role and the database owner would, rolled back afterwards
+  const withCodes = (run: (tx: Transaction) => Promise<void>) => db.transaction(async tx => {
+    await run(tx);
+    await tx.rollback();
+  });
+
+  it('issues codes only to registered numbers', async () => {
+    await withCodes(async tx => {
+      expect(await createCode(tx)).toMatch(/^\d{6}$/);
+      expect(await refusal(tx, '9999999999')).toBe('OTP_NOT_REGISTERED');
+    });
+  });
+
+  it('waits a minute before sending another code', async () => {
+    await withCodes(async tx => {
+      await createCode(tx);
+      expect(await refusal(tx)).toBe('OTP_COOLDOWN');
+
+      await ageCodes(tx, '61 seconds');
+      expect(await createCode(tx)).toMatch(/^\d{6}$/);
+    });
+  });
+
+  it('sends at most five codes an hour', async () => {
+    await withCodes(async tx => {
+      for (let sent = 0; sent < 5; sent++) {
+        await createCode(tx);
+        await ageCodes(tx, '2 minutes');
+      }
+      expect(await refusal(tx)).toBe('OTP_RATE_LIMITED');
+
+      await ageCodes(tx, '1 hour');
+      expect(await createCode(tx)).toMatch(/^\d{6}$/);
+    });
+  });
+
+  it('accepts a code once', async () => {
+    await withCodes(async tx => {
+      const code = await createCode(tx);
+      expect(await verifyCode(tx, code)).toBe(true);
+      expect(await verifyCode(tx, code)).toBe(false);
+    });
+  });
+
+  it('rejects a code after five minutes', async () => {
+    await withCodes(async tx => {
+      const code = await createCode(tx);
+      await ageCodes(tx, '5 minutes');
+      expect(await verifyCode(tx, code)).toBe(false);
+    });
+  });
+
+  it('locks a code after five wrong attempts', async () => {
+    await withCodes(async tx => {
+      const code = await createCode(tx);
+      for (let attempt = 0; attempt < 4; attempt++) {
+        expect(await verifyCode(tx, wrongCode(code))).toBe(false);
+      }
+      // Four wrong attempts still leave the right code usable
+      await tx.query('SAVEPOINT four_wrong');
+      expect(await verifyCode(tx, code)).toBe(true);
+      await tx.query('ROLLBACK TO SAVEPOINT four_wrong');
+
+      expect(await verifyCode(tx, wrongCode(code))).toBe(false);
+      expect(await verifyCode(tx, code)).toBe(false);
+    });
+  });
+
+  it('only accepts the newest code for a number', async () => {
+    await withCodes(async tx => {
+      const first = await createCode(tx);
+      await ageCodes(tx, '61 seconds');
+      const second = await createCode(tx);
+
+      if (first !== second) {
+        expect(await verifyCode(tx, first)).toBe(false);
+      }
+      expect(await verifyCode(tx, second)).toBe(true);
+    });
+  });
+
+  it('cannot be issued or checked by the app directly', async () => {
+    await expect(asSession(db, {}, tx => createCode(tx))).rejects.toThrow(/permission denied/);
+    await expect(asSession(db, {}, tx => verifyCode(tx, '123456'))).rejects.toThrow(/permission denied/);
+  });
+
+  it('opens a session for the right code through start_agent_session', async () => {
+    await withCodes(async tx => {
+      const code = await createCode(tx);
+      await tx.exec('SET LOCAL ROLE anon');
+
+      const { rows: wrong } = await tx.query('SELECT session_token FROM start_agent_session($1, $2)', [PRO_MOBILE, wrongCode(code)]);
+      expect(wrong).toEqual([]);
+
+      const { rows } = await tx.query<{ session_token: string }>('SELECT session_token FROM start_agent_session($1, $2)', [PRO_MOBILE, code]);
+      expect(rows[0].session_token).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { PGlite, Transaction } from '@electric-sql/pglite';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { SessionHeaders, asSession, createAgentSession, createSuperAdminSession, createTestDatabase } from './database';
+
+const PANCHAYATH_A = '00000000-0000-0000-0000-00000000000a';
+const PANCHAYATH_B = '00000000-0000-0000-0000-00000000000b';
+
+const COORDINATOR_A = '00000000-0000-0000-0000-000000000101';
+const COORDINATOR_B = '00000000-0000-0000-0000-000000000201';
+const SUPERVISOR_A1 = '00000000-0000-0000-0000-000000000111';
+const SUPERVISOR_A2 = '00000000-0000-0000-0000-000000000112';
+const GROUP_LEADER_A1 = '00000000-0000-0000-0000-000000000121';
+const GROUP_LEADER_A2 = '00000000-0000-0000-0000-000000000122';
+const PRO_A1 = '00000000-0000-0000-0000-000000000131';
+const PRO_A2 = '00000000-0000-0000-0000-000000000132';
+const TEAM_MEMBER = '00000000-0000-0000-0000-000000000911';
+const SUPER_ADMIN = '00000000-0000-0000-0000-000000000999';
+
+const PRO_A1_TASK = '00000000-0000-0000-0000-000000000531';
+const COORDINATOR_B_TASK = '00000000-0000-0000-0000-000000000501';
+const TEAM_TASK = '00000000-0000-0000-0000-000000000511';
+
+const ALL_AGENTS = [
+  COORDINATOR_A, COORDINATOR_B, SUPERVISOR_A1, SUPERVISOR_A2, GROUP_LEADER_A1, GROUP_LEADER_A2, PRO_A1, PRO_A2
+];
+
+const ids = async (tx: Transaction, sql: string, params: unknown[] = []): Promise<string[]> => {
+  const { rows } = await tx.query<{ id: string }>(sql, params);
+  return rows.map(row => row.id).sort();
+};
+
+const visibleAgents = (tx: Transaction) => ids(tx, `
+  SELECT id FROM coordinators
+  UNION ALL SELECT id FROM supervisors
+  UNION ALL SELECT id FROM group_leaders
+  UNION ALL SELECT id FROM pros
+`);
+
+const visibleNoteAuthors = (tx: Transaction) => ids(tx, 'SELECT user_id AS id FROM daily_notes');
+
+const visibleTasks = (tx: Transaction) => ids(tx, 'SELECT id FROM todos');
+
+const addSupervisor = (tx: Transaction, panchayathId: string, coordinatorId: string) => tx.query(
+  `INSERT INTO supervisors (panchayath_id, coordinator_id, name, mobile_number) VALUES ($1, $2, 'New Supervisor', '9000000555')`,
+  [panchayathId, coordinatorId]
+);
+
+const updatedRows = async (tx: Transaction, sql: string, params: unknown[] = []): Promise<number> =>
+  (await tx.query(sql, params)).affectedRows ?? 0;
+
+describe('row-level security', () => {
+  let db: PGlite;
+  const sessions: Record<string, SessionHeaders> = {};
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    await db.exec(readFileSync(path.join(__dirname, 'fixtures.sql'), 'utf8'));
+
+    sessions.superAdmin = { 'x-super-admin-session': await createSuperAdminSession(db, SUPER_ADMIN) };
+    sessions.teamMember = { 'x-agent-session': await createAgentSession(db, '9000000911') };
+    sessions.coordinator = { 'x-agent-session': await createAgentSession(db, '9000000101') };
+    sessions.supervisor = { 'x-agent-session': await createAgentSession(db, '9000000111') };
+    sessions.groupLeader = { 'x-agent-session': await createAgentSession(db, '9000000121') };
+    sessions.pro = { 'x-agent-session': await createAgentSession(db, '9000000131') };
+  });
+
+  describe('anon without a session', () => {
+    it('reads nothing', async () => {
+      await asSession(db, {}, async tx => {
+        expect(await visibleAgents(tx)).toEqual([]);
+        expect(await ids(tx, 'SELECT id FROM panchayaths')).toEqual([]);
+        expect(await visibleNoteAuthors(tx)).toEqual([]);
+        expect(await visibleTasks(tx)).toEqual([]);
+      });
+    });
+
+    it('cannot add records', async () => {
+      await expect(asSession(db, {}, tx => addSupervisor(tx, PANCHAYATH_A, COORDINATOR_A)))
+        .rejects.toThrow(/row-level security/);
+    });
+
+    it('is not let in by a made-up token', async () => {
+      await asSession(db, { 'x-agent-session': 'not-a-session' }, async tx => {
+        expect(await visibleAgents(tx)).toEqual([]);
+      });
+    });
+  });
+
+  describe('super admin', () => {
+    it('reads every agent and manages team members', async () => {
+      await asSession(db, sessions.superAdmin, async tx => {
+        expect(await visibleAgents(tx)).toEqual([...ALL_AGENTS].sort());
+        await tx.query(
+          `INSERT INTO admin_members (team_id, name, mobile, panchayath) VALUES ('00000000-0000-0000-0000-000000000901', 'New Member', '9000000912', 'Panchayath B')`
+        );
+      });
+    });
+
+    it('searches the audit log for the text as typed', async () => {
+      const searchedRecords = (tx: Transaction, search: string) =>
+        ids(tx, 'SELECT DISTINCT record_id AS id FROM search_audit_log(p_search => $1, p_limit => 200)', [search]);
+
+      await asSession(db, sessions.superAdmin, async tx => {
+        expect(await searchedRecords(tx, 'ward 1')).toContain(PRO_A1_TASK);
+        expect(await searchedRecords(tx, 'ward_1')).toEqual([]);
+        expect(await searchedRecords(tx, '%')).toEqual([]);
+      });
+    });
+  });
+
+  describe('team member (admin)', () => {
+    it('reads every agent, note and task', async () => {
+      await asSession(db, sessions.teamMember, async tx => {
+        expect(await visibleAgents(tx)).toEqual([...ALL_AGENTS].sort());
+        expect(await visibleNoteAuthors(tx)).toEqual([COORDINATOR_B, SUPERVISOR_A1, PRO_A1].sort());
+        expect(await visibleTasks(tx)).toEqual([PRO_A1_TASK, COORDINATOR_B_TASK, TEAM_TASK].sort());
+      });
+    });
+
+    it('adds agents in any panchayath and edits any task', async () => {
+      await asSession(db, sessions.teamMember, async tx => {
+        await addSupervisor(tx, PANCHAYATH_B, COORDINATOR_B);
+        expect(await updatedRows(tx, `UPDATE todos SET text = 'Book the big hall' WHERE id = $1`, [COORDINATOR_B_TASK])).toBe(1);
+      });
+    });
+
+    it('cannot add team members', async () => {
+      await expect(asSession(db, sessions.teamMember, tx => tx.query(
+        `INSERT INTO admin_members (team_id, name, mobile, panchayath) VALUES ('00000000-0000-0000-0000-000000000901', 'New Member', '9000000912', 'Panchayath B')`
+      ))).rejects.toThrow(/row-level security/);
+    });
+  });
+
+  describe('coordinator', () => {
+    it('reads the agents and notes of their panchayath only', async () => {
+      await asSession(db, sessions.coordinator, async tx => {
+        expect(await visibleAgents(tx)).toEqual([...ALL_AGENTS].filter(id => id !== COORDINATOR_B).sort());
+        expect(await visibleNoteAuthors(tx)).toEqual([SUPERVISOR_A1, PRO_A1].sort());
+      });
+    });
+
+    it("reads their panchayath's tasks but not another's", async () => {
+      await asSession(db, sessions.coordinator, async tx => {
+        expect(await visibleTasks(tx)).toEqual([PRO_A1_TASK]);
+      });
+    });
+
+    it('adds agents in their panchayath only', async () => {
+      await asSession(db, sessions.coordinator, tx => addSupervisor(tx, PANCHAYATH_A, COORDINATOR_A));
+      await expect(asSession(db, sessions.coordinator, tx => addSupervisor(tx, PANCHAYATH_B, COORDINATOR_B)))
+        .rejects.toThrow(/row-level security/);
+    });
+
+    it("cannot edit another panchayath's agents", async () => {
+      await asSession(db, sessions.coordinator, async tx => {
+        expect(await updatedRows(tx, `UPDATE coordinators SET name = 'Renamed' WHERE id = $1`, [COORDINATOR_B])).toBe(0);
+      });
+    });
+  });
+
+  describe('supervisor', () => {
+    it('reads themselves, their coordinator, their group leaders and their PROs', async () => {
+      await asSession(db, sessions.supervisor, async tx => {
+        expect(await visibleAgents(tx)).toEqual([COORDINATOR_A, SUPERVISOR_A1, GROUP_LEADER_A1, PRO_A1].sort());
+        expect(await visibleNoteAuthors(tx)).toEqual([SUPERVISOR_A1, PRO_A1].sort());
+      });
+    });
+
+    it('edits their own record but cannot add agents', async () => {
+      await asSession(db, sessions.supervisor, async tx => {
+        expect(await updatedRows(tx, `UPDATE supervisors SET name = 'Renamed' WHERE id = $1`, [SUPERVISOR_A1])).toBe(1);
+        expect(await updatedRows(tx, `UPDATE supervisors SET name = 'Renamed' WHERE id = $1`, [SUPERVISOR_A2])).toBe(0);
+      });
+      await expect(asSession(db, sessions.supervisor, tx => addSupervisor(tx, PANCHAYATH_A, COORDINATOR_A)))
+        .rejects.toThrow(/row-level security/);
+    });
+  });
+
+  describe('group leader', () => {
+    it('reads themselves, their supervisor and their PROs', async () => {
+      await asSession(db, sessions.groupLeader, async tx => {
+        expect(await visibleAgents(tx)).toEqual([SUPERVISOR_A1, GROUP_LEADER_A1, PRO_A1].sort());
+        expect(await visibleNoteAuthors(tx)).toEqual([SUPERVISOR_A1, PRO_A1].sort());
+        expect(await visibleTasks(tx)).toEqual([]);
+      });
+    });
+  });
+
+  describe('PRO', () => {
+    it('reads themselves and their group leader', async () => {
+      await asSession(db, sessions.pro, async tx => {
+        expect(await visibleAgents(tx)).toEqual([GROUP_LEADER_A1, PRO_A1].sort());
+        expect(await visibleNoteAuthors(tx)).toEqual([PRO_A1]);
+      });
+    });
+
+    it('reads and remarks on their own tasks only', async () => {
+      await asSession(db, sessions.pro, async tx => {
+        expect(await visibleTasks(tx)).toEqual([PRO_A1_TASK]);
+        expect(await updatedRows(tx, `UPDATE todos SET remarks = 'Half the ward done' WHERE id = $1`, [PRO_A1_TASK])).toBe(1);
+        expect(await updatedRows(tx, `UPDATE todos SET remarks = 'Done' WHERE id = $1`, [COORDINATOR_B_TASK])).toBe(0);
+      });
+    });
+
+    it('cannot change anything but the remarks of their task', async () => {
+      for (const change of [
+        `text = 'Something easier'`,
+        `due_date = current_date + 30`,
+        `priority = 'low'`,
+        `created_by = '${PRO_A1}'`,
+        `assignee_id = '${PRO_A2}'`
+      ]) {
+        await expect(asSession(db, sessions.pro, tx => tx.query(`UPDATE todos SET ${change} WHERE id = $1`, [PRO_A1_TASK])))
+          .rejects.toThrow('PERMISSION_DENIED');
+      }
+    });
+
+    it('still asks for completion through request_task_completion', async () => {
+      await asSession(db, sessions.pro, async tx => {
+        await tx.query(`SELECT request_task_completion($1, 'Photos of every house')`, [PRO_A1_TASK]);
+        const { rows } = await tx.query<{ status: string }>('SELECT status FROM todos WHERE id = $1', [PRO_A1_TASK]);
+        expect(rows[0].status).toBe('requested');
+      });
+    });
+
+    it('cannot write daily notes directly', async () => {
+      await expect(asSession(db, sessions.pro, tx => tx.query(
+        `INSERT INTO daily_notes (user_id, mobile_number, date, activity) VALUES ($1, '9000000131', current_date - 1, 'Backdated')`,
+        [PRO_A1]
+      ))).rejects.toThrow(/row-level security/);
+    });
+  });
+});
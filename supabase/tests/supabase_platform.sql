@@ -0,0 +1,84 @@
+-- Stand-ins for the parts of the Supabase platform the migrations build on: the API roles, the
+-- extensions schema, and just enough of auth, storage, cron and realtime for the migrations to
+-- load. None of it behaves like the real services beyond what the tests need.
+
+CREATE ROLE anon NOLOGIN NOINHERIT;
+CREATE ROLE authenticated NOLOGIN NOINHERIT;
+CREATE ROLE service_role NOLOGIN NOINHERIT BYPASSRLS;
+GRANT anon, authenticated, service_role TO postgres;
+
+CREATE SCHEMA extensions;
+GRANT USAGE ON SCHEMA public, extensions TO anon, authenticated, service_role;
+
+-- Supabase grants the API roles everything in public and leaves access to row-level security
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated, service_role;
+
+-- Auth
+
+CREATE SCHEMA auth;
+CREATE TABLE auth.users (id UUID PRIMARY KEY);
+
+CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE SQL STABLE AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID
+$$;
+
+CREATE FUNCTION auth.role() RETURNS TEXT LANGUAGE SQL STABLE AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.role', true), '')
+$$;
+
+GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+
+-- Storage
+
+CREATE SCHEMA storage;
+
+CREATE TABLE storage.buckets (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  public BOOLEAN DEFAULT false,
+  file_size_limit BIGINT,
+  allowed_mime_types TEXT[],
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE storage.objects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id TEXT REFERENCES storage.buckets(id),
+  name TEXT,
+  owner UUID,
+  metadata JSONB,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+
+CREATE FUNCTION storage.foldername(name TEXT) RETURNS TEXT[] LANGUAGE SQL IMMUTABLE AS $$
+  SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1]
+$$;
+
+GRANT USAGE ON SCHEMA storage TO anon, authenticated, service_role;
+GRANT ALL ON ALL TABLES IN SCHEMA storage TO anon, authenticated, service_role;
+
+-- Cron: jobs are only recorded, never run
+
+CREATE SCHEMA cron;
+CREATE TABLE cron.job (jobid SERIAL PRIMARY KEY, jobname TEXT UNIQUE, schedule TEXT, command TEXT);
+
+CREATE FUNCTION cron.schedule(p_name TEXT, p_schedule TEXT, p_command TEXT) RETURNS BIGINT LANGUAGE SQL AS $$
+  INSERT INTO cron.job (jobname, schedule, command) VALUES (p_name, p_schedule, p_command)
+  ON CONFLICT (jobname) DO UPDATE SET schedule = EXCLUDED.schedule, command = EXCLUDED.command
+  RETURNING jobid
+$$;
+
+-- Realtime: broadcasts are only recorded
+
+CREATE SCHEMA realtime;
+CREATE TABLE realtime.messages (topic TEXT, event TEXT, payload JSONB, private BOOLEAN, inserted_at TIMESTAMPTZ DEFAULT now());
+
+CREATE FUNCTION realtime.send(payload JSONB, event TEXT, topic TEXT, private BOOLEAN DEFAULT true) RETURNS VOID LANGUAGE SQL AS $$
+  INSERT INTO realtime.messages (topic, event, payload, private) VALUES (topic, event, payload, private)
+$$;
+
+CREATE PUBLICATION supabase_realtime;
@@ -0,0 +1,186 @@
+import { PGlite, Transaction } from '@electric-sql/pglite';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { SessionHeaders, asSession, createAgentSession, createTestDatabase } from './database';
+
+const PRO_A1 = '00000000-0000-0000-0000-000000000131';
+const COORDINATOR_A = '00000000-0000-0000-0000-000000000101';
+const PRO_A1_TASK = '00000000-0000-0000-0000-000000000531';
+const COORDINATOR_B_TASK = '00000000-0000-0000-0000-000000000501';
+
+const taskStatus = async (tx: Transaction, taskId: string) => {
+  const { rows } = await tx.query<{ status: string; finished_at: string | null }>(
+    'SELECT status, finished_at FROM todos WHERE id = $1',
+    [taskId]
+  );
+  return rows[0];
+};
+
+describe('tasks', () => {
+  let db: PGlite;
+  let teamMember: SessionHeaders;
+  let pro: SessionHeaders;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    await db.exec(readFileSync(path.join(__dirname, 'fixtures.sql'), 'utf8'));
+
+    teamMember = { 'x-agent-session': await createAgentSession(db, '9000000911') };
+    pro = { 'x-agent-session': await createAgentSession(db, '9000000131') };
+  });
+
+  describe('status guard', () => {
+    it('rejects an agent finishing their task directly', async () => {
+      await expect(asSession(db, pro, tx => tx.query(`UPDATE todos SET status = 'finished' WHERE id = $1`, [PRO_A1_TASK])))
+        .rejects.toThrow('PERMISSION_DENIED');
+    });
+
+    it('rejects it on its own, without the remarks-only guard', async () => {
+      await db.transaction(async tx => {
+        await tx.exec('ALTER TABLE todos DISABLE TRIGGER guard_todos_agent_update');
+        await tx.query(`SELECT set_config('request.headers', $1, true)`, [JSON.stringify(pro)]);
+        await tx.exec('SET LOCAL ROLE anon');
+
+        await expect(tx.query(`UPDATE todos SET status = 'finished' WHERE id = $1`, [PRO_A1_TASK]))
+          .rejects.toThrow('PERMISSION_DENIED');
+        await tx.rollback();
+      });
+    });
+
+    it('lets a team admin finish a task directly', async () => {
+      await asSession(db, teamMember, async tx => {
+        await tx.query(`UPDATE todos SET status = 'finished' WHERE id = $1`, [PRO_A1_TASK]);
+        const task = await taskStatus(tx, PRO_A1_TASK);
+        expect(task.status).toBe('finished');
+        expect(task.finished_at).not.toBeNull();
+      });
+    });
+
+    it('does not let a team admin request completion directly', async () => {
+      await expect(asSession(db, teamMember, tx => tx.query(`UPDATE todos SET status = 'requested' WHERE id = $1`, [PRO_A1_TASK])))
+        .rejects.toThrow('INVALID_TRANSITION');
+    });
+  });
+
+  describe('search', () => {
+    const searchedTexts = async (tx: Transaction, search: string) => {
+      const { rows } = await tx.query<{ text: string }>('SELECT text FROM search_tasks(p_search => $1)', [search]);
+      return rows.map(row => row.text).sort();
+    };
+
+    it('matches % and _ literally', async () => {
+      await asSession(db, teamMember, async tx => {
+        await tx.query(`INSERT INTO todos (text) VALUES ('Collect 100% of forms'), ('Visit ward_1 office')`);
+
+        expect(await searchedTexts(tx, '%')).toEqual(['Collect 100% of forms']);
+        expect(await searchedTexts(tx, 'ward_1')).toEqual(['Visit ward_1 office']);
+        expect(await searchedTexts(tx, 'ward 1')).toEqual(['Survey ward 1']);
+      });
+    });
+  });
+
+  describe('recurring tasks', () => {
+    // Creates a daily series starting today with the given holder columns and runs the generator
+    const generatedHolders = async (tx: Transaction, holder: Record<string, string>) => {
+      const columns = Object.keys(holder);
+      const { rows: [template] } = await tx.query<{ id: string }>(
+        `INSERT INTO task_templates (text, recurrence, ${columns.join(', ')})
+         VALUES ('Visit ward 1', 'daily', ${columns.map((_, index) => `$${index + 1}`).join(', ')}) RETURNING id`,
+        Object.values(holder)
+      );
+      await tx.query('SELECT generate_recurring_tasks()');
+      const { rows } = await tx.query<{ assignee_type: string; assignee_id: string }>(
+        'SELECT assignee_type, assignee_id FROM todos WHERE template_id = $1',
+        [template.id]
+      );
+      return rows;
+    };
+
+    it('gives the tasks of a series the holder of the series', async () => {
+      await db.transaction(async tx => {
+        expect(await generatedHolders(tx, { assignee_type: 'pro', assignee_id: PRO_A1 }))
+          .toEqual([{ assignee_type: 'pro', assignee_id: PRO_A1 }]);
+        await tx.rollback();
+      });
+    });
+
+    it('still works the holder out from the team columns', async () => {
+      await db.transaction(async tx => {
+        expect(await generatedHolders(tx, { reassigned_to_coordinator: COORDINATOR_A }))
+          .toEqual([{ assignee_type: 'coordinator', assignee_id: COORDINATOR_A }]);
+        await tx.rollback();
+      });
+    });
+  });
+
+  describe('comments', () => {
+    // Upload a file as the app does, straight into the task-attachments bucket
+    const uploadFile = (tx: Transaction, path: string) =>
+      tx.query(`INSERT INTO storage.objects (bucket_id, name) VALUES ('task-attachments', $1)`, [path]);
+
+    const addComment = async (tx: Transaction, taskId: string, body: string, parentId: string | null = null, attachments: object[] = []) => {
+      const { rows } = await tx.query<{ id: string }>(
+        'SELECT add_task_comment($1, $2, $3, $4) AS id',
+        [taskId, body, parentId, JSON.stringify(attachments)]
+      );
+      return rows[0].id;
+    };
+
+    it('records the author from the session and keeps replies under the first comment', async () => {
+      await asSession(db, pro, async tx => {
+        const first = await addComment(tx, PRO_A1_TASK, 'Started with the east side');
+        const reply = await addComment(tx, PRO_A1_TASK, 'Half the houses done', first);
+        const replyToReply = await addComment(tx, PRO_A1_TASK, 'All done', reply);
+
+        const { rows } = await tx.query<{ id: string; parent_id: string | null; author_mobile: string }>(
+          'SELECT id, parent_id, author_mobile FROM todo_comments WHERE todo_id = $1',
+          [PRO_A1_TASK]
+        );
+        expect(rows.map(row => row.author_mobile)).toEqual(['9000000131', '9000000131', '9000000131']);
+        expect(rows.find(row => row.id === replyToReply)?.parent_id).toBe(first);
+      });
+    });
+
+    it('rejects an empty comment', async () => {
+      await expect(asSession(db, pro, tx => addComment(tx, PRO_A1_TASK, '  ')))
+        .rejects.toThrow('COMMENT_EMPTY');
+    });
+
+    it('does not let an agent comment on a task they cannot see', async () => {
+      await expect(asSession(db, pro, tx => addComment(tx, COORDINATOR_B_TASK, 'Can I help?')))
+        .rejects.toThrow('NOT_FOUND');
+    });
+
+    it('links files uploaded to the task folder', async () => {
+      await asSession(db, pro, async tx => {
+        const path = `${PRO_A1_TASK}/photo.jpg`;
+        await uploadFile(tx, path);
+        const commentId = await addComment(tx, PRO_A1_TASK, '', null, [{ path, file_name: 'photo.jpg', content_type: 'image/jpeg', size_bytes: 2048 }]);
+
+        const { rows } = await tx.query<{ storage_path: string; file_name: string }>(
+          'SELECT storage_path, file_name FROM todo_comment_attachments WHERE comment_id = $1',
+          [commentId]
+        );
+        expect(rows).toEqual([{ storage_path: path, file_name: 'photo.jpg' }]);
+      });
+    });
+
+    it('rejects files that were never uploaded', async () => {
+      await expect(asSession(db, pro, tx => addComment(tx, PRO_A1_TASK, 'Photo attached', null, [{ path: `${PRO_A1_TASK}/missing.jpg` }])))
+        .rejects.toThrow('INVALID_ATTACHMENT');
+    });
+
+    it("rejects files from another task's folder", async () => {
+      await expect(asSession(db, teamMember, async tx => {
+        await uploadFile(tx, `${COORDINATOR_B_TASK}/plan.pdf`);
+        return addComment(tx, PRO_A1_TASK, 'See the plan', null, [{ path: `${COORDINATOR_B_TASK}/plan.pdf` }]);
+      })).rejects.toThrow('INVALID_ATTACHMENT');
+    });
+
+    it('does not let an agent upload to a task they cannot see', async () => {
+      await expect(asSession(db, pro, tx => uploadFile(tx, `${COORDINATOR_B_TASK}/photo.jpg`)))
+        .rejects.toThrow(/row-level security/);
+    });
+  });
+});
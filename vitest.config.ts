@@ -0,0 +1,12 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config";
+
+export default defineConfig(configEnv => mergeConfig(viteConfig(configEnv), defineConfig({
+  test: {
+    include: ["src/**/*.test.ts", "supabase/tests/**/*.test.ts"],
+    environment: "node",
+    // The database tests build a fresh Postgres with every migration before they start
+    hookTimeout: 120000,
+    testTimeout: 30000,
+  },
+})));